@@ -64,3 +64,22 @@ export function useApiRequest() {
     return response.json();
   };
 }
+
+// Every item of a paginated list endpoint, following next_cursor until the last page
+export function useApiListRequest() {
+  const apiRequest = useApiRequest();
+
+  return async <T,>(endpoint: string): Promise<T[]> => {
+    const separator = endpoint.includes("?") ? "&" : "?";
+    const items: T[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await apiRequest(
+        `${endpoint}${separator}limit=500${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ""}`
+      );
+      items.push(...page.data);
+      cursor = page.pagination.next_cursor;
+    } while (cursor);
+    return items;
+  };
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import DashboardLayout from "@/components/dashboard-layout";
-import { useApiRequest } from "@/app/api-context";
+import { useApiListRequest, useApiRequest } from "@/app/api-context";
 import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -29,6 +29,7 @@ interface ApiKey {
 
 export default function ApiKeysPage() {
   const apiRequest = useApiRequest();
+  const apiListRequest = useApiListRequest();
   const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
   const [loading, setLoading] = useState(true);
   const [showGenerateForm, setShowGenerateForm] = useState(false);
@@ -40,8 +41,7 @@ export default function ApiKeysPage() {
 
   const fetchApiKeys = async () => {
     try {
-      const data = await apiRequest("/api_keys");
-      setApiKeys(data);
+      setApiKeys(await apiListRequest<ApiKey>("/api_keys"));
     } catch (error) {
       console.error("Failed to fetch API keys:", error);
     } finally {
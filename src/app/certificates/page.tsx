@@ -1,7 +1,7 @@
 "use client";
 
 import DashboardLayout from "@/components/dashboard-layout";
-import { useApiRequest } from "@/app/api-context";
+import { useApiListRequest, useApiRequest } from "@/app/api-context";
 import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -28,6 +28,7 @@ interface Certificate {
 
 export default function CertificatesPage() {
   const apiRequest = useApiRequest();
+  const apiListRequest = useApiListRequest();
   const [certificates, setCertificates] = useState<Certificate[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCreateForm, setShowCreateForm] = useState(false);
@@ -40,8 +41,7 @@ export default function CertificatesPage() {
 
   const fetchCertificates = async () => {
     try {
-      const data = await apiRequest("/certificates");
-      setCertificates(data);
+      setCertificates(await apiListRequest<Certificate>("/certificates"));
     } catch (error) {
       console.error("Failed to fetch certificates:", error);
     } finally {
@@ -1,7 +1,7 @@
 "use client";
 
 import DashboardLayout from "@/components/dashboard-layout";
-import { useApiRequest } from "@/app/api-context";
+import { useApiListRequest, useApiRequest } from "@/app/api-context";
 import { useEffect, useState } from "react";
 import { useParams } from "next/navigation";
 import { Button } from "@/components/ui/button";
@@ -29,21 +29,34 @@ interface DNSRecord {
   name: string;
   type: string;
   value: string;
+  values?: string[];
   ttl: number;
   priority?: number;
   weight?: number;
+  alias?: { hostedZoneId: string; evaluateTargetHealth: boolean } | null;
   source?: string;
   createdAt?: string;
   updatedAt?: string;
 }
 
+interface Delegation {
+  status: string;
+  error?: string | null;
+  checkedAt?: string | null;
+  expectedNameServers?: string[];
+  publicNameServers?: string[];
+}
+
 export default function DomainDetailPage() {
   const apiRequest = useApiRequest();
+  const apiListRequest = useApiListRequest();
   const params = useParams();
   const id = params?.id as string;
 
   const [domainName, setDomainName] = useState<string>("");
   const [records, setRecords] = useState<DNSRecord[]>([]);
+  const [delegation, setDelegation] = useState<Delegation | null>(null);
+  const [verifying, setVerifying] = useState(false);
   const [services, setServices] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -66,6 +79,11 @@ export default function DomainDetailPage() {
     try {
       const domain = await apiRequest(`/domains/${id}`);
       setDomainName(domain.name);
+      setDelegation({
+        status: domain.delegationStatus,
+        error: domain.delegationError,
+        checkedAt: domain.delegationCheckedAt,
+      });
 
       // DNS records are included in the domain response
       if (domain.dnsRecords) {
@@ -80,13 +98,33 @@ export default function DomainDetailPage() {
 
   const fetchServices = async () => {
     try {
-      const s = await apiRequest(`/services`);
-      setServices(s || []);
+      setServices(await apiListRequest("/services"));
     } catch (e) {
       console.error("Failed to load services", e);
     }
   };
 
+  const verifyDelegation = async () => {
+    setVerifying(true);
+    try {
+      const result = await apiRequest(`/domains/${id}/delegation/verify`, {
+        method: "POST",
+      });
+      setDelegation({
+        status: result.delegationStatus,
+        error: result.delegationError,
+        checkedAt: result.delegationCheckedAt,
+        expectedNameServers: result.expectedNameServers,
+        publicNameServers: result.publicNameServers,
+      });
+    } catch (e) {
+      console.error("Failed to verify delegation", e);
+      alert("Failed to verify delegation: " + String(e));
+    } finally {
+      setVerifying(false);
+    }
+  };
+
   const computePathFromRecord = (recordName: string, domain: string) => {
     const rn = recordName.replace(/\.$/, "");
     const d = domain.replace(/\.$/, "");
@@ -156,9 +194,64 @@ export default function DomainDetailPage() {
           </div>
         </div>
 
+        {delegation && (
+          <Card className="mb-6">
+            <CardHeader>
+              <div className="flex justify-between items-center">
+                <CardTitle>Delegation</CardTitle>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={verifyDelegation}
+                  disabled={verifying}
+                >
+                  {verifying ? "Verifying..." : "Verify Delegation"}
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <p>
+                Status:{" "}
+                <span
+                  className={
+                    delegation.status === "completed"
+                      ? "text-green-600 font-medium"
+                      : delegation.status === "failed"
+                        ? "text-red-600 font-medium"
+                        : "text-yellow-600 font-medium"
+                  }
+                >
+                  {delegation.status}
+                </span>
+                {delegation.checkedAt && (
+                  <span className="text-sm text-gray-500 ml-2">
+                    (checked {new Date(delegation.checkedAt).toLocaleString()})
+                  </span>
+                )}
+              </p>
+              {delegation.error && (
+                <p className="text-sm text-red-600">{delegation.error}</p>
+              )}
+              {delegation.expectedNameServers &&
+                delegation.expectedNameServers.length > 0 && (
+                  <div className="text-sm">
+                    <p className="text-gray-600">
+                      Nameservers to set at your registrar:
+                    </p>
+                    <ul className="font-mono">
+                      {delegation.expectedNameServers.map((ns) => (
+                        <li key={ns}>{ns}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+            </CardContent>
+          </Card>
+        )}
+
         <Card className="mb-6">
           <CardHeader>
-            <CardTitle>Route53 Records</CardTitle>
+            <CardTitle>DNS Records</CardTitle>
           </CardHeader>
           <CardContent>
             <Table>
@@ -176,7 +269,9 @@ export default function DomainDetailPage() {
                   <TableRow key={r.id || idx}>
                     <TableCell className="font-medium">{r.name}</TableCell>
                     <TableCell>{r.type}</TableCell>
-                    <TableCell>{r.value}</TableCell>
+                    <TableCell className="whitespace-pre-line">
+                      {r.alias ? `ALIAS ${r.value}` : (r.values ?? [r.value]).join("\n")}
+                    </TableCell>
                     <TableCell>{r.ttl}</TableCell>
                     <TableCell>
                       <div className="flex gap-2">
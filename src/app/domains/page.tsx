@@ -1,7 +1,7 @@
 "use client";
 
 import DashboardLayout from "@/components/dashboard-layout";
-import { useApiRequest } from "@/app/api-context";
+import { useApiListRequest, useApiRequest } from "@/app/api-context";
 import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -26,6 +26,8 @@ import {
 interface Domain {
   id: number;
   name: string;
+  delegationStatus?: string;
+  delegationError?: string | null;
   created_at: string;
   updated_at: string;
   // Add other domain fields as needed
@@ -33,6 +35,7 @@ interface Domain {
 
 export default function DomainsPage() {
   const apiRequest = useApiRequest();
+  const apiListRequest = useApiListRequest();
   const [domains, setDomains] = useState<Domain[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCreateForm, setShowCreateForm] = useState(false);
@@ -45,9 +48,7 @@ export default function DomainsPage() {
 
   const fetchDomains = async () => {
     try {
-      const data = await apiRequest("/domains");
-      // Backend returns { domains: [...] }
-      setDomains(data.domains || []);
+      setDomains(await apiListRequest<Domain>("/domains"));
     } catch (error) {
       console.error("Failed to fetch domains:", error);
     } finally {
@@ -204,6 +205,7 @@ export default function DomainsPage() {
               <TableRow>
                 <TableHead>ID</TableHead>
                 <TableHead>Domain Name</TableHead>
+                <TableHead>Delegation</TableHead>
                 <TableHead>Created</TableHead>
                 <TableHead>Updated</TableHead>
                 <TableHead>Actions</TableHead>
@@ -214,6 +216,9 @@ export default function DomainsPage() {
                 <TableRow key={domain.id}>
                   <TableCell className="font-medium">{domain.id}</TableCell>
                   <TableCell>{domain.name}</TableCell>
+                  <TableCell title={domain.delegationError ?? undefined}>
+                    {domain.delegationStatus}
+                  </TableCell>
                   <TableCell>
                     {new Date(domain.created_at).toLocaleDateString()}
                   </TableCell>
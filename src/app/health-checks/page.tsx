@@ -1,7 +1,7 @@
 "use client";
 
 import DashboardLayout from "@/components/dashboard-layout";
-import { useApiRequest } from "@/app/api-context";
+import { useApiListRequest, useApiRequest } from "@/app/api-context";
 import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -39,8 +39,10 @@ interface HealthCheckInvocation {
 
 export default function HealthChecksPage() {
   const apiRequest = useApiRequest();
+  const apiListRequest = useApiListRequest();
   const [healthChecks, setHealthChecks] = useState<HealthCheck[]>([]);
   const [invocations, setInvocations] = useState<HealthCheckInvocation[]>([]);
+  const [invocationsCursor, setInvocationsCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [editingCheck, setEditingCheck] = useState<HealthCheck | null>(null);
@@ -58,8 +60,7 @@ export default function HealthChecksPage() {
 
   const fetchHealthChecks = async () => {
     try {
-      const data = await apiRequest("/health_checks");
-      setHealthChecks(data);
+      setHealthChecks(await apiListRequest<HealthCheck>("/health_checks"));
     } catch (error) {
       console.error("Failed to fetch health checks:", error);
     } finally {
@@ -72,12 +73,26 @@ export default function HealthChecksPage() {
       const data = await apiRequest(
         `/health_check_invocations?health_check_id=${checkId}`
       );
-      setInvocations(data);
+      setInvocations(data.data);
+      setInvocationsCursor(data.pagination.next_cursor);
     } catch (error) {
       console.error("Failed to fetch invocations:", error);
     }
   };
 
+  const loadMoreInvocations = async (checkId: number) => {
+    if (!invocationsCursor) return;
+    try {
+      const data = await apiRequest(
+        `/health_check_invocations?health_check_id=${checkId}&cursor=${encodeURIComponent(invocationsCursor)}`
+      );
+      setInvocations((loaded) => [...loaded, ...data.data]);
+      setInvocationsCursor(data.pagination.next_cursor);
+    } catch (error) {
+      console.error("Failed to load more invocations:", error);
+    }
+  };
+
   const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
@@ -452,6 +467,16 @@ export default function HealthChecksPage() {
                   No invocations yet. The health check will start running soon.
                 </div>
               )}
+              {invocationsCursor && (
+                <div className="text-center pt-4">
+                  <Button
+                    variant="outline"
+                    onClick={() => loadMoreInvocations(selectedCheckId)}
+                  >
+                    Load more
+                  </Button>
+                </div>
+              )}
             </CardContent>
           </Card>
         )}
@@ -30,32 +30,16 @@ export default function Dashboard() {
 
     const fetchStats = async () => {
       try {
-        const [
-          domains,
-          routes,
-          services,
-          healthChecks,
-          certificates,
-          apiKeys,
-          requests,
-        ] = await Promise.all([
-          apiRequest("/domains"),
-          apiRequest("/routes"),
-          apiRequest("/services"),
-          apiRequest("/health_checks"),
-          apiRequest("/certificates"),
-          apiRequest("/api_keys"),
-          apiRequest("/requests"),
-        ]);
+        const summary = await apiRequest("/summary");
 
         setStats({
-          domains: Array.isArray(domains) ? domains.length : 0,
-          routes: Array.isArray(routes) ? routes.length : 0,
-          services: Array.isArray(services) ? services.length : 0,
-          healthChecks: Array.isArray(healthChecks) ? healthChecks.length : 0,
-          certificates: Array.isArray(certificates) ? certificates.length : 0,
-          apiKeys: Array.isArray(apiKeys) ? apiKeys.length : 0,
-          requests: Array.isArray(requests) ? requests.length : 0,
+          domains: summary.domains,
+          routes: summary.routes,
+          services: summary.services,
+          healthChecks: summary.health_checks,
+          certificates: summary.certificates,
+          apiKeys: summary.api_keys,
+          requests: summary.requests,
         });
       } catch (error) {
         console.error("Failed to fetch stats:", error);
@@ -26,9 +26,20 @@ interface Request {
   user_agent: string;
 }
 
+const HOUR_MS = 60 * 60 * 1000;
+const PERIOD_MS: Record<string, number> = {
+  "24h": 24 * HOUR_MS,
+  "7d": 7 * 24 * HOUR_MS,
+  "30d": 30 * 24 * HOUR_MS,
+};
+
 export default function RequestsPage() {
   const apiRequest = useApiRequest();
   const [requests, setRequests] = useState<Request[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  // Start of the period the loaded pages cover, so later pages come from the same window
+  const [from, setFrom] = useState("");
   const [loading, setLoading] = useState(true);
   const [selectedPeriod, setSelectedPeriod] = useState("24h"); // last 24h, 7d, 30d
 
@@ -38,8 +49,15 @@ export default function RequestsPage() {
 
   const fetchRequests = async () => {
     try {
-      const data = await apiRequest(`/requests?period=${selectedPeriod}`);
-      setRequests(data);
+      const periodStart = new Date(Date.now() - PERIOD_MS[selectedPeriod]).toISOString();
+      const [data, count] = await Promise.all([
+        apiRequest(`/requests?from=${encodeURIComponent(periodStart)}`),
+        apiRequest(`/requests/count?from=${encodeURIComponent(periodStart)}`),
+      ]);
+      setRequests(data.data);
+      setNextCursor(data.pagination.next_cursor);
+      setFrom(periodStart);
+      setTotal(count.count);
     } catch (error) {
       console.error("Failed to fetch requests:", error);
     } finally {
@@ -47,6 +65,19 @@ export default function RequestsPage() {
     }
   };
 
+  const loadMoreRequests = async () => {
+    if (!nextCursor) return;
+    try {
+      const data = await apiRequest(
+        `/requests?from=${encodeURIComponent(from)}&cursor=${encodeURIComponent(nextCursor)}`
+      );
+      setRequests((loaded) => [...loaded, ...data.data]);
+      setNextCursor(data.pagination.next_cursor);
+    } catch (error) {
+      console.error("Failed to load more requests:", error);
+    }
+  };
+
   if (loading) {
     return (
       <DashboardLayout>
@@ -97,7 +128,7 @@ export default function RequestsPage() {
           <CardContent>
             <div className="h-64 bg-muted rounded-md flex items-center justify-center">
               <p className="text-muted-foreground">
-                Chart placeholder - Total requests: {requests.length}
+                Chart placeholder - Total requests: {total}
               </p>
             </div>
           </CardContent>
@@ -122,7 +153,7 @@ export default function RequestsPage() {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {requests.slice(0, 50).map((request) => (
+                {requests.map((request) => (
                   <TableRow key={request.id}>
                     <TableCell className="font-medium">{request.id}</TableCell>
                     <TableCell>{request.domain}</TableCell>
@@ -154,6 +185,13 @@ export default function RequestsPage() {
                 No requests found. Traffic will appear here as it comes in.
               </div>
             )}
+            {nextCursor && (
+              <div className="text-center pt-4">
+                <Button variant="outline" onClick={loadMoreRequests}>
+                  Load more
+                </Button>
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -1,7 +1,7 @@
 "use client";
 
 import DashboardLayout from "@/components/dashboard-layout";
-import { useApiRequest } from "@/app/api-context";
+import { useApiListRequest, useApiRequest } from "@/app/api-context";
 import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -35,6 +35,7 @@ interface FormData {
 
 export default function RoutesPage() {
   const apiRequest = useApiRequest();
+  const apiListRequest = useApiListRequest();
   const [routes, setRoutes] = useState<Route[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCreateForm, setShowCreateForm] = useState(false);
@@ -52,8 +53,7 @@ export default function RoutesPage() {
 
   const fetchRoutes = async () => {
     try {
-      const data = await apiRequest("/routes");
-      setRoutes(data);
+      setRoutes(await apiListRequest<Route>("/routes"));
     } catch (error) {
       console.error("Failed to fetch routes:", error);
     } finally {
@@ -1,7 +1,7 @@
 "use client";
 
 import DashboardLayout from "@/components/dashboard-layout";
-import { useApiRequest } from "@/app/api-context";
+import { useApiListRequest, useApiRequest } from "@/app/api-context";
 import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -27,6 +27,7 @@ interface Service {
 
 export default function ServicesPage() {
   const apiRequest = useApiRequest();
+  const apiListRequest = useApiListRequest();
   const [services, setServices] = useState<Service[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCreateForm, setShowCreateForm] = useState(false);
@@ -39,8 +40,7 @@ export default function ServicesPage() {
 
   const fetchServices = async () => {
     try {
-      const data = await apiRequest("/services");
-      setServices(data);
+      setServices(await apiListRequest<Service>("/services"));
     } catch (error) {
       console.error("Failed to fetch services:", error);
     } finally {
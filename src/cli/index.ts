@@ -5,8 +5,11 @@ import fs from "fs";
 
 import { ssh, getConfig, setConfig, ensureSecurityGroup, ensureSshIngress, ensureSecurityGroupAttached, checkAWSCli, getRegion, describeInstance, describeSecurityGroup, getUserIp, ensureKeyPermissions, ensureTailscale, canPingCloudRouter, scpDownload, scpUpload, findRemoteDatabasePath, getIdentity, runConnectivityDiagnostics, ensureGit, ensureBun, createSSHSession, createSystemdService, enableSystemdService, startSystemdService, getSystemdStatus, ensureIamRoleAndInstanceProfile } from "./utils";
 import crypto from "crypto";
-import { Database } from "bun:sqlite";
 import os from "os";
+import { migrationStatus, rollbackMigrations, runMigrations } from "../lib/database/migration";
+import { openDatabase } from "../lib/database/connection";
+import appConfig from "../lib/config";
+import { ApiKeyModel } from "../lib/models/api-key";
 
 program.command("status").action(async () => {
   let config = getConfig();
@@ -331,12 +334,9 @@ program.command("generate-key")
 
     try {
       // Open DB and insert API key
-      const db = new Database(localDbPath);
+      const db = openDatabase(localDbPath);
       const key = crypto.randomBytes(32).toString('hex');
-      const timestamp = new Date().toISOString();
-      const stmt = db.prepare('INSERT INTO api_keys (key, created_at, updated_at) VALUES (?, ?, ?)');
-      const result = stmt.run(key, timestamp, timestamp);
-      const id = result.lastInsertRowid as number;
+      const id = new ApiKeyModel(db).create({ key });
       // Close DB (Bun sqlite does not require explicit close but we'll free variable)
       // Upload modified DB back to remote
       console.log(`Uploading modified DB back to ${remoteDbPath}...`);
@@ -354,6 +354,67 @@ program.command("generate-key")
     }
   });
 
+// Schema migrations act on a local database file; run them on the router with `cloud-router exec "bun src/cli/index.ts migrate ..."`
+const migrate = program.command("migrate").description("Show, apply or roll back database schema migrations");
+
+migrate.command("status")
+  .description("List migrations and whether each has been applied")
+  .option("-d, --database <path>", "Path to the SQLite database", appConfig.databasePath)
+  .action((options) => {
+    const db = openDatabase(options.database);
+    for (const migration of migrationStatus(db)) {
+      const state = migration.unknown
+        ? "unknown"
+        : migration.checksumMismatch
+          ? "changed since applied"
+          : migration.applied ? `applied ${migration.appliedAt}` : "pending";
+      console.log(`${String(migration.version).padStart(3, "0")} ${migration.name}: ${state}`);
+    }
+  });
+
+migrate.command("up")
+  .description("Apply every pending migration")
+  .option("-d, --database <path>", "Path to the SQLite database", appConfig.databasePath)
+  .action(async (options) => {
+    const db = openDatabase(options.database);
+    try {
+      const applied = await runMigrations(db);
+      if (applied.length === 0) {
+        console.log("Database is up to date");
+      }
+      for (const migration of applied) {
+        console.log(`Applied ${migration.version} (${migration.name})`);
+      }
+    } catch (error) {
+      console.error(`Migration failed: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+migrate.command("rollback")
+  .description("Roll back the most recent migrations")
+  .option("-d, --database <path>", "Path to the SQLite database", appConfig.databasePath)
+  .option("-s, --steps <n>", "How many migrations to roll back", "1")
+  .option("-t, --to <version>", "Roll back every migration after this version")
+  .action(async (options) => {
+    const db = openDatabase(options.database);
+    try {
+      const rolledBack = await rollbackMigrations(db, {
+        steps: parseInt(options.steps, 10),
+        to: options.to !== undefined ? parseInt(options.to, 10) : undefined,
+      });
+      if (rolledBack.length === 0) {
+        console.log("Nothing to roll back");
+      }
+      for (const migration of rolledBack) {
+        console.log(`Rolled back ${migration.version} (${migration.name})`);
+      }
+    } catch (error) {
+      console.error(`Rollback failed: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  });
+
 program
   .command("exec")
   .description("Execute a command on the remote cloud-router instance")
@@ -1,7 +1,54 @@
 const config = {
+  // SQLite database file; ":memory:" for a throwaway database
+  databasePath: process.env.DATABASE_PATH || "database.sqlite",
   appPort: process.env.APP_PORT || 3000,
   apiPort: process.env.API_PORT || 3001,
   routerPort: process.env.ROUTER_PORT || 3002,
+  routerHttpPort: process.env.ROUTER_HTTP_PORT || 80,
+  upstreamHost: process.env.UPSTREAM_HOST || "localhost",
+  // Public IP or hostname of the router; dedicated subdomain routes get DNS records pointing here
+  routerPublicAddress: process.env.ROUTER_PUBLIC_ADDRESS || "",
+  routeDnsTtl: Number(process.env.ROUTE_DNS_TTL) || 300,
+  certificateReloadIntervalMs: Number(process.env.CERTIFICATE_RELOAD_INTERVAL_MS) || 60000,
+  certificateDir: process.env.CERTIFICATE_DIR || "certificates",
+  acmeDirectoryUrl: process.env.ACME_DIRECTORY_URL || "https://acme-v02.api.letsencrypt.org/directory",
+  acmeEmail: process.env.ACME_EMAIL || "",
+  // Comma-separated resolvers used to confirm challenge propagation (e.g. a local DNS stand-in for Pebble)
+  acmeDnsResolvers: (process.env.ACME_DNS_RESOLVERS || "").split(",").map(s => s.trim()).filter(Boolean),
+  acmePropagationTimeoutMs: Number(process.env.ACME_PROPAGATION_TIMEOUT_MS) || 120000,
+  certificateRenewalWindowDays: Number(process.env.CERTIFICATE_RENEWAL_WINDOW_DAYS) || 30,
+  certificateExpiryAlertDays: Number(process.env.CERTIFICATE_EXPIRY_ALERT_DAYS) || 7,
+  certificateRenewalIntervalMs: Number(process.env.CERTIFICATE_RENEWAL_INTERVAL_MS) || 12 * 60 * 60 * 1000,
+  requestLogBatchSize: Number(process.env.REQUEST_LOG_BATCH_SIZE) || 100,
+  requestLogFlushIntervalMs: Number(process.env.REQUEST_LOG_FLUSH_INTERVAL_MS) || 1000,
+  requestLogMaxBufferSize: Number(process.env.REQUEST_LOG_MAX_BUFFER_SIZE) || 10000,
+  // Days to keep raw request logs once rolled up; services can set their own with request_log_retention_days
+  requestLogRetentionDays: Number(process.env.REQUEST_LOG_RETENTION_DAYS) || 7,
+  requestRollupHourlyRetentionDays: Number(process.env.REQUEST_ROLLUP_HOURLY_RETENTION_DAYS) || 90,
+  requestLogRetentionIntervalMs: Number(process.env.REQUEST_LOG_RETENTION_INTERVAL_MS) || 60 * 60 * 1000,
+  requestLogPruneBatchSize: Number(process.env.REQUEST_LOG_PRUNE_BATCH_SIZE) || 1000,
+  // Comma-separated resolvers for delegation checks; empty uses the system resolver
+  delegationDnsResolvers: (process.env.DELEGATION_DNS_RESOLVERS || "").split(",").map(s => s.trim()).filter(Boolean),
+  delegationCheckIntervalMs: Number(process.env.DELEGATION_CHECK_INTERVAL_MS) || 15 * 60 * 1000,
+  dnsDriftCheckIntervalMs: Number(process.env.DNS_DRIFT_CHECK_INTERVAL_MS) || 10 * 60 * 1000,
+  // Re-apply our records at the DNS provider when they drift, instead of only reporting it
+  dnsDriftReapply: process.env.DNS_DRIFT_REAPPLY === "true",
+  // How often to poll the DNS provider for a submitted change, and how long ?wait=true blocks for it to be INSYNC
+  dnsChangePollIntervalMs: Number(process.env.DNS_CHANGE_POLL_INTERVAL_MS) || 5000,
+  dnsChangeWaitTimeoutMs: Number(process.env.DNS_CHANGE_WAIT_TIMEOUT_MS) || 120000,
+  dnsChangeRefreshIntervalMs: Number(process.env.DNS_CHANGE_REFRESH_INTERVAL_MS) || 30000,
+  // Where hosted zones and records live: route53, cloudflare or rfc2136
+  dnsProvider: process.env.DNS_PROVIDER || "route53",
+  cloudflareApiToken: process.env.CLOUDFLARE_API_TOKEN || "",
+  cloudflareAccountId: process.env.CLOUDFLARE_ACCOUNT_ID || "",
+  rfc2136Server: process.env.RFC2136_SERVER || "",
+  rfc2136Port: Number(process.env.RFC2136_PORT) || 53,
+  // Comma-separated zones the RFC 2136 server is authoritative for
+  rfc2136Zones: (process.env.RFC2136_ZONES || "").split(",").map(s => s.trim()).filter(Boolean),
+  rfc2136TsigKeyName: process.env.RFC2136_TSIG_KEY_NAME || "",
+  rfc2136TsigSecret: process.env.RFC2136_TSIG_SECRET || "",
+  rfc2136TsigAlgorithm: process.env.RFC2136_TSIG_ALGORITHM || "hmac-sha256",
+  healthCheckTickIntervalMs: Number(process.env.HEALTH_CHECK_TICK_INTERVAL_MS) || 1000,
   tailscaleAuthKey: process.env.TAILSCALE_AUTH_KEY || "",
   tailscaleNetwork: process.env.TAILSCALE_NETWORK || "",
   tailscaleHostname: process.env.TAILSCALE_HOSTNAME || "",
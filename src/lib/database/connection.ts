@@ -0,0 +1,31 @@
+import { Database } from "bun:sqlite";
+import config from "../config";
+
+let shared: Database | undefined;
+
+/**
+ * Open a SQLite database with the settings every connection needs
+ */
+export const openDatabase = (path: string): Database => {
+  const db = new Database(path);
+  // SQLite only enforces foreign keys (and their cascades) on connections that ask for it
+  db.run("PRAGMA foreign_keys = ON");
+  return db;
+};
+
+/**
+ * The connection shared by the server's repositories, opened at config.databasePath on first use
+ */
+export const getDatabase = (): Database => {
+  shared ??= openDatabase(config.databasePath);
+  return shared;
+};
+
+/**
+ * Point the shared connection somewhere else, e.g. an isolated file or `:memory:` in tests. Repositories
+ * created without their own connection pick it up on their next query.
+ */
+export const setDatabase = (database: Database | string): Database => {
+  shared = typeof database === "string" ? openDatabase(database) : database;
+  return shared;
+};
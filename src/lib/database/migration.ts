@@ -1,151 +1,257 @@
 import { Database } from "bun:sqlite";
+import { createHash } from "crypto";
+import defaultMigrations from "./migrations";
+import { DNS_RECORDS_TABLE, REQUESTS_TABLE } from "./migrations/001-baseline";
 
-export const runMigrations = async (db: Database) => {
-  // Domains
-  db.query(`
-    CREATE TABLE IF NOT EXISTS domains (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL,
-      hosted_zone_id TEXT,
-      delegation_status TEXT DEFAULT 'pending' CHECK (delegation_status IN ('pending', 'completed', 'failed')),
-      zone_created_at TEXT,
-      last_synced_at TEXT,
-      record_count INTEGER DEFAULT 0,
-      created_at TEXT NOT NULL,
-      updated_at TEXT NOT NULL
-    );
-  `).run();
+export interface Migration {
+  // Applied in ascending order; each version is applied at most once
+  version: number;
+  name: string;
+  // SQL, possibly several statements
+  up: string;
+  // SQL undoing up, run on rollback
+  down: string;
+}
 
-  // DNS Records
-  db.query(`
-    CREATE TABLE IF NOT EXISTS dns_records (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      domain_id INTEGER NOT NULL,
-      name TEXT NOT NULL,
-      type TEXT NOT NULL CHECK (type IN ('A', 'AAAA', 'CNAME', 'MX', 'TXT', 'SRV', 'PTR')),
-      value TEXT NOT NULL,
-      ttl INTEGER NOT NULL DEFAULT 300,
-      priority INTEGER,
-      weight INTEGER,
-      source TEXT NOT NULL CHECK (source IN ('route53', 'cloud_router')),
-      created_by_route_id INTEGER,
-      created_at TEXT NOT NULL,
-      updated_at TEXT NOT NULL,
-      FOREIGN KEY (domain_id) REFERENCES domains(id) ON DELETE CASCADE,
-      FOREIGN KEY (created_by_route_id) REFERENCES routes(id)
-    );
-  `).run();
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  appliedAt?: string;
+  // The migration was edited after it was applied
+  checksumMismatch: boolean;
+  // Applied to the database but not known to this version of cloud-router
+  unknown: boolean;
+}
 
-  // Certificates
-  db.query(`
-    CREATE TABLE IF NOT EXISTS certificates (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      domain_id INTEGER NOT NULL,
-      path TEXT NOT NULL,
-      is_active BOOLEAN NOT NULL,
-      is_wildcard BOOLEAN NOT NULL,
-      is_custom_domain BOOLEAN NOT NULL,
-      is_dedicated_subdomain BOOLEAN NOT NULL,
-      is_path BOOLEAN NOT NULL,
-      is_redirect BOOLEAN NOT NULL,
-      expires_at TEXT NOT NULL,
-      created_at TEXT NOT NULL,
-      updated_at TEXT NOT NULL
-    );
-  `).run();
+export interface RollbackOptions {
+  // How many of the most recent migrations to roll back (default 1)
+  steps?: number;
+  // Roll back every migration after this version instead
+  to?: number;
+}
 
-  // Services
+interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: string;
+}
+
+export const migrationChecksum = (migration: Migration) =>
+  createHash('sha256').update(`${migration.up}\n${migration.down}`).digest('hex');
+
+const ensureMigrationsTable = (db: Database) => {
   db.query(`
-    CREATE TABLE IF NOT EXISTS services (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      domain_id INTEGER NOT NULL,
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
       name TEXT NOT NULL,
-      description TEXT NOT NULL,
-      port INTEGER NOT NULL,
-      is_active BOOLEAN NOT NULL,
-      created_at TEXT NOT NULL,
-      updated_at TEXT NOT NULL
+      checksum TEXT NOT NULL,
+      applied_at TEXT NOT NULL
     );
   `).run();
+};
 
-  // Health checks
-  db.query(`
-    CREATE TABLE IF NOT EXISTS health_checks (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      service_id INTEGER NOT NULL,
-      path TEXT NOT NULL,
-      interval INTEGER NOT NULL,
-      timeout INTEGER NOT NULL,
-      threshold INTEGER NOT NULL,
-      failure_threshold INTEGER NOT NULL,
-      success_threshold INTEGER NOT NULL,
-      status_code INTEGER NOT NULL,
-      created_at TEXT NOT NULL,
-      updated_at TEXT NOT NULL
-    );
-  `).run();
+const getAppliedMigrations = (db: Database): AppliedMigration[] => {
+  ensureMigrationsTable(db);
+  return db.query(`SELECT * FROM schema_migrations ORDER BY version`).all() as AppliedMigration[];
+};
 
-  // Health check invocations
-  db.query(`
-    CREATE TABLE IF NOT EXISTS health_check_invocations (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      health_check_id INTEGER NOT NULL,
-      status TEXT NOT NULL,
-      response_time INTEGER NOT NULL,
-      created_at TEXT NOT NULL,
-      updated_at TEXT NOT NULL
-    );
-  `).run();
+const sortMigrations = (migrations: Migration[]) => [...migrations].sort((a, b) => a.version - b.version);
 
-  // Routes
-  db.query(`
-    CREATE TABLE IF NOT EXISTS routes (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      domain_id INTEGER NOT NULL,
-      service_id INTEGER NOT NULL,
-      path TEXT NOT NULL,
-      is_active BOOLEAN NOT NULL,
-      is_dedicated_subdomain BOOLEAN NOT NULL,
-      is_path BOOLEAN NOT NULL,
-      created_at TEXT NOT NULL,
-      updated_at TEXT NOT NULL
-    );
-  `).run();
+// CREATE TABLE IF NOT EXISTS never alters an existing table, so columns added before versioned migrations need adding explicitly
+const addColumnIfMissing = (db: Database, table: string, column: string, definition: string) => {
+  const columns = db.query(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (columns.length > 0 && !columns.some(existing => existing.name === column)) {
+    db.query(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`).run();
+  }
+};
 
-  // Requests
-  db.query(`
-    CREATE TABLE IF NOT EXISTS requests (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      service_id INTEGER NOT NULL,
-      url TEXT NOT NULL,
-      method TEXT NOT NULL,
-      status TEXT NOT NULL,
-      response_time INTEGER NOT NULL,
-      user_agent TEXT NOT NULL,
-      ip_address TEXT NOT NULL,
-      route_id INTEGER NOT NULL,
-      created_at TEXT NOT NULL,
-      updated_at TEXT NOT NULL
-    );
-  `).run();
+// Requests that match no route are logged too, so service_id and route_id became nullable.
+// SQLite can't drop NOT NULL in place, so older databases get the table rebuilt.
+const rebuildRequestsTableIfRouteRequired = (db: Database) => {
+  const columns = db.query(`PRAGMA table_info(requests)`).all() as { name: string; notnull: number }[];
+  if (!columns.some(column => column.name === 'route_id' && column.notnull)) return;
 
-  // Indexes
-  db.query(`CREATE INDEX IF NOT EXISTS idx_domains_name ON domains(name);`).run();
-  db.query(`CREATE INDEX IF NOT EXISTS idx_routes_domain_service ON routes(domain_id, service_id);`).run();
-  db.query(`CREATE INDEX IF NOT EXISTS idx_requests_created_at ON requests(created_at);`).run();
-  db.query(`CREATE INDEX IF NOT EXISTS idx_requests_service_id ON requests(service_id);`).run();
-  db.query(`CREATE INDEX IF NOT EXISTS idx_dns_records_domain_id ON dns_records(domain_id);`).run();
-  db.query(`CREATE INDEX IF NOT EXISTS idx_dns_records_created_by_route_id ON dns_records(created_by_route_id);`).run();
+  const columnNames = 'id, service_id, url, method, status, response_time, user_agent, ip_address, route_id, created_at, updated_at';
+  db.query(`ALTER TABLE requests RENAME TO requests_old`).run();
+  db.query(REQUESTS_TABLE).run();
+  db.query(`INSERT INTO requests (${columnNames}) SELECT ${columnNames} FROM requests_old`).run();
+  db.query(`DROP TABLE requests_old`).run();
+};
 
-  // Api keys
-  // Temporary until we have a proper auth system
-  db.query(`
-    CREATE TABLE IF NOT EXISTS api_keys (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      key TEXT NOT NULL,
-      created_at TEXT NOT NULL,
-      updated_at TEXT NOT NULL,
-      revoked_at TEXT
-    );
-  `).run();
-};
\ No newline at end of file
+// The type CHECK constraint gained CAA, DS, NS and SOA, and alias columns were added alongside.
+// As with requests, SQLite can't change a CHECK constraint in place, so older databases get the table rebuilt.
+const rebuildDNSRecordsTableIfTypesRestricted = (db: Database) => {
+  const table = db.query(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'dns_records'`).get() as { sql: string } | null;
+  if (!table || table.sql.includes("'CAA'")) return;
+
+  const columnNames = 'id, domain_id, name, type, value, ttl, priority, weight, source, created_by_route_id, created_at, updated_at';
+  db.query(`ALTER TABLE dns_records RENAME TO dns_records_old`).run();
+  db.query(DNS_RECORDS_TABLE).run();
+  db.query(`INSERT INTO dns_records (${columnNames}) SELECT ${columnNames} FROM dns_records_old`).run();
+  db.query(`DROP TABLE dns_records_old`).run();
+};
+
+/**
+ * Bring a database created before versioned migrations up to the baseline schema. The baseline only
+ * creates missing tables, so the columns and constraints older releases added in place are applied here.
+ */
+const upgradeLegacySchema = (db: Database) => {
+  addColumnIfMissing(db, 'domains', 'hsts_enabled', 'BOOLEAN NOT NULL DEFAULT 0');
+  addColumnIfMissing(db, 'domains', 'hsts_max_age', 'INTEGER NOT NULL DEFAULT 31536000');
+  addColumnIfMissing(db, 'domains', 'hsts_include_subdomains', 'BOOLEAN NOT NULL DEFAULT 0');
+  addColumnIfMissing(db, 'domains', 'hsts_preload', 'BOOLEAN NOT NULL DEFAULT 0');
+  addColumnIfMissing(db, 'domains', 'delegation_error', 'TEXT');
+  addColumnIfMissing(db, 'domains', 'delegation_checked_at', 'TEXT');
+
+  rebuildDNSRecordsTableIfTypesRestricted(db);
+  addColumnIfMissing(db, 'dns_records', 'change_id', 'INTEGER');
+
+  addColumnIfMissing(db, 'certificates', 'challenge_type', `TEXT NOT NULL DEFAULT 'dns-01' CHECK (challenge_type IN ('dns-01', 'http-01'))`);
+
+  addColumnIfMissing(db, 'services', 'health_status', `TEXT NOT NULL DEFAULT 'unknown' CHECK (health_status IN ('unknown', 'up', 'down'))`);
+  addColumnIfMissing(db, 'services', 'health_status_changed_at', 'TEXT');
+
+  addColumnIfMissing(db, 'health_checks', 'state', `TEXT NOT NULL DEFAULT 'unknown' CHECK (state IN ('unknown', 'up', 'down'))`);
+  addColumnIfMissing(db, 'health_checks', 'consecutive_successes', 'INTEGER NOT NULL DEFAULT 0');
+  addColumnIfMissing(db, 'health_checks', 'consecutive_failures', 'INTEGER NOT NULL DEFAULT 0');
+  addColumnIfMissing(db, 'health_checks', 'last_checked_at', 'TEXT');
+
+  rebuildRequestsTableIfRouteRequired(db);
+};
+
+// Rebuilding a table drops a table others reference, which with foreign keys on would cascade or fail.
+// The pragma is ignored inside a transaction, so it's switched off around each migration rather than within it.
+const withForeignKeysOff = (db: Database, fn: () => void) => {
+  const { foreign_keys } = db.query('PRAGMA foreign_keys').get() as { foreign_keys: number };
+  db.run('PRAGMA foreign_keys = OFF');
+  try {
+    fn();
+  } finally {
+    if (foreign_keys) db.run('PRAGMA foreign_keys = ON');
+  }
+};
+
+interface ForeignKeyViolation {
+  table: string;
+  rowid: number;
+  parent: string;
+  fkid: number;
+}
+
+const foreignKeyViolations = (db: Database) =>
+  db.query('PRAGMA foreign_key_check').all() as ForeignKeyViolation[];
+
+const violationKey = (violation: ForeignKeyViolation) => `${violation.table}:${violation.rowid}:${violation.fkid}`;
+
+/**
+ * Fail a migration that leaves rows pointing at missing parents, listing them. Rows that were already dangling
+ * before it ran (legacy databases predate enforcement) are left to the migration that declares their keys.
+ */
+const assertNoNewForeignKeyViolations = (db: Database, migration: Migration, before: ForeignKeyViolation[]) => {
+  const existing = new Set(before.map(violationKey));
+  const introduced = foreignKeyViolations(db).filter(violation => !existing.has(violationKey(violation)));
+  if (introduced.length > 0) {
+    const rows = introduced.map(violation => `${violation.table} row ${violation.rowid} -> missing ${violation.parent}`);
+    throw new Error(`Migration ${migration.version} (${migration.name}) would leave rows referencing missing parents: ${rows.join(', ')}. Fix or delete them and run the migrations again.`);
+  }
+};
+
+/**
+ * Refuse to run against a database whose history doesn't match the migrations shipped with this release
+ */
+const verifyAppliedMigrations = (applied: AppliedMigration[], migrations: Migration[]) => {
+  const known = new Map(migrations.map(migration => [migration.version, migration]));
+  for (const row of applied) {
+    const migration = known.get(row.version);
+    if (!migration) {
+      throw new Error(`Database has migration ${row.version} (${row.name}) applied, which this version of cloud-router doesn't know about`);
+    }
+    if (migrationChecksum(migration) !== row.checksum) {
+      throw new Error(`Migration ${row.version} (${row.name}) has changed since it was applied`);
+    }
+  }
+};
+
+/**
+ * Apply every pending migration in version order, each in its own transaction. Returns the migrations applied.
+ */
+export const runMigrations = async (db: Database, migrations: Migration[] = defaultMigrations): Promise<Migration[]> => {
+  const applied = getAppliedMigrations(db);
+  verifyAppliedMigrations(applied, migrations);
+
+  const appliedVersions = new Set(applied.map(row => row.version));
+  const pending = sortMigrations(migrations).filter(migration => !appliedVersions.has(migration.version));
+
+  const insert = db.prepare(`INSERT INTO schema_migrations (version, name, checksum, applied_at) VALUES (?, ?, ?, ?)`);
+  for (const migration of pending) {
+    withForeignKeysOff(db, db.transaction(() => {
+      if (applied.length === 0 && migration === pending[0]) {
+        upgradeLegacySchema(db);
+      }
+      const violationsBefore = foreignKeyViolations(db);
+      db.run(migration.up);
+      assertNoNewForeignKeyViolations(db, migration, violationsBefore);
+      insert.run(migration.version, migration.name, migrationChecksum(migration), new Date().toISOString());
+    }));
+  }
+
+  return pending;
+};
+
+/**
+ * Roll back the most recent migrations, running each one's down SQL in its own transaction. Returns the
+ * migrations rolled back, newest first.
+ */
+export const rollbackMigrations = async (db: Database, options: RollbackOptions = {}, migrations: Migration[] = defaultMigrations): Promise<Migration[]> => {
+  const applied = getAppliedMigrations(db);
+  verifyAppliedMigrations(applied, migrations);
+
+  const newestFirst = [...applied].reverse();
+  const targets = options.to !== undefined
+    ? newestFirst.filter(row => row.version > options.to!)
+    : newestFirst.slice(0, options.steps ?? 1);
+
+  const known = new Map(migrations.map(migration => [migration.version, migration]));
+  const remove = db.prepare(`DELETE FROM schema_migrations WHERE version = ?`);
+  const rolledBack: Migration[] = [];
+  for (const row of targets) {
+    const migration = known.get(row.version)!;
+    withForeignKeysOff(db, db.transaction(() => {
+      db.run(migration.down);
+      remove.run(migration.version);
+    }));
+    rolledBack.push(migration);
+  }
+
+  return rolledBack;
+};
+
+/**
+ * Every known migration with whether it has been applied, plus any applied migration this release doesn't know
+ */
+export const migrationStatus = (db: Database, migrations: Migration[] = defaultMigrations): MigrationStatus[] => {
+  const applied = new Map(getAppliedMigrations(db).map(row => [row.version, row]));
+
+  const statuses: MigrationStatus[] = sortMigrations(migrations).map(migration => {
+    const row = applied.get(migration.version);
+    return {
+      version: migration.version,
+      name: migration.name,
+      applied: !!row,
+      appliedAt: row?.applied_at,
+      checksumMismatch: !!row && row.checksum !== migrationChecksum(migration),
+      unknown: false,
+    };
+  });
+
+  const knownVersions = new Set(migrations.map(migration => migration.version));
+  for (const row of applied.values()) {
+    if (!knownVersions.has(row.version)) {
+      statuses.push({ version: row.version, name: row.name, applied: true, appliedAt: row.applied_at, checksumMismatch: false, unknown: true });
+    }
+  }
+
+  return statuses.sort((a, b) => a.version - b.version);
+};
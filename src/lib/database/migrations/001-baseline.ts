@@ -0,0 +1,248 @@
+import type { Migration } from '../migration';
+
+// The dns_records and requests tables are also rebuilt from these when databases from before versioned migrations are adopted
+export const DNS_RECORDS_TABLE = `
+CREATE TABLE IF NOT EXISTS dns_records (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  domain_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('A', 'AAAA', 'CAA', 'CNAME', 'DS', 'MX', 'NS', 'PTR', 'SOA', 'SRV', 'TXT')),
+  value TEXT NOT NULL,
+  ttl INTEGER NOT NULL DEFAULT 300,
+  priority INTEGER,
+  weight INTEGER,
+  alias_hosted_zone_id TEXT,
+  alias_evaluate_target_health BOOLEAN,
+  change_id INTEGER,
+  source TEXT NOT NULL CHECK (source IN ('route53', 'cloud_router')),
+  created_by_route_id INTEGER,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (domain_id) REFERENCES domains(id) ON DELETE CASCADE,
+  FOREIGN KEY (created_by_route_id) REFERENCES routes(id)
+)`;
+
+export const REQUESTS_TABLE = `
+CREATE TABLE IF NOT EXISTS requests (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  service_id INTEGER,
+  url TEXT NOT NULL,
+  method TEXT NOT NULL,
+  status TEXT NOT NULL,
+  response_time INTEGER NOT NULL,
+  user_agent TEXT NOT NULL,
+  ip_address TEXT NOT NULL,
+  route_id INTEGER,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+)`;
+
+/**
+ * The schema as it stood when versioned migrations were introduced. Tables are created IF NOT EXISTS so
+ * databases set up before then can be adopted at this version.
+ */
+const baseline: Migration = {
+  version: 1,
+  name: 'baseline',
+  up: `
+  -- Domains
+  CREATE TABLE IF NOT EXISTS domains (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    hosted_zone_id TEXT,
+    delegation_status TEXT DEFAULT 'pending' CHECK (delegation_status IN ('pending', 'completed', 'failed')),
+    zone_created_at TEXT,
+    last_synced_at TEXT,
+    record_count INTEGER DEFAULT 0,
+    hsts_enabled BOOLEAN NOT NULL DEFAULT 0,
+    hsts_max_age INTEGER NOT NULL DEFAULT 31536000,
+    hsts_include_subdomains BOOLEAN NOT NULL DEFAULT 0,
+    hsts_preload BOOLEAN NOT NULL DEFAULT 0,
+    delegation_error TEXT,
+    delegation_checked_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  -- DNS records
+  ${DNS_RECORDS_TABLE};
+
+  -- DNS provider changes, so callers can wait for Route53 to report them INSYNC
+  CREATE TABLE IF NOT EXISTS dns_changes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    domain_id INTEGER NOT NULL,
+    provider TEXT NOT NULL,
+    provider_change_id TEXT,
+    status TEXT NOT NULL CHECK (status IN ('PENDING', 'INSYNC')),
+    description TEXT NOT NULL,
+    submitted_at TEXT NOT NULL,
+    synced_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    FOREIGN KEY (domain_id) REFERENCES domains(id) ON DELETE CASCADE
+  );
+
+  -- Certificates
+  CREATE TABLE IF NOT EXISTS certificates (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    domain_id INTEGER NOT NULL,
+    path TEXT NOT NULL,
+    is_active BOOLEAN NOT NULL,
+    is_wildcard BOOLEAN NOT NULL,
+    is_custom_domain BOOLEAN NOT NULL,
+    is_dedicated_subdomain BOOLEAN NOT NULL,
+    is_path BOOLEAN NOT NULL,
+    is_redirect BOOLEAN NOT NULL,
+    challenge_type TEXT NOT NULL DEFAULT 'dns-01' CHECK (challenge_type IN ('dns-01', 'http-01')),
+    expires_at TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  -- Certificate renewal attempts
+  CREATE TABLE IF NOT EXISTS certificate_renewals (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    certificate_id INTEGER NOT NULL,
+    trigger TEXT NOT NULL CHECK (trigger IN ('scheduled', 'manual')),
+    status TEXT NOT NULL CHECK (status IN ('in_progress', 'succeeded', 'failed')),
+    error TEXT,
+    previous_expires_at TEXT,
+    new_expires_at TEXT,
+    completed_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  -- Services
+  CREATE TABLE IF NOT EXISTS services (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    domain_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT NOT NULL,
+    port INTEGER NOT NULL,
+    is_active BOOLEAN NOT NULL,
+    health_status TEXT NOT NULL DEFAULT 'unknown' CHECK (health_status IN ('unknown', 'up', 'down')),
+    health_status_changed_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  -- Health checks
+  CREATE TABLE IF NOT EXISTS health_checks (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    service_id INTEGER NOT NULL,
+    path TEXT NOT NULL,
+    interval INTEGER NOT NULL,
+    timeout INTEGER NOT NULL,
+    threshold INTEGER NOT NULL,
+    failure_threshold INTEGER NOT NULL,
+    success_threshold INTEGER NOT NULL,
+    status_code INTEGER NOT NULL,
+    state TEXT NOT NULL DEFAULT 'unknown' CHECK (state IN ('unknown', 'up', 'down')),
+    consecutive_successes INTEGER NOT NULL DEFAULT 0,
+    consecutive_failures INTEGER NOT NULL DEFAULT 0,
+    last_checked_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  -- Health check invocations
+  CREATE TABLE IF NOT EXISTS health_check_invocations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    health_check_id INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    response_time INTEGER NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  -- Routes
+  CREATE TABLE IF NOT EXISTS routes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    domain_id INTEGER NOT NULL,
+    service_id INTEGER NOT NULL,
+    path TEXT NOT NULL,
+    is_active BOOLEAN NOT NULL,
+    is_dedicated_subdomain BOOLEAN NOT NULL,
+    is_path BOOLEAN NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  -- Requests
+  ${REQUESTS_TABLE};
+
+  -- Alert channels
+  CREATE TABLE IF NOT EXISTS alert_channels (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('webhook', 'slack', 'email')),
+    config TEXT NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT 1,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  -- Which channels each service alerts to
+  CREATE TABLE IF NOT EXISTS service_alert_channels (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    service_id INTEGER NOT NULL,
+    alert_channel_id INTEGER NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    UNIQUE (service_id, alert_channel_id)
+  );
+
+  -- Alerts sent (or attempted) per channel
+  CREATE TABLE IF NOT EXISTS alerts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    service_id INTEGER,
+    alert_channel_id INTEGER NOT NULL,
+    event TEXT NOT NULL CHECK (event IN ('down', 'up', 'test')),
+    status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+    message TEXT NOT NULL,
+    error TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  -- API keys, temporary until we have a proper auth system
+  CREATE TABLE IF NOT EXISTS api_keys (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    key TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    revoked_at TEXT
+  );
+
+  -- Indexes
+  CREATE INDEX IF NOT EXISTS idx_domains_name ON domains(name);
+  CREATE INDEX IF NOT EXISTS idx_routes_domain_service ON routes(domain_id, service_id);
+  CREATE INDEX IF NOT EXISTS idx_requests_created_at ON requests(created_at);
+  CREATE INDEX IF NOT EXISTS idx_requests_service_id ON requests(service_id);
+  CREATE INDEX IF NOT EXISTS idx_dns_records_domain_id ON dns_records(domain_id);
+  CREATE INDEX IF NOT EXISTS idx_dns_records_created_by_route_id ON dns_records(created_by_route_id);
+  CREATE INDEX IF NOT EXISTS idx_dns_changes_status ON dns_changes(status);
+  CREATE INDEX IF NOT EXISTS idx_health_check_invocations_health_check_id ON health_check_invocations(health_check_id);
+  CREATE INDEX IF NOT EXISTS idx_certificate_renewals_certificate_id ON certificate_renewals(certificate_id);
+  CREATE INDEX IF NOT EXISTS idx_alerts_service_id ON alerts(service_id);
+`,
+  down: `
+  DROP TABLE IF EXISTS api_keys;
+  DROP TABLE IF EXISTS alerts;
+  DROP TABLE IF EXISTS service_alert_channels;
+  DROP TABLE IF EXISTS alert_channels;
+  DROP TABLE IF EXISTS requests;
+  DROP TABLE IF EXISTS routes;
+  DROP TABLE IF EXISTS health_check_invocations;
+  DROP TABLE IF EXISTS health_checks;
+  DROP TABLE IF EXISTS services;
+  DROP TABLE IF EXISTS certificate_renewals;
+  DROP TABLE IF EXISTS certificates;
+  DROP TABLE IF EXISTS dns_changes;
+  DROP TABLE IF EXISTS dns_records;
+  DROP TABLE IF EXISTS domains;
+`,
+};
+
+export default baseline;
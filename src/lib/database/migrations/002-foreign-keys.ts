@@ -0,0 +1,294 @@
+import type { Migration } from '../migration';
+
+interface TableRebuild {
+  table: string;
+  // Column definitions and table constraints other than foreign keys
+  definition: string;
+  columnNames: string;
+  foreignKeys: string[];
+  // The foreign keys the table had before, restored on rollback
+  previousForeignKeys: string[];
+  indexes: string[];
+  previousIndexes: string[];
+}
+
+// SQLite can't add a foreign key to an existing table, so each table is recreated and its rows copied across
+const rebuildTable = (table: string, definition: string, foreignKeys: string[], columnNames: string, indexes: string[]) => `
+  CREATE TABLE ${table}_new (
+    ${[definition.trim(), ...foreignKeys].join(',\n    ')}
+  );
+  INSERT INTO ${table}_new (${columnNames}) SELECT ${columnNames} FROM ${table};
+  DROP TABLE ${table};
+  ALTER TABLE ${table}_new RENAME TO ${table};
+  ${indexes.map(index => `${index};`).join('\n  ')}
+`;
+
+const tables: TableRebuild[] = [
+  {
+    table: 'services',
+    definition: `
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    domain_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT NOT NULL,
+    port INTEGER NOT NULL,
+    is_active BOOLEAN NOT NULL,
+    health_status TEXT NOT NULL DEFAULT 'unknown' CHECK (health_status IN ('unknown', 'up', 'down')),
+    health_status_changed_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL`,
+    columnNames: 'id, domain_id, name, description, port, is_active, health_status, health_status_changed_at, created_at, updated_at',
+    foreignKeys: ['FOREIGN KEY (domain_id) REFERENCES domains(id) ON DELETE RESTRICT'],
+    previousForeignKeys: [],
+    indexes: ['CREATE INDEX IF NOT EXISTS idx_services_domain_id ON services(domain_id)'],
+    previousIndexes: [],
+  },
+  {
+    table: 'routes',
+    definition: `
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    domain_id INTEGER NOT NULL,
+    service_id INTEGER NOT NULL,
+    path TEXT NOT NULL,
+    is_active BOOLEAN NOT NULL,
+    is_dedicated_subdomain BOOLEAN NOT NULL,
+    is_path BOOLEAN NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL`,
+    columnNames: 'id, domain_id, service_id, path, is_active, is_dedicated_subdomain, is_path, created_at, updated_at',
+    foreignKeys: [
+      'FOREIGN KEY (domain_id) REFERENCES domains(id) ON DELETE RESTRICT',
+      'FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE RESTRICT',
+    ],
+    previousForeignKeys: [],
+    indexes: [
+      'CREATE INDEX IF NOT EXISTS idx_routes_domain_service ON routes(domain_id, service_id)',
+      'CREATE INDEX IF NOT EXISTS idx_routes_service_id ON routes(service_id)',
+    ],
+    previousIndexes: ['CREATE INDEX IF NOT EXISTS idx_routes_domain_service ON routes(domain_id, service_id)'],
+  },
+  {
+    table: 'certificates',
+    definition: `
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    domain_id INTEGER NOT NULL,
+    path TEXT NOT NULL,
+    is_active BOOLEAN NOT NULL,
+    is_wildcard BOOLEAN NOT NULL,
+    is_custom_domain BOOLEAN NOT NULL,
+    is_dedicated_subdomain BOOLEAN NOT NULL,
+    is_path BOOLEAN NOT NULL,
+    is_redirect BOOLEAN NOT NULL,
+    challenge_type TEXT NOT NULL DEFAULT 'dns-01' CHECK (challenge_type IN ('dns-01', 'http-01')),
+    expires_at TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL`,
+    columnNames: 'id, domain_id, path, is_active, is_wildcard, is_custom_domain, is_dedicated_subdomain, is_path, is_redirect, challenge_type, expires_at, created_at, updated_at',
+    foreignKeys: ['FOREIGN KEY (domain_id) REFERENCES domains(id) ON DELETE RESTRICT'],
+    previousForeignKeys: [],
+    indexes: ['CREATE INDEX IF NOT EXISTS idx_certificates_domain_id ON certificates(domain_id)'],
+    previousIndexes: [],
+  },
+  {
+    table: 'certificate_renewals',
+    definition: `
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    certificate_id INTEGER NOT NULL,
+    trigger TEXT NOT NULL CHECK (trigger IN ('scheduled', 'manual')),
+    status TEXT NOT NULL CHECK (status IN ('in_progress', 'succeeded', 'failed')),
+    error TEXT,
+    previous_expires_at TEXT,
+    new_expires_at TEXT,
+    completed_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL`,
+    columnNames: 'id, certificate_id, trigger, status, error, previous_expires_at, new_expires_at, completed_at, created_at, updated_at',
+    foreignKeys: ['FOREIGN KEY (certificate_id) REFERENCES certificates(id) ON DELETE CASCADE'],
+    previousForeignKeys: [],
+    indexes: ['CREATE INDEX IF NOT EXISTS idx_certificate_renewals_certificate_id ON certificate_renewals(certificate_id)'],
+    previousIndexes: ['CREATE INDEX IF NOT EXISTS idx_certificate_renewals_certificate_id ON certificate_renewals(certificate_id)'],
+  },
+  {
+    table: 'health_checks',
+    definition: `
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    service_id INTEGER NOT NULL,
+    path TEXT NOT NULL,
+    interval INTEGER NOT NULL,
+    timeout INTEGER NOT NULL,
+    threshold INTEGER NOT NULL,
+    failure_threshold INTEGER NOT NULL,
+    success_threshold INTEGER NOT NULL,
+    status_code INTEGER NOT NULL,
+    state TEXT NOT NULL DEFAULT 'unknown' CHECK (state IN ('unknown', 'up', 'down')),
+    consecutive_successes INTEGER NOT NULL DEFAULT 0,
+    consecutive_failures INTEGER NOT NULL DEFAULT 0,
+    last_checked_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL`,
+    columnNames: 'id, service_id, path, interval, timeout, threshold, failure_threshold, success_threshold, status_code, state, consecutive_successes, consecutive_failures, last_checked_at, created_at, updated_at',
+    foreignKeys: ['FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE CASCADE'],
+    previousForeignKeys: [],
+    indexes: ['CREATE INDEX IF NOT EXISTS idx_health_checks_service_id ON health_checks(service_id)'],
+    previousIndexes: [],
+  },
+  {
+    table: 'health_check_invocations',
+    definition: `
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    health_check_id INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    response_time INTEGER NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL`,
+    columnNames: 'id, health_check_id, status, response_time, created_at, updated_at',
+    foreignKeys: ['FOREIGN KEY (health_check_id) REFERENCES health_checks(id) ON DELETE CASCADE'],
+    previousForeignKeys: [],
+    indexes: ['CREATE INDEX IF NOT EXISTS idx_health_check_invocations_health_check_id ON health_check_invocations(health_check_id)'],
+    previousIndexes: ['CREATE INDEX IF NOT EXISTS idx_health_check_invocations_health_check_id ON health_check_invocations(health_check_id)'],
+  },
+  {
+    // Request logs outlive the services and routes they were routed to
+    table: 'requests',
+    definition: `
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    service_id INTEGER,
+    url TEXT NOT NULL,
+    method TEXT NOT NULL,
+    status TEXT NOT NULL,
+    response_time INTEGER NOT NULL,
+    user_agent TEXT NOT NULL,
+    ip_address TEXT NOT NULL,
+    route_id INTEGER,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL`,
+    columnNames: 'id, service_id, url, method, status, response_time, user_agent, ip_address, route_id, created_at, updated_at',
+    foreignKeys: [
+      'FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE SET NULL',
+      'FOREIGN KEY (route_id) REFERENCES routes(id) ON DELETE SET NULL',
+    ],
+    previousForeignKeys: [],
+    indexes: [
+      'CREATE INDEX IF NOT EXISTS idx_requests_created_at ON requests(created_at)',
+      'CREATE INDEX IF NOT EXISTS idx_requests_service_id ON requests(service_id)',
+      'CREATE INDEX IF NOT EXISTS idx_requests_route_id ON requests(route_id)',
+    ],
+    previousIndexes: [
+      'CREATE INDEX IF NOT EXISTS idx_requests_created_at ON requests(created_at)',
+      'CREATE INDEX IF NOT EXISTS idx_requests_service_id ON requests(service_id)',
+    ],
+  },
+  {
+    // Deleting a route removes its records from the provider first; any left behind are kept as plain records
+    table: 'dns_records',
+    definition: `
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    domain_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('A', 'AAAA', 'CAA', 'CNAME', 'DS', 'MX', 'NS', 'PTR', 'SOA', 'SRV', 'TXT')),
+    value TEXT NOT NULL,
+    ttl INTEGER NOT NULL DEFAULT 300,
+    priority INTEGER,
+    weight INTEGER,
+    alias_hosted_zone_id TEXT,
+    alias_evaluate_target_health BOOLEAN,
+    change_id INTEGER,
+    source TEXT NOT NULL CHECK (source IN ('route53', 'cloud_router')),
+    created_by_route_id INTEGER,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL`,
+    columnNames: 'id, domain_id, name, type, value, ttl, priority, weight, alias_hosted_zone_id, alias_evaluate_target_health, change_id, source, created_by_route_id, created_at, updated_at',
+    foreignKeys: [
+      'FOREIGN KEY (domain_id) REFERENCES domains(id) ON DELETE CASCADE',
+      'FOREIGN KEY (created_by_route_id) REFERENCES routes(id) ON DELETE SET NULL',
+    ],
+    previousForeignKeys: [
+      'FOREIGN KEY (domain_id) REFERENCES domains(id) ON DELETE CASCADE',
+      'FOREIGN KEY (created_by_route_id) REFERENCES routes(id)',
+    ],
+    indexes: [
+      'CREATE INDEX IF NOT EXISTS idx_dns_records_domain_id ON dns_records(domain_id)',
+      'CREATE INDEX IF NOT EXISTS idx_dns_records_created_by_route_id ON dns_records(created_by_route_id)',
+    ],
+    previousIndexes: [
+      'CREATE INDEX IF NOT EXISTS idx_dns_records_domain_id ON dns_records(domain_id)',
+      'CREATE INDEX IF NOT EXISTS idx_dns_records_created_by_route_id ON dns_records(created_by_route_id)',
+    ],
+  },
+  {
+    table: 'service_alert_channels',
+    definition: `
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    service_id INTEGER NOT NULL,
+    alert_channel_id INTEGER NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    UNIQUE (service_id, alert_channel_id)`,
+    columnNames: 'id, service_id, alert_channel_id, created_at, updated_at',
+    foreignKeys: [
+      'FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE CASCADE',
+      'FOREIGN KEY (alert_channel_id) REFERENCES alert_channels(id) ON DELETE CASCADE',
+    ],
+    previousForeignKeys: [],
+    indexes: ['CREATE INDEX IF NOT EXISTS idx_service_alert_channels_alert_channel_id ON service_alert_channels(alert_channel_id)'],
+    previousIndexes: [],
+  },
+  {
+    // Alert history outlives the service it was about but goes with its channel
+    table: 'alerts',
+    definition: `
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    service_id INTEGER,
+    alert_channel_id INTEGER NOT NULL,
+    event TEXT NOT NULL CHECK (event IN ('down', 'up', 'test')),
+    status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+    message TEXT NOT NULL,
+    error TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL`,
+    columnNames: 'id, service_id, alert_channel_id, event, status, message, error, created_at, updated_at',
+    foreignKeys: [
+      'FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE SET NULL',
+      'FOREIGN KEY (alert_channel_id) REFERENCES alert_channels(id) ON DELETE CASCADE',
+    ],
+    previousForeignKeys: [],
+    indexes: [
+      'CREATE INDEX IF NOT EXISTS idx_alerts_service_id ON alerts(service_id)',
+      'CREATE INDEX IF NOT EXISTS idx_alerts_alert_channel_id ON alerts(alert_channel_id)',
+    ],
+    previousIndexes: ['CREATE INDEX IF NOT EXISTS idx_alerts_service_id ON alerts(service_id)'],
+  },
+];
+
+/**
+ * Declare foreign keys between domains, services, routes, certificates, health checks, request logs and alerts.
+ * Things a user configured (services, routes, certificates) block deleting what they depend on; things that only
+ * exist for a parent (health checks, renewals, channel subscriptions) go with it; logs lose the reference.
+ *
+ * History left dangling by earlier deletes (renewals, invocations, request logs, alerts, DNS records) is removed, or
+ * its reference cleared, as the new keys would have done; rolling back restores the old tables but not those rows.
+ * Orphaned services, routes, certificates and health checks are someone's configuration, so they are left for the
+ * foreign key check after the migration to report rather than deleted.
+ */
+const foreignKeys: Migration = {
+  version: 2,
+  name: 'foreign_keys',
+  up: `
+  -- History and records orphaned by deletes made while foreign keys weren't enforced, handled as the new keys would have
+  DELETE FROM certificate_renewals WHERE certificate_id NOT IN (SELECT id FROM certificates);
+  DELETE FROM health_check_invocations WHERE health_check_id NOT IN (SELECT id FROM health_checks);
+  UPDATE requests SET service_id = NULL WHERE service_id NOT IN (SELECT id FROM services);
+  UPDATE requests SET route_id = NULL WHERE route_id NOT IN (SELECT id FROM routes);
+  DELETE FROM dns_records WHERE domain_id NOT IN (SELECT id FROM domains);
+  UPDATE dns_records SET created_by_route_id = NULL WHERE created_by_route_id NOT IN (SELECT id FROM routes);
+  DELETE FROM dns_changes WHERE domain_id NOT IN (SELECT id FROM domains);
+  DELETE FROM service_alert_channels
+    WHERE service_id NOT IN (SELECT id FROM services) OR alert_channel_id NOT IN (SELECT id FROM alert_channels);
+  UPDATE alerts SET service_id = NULL WHERE service_id NOT IN (SELECT id FROM services);
+  DELETE FROM alerts WHERE alert_channel_id NOT IN (SELECT id FROM alert_channels);
+${tables.map(({ table, definition, foreignKeys, columnNames, indexes }) => rebuildTable(table, definition, foreignKeys, columnNames, indexes)).join('')}`,
+  down: `
+${tables.map(({ table, definition, previousForeignKeys, columnNames, previousIndexes }) => rebuildTable(table, definition, previousForeignKeys, columnNames, previousIndexes)).join('')}`,
+};
+
+export default foreignKeys;
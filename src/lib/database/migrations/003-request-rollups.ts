@@ -0,0 +1,43 @@
+import type { Migration } from '../migration';
+
+// Raw request logs are pruned once they've been rolled up, so the rollups are all that's left of older traffic.
+// A rollup with no service or route counts the requests that matched no route.
+const migration: Migration = {
+  version: 3,
+  name: 'request_rollups',
+  up: `
+    ALTER TABLE services ADD COLUMN request_log_retention_days INTEGER CHECK (request_log_retention_days > 0);
+
+    CREATE TABLE request_rollups (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      period TEXT NOT NULL CHECK (period IN ('hour', 'day')),
+      period_start TEXT NOT NULL,
+      service_id INTEGER,
+      route_id INTEGER,
+      request_count INTEGER NOT NULL,
+      client_error_count INTEGER NOT NULL,
+      server_error_count INTEGER NOT NULL,
+      error_rate REAL NOT NULL,
+      response_time_avg REAL NOT NULL,
+      response_time_p50 INTEGER NOT NULL,
+      response_time_p95 INTEGER NOT NULL,
+      response_time_p99 INTEGER NOT NULL,
+      response_time_max INTEGER NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE CASCADE,
+      FOREIGN KEY (route_id) REFERENCES routes(id) ON DELETE CASCADE
+    );
+
+    -- NULLs never collide in a unique index, so unrouted traffic is keyed on 0
+    CREATE UNIQUE INDEX idx_request_rollups_period ON request_rollups(period, period_start, IFNULL(service_id, 0), IFNULL(route_id, 0));
+    CREATE INDEX idx_request_rollups_service_id ON request_rollups(service_id);
+    CREATE INDEX idx_request_rollups_route_id ON request_rollups(route_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS request_rollups;
+    ALTER TABLE services DROP COLUMN request_log_retention_days;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,25 @@
+import type { Migration } from '../migration';
+
+// Lists page in (sort column, id) order, newest first for the logs, so these back the default sorts and common filters
+const migration: Migration = {
+  version: 4,
+  name: 'list_indexes',
+  up: `
+    CREATE INDEX idx_requests_service_id_created_at ON requests(service_id, created_at);
+    CREATE INDEX idx_health_check_invocations_created_at ON health_check_invocations(created_at);
+    CREATE INDEX idx_health_check_invocations_health_check_id_created_at ON health_check_invocations(health_check_id, created_at);
+    CREATE INDEX idx_certificate_renewals_created_at ON certificate_renewals(created_at);
+    CREATE INDEX idx_alerts_created_at ON alerts(created_at);
+    CREATE INDEX idx_request_rollups_period_start ON request_rollups(period, period_start);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_requests_service_id_created_at;
+    DROP INDEX IF EXISTS idx_health_check_invocations_created_at;
+    DROP INDEX IF EXISTS idx_health_check_invocations_health_check_id_created_at;
+    DROP INDEX IF EXISTS idx_certificate_renewals_created_at;
+    DROP INDEX IF EXISTS idx_alerts_created_at;
+    DROP INDEX IF EXISTS idx_request_rollups_period_start;
+  `,
+};
+
+export default migration;
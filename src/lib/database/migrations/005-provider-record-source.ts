@@ -0,0 +1,43 @@
+import type { Migration } from '../migration';
+
+const COLUMNS = 'id, domain_id, name, type, value, ttl, priority, weight, alias_hosted_zone_id, alias_evaluate_target_health, change_id, source, created_by_route_id, created_at, updated_at';
+
+// SQLite can't change a CHECK constraint in place, so the table is recreated with the sources it allows
+const dnsRecordsTable = (sources: string[], copySource: string) => `
+  CREATE TABLE dns_records_new (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    domain_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('A', 'AAAA', 'CAA', 'CNAME', 'DS', 'MX', 'NS', 'PTR', 'SOA', 'SRV', 'TXT')),
+    value TEXT NOT NULL,
+    ttl INTEGER NOT NULL DEFAULT 300,
+    priority INTEGER,
+    weight INTEGER,
+    alias_hosted_zone_id TEXT,
+    alias_evaluate_target_health BOOLEAN,
+    change_id INTEGER,
+    source TEXT NOT NULL CHECK (source IN (${sources.map(source => `'${source}'`).join(', ')})),
+    created_by_route_id INTEGER,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    FOREIGN KEY (domain_id) REFERENCES domains(id) ON DELETE CASCADE,
+    FOREIGN KEY (created_by_route_id) REFERENCES routes(id) ON DELETE SET NULL
+  );
+  INSERT INTO dns_records_new (${COLUMNS})
+    SELECT ${COLUMNS.replace('source', copySource)} FROM dns_records;
+  DROP TABLE dns_records;
+  ALTER TABLE dns_records_new RENAME TO dns_records;
+  CREATE INDEX IF NOT EXISTS idx_dns_records_domain_id ON dns_records(domain_id);
+  CREATE INDEX IF NOT EXISTS idx_dns_records_created_by_route_id ON dns_records(created_by_route_id);
+`;
+
+// Records imported from the zone were marked 'route53' whichever DNS provider they came from; 'provider' says where
+// they live without naming one
+const migration: Migration = {
+  version: 5,
+  name: 'provider_record_source',
+  up: dnsRecordsTable(['provider', 'cloud_router'], "CASE source WHEN 'route53' THEN 'provider' ELSE source END"),
+  down: dnsRecordsTable(['route53', 'cloud_router'], "CASE source WHEN 'provider' THEN 'route53' ELSE source END"),
+};
+
+export default migration;
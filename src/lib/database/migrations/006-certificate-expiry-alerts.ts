@@ -0,0 +1,38 @@
+import type { Migration } from '../migration';
+
+const COLUMNS = 'id, service_id, alert_channel_id, event, status, message, error, created_at, updated_at';
+
+// SQLite can't change a CHECK constraint in place, so the table is recreated with the events it allows
+const alertsTable = (events: string[]) => `
+  CREATE TABLE alerts_new (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    service_id INTEGER,
+    alert_channel_id INTEGER NOT NULL,
+    event TEXT NOT NULL CHECK (event IN (${events.map(event => `'${event}'`).join(', ')})),
+    status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+    message TEXT NOT NULL,
+    error TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE SET NULL,
+    FOREIGN KEY (alert_channel_id) REFERENCES alert_channels(id) ON DELETE CASCADE
+  );
+  INSERT INTO alerts_new (${COLUMNS})
+    SELECT ${COLUMNS} FROM alerts WHERE event IN (${events.map(event => `'${event}'`).join(', ')});
+  DROP TABLE alerts;
+  ALTER TABLE alerts_new RENAME TO alerts;
+  CREATE INDEX IF NOT EXISTS idx_alerts_service_id ON alerts(service_id);
+  CREATE INDEX IF NOT EXISTS idx_alerts_alert_channel_id ON alerts(alert_channel_id);
+  CREATE INDEX IF NOT EXISTS idx_alerts_created_at ON alerts(created_at);
+`;
+
+// Certificates that failed to renew and are about to expire alert the channels of their domain's services.
+// Rolling back drops those alerts, which the old constraint can't hold.
+const migration: Migration = {
+  version: 6,
+  name: 'certificate_expiry_alerts',
+  up: alertsTable(['down', 'up', 'test', 'certificate_expiring']),
+  down: alertsTable(['down', 'up', 'test']),
+};
+
+export default migration;
@@ -0,0 +1,19 @@
+import type { Migration } from '../migration';
+import baseline from './001-baseline';
+import foreignKeys from './002-foreign-keys';
+import requestRollups from './003-request-rollups';
+import listIndexes from './004-list-indexes';
+import providerRecordSource from './005-provider-record-source';
+import certificateExpiryAlerts from './006-certificate-expiry-alerts';
+
+// Append new migrations here with the next version number; never edit one that has shipped
+const migrations: Migration[] = [
+  baseline,
+  foreignKeys,
+  requestRollups,
+  listIndexes,
+  providerRecordSource,
+  certificateExpiryAlerts,
+];
+
+export default migrations;
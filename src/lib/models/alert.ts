@@ -0,0 +1,143 @@
+import { ListQuery, ListSpec, Page, Repository } from "./repository";
+
+export type AlertChannelType = 'webhook' | 'slack' | 'email';
+
+export interface AlertChannel {
+  id?: number;
+  name: string;
+  type: AlertChannelType;
+  // JSON-encoded, shape depends on type
+  config: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Alert {
+  id?: number;
+  // Unset for test and certificate alerts, which aren't about a service
+  service_id?: number;
+  alert_channel_id: number;
+  event: 'down' | 'up' | 'test' | 'certificate_expiring';
+  status: 'sent' | 'failed';
+  message: string;
+  error?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export class AlertChannelModel extends Repository {
+  // Create a new alert channel
+  create(data: Omit<AlertChannel, 'id' | 'created_at' | 'updated_at'>): number {
+    const timestamp = this.getCurrentTimestamp();
+    const stmt = this.db.prepare(`
+      INSERT INTO alert_channels (name, type, config, is_active, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(data.name, data.type, data.config, data.is_active, timestamp, timestamp);
+    return result.lastInsertRowid as number;
+  }
+
+  // Find alert channel by ID
+  findById(id: number): AlertChannel | undefined {
+    const stmt = this.db.prepare('SELECT * FROM alert_channels WHERE id = ?');
+    return stmt.get(id) as AlertChannel | undefined;
+  }
+
+  readonly listSpec: ListSpec = {
+    filters: { type: 'string', is_active: 'boolean' },
+    sorts: ['id', 'name', 'created_at'],
+    defaultSort: 'id',
+    defaultOrder: 'asc',
+    timeColumn: 'created_at',
+  };
+
+  // A page of alert channels, filtered and sorted as requested
+  list(query: ListQuery): Page<AlertChannel> {
+    return this.findPage<AlertChannel>('alert_channels', this.listSpec, query);
+  }
+
+  // Get all alert channels
+  findAll(): AlertChannel[] {
+    const stmt = this.db.prepare('SELECT * FROM alert_channels');
+    return stmt.all() as AlertChannel[];
+  }
+
+  // Channels a service alerts to
+  findByServiceId(serviceId: number): AlertChannel[] {
+    const stmt = this.db.prepare(`
+      SELECT alert_channels.* FROM alert_channels
+      JOIN service_alert_channels ON service_alert_channels.alert_channel_id = alert_channels.id
+      WHERE service_alert_channels.service_id = ?
+    `);
+    return stmt.all(serviceId) as AlertChannel[];
+  }
+
+  // Channels any service on a domain alerts to, each once
+  findByDomainId(domainId: number): AlertChannel[] {
+    const stmt = this.db.prepare(`
+      SELECT DISTINCT alert_channels.* FROM alert_channels
+      JOIN service_alert_channels ON service_alert_channels.alert_channel_id = alert_channels.id
+      JOIN services ON services.id = service_alert_channels.service_id
+      WHERE services.domain_id = ?
+    `);
+    return stmt.all(domainId) as AlertChannel[];
+  }
+
+  // Replace the channels a service alerts to
+  setServiceChannels(serviceId: number, alertChannelIds: number[]): void {
+    const timestamp = this.getCurrentTimestamp();
+    const insert = this.db.prepare(`
+      INSERT INTO service_alert_channels (service_id, alert_channel_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?)
+    `);
+    this.transaction(() => {
+      this.db.prepare('DELETE FROM service_alert_channels WHERE service_id = ?').run(serviceId);
+      [...new Set(alertChannelIds)].forEach(alertChannelId => insert.run(serviceId, alertChannelId, timestamp, timestamp));
+    });
+  }
+
+  // Update alert channel
+  update(id: number, data: Partial<Omit<AlertChannel, 'id' | 'created_at'>>): boolean {
+    return this.updateColumns<AlertChannel>('alert_channels', id, ['name', 'type', 'config', 'is_active'], data);
+  }
+
+  // Delete alert channel; its subscriptions and alert history cascade
+  delete(id: number): boolean {
+    const stmt = this.db.prepare('DELETE FROM alert_channels WHERE id = ?');
+    const result = stmt.run(id);
+    return result.changes > 0;
+  }
+}
+
+export class AlertModel extends Repository {
+  // Record an alert sent (or attempted)
+  create(data: Omit<Alert, 'id' | 'created_at' | 'updated_at'>): number {
+    const timestamp = this.getCurrentTimestamp();
+    const stmt = this.db.prepare(`
+      INSERT INTO alerts (service_id, alert_channel_id, event, status, message, error, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(data.service_id ?? null, data.alert_channel_id, data.event, data.status, data.message, data.error ?? null, timestamp, timestamp);
+    return result.lastInsertRowid as number;
+  }
+
+  readonly listSpec: ListSpec = {
+    filters: { service_id: 'integer', alert_channel_id: 'integer', event: 'string', status: 'string' },
+    sorts: ['id', 'created_at'],
+    defaultSort: 'created_at',
+    defaultOrder: 'desc',
+    timeColumn: 'created_at',
+  };
+
+  // A page of alerts, filtered and sorted as requested
+  list(query: ListQuery): Page<Alert> {
+    return this.findPage<Alert>('alerts', this.listSpec, query);
+  }
+
+  // Get all alerts, newest first
+  findAll(): Alert[] {
+    const stmt = this.db.prepare('SELECT * FROM alerts ORDER BY created_at DESC');
+    return stmt.all() as Alert[];
+  }
+}
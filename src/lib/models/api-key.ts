@@ -0,0 +1,70 @@
+import { ListCountQuery, ListQuery, ListSpec, Page, Repository } from "./repository";
+
+export interface ApiKey {
+  id?: number;
+  key: string;
+  created_at: string;
+  updated_at: string;
+  revoked_at?: string;
+}
+
+export class ApiKeyModel extends Repository {
+  // Create a new API key
+  create(data: Omit<ApiKey, 'id' | 'created_at' | 'updated_at' | 'revoked_at'>): number {
+    const timestamp = this.getCurrentTimestamp();
+    const stmt = this.db.prepare(`
+      INSERT INTO api_keys (key, created_at, updated_at)
+      VALUES (?, ?, ?)
+    `);
+    const result = stmt.run(data.key, timestamp, timestamp);
+    return result.lastInsertRowid as number;
+  }
+
+  // Find API key by ID
+  findById(id: number): ApiKey | undefined {
+    const stmt = this.db.prepare('SELECT * FROM api_keys WHERE id = ?');
+    return stmt.get(id) as ApiKey | undefined;
+  }
+
+  // Lookup API key by the key string
+  findByKey(key: string): ApiKey | undefined {
+    const stmt = this.db.prepare('SELECT * FROM api_keys WHERE key = ?');
+    return stmt.get(key) as ApiKey | undefined;
+  }
+
+  readonly listSpec: ListSpec = {
+    filters: {},
+    sorts: ['id', 'created_at'],
+    defaultSort: 'id',
+    defaultOrder: 'asc',
+    timeColumn: 'created_at',
+  };
+
+  // A page of API keys, filtered and sorted as requested
+  list(query: ListQuery): Page<ApiKey> {
+    return this.findPage<ApiKey>('api_keys', this.listSpec, query);
+  }
+
+  // How many API keys match the filters, across every page
+  count(query: ListCountQuery = { filters: {} }): number {
+    return this.countRows('api_keys', this.listSpec, query);
+  }
+
+  // Get all API keys
+  findAll(): ApiKey[] {
+    const stmt = this.db.prepare('SELECT * FROM api_keys');
+    return stmt.all() as ApiKey[];
+  }
+
+  // Update API key
+  update(id: number, data: Partial<Omit<ApiKey, 'id' | 'created_at'>>): boolean {
+    return this.updateColumns<ApiKey>('api_keys', id, ['key', 'revoked_at'], data);
+  }
+
+  // Delete API key
+  delete(id: number): boolean {
+    const stmt = this.db.prepare('DELETE FROM api_keys WHERE id = ?');
+    const result = stmt.run(id);
+    return result.changes > 0;
+  }
+}
@@ -0,0 +1,156 @@
+import { ListCountQuery, ListQuery, ListSpec, Page, Repository } from "./repository";
+
+export interface Certificate {
+  id?: number;
+  domain_id: number;
+  path: string;
+  is_active: boolean;
+  is_wildcard: boolean;
+  is_custom_domain: boolean;
+  is_dedicated_subdomain: boolean;
+  is_path: boolean;
+  is_redirect: boolean;
+  challenge_type?: 'dns-01' | 'http-01';
+  expires_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CertificateRenewal {
+  id?: number;
+  certificate_id: number;
+  trigger: 'scheduled' | 'manual';
+  status: 'in_progress' | 'succeeded' | 'failed';
+  error?: string;
+  previous_expires_at?: string;
+  new_expires_at?: string;
+  completed_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export class CertificateModel extends Repository {
+  // Create a new certificate
+  create(data: Omit<Certificate, 'id' | 'created_at' | 'updated_at'>): number {
+    const timestamp = this.getCurrentTimestamp();
+    const stmt = this.db.prepare(`
+      INSERT INTO certificates (
+        domain_id, path, is_active, is_wildcard, is_custom_domain, is_dedicated_subdomain, is_path, is_redirect, challenge_type, expires_at, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    // Custom domains usually live at another DNS provider, so default them to HTTP-01
+    const challengeType = data.challenge_type ?? (data.is_custom_domain ? 'http-01' : 'dns-01');
+    const result = stmt.run(
+      data.domain_id,
+      data.path,
+      data.is_active,
+      data.is_wildcard,
+      data.is_custom_domain,
+      data.is_dedicated_subdomain,
+      data.is_path,
+      data.is_redirect,
+      challengeType,
+      data.expires_at,
+      timestamp,
+      timestamp
+    );
+    const id = result.lastInsertRowid as number;
+    this.notifyChange('certificates', 'create', id);
+    return id;
+  }
+
+  // Find certificate by ID
+  findById(id: number): Certificate | undefined {
+    const stmt = this.db.prepare('SELECT * FROM certificates WHERE id = ?');
+    return stmt.get(id) as Certificate | undefined;
+  }
+
+  readonly listSpec: ListSpec = {
+    filters: { domain_id: 'integer', is_active: 'boolean', is_wildcard: 'boolean', challenge_type: 'string' },
+    sorts: ['id', 'expires_at', 'created_at', 'updated_at'],
+    defaultSort: 'id',
+    defaultOrder: 'asc',
+    timeColumn: 'created_at',
+  };
+
+  // A page of certificates, filtered and sorted as requested
+  list(query: ListQuery): Page<Certificate> {
+    return this.findPage<Certificate>('certificates', this.listSpec, query);
+  }
+
+  // How many certificates match the filters, across every page
+  count(query: ListCountQuery = { filters: {} }): number {
+    return this.countRows('certificates', this.listSpec, query);
+  }
+
+  // Get all certificates
+  findAll(): Certificate[] {
+    const stmt = this.db.prepare('SELECT * FROM certificates');
+    return stmt.all() as Certificate[];
+  }
+
+  // Update certificate
+  update(id: number, data: Partial<Omit<Certificate, 'id' | 'created_at'>>): boolean {
+    const updated = this.updateColumns<Certificate>('certificates', id, [
+      'domain_id', 'path', 'is_active', 'is_wildcard', 'is_custom_domain', 'is_dedicated_subdomain', 'is_path', 'is_redirect', 'challenge_type', 'expires_at',
+    ], data);
+    if (updated) this.notifyChange('certificates', 'update', id);
+    return updated;
+  }
+
+  // Delete certificate; its renewal history cascades
+  delete(id: number): boolean {
+    const stmt = this.db.prepare('DELETE FROM certificates WHERE id = ?');
+    const result = stmt.run(id);
+    if (result.changes > 0) this.notifyChange('certificates', 'delete', id);
+    return result.changes > 0;
+  }
+}
+
+export class CertificateRenewalModel extends Repository {
+  // Record a renewal attempt
+  create(data: Omit<CertificateRenewal, 'id' | 'created_at' | 'updated_at'>): number {
+    const timestamp = this.getCurrentTimestamp();
+    const stmt = this.db.prepare(`
+      INSERT INTO certificate_renewals (
+        certificate_id, trigger, status, error, previous_expires_at, new_expires_at, completed_at, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(
+      data.certificate_id,
+      data.trigger,
+      data.status,
+      data.error ?? null,
+      data.previous_expires_at ?? null,
+      data.new_expires_at ?? null,
+      data.completed_at ?? null,
+      timestamp,
+      timestamp
+    );
+    return result.lastInsertRowid as number;
+  }
+
+  readonly listSpec: ListSpec = {
+    filters: { certificate_id: 'integer', trigger: 'string', status: 'string' },
+    sorts: ['id', 'created_at'],
+    defaultSort: 'created_at',
+    defaultOrder: 'desc',
+    timeColumn: 'created_at',
+  };
+
+  // A page of renewal attempts, filtered and sorted as requested
+  list(query: ListQuery): Page<CertificateRenewal> {
+    return this.findPage<CertificateRenewal>('certificate_renewals', this.listSpec, query);
+  }
+
+  // Get all renewal attempts, newest first
+  findAll(): CertificateRenewal[] {
+    const stmt = this.db.prepare('SELECT * FROM certificate_renewals ORDER BY created_at DESC');
+    return stmt.all() as CertificateRenewal[];
+  }
+
+  // Record the outcome of a renewal attempt
+  update(id: number, data: Partial<Omit<CertificateRenewal, 'id' | 'created_at'>>): boolean {
+    return this.updateColumns<CertificateRenewal>('certificate_renewals', id, ['status', 'error', 'new_expires_at', 'completed_at'], data);
+  }
+}
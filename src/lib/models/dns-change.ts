@@ -0,0 +1,67 @@
+import { Repository } from "./repository";
+
+export interface DNSChangeRecord {
+  id?: number;
+  domain_id: number;
+  provider: string;
+  // The provider's change ID (Route53 "C..." IDs); null when the provider applied the change synchronously
+  provider_change_id?: string | null;
+  status: 'PENDING' | 'INSYNC';
+  // What the change did, e.g. "UPSERT www.example.com. A"
+  description: string;
+  submitted_at: string;
+  synced_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export class DNSChangeModel extends Repository {
+  // Record a submitted change
+  create(data: Omit<DNSChangeRecord, 'id' | 'created_at' | 'updated_at'>): number {
+    const timestamp = this.getCurrentTimestamp();
+    const stmt = this.db.prepare(`
+      INSERT INTO dns_changes (
+        domain_id, provider, provider_change_id, status, description, submitted_at, synced_at, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const result = stmt.run(
+      data.domain_id,
+      data.provider,
+      data.provider_change_id ?? null,
+      data.status,
+      data.description,
+      data.submitted_at,
+      data.synced_at ?? null,
+      timestamp,
+      timestamp
+    );
+
+    return result.lastInsertRowid as number;
+  }
+
+  // Find change by ID
+  findById(id: number): DNSChangeRecord | undefined {
+    const stmt = this.db.prepare('SELECT * FROM dns_changes WHERE id = ?');
+    return stmt.get(id) as DNSChangeRecord | undefined;
+  }
+
+  // Changes the provider hasn't finished propagating
+  findPending(): DNSChangeRecord[] {
+    const stmt = this.db.prepare(`SELECT * FROM dns_changes WHERE status = 'PENDING' ORDER BY submitted_at`);
+    return stmt.all() as DNSChangeRecord[];
+  }
+
+  // Most recent changes for a domain
+  findByDomainId(domainId: number, limit = 50): DNSChangeRecord[] {
+    const stmt = this.db.prepare('SELECT * FROM dns_changes WHERE domain_id = ? ORDER BY id DESC LIMIT ?');
+    return stmt.all(domainId, limit) as DNSChangeRecord[];
+  }
+
+  // Mark a change INSYNC
+  markInSync(id: number, syncedAt = this.getCurrentTimestamp()): boolean {
+    const stmt = this.db.prepare(`UPDATE dns_changes SET status = 'INSYNC', synced_at = ?, updated_at = ? WHERE id = ?`);
+    const result = stmt.run(syncedAt, this.getCurrentTimestamp(), id);
+    return result.changes > 0;
+  }
+}
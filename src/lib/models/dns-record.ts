@@ -1,32 +1,38 @@
-import { Database } from "bun:sqlite";
+import { ListQuery, ListSpec, Page, Repository } from "./repository";
+
+export const DNS_RECORD_TYPES = ['A', 'AAAA', 'CAA', 'CNAME', 'DS', 'MX', 'NS', 'PTR', 'SOA', 'SRV', 'TXT'] as const;
 
 export interface DNSRecord {
   id?: number;
   domain_id: number;
   name: string;
-  type: 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'SRV' | 'PTR';
+  type: typeof DNS_RECORD_TYPES[number];
+  // One value per line for multi-value record sets; the target DNS name for alias records
   value: string;
   ttl: number;
   priority?: number;
   weight?: number;
-  source: 'route53' | 'cloud_router';
+  // Set for Route53 alias records
+  alias_hosted_zone_id?: string | null;
+  alias_evaluate_target_health?: boolean | null;
+  // dns_changes row for the last provider change that touched this record
+  change_id?: number | null;
+  // 'provider' for records imported from the DNS provider's zone, 'cloud_router' for ones we manage
+  source: 'provider' | 'cloud_router';
   created_by_route_id?: number;
   created_at: string;
   updated_at: string;
 }
 
-export class DNSRecordModel {
-  constructor(private db: Database) {}
-
-  private getCurrentTimestamp = () => new Date().toISOString();
-
+export class DNSRecordModel extends Repository {
   // Create a new DNS record
   create(data: Omit<DNSRecord, 'id' | 'created_at' | 'updated_at'>): number {
     const timestamp = this.getCurrentTimestamp();
     const stmt = this.db.prepare(`
       INSERT INTO dns_records (
-        domain_id, name, type, value, ttl, priority, weight, source, created_by_route_id, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        domain_id, name, type, value, ttl, priority, weight, alias_hosted_zone_id, alias_evaluate_target_health,
+        change_id, source, created_by_route_id, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     const result = stmt.run(
@@ -37,6 +43,9 @@ export class DNSRecordModel {
       data.ttl,
       data.priority ?? null,
       data.weight ?? null,
+      data.alias_hosted_zone_id ?? null,
+      data.alias_hosted_zone_id ? (data.alias_evaluate_target_health ? 1 : 0) : null,
+      data.change_id ?? null,
       data.source,
       data.created_by_route_id ?? null,
       timestamp,
@@ -52,6 +61,19 @@ export class DNSRecordModel {
     return stmt.get(id) as DNSRecord | undefined;
   }
 
+  readonly listSpec: ListSpec = {
+    filters: { domain_id: 'integer', name: 'string', type: 'string', source: 'string', created_by_route_id: 'integer' },
+    sorts: ['id', 'name', 'type', 'created_at', 'updated_at'],
+    defaultSort: 'name',
+    defaultOrder: 'asc',
+    timeColumn: 'created_at',
+  };
+
+  // A page of DNS records, filtered and sorted as requested
+  list(query: ListQuery): Page<DNSRecord> {
+    return this.findPage<DNSRecord>('dns_records', this.listSpec, query);
+  }
+
   // Find all DNS records for a domain
   findByDomainId(domainId: number): DNSRecord[] {
     const stmt = this.db.prepare('SELECT * FROM dns_records WHERE domain_id = ? ORDER BY name, type');
@@ -72,28 +94,9 @@ export class DNSRecordModel {
 
   // Update DNS record
   update(id: number, data: Partial<Omit<DNSRecord, 'id' | 'created_at'>>): boolean {
-    const timestamp = this.getCurrentTimestamp();
-    const updates = [];
-    const values = [];
-
-    const fields = ['domain_id', 'name', 'type', 'value', 'ttl', 'priority', 'weight', 'source', 'created_by_route_id'];
-    fields.forEach(field => {
-      if (data[field as keyof typeof data] !== undefined) {
-        updates.push(`${field} = ?`);
-        values.push((data as any)[field]);
-      }
-    });
-
-    if (updates.length === 0) return false;
-
-    updates.push('updated_at = ?');
-    values.push(timestamp);
-    values.unshift(id);
-
-    const query = `UPDATE dns_records SET ${updates.join(', ')} WHERE id = ?`;
-    const stmt = this.db.prepare(query);
-    const result = stmt.run(...values);
-    return result.changes > 0;
+    return this.updateColumns<DNSRecord>('dns_records', id, [
+      'domain_id', 'name', 'type', 'value', 'ttl', 'priority', 'weight', 'alias_hosted_zone_id', 'alias_evaluate_target_health', 'change_id', 'source', 'created_by_route_id',
+    ], data);
   }
 
   // Delete DNS record
@@ -132,16 +135,25 @@ export class DNSRecordModel {
       errors.push('Name is required');
     }
 
-    if (!record.type || !['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'SRV', 'PTR'].includes(record.type)) {
-      errors.push('Valid type is required (A, AAAA, CNAME, MX, TXT, SRV, PTR)');
+    if (!record.type || !(DNS_RECORD_TYPES as readonly string[]).includes(record.type)) {
+      errors.push(`Valid type is required (${DNS_RECORD_TYPES.join(', ')})`);
+    }
+
+    if (typeof record.alias_hosted_zone_id === 'string') {
+      if (!record.alias_hosted_zone_id.trim()) {
+        errors.push('Alias records require the target\'s hosted zone ID');
+      }
+      if (!['A', 'AAAA', 'CNAME', 'CAA', 'MX', 'PTR', 'SRV', 'TXT'].includes(record.type!)) {
+        errors.push(`${record.type} records cannot be aliases`);
+      }
     }
 
     if (!record.value) {
       errors.push('Value is required');
     }
 
-    if (!record.source || !['route53', 'cloud_router'].includes(record.source)) {
-      errors.push('Valid source is required (route53, cloud_router)');
+    if (!record.source || !['provider', 'cloud_router'].includes(record.source)) {
+      errors.push('Valid source is required (provider, cloud_router)');
     }
 
     if (record.ttl !== undefined && (record.ttl < 0 || record.ttl > 604800)) {
@@ -1,14 +1,22 @@
 import { Database } from "bun:sqlite";
 import { DNSRecordModel, DNSRecord } from "./dns-record";
+import { Dependents, ListCountQuery, ListQuery, ListSpec, Page, Repository } from "./repository";
 
 export interface Domain {
   id?: number;
   name: string;
   hosted_zone_id?: string;
   delegation_status: 'pending' | 'completed' | 'failed';
+  // Why delegation failed, from the last verification
+  delegation_error?: string | null;
+  delegation_checked_at?: string;
   zone_created_at?: string;
   last_synced_at?: string;
   record_count: number;
+  hsts_enabled?: boolean;
+  hsts_max_age?: number;
+  hsts_include_subdomains?: boolean;
+  hsts_preload?: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -17,15 +25,14 @@ export interface DomainWithDNSRecords extends Domain {
   dnsRecords: DNSRecord[];
 }
 
-export class DomainModel {
+export class DomainModel extends Repository {
   private dnsRecordModel: DNSRecordModel;
 
-  constructor(private db: Database) {
+  constructor(db?: Database) {
+    super(db);
     this.dnsRecordModel = new DNSRecordModel(db);
   }
 
-  private getCurrentTimestamp = () => new Date().toISOString();
-
   // Create a new domain
   create(data: Omit<Domain, 'id' | 'created_at' | 'updated_at' | 'record_count'>): number {
     const timestamp = this.getCurrentTimestamp();
@@ -46,7 +53,9 @@ export class DomainModel {
       timestamp
     );
 
-    return result.lastInsertRowid as number;
+    const id = result.lastInsertRowid as number;
+    this.notifyChange('domains', 'create', id);
+    return id;
   }
 
   // Find domain by ID
@@ -67,6 +76,24 @@ export class DomainModel {
     return stmt.get(hostedZoneId) as Domain | undefined;
   }
 
+  readonly listSpec: ListSpec = {
+    filters: { delegation_status: 'string', hosted_zone_id: 'string' },
+    sorts: ['id', 'name', 'created_at', 'updated_at'],
+    defaultSort: 'name',
+    defaultOrder: 'asc',
+    timeColumn: 'created_at',
+  };
+
+  // A page of domains, filtered and sorted as requested
+  list(query: ListQuery): Page<Domain> {
+    return this.findPage<Domain>('domains', this.listSpec, query);
+  }
+
+  // How many domains match the filters, across every page
+  count(query: ListCountQuery = { filters: {} }): number {
+    return this.countRows('domains', this.listSpec, query);
+  }
+
   // Get all domains
   findAll(): Domain[] {
     const stmt = this.db.prepare('SELECT * FROM domains ORDER BY name');
@@ -87,28 +114,12 @@ export class DomainModel {
 
   // Update domain
   update(id: number, data: Partial<Omit<Domain, 'id' | 'created_at'>>): boolean {
-    const timestamp = this.getCurrentTimestamp();
-    const updates = [];
-    const values = [];
-
-    const fields = ['name', 'hosted_zone_id', 'delegation_status', 'zone_created_at', 'last_synced_at', 'record_count'];
-    fields.forEach(field => {
-      if (data[field as keyof typeof data] !== undefined) {
-        updates.push(`${field} = ?`);
-        values.push((data as any)[field]);
-      }
-    });
-
-    if (updates.length === 0) return false;
-
-    updates.push('updated_at = ?');
-    values.push(timestamp);
-    values.unshift(id);
-
-    const query = `UPDATE domains SET ${updates.join(', ')} WHERE id = ?`;
-    const stmt = this.db.prepare(query);
-    const result = stmt.run(...values);
-    return result.changes > 0;
+    const updated = this.updateColumns<Domain>('domains', id, [
+      'name', 'hosted_zone_id', 'delegation_status', 'delegation_error', 'delegation_checked_at', 'zone_created_at', 'last_synced_at', 'record_count',
+      'hsts_enabled', 'hsts_max_age', 'hsts_include_subdomains', 'hsts_preload',
+    ], data);
+    if (updated) this.notifyChange('domains', 'update', id);
+    return updated;
   }
 
   // Update record count for domain
@@ -136,17 +147,23 @@ export class DomainModel {
     return this.update(id, updateData);
   }
 
-  // Delete domain
+  // Delete domain; its DNS records and change history cascade
   delete(id: number): boolean {
-    // First delete all DNS records for this domain
-    this.dnsRecordModel.deleteByDomainId(id);
-
-    // Then delete the domain
     const stmt = this.db.prepare('DELETE FROM domains WHERE id = ?');
     const result = stmt.run(id);
+    if (result.changes > 0) this.notifyChange('domains', 'delete', id);
     return result.changes > 0;
   }
 
+  // Services, routes and certificates on the domain, which block deleting it
+  findDependents(id: number): Dependents {
+    return {
+      services: this.db.prepare('SELECT id, name FROM services WHERE domain_id = ? ORDER BY id').all(id) as Dependents['services'],
+      routes: this.db.prepare('SELECT id, domain_id, service_id, path FROM routes WHERE domain_id = ? ORDER BY id').all(id) as Dependents['routes'],
+      certificates: this.db.prepare('SELECT id, path FROM certificates WHERE domain_id = ? ORDER BY id').all(id) as Dependents['certificates'],
+    };
+  }
+
   // Check if domain exists by name
   existsByName(name: string): boolean {
     const stmt = this.db.prepare('SELECT COUNT(*) as count FROM domains WHERE name = ?');
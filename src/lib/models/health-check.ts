@@ -0,0 +1,138 @@
+import { ListCountQuery, ListQuery, ListSpec, Page, Repository } from "./repository";
+
+export type HealthState = 'unknown' | 'up' | 'down';
+
+export interface HealthCheck {
+  id?: number;
+  service_id: number;
+  path: string;
+  interval: number;
+  timeout: number;
+  threshold: number;
+  failure_threshold: number;
+  success_threshold: number;
+  status_code: number;
+  state?: HealthState;
+  consecutive_successes?: number;
+  consecutive_failures?: number;
+  last_checked_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface HealthCheckInvocation {
+  id?: number;
+  health_check_id: number;
+  status: string;
+  response_time: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export class HealthCheckModel extends Repository {
+  // Create a new health check
+  create(data: Omit<HealthCheck, 'id' | 'created_at' | 'updated_at'>): number {
+    const timestamp = this.getCurrentTimestamp();
+    const stmt = this.db.prepare(`
+      INSERT INTO health_checks (
+        service_id, path, interval, timeout, threshold, failure_threshold, success_threshold, status_code, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(
+      data.service_id,
+      data.path,
+      data.interval,
+      data.timeout,
+      data.threshold,
+      data.failure_threshold,
+      data.success_threshold,
+      data.status_code,
+      timestamp,
+      timestamp
+    );
+    return result.lastInsertRowid as number;
+  }
+
+  // Find health check by ID
+  findById(id: number): HealthCheck | undefined {
+    const stmt = this.db.prepare('SELECT * FROM health_checks WHERE id = ?');
+    return stmt.get(id) as HealthCheck | undefined;
+  }
+
+  readonly listSpec: ListSpec = {
+    filters: { service_id: 'integer', state: 'string' },
+    sorts: ['id', 'created_at', 'updated_at'],
+    defaultSort: 'id',
+    defaultOrder: 'asc',
+    timeColumn: 'created_at',
+  };
+
+  // A page of health checks, filtered and sorted as requested
+  list(query: ListQuery): Page<HealthCheck> {
+    return this.findPage<HealthCheck>('health_checks', this.listSpec, query);
+  }
+
+  // How many health checks match the filters, across every page
+  count(query: ListCountQuery = { filters: {} }): number {
+    return this.countRows('health_checks', this.listSpec, query);
+  }
+
+  // Get all health checks
+  findAll(): HealthCheck[] {
+    const stmt = this.db.prepare('SELECT * FROM health_checks');
+    return stmt.all() as HealthCheck[];
+  }
+
+  // Update health check
+  update(id: number, data: Partial<Omit<HealthCheck, 'id' | 'created_at'>>): boolean {
+    return this.updateColumns<HealthCheck>('health_checks', id, [
+      'service_id', 'path', 'interval', 'timeout', 'threshold', 'failure_threshold', 'success_threshold', 'status_code',
+      'state', 'consecutive_successes', 'consecutive_failures', 'last_checked_at',
+    ], data);
+  }
+
+  // Delete health check; its invocations cascade
+  delete(id: number): boolean {
+    const stmt = this.db.prepare('DELETE FROM health_checks WHERE id = ?');
+    const result = stmt.run(id);
+    return result.changes > 0;
+  }
+}
+
+export class HealthCheckInvocationModel extends Repository {
+  // Record a health check run
+  create(data: Omit<HealthCheckInvocation, 'id' | 'created_at' | 'updated_at'>): number {
+    const timestamp = this.getCurrentTimestamp();
+    const stmt = this.db.prepare(`
+      INSERT INTO health_check_invocations (health_check_id, status, response_time, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(data.health_check_id, data.status, data.response_time, timestamp, timestamp);
+    return result.lastInsertRowid as number;
+  }
+
+  // Find invocation by ID
+  findById(id: number): HealthCheckInvocation | undefined {
+    const stmt = this.db.prepare('SELECT * FROM health_check_invocations WHERE id = ?');
+    return stmt.get(id) as HealthCheckInvocation | undefined;
+  }
+
+  readonly listSpec: ListSpec = {
+    filters: { health_check_id: 'integer', status: 'string' },
+    sorts: ['id', 'created_at', 'response_time'],
+    defaultSort: 'created_at',
+    defaultOrder: 'desc',
+    timeColumn: 'created_at',
+  };
+
+  // A page of invocations, filtered and sorted as requested
+  list(query: ListQuery): Page<HealthCheckInvocation> {
+    return this.findPage<HealthCheckInvocation>('health_check_invocations', this.listSpec, query);
+  }
+
+  // Get all invocations
+  findAll(): HealthCheckInvocation[] {
+    const stmt = this.db.prepare('SELECT * FROM health_check_invocations');
+    return stmt.all() as HealthCheckInvocation[];
+  }
+}
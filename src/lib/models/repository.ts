@@ -0,0 +1,164 @@
+import { Database } from "bun:sqlite";
+import { EventEmitter } from "events";
+import { getDatabase } from "../database/connection";
+
+export interface DatabaseChangeEvent {
+  table: string;
+  action: 'create' | 'update' | 'delete';
+  id: number;
+}
+
+export type SortOrder = 'asc' | 'desc';
+export type ListFilterType = 'integer' | 'string' | 'boolean';
+
+/**
+ * What a model's list can be filtered and sorted on. Column names are interpolated into SQL, so nothing
+ * outside the spec is ever accepted.
+ */
+export interface ListSpec {
+  // Columns that can be filtered by equality, and how their query-string values parse
+  filters: Record<string, ListFilterType>;
+  // Sortable columns; keyset pagination needs them NOT NULL
+  sorts: string[];
+  defaultSort: string;
+  defaultOrder: SortOrder;
+  // Column the from/to range applies to, for lists that have one
+  timeColumn?: string;
+}
+
+export interface ListQuery {
+  filters: Record<string, string | number>;
+  // Inclusive lower and exclusive upper bounds on the spec's time column
+  from?: string;
+  to?: string;
+  sort: string;
+  order: SortOrder;
+  limit: number;
+  // Sort value and id of the last row of the previous page
+  after?: { value: string | number; id: number };
+}
+
+// The part of a list query that selects rows, for counting them
+export type ListCountQuery = Pick<ListQuery, 'filters' | 'from' | 'to'>;
+
+export interface Page<T> {
+  items: T[];
+  hasMore: boolean;
+}
+
+// In-process change notifications so long-lived consumers (e.g. the proxy) can refresh their state
+export const databaseEvents = new EventEmitter();
+
+/**
+ * Base for the models: each wraps one table (or a parent table and its children) on either the connection it
+ * was given or, by default, the shared one
+ */
+export abstract class Repository {
+  constructor(private database?: Database) {}
+
+  // Resolved per query, so repositories created at import time follow the shared connection if it's swapped
+  protected get db(): Database {
+    return this.database ?? getDatabase();
+  }
+
+  protected getCurrentTimestamp = () => new Date().toISOString();
+
+  protected notifyChange(table: string, action: DatabaseChangeEvent['action'], id: number) {
+    databaseEvents.emit('change', { table, action, id } as DatabaseChangeEvent);
+  }
+
+  // UPDATE the given columns that are set in data, bumping updated_at; false when there was nothing to change
+  protected updateColumns<T extends object>(table: string, id: number, columns: readonly (keyof T & string)[], data: Partial<T>): boolean {
+    const updates: string[] = [];
+    const values: (string | number | boolean | null)[] = [];
+    columns.forEach(column => {
+      if (data[column] !== undefined) {
+        updates.push(`${column} = ?`);
+        values.push(data[column] as string | number | boolean | null);
+      }
+    });
+
+    if (updates.length === 0) return false;
+
+    updates.push('updated_at = ?');
+    values.push(this.getCurrentTimestamp());
+    values.push(id);
+
+    const stmt = this.db.prepare(`UPDATE ${table} SET ${updates.join(', ')} WHERE id = ?`);
+    const result = stmt.run(...values);
+    return result.changes > 0;
+  }
+
+  // One page of rows from a table, in keyset order: sorted by the query's column with id breaking ties
+  protected findPage<T>(table: string, spec: ListSpec, query: ListQuery): Page<T> {
+    if (!spec.sorts.includes(query.sort)) {
+      throw new Error(`Cannot sort ${table} by ${query.sort}`);
+    }
+
+    const { conditions, values } = this.listConditions(table, spec, query);
+    if (query.after) {
+      const comparison = query.order === 'asc' ? '>' : '<';
+      conditions.push(`(${query.sort} ${comparison} ? OR (${query.sort} = ? AND id ${comparison} ?))`);
+      values.push(query.after.value, query.after.value, query.after.id);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const order = query.order === 'asc' ? 'ASC' : 'DESC';
+    // One row past the page says whether there's another
+    const stmt = this.db.prepare(`SELECT * FROM ${table} ${where} ORDER BY ${query.sort} ${order}, id ${order} LIMIT ?`);
+    const rows = stmt.all(...values, query.limit + 1) as T[];
+    return { items: rows.slice(0, query.limit), hasMore: rows.length > query.limit };
+  }
+
+  // How many rows of a table match a list's filters and time range, across every page
+  protected countRows(table: string, spec: ListSpec, query: ListCountQuery): number {
+    const { conditions, values } = this.listConditions(table, spec, query);
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const row = this.db.prepare(`SELECT COUNT(*) AS count FROM ${table} ${where}`).get(...values) as { count: number };
+    return row.count;
+  }
+
+  // WHERE conditions for a list's filters and time range
+  private listConditions(table: string, spec: ListSpec, query: ListCountQuery) {
+    const conditions: string[] = [];
+    const values: (string | number)[] = [];
+    for (const [column, value] of Object.entries(query.filters)) {
+      if (!Object.hasOwn(spec.filters, column)) {
+        throw new Error(`Cannot filter ${table} by ${column}`);
+      }
+      conditions.push(`${column} = ?`);
+      values.push(value);
+    }
+    if (spec.timeColumn && query.from) {
+      conditions.push(`${spec.timeColumn} >= ?`);
+      values.push(query.from);
+    }
+    if (spec.timeColumn && query.to) {
+      conditions.push(`${spec.timeColumn} < ?`);
+      values.push(query.to);
+    }
+    return { conditions, values };
+  }
+
+  // Run fn in a transaction on this repository's connection
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+}
+
+// Rows that would be orphaned by a delete, which their ON DELETE RESTRICT foreign keys refuse
+export interface Dependents {
+  services?: { id: number; name: string }[];
+  routes?: { id: number; domain_id: number; service_id: number; path: string }[];
+  certificates?: { id: number; path: string }[];
+}
+
+export const hasDependents = (dependents: Dependents): boolean =>
+  Object.values(dependents).some(rows => rows.length > 0);
+
+// e.g. "2 service(s), 1 route(s)"
+export const describeDependents = (dependents: Dependents): string =>
+  Object.entries(dependents)
+    .filter(([, rows]) => rows.length > 0)
+    .map(([table, rows]) => `${rows.length} ${table.replace(/s$/, '')}(s)`)
+    .join(', ');
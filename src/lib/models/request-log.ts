@@ -0,0 +1,157 @@
+import { ListCountQuery, ListQuery, ListSpec, Page, Repository } from "./repository";
+
+export interface RequestLog {
+  id?: number;
+  // Unset for requests that matched no route (unknown host, unrouted path, redirects)
+  service_id?: number;
+  url: string;
+  method: string;
+  status: string;
+  response_time: number;
+  user_agent: string;
+  ip_address: string;
+  route_id?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Counts and latency bounds for the requests to one service and route within a time range
+export interface RequestLogSummary {
+  service_id: number | null;
+  route_id: number | null;
+  request_count: number;
+  client_error_count: number;
+  server_error_count: number;
+  response_time_avg: number;
+  response_time_max: number;
+}
+
+// Which rows a prune applies to: one service's, or every other request (including unrouted ones)
+export type RequestLogScope = { serviceId: number } | { excludeServiceIds: number[] };
+
+export class RequestLogModel extends Repository {
+  // Log a request
+  create(data: Omit<RequestLog, 'id' | 'created_at' | 'updated_at'>): number {
+    const timestamp = this.getCurrentTimestamp();
+    const stmt = this.db.prepare(`
+      INSERT INTO requests (service_id, url, method, status, response_time, user_agent, ip_address, route_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(data.service_id ?? null, data.url, data.method, data.status, data.response_time, data.user_agent, data.ip_address, data.route_id ?? null, timestamp, timestamp);
+    return result.lastInsertRowid as number;
+  }
+
+  // Insert many request logs in a single transaction, keeping the time each request was made
+  createMany(entries: Omit<RequestLog, 'id' | 'updated_at'>[]): number {
+    const stmt = this.db.prepare(`
+      INSERT INTO requests (service_id, url, method, status, response_time, user_agent, ip_address, route_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    return this.transaction(() => {
+      for (const entry of entries) {
+        stmt.run(entry.service_id ?? null, entry.url, entry.method, entry.status, entry.response_time, entry.user_agent, entry.ip_address, entry.route_id ?? null, entry.created_at, entry.created_at);
+      }
+      return entries.length;
+    });
+  }
+
+  // Find request log by ID
+  findById(id: number): RequestLog | undefined {
+    const stmt = this.db.prepare('SELECT * FROM requests WHERE id = ?');
+    return stmt.get(id) as RequestLog | undefined;
+  }
+
+  readonly listSpec: ListSpec = {
+    filters: { service_id: 'integer', route_id: 'integer', status: 'string', method: 'string', ip_address: 'string' },
+    sorts: ['id', 'created_at', 'response_time'],
+    defaultSort: 'created_at',
+    defaultOrder: 'desc',
+    timeColumn: 'created_at',
+  };
+
+  // A page of request logs, filtered and sorted as requested
+  list(query: ListQuery): Page<RequestLog> {
+    return this.findPage<RequestLog>('requests', this.listSpec, query);
+  }
+
+  // How many request logs match the filters, across every page
+  count(query: ListCountQuery = { filters: {} }): number {
+    return this.countRows('requests', this.listSpec, query);
+  }
+
+  // Get all request logs
+  findAll(): RequestLog[] {
+    const stmt = this.db.prepare('SELECT * FROM requests');
+    return stmt.all() as RequestLog[];
+  }
+
+  // Update request log
+  update(id: number, data: Partial<Omit<RequestLog, 'id' | 'created_at'>>): boolean {
+    return this.updateColumns<RequestLog>('requests', id, [
+      'service_id', 'url', 'method', 'status', 'response_time', 'user_agent', 'ip_address', 'route_id',
+    ], data);
+  }
+
+  // Delete request log
+  delete(id: number): boolean {
+    const stmt = this.db.prepare('DELETE FROM requests WHERE id = ?');
+    const result = stmt.run(id);
+    return result.changes > 0;
+  }
+
+  // Earliest time a request was logged at or after since, if any was
+  findEarliestCreatedAt(since?: string): string | undefined {
+    const stmt = this.db.prepare('SELECT MIN(created_at) AS created_at FROM requests WHERE created_at >= ?');
+    const row = stmt.get(since ?? '') as { created_at: string | null };
+    return row.created_at ?? undefined;
+  }
+
+  // Summarize requests logged in [from, to) per service and route
+  summarize(from: string, to: string): RequestLogSummary[] {
+    const stmt = this.db.prepare(`
+      SELECT
+        service_id,
+        route_id,
+        COUNT(*) AS request_count,
+        SUM(CAST(status AS INTEGER) BETWEEN 400 AND 499) AS client_error_count,
+        SUM(CAST(status AS INTEGER) >= 500) AS server_error_count,
+        AVG(response_time) AS response_time_avg,
+        MAX(response_time) AS response_time_max
+      FROM requests
+      WHERE created_at >= ? AND created_at < ?
+      GROUP BY service_id, route_id
+    `);
+    return stmt.all(from, to) as RequestLogSummary[];
+  }
+
+  // The response time at a 0-based rank, fastest first, among one service and route's requests in [from, to)
+  findResponseTimeAtRank(from: string, to: string, serviceId: number | null, routeId: number | null, rank: number): number | undefined {
+    const stmt = this.db.prepare(`
+      SELECT response_time FROM requests
+      WHERE created_at >= ? AND created_at < ? AND service_id IS ? AND route_id IS ?
+      ORDER BY response_time
+      LIMIT 1 OFFSET ?
+    `);
+    const row = stmt.get(from, to, serviceId, routeId, rank) as { response_time: number } | null;
+    return row?.response_time;
+  }
+
+  // Delete up to limit request logs in scope that were made before the cutoff, returning how many went
+  deleteOlderThan(before: string, scope: RequestLogScope, limit: number): number {
+    let condition: string;
+    let values: number[];
+    if ('serviceId' in scope) {
+      condition = 'service_id = ?';
+      values = [scope.serviceId];
+    } else {
+      condition = `(service_id IS NULL OR service_id NOT IN (${scope.excludeServiceIds.map(() => '?').join(', ')}))`;
+      values = scope.excludeServiceIds;
+    }
+    const stmt = this.db.prepare(`
+      DELETE FROM requests WHERE id IN (
+        SELECT id FROM requests WHERE created_at < ? AND ${condition} LIMIT ?
+      )
+    `);
+    return stmt.run(before, ...values, limit).changes;
+  }
+}
@@ -0,0 +1,120 @@
+import { ListQuery, ListSpec, Page, Repository } from "./repository";
+
+export type RollupPeriod = 'hour' | 'day';
+
+export interface RequestRollup {
+  id?: number;
+  period: RollupPeriod;
+  // Start of the UTC hour or day the rollup covers
+  period_start: string;
+  // Both unset for requests that matched no route
+  service_id?: number | null;
+  route_id?: number | null;
+  request_count: number;
+  // 4xx and 5xx responses respectively; error_rate is the 5xx share of requests
+  client_error_count: number;
+  server_error_count: number;
+  error_rate: number;
+  response_time_avg: number;
+  response_time_p50: number;
+  response_time_p95: number;
+  response_time_p99: number;
+  response_time_max: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RequestRollupFilters {
+  period?: RollupPeriod;
+  service_id?: number;
+  route_id?: number;
+  // Inclusive lower and exclusive upper bounds on period_start
+  from?: string;
+  to?: string;
+}
+
+export class RequestRollupModel extends Repository {
+  // Create a rollup, or replace the one for the same period, service and route
+  upsert(data: Omit<RequestRollup, 'id' | 'created_at' | 'updated_at'>): void {
+    const timestamp = this.getCurrentTimestamp();
+    const stmt = this.db.prepare(`
+      INSERT INTO request_rollups (
+        period, period_start, service_id, route_id, request_count, client_error_count, server_error_count, error_rate,
+        response_time_avg, response_time_p50, response_time_p95, response_time_p99, response_time_max, created_at, updated_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (period, period_start, IFNULL(service_id, 0), IFNULL(route_id, 0)) DO UPDATE SET
+        request_count = excluded.request_count,
+        client_error_count = excluded.client_error_count,
+        server_error_count = excluded.server_error_count,
+        error_rate = excluded.error_rate,
+        response_time_avg = excluded.response_time_avg,
+        response_time_p50 = excluded.response_time_p50,
+        response_time_p95 = excluded.response_time_p95,
+        response_time_p99 = excluded.response_time_p99,
+        response_time_max = excluded.response_time_max,
+        updated_at = excluded.updated_at
+    `);
+    stmt.run(
+      data.period, data.period_start, data.service_id ?? null, data.route_id ?? null, data.request_count,
+      data.client_error_count, data.server_error_count, data.error_rate, data.response_time_avg,
+      data.response_time_p50, data.response_time_p95, data.response_time_p99, data.response_time_max, timestamp, timestamp
+    );
+  }
+
+  // Find rollups matching the filters, oldest first
+  findAll(filters: RequestRollupFilters = {}): RequestRollup[] {
+    const conditions: string[] = [];
+    const values: (string | number)[] = [];
+    if (filters.period) {
+      conditions.push('period = ?');
+      values.push(filters.period);
+    }
+    if (filters.service_id !== undefined) {
+      conditions.push('service_id = ?');
+      values.push(filters.service_id);
+    }
+    if (filters.route_id !== undefined) {
+      conditions.push('route_id = ?');
+      values.push(filters.route_id);
+    }
+    if (filters.from) {
+      conditions.push('period_start >= ?');
+      values.push(filters.from);
+    }
+    if (filters.to) {
+      conditions.push('period_start < ?');
+      values.push(filters.to);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const stmt = this.db.prepare(`SELECT * FROM request_rollups ${where} ORDER BY period_start, service_id, route_id`);
+    return stmt.all(...values) as RequestRollup[];
+  }
+
+  readonly listSpec: ListSpec = {
+    filters: { period: 'string', service_id: 'integer', route_id: 'integer' },
+    sorts: ['id', 'period_start', 'request_count', 'error_rate', 'response_time_p95'],
+    defaultSort: 'period_start',
+    defaultOrder: 'asc',
+    timeColumn: 'period_start',
+  };
+
+  // A page of rollups, filtered and sorted as requested
+  list(query: ListQuery): Page<RequestRollup> {
+    return this.findPage<RequestRollup>('request_rollups', this.listSpec, query);
+  }
+
+  // Start of the most recent period rolled up at this granularity
+  findLatestPeriodStart(period: RollupPeriod): string | undefined {
+    const stmt = this.db.prepare('SELECT MAX(period_start) AS period_start FROM request_rollups WHERE period = ?');
+    const row = stmt.get(period) as { period_start: string | null };
+    return row.period_start ?? undefined;
+  }
+
+  // Delete rollups of a granularity that start before the cutoff, returning how many went
+  deleteBefore(period: RollupPeriod, before: string): number {
+    const stmt = this.db.prepare('DELETE FROM request_rollups WHERE period = ? AND period_start < ?');
+    return stmt.run(period, before).changes;
+  }
+}
@@ -0,0 +1,75 @@
+import { ListCountQuery, ListQuery, ListSpec, Page, Repository } from "./repository";
+
+export interface Route {
+  id?: number;
+  domain_id: number;
+  service_id: number;
+  path: string;
+  is_active: boolean;
+  is_dedicated_subdomain: boolean;
+  is_path: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export class RouteModel extends Repository {
+  // Create a new route
+  create(data: Omit<Route, 'id' | 'created_at' | 'updated_at'>): number {
+    const timestamp = this.getCurrentTimestamp();
+    const stmt = this.db.prepare(`
+      INSERT INTO routes (domain_id, service_id, path, is_active, is_dedicated_subdomain, is_path, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(data.domain_id, data.service_id, data.path, data.is_active, data.is_dedicated_subdomain, data.is_path, timestamp, timestamp);
+    const id = result.lastInsertRowid as number;
+    this.notifyChange('routes', 'create', id);
+    return id;
+  }
+
+  // Find route by ID
+  findById(id: number): Route | undefined {
+    const stmt = this.db.prepare('SELECT * FROM routes WHERE id = ?');
+    return stmt.get(id) as Route | undefined;
+  }
+
+  readonly listSpec: ListSpec = {
+    filters: { domain_id: 'integer', service_id: 'integer', path: 'string', is_active: 'boolean', is_dedicated_subdomain: 'boolean', is_path: 'boolean' },
+    sorts: ['id', 'path', 'created_at', 'updated_at'],
+    defaultSort: 'id',
+    defaultOrder: 'asc',
+    timeColumn: 'created_at',
+  };
+
+  // A page of routes, filtered and sorted as requested
+  list(query: ListQuery): Page<Route> {
+    return this.findPage<Route>('routes', this.listSpec, query);
+  }
+
+  // How many routes match the filters, across every page
+  count(query: ListCountQuery = { filters: {} }): number {
+    return this.countRows('routes', this.listSpec, query);
+  }
+
+  // Get all routes
+  findAll(): Route[] {
+    const stmt = this.db.prepare('SELECT * FROM routes');
+    return stmt.all() as Route[];
+  }
+
+  // Update route
+  update(id: number, data: Partial<Omit<Route, 'id' | 'created_at'>>): boolean {
+    const updated = this.updateColumns<Route>('routes', id, [
+      'domain_id', 'service_id', 'path', 'is_active', 'is_dedicated_subdomain', 'is_path',
+    ], data);
+    if (updated) this.notifyChange('routes', 'update', id);
+    return updated;
+  }
+
+  // Delete route; request logs and any DNS records still pointing at it are unlinked
+  delete(id: number): boolean {
+    const stmt = this.db.prepare('DELETE FROM routes WHERE id = ?');
+    const result = stmt.run(id);
+    if (result.changes > 0) this.notifyChange('routes', 'delete', id);
+    return result.changes > 0;
+  }
+}
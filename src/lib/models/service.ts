@@ -0,0 +1,87 @@
+import { Dependents, ListCountQuery, ListQuery, ListSpec, Page, Repository } from "./repository";
+import type { HealthState } from "./health-check";
+
+export interface Service {
+  id?: number;
+  domain_id: number;
+  name: string;
+  description: string;
+  port: number;
+  is_active: boolean;
+  health_status?: HealthState;
+  health_status_changed_at?: string;
+  // Days to keep the service's raw request logs; unset uses the default retention
+  request_log_retention_days?: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export class ServiceModel extends Repository {
+  // Create a new service
+  create(data: Omit<Service, 'id' | 'created_at' | 'updated_at'>): number {
+    const timestamp = this.getCurrentTimestamp();
+    const stmt = this.db.prepare(`
+      INSERT INTO services (domain_id, name, description, port, is_active, request_log_retention_days, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(data.domain_id, data.name, data.description, data.port, data.is_active, data.request_log_retention_days ?? null, timestamp, timestamp);
+    const id = result.lastInsertRowid as number;
+    this.notifyChange('services', 'create', id);
+    return id;
+  }
+
+  // Find service by ID
+  findById(id: number): Service | undefined {
+    const stmt = this.db.prepare('SELECT * FROM services WHERE id = ?');
+    return stmt.get(id) as Service | undefined;
+  }
+
+  readonly listSpec: ListSpec = {
+    filters: { domain_id: 'integer', is_active: 'boolean', health_status: 'string' },
+    sorts: ['id', 'name', 'port', 'created_at', 'updated_at'],
+    defaultSort: 'id',
+    defaultOrder: 'asc',
+    timeColumn: 'created_at',
+  };
+
+  // A page of services, filtered and sorted as requested
+  list(query: ListQuery): Page<Service> {
+    return this.findPage<Service>('services', this.listSpec, query);
+  }
+
+  // How many services match the filters, across every page
+  count(query: ListCountQuery = { filters: {} }): number {
+    return this.countRows('services', this.listSpec, query);
+  }
+
+  // Get all services
+  findAll(): Service[] {
+    const stmt = this.db.prepare('SELECT * FROM services');
+    return stmt.all() as Service[];
+  }
+
+  // Update service
+  update(id: number, data: Partial<Omit<Service, 'id' | 'created_at'>>): boolean {
+    const updated = this.updateColumns<Service>('services', id, [
+      'domain_id', 'name', 'description', 'port', 'is_active', 'health_status', 'health_status_changed_at',
+      'request_log_retention_days',
+    ], data);
+    if (updated) this.notifyChange('services', 'update', id);
+    return updated;
+  }
+
+  // Delete service; its health checks and alert subscriptions cascade and its request logs are unlinked
+  delete(id: number): boolean {
+    const stmt = this.db.prepare('DELETE FROM services WHERE id = ?');
+    const result = stmt.run(id);
+    if (result.changes > 0) this.notifyChange('services', 'delete', id);
+    return result.changes > 0;
+  }
+
+  // Routes pointing traffic at the service, which block deleting it
+  findDependents(id: number): Dependents {
+    return {
+      routes: this.db.prepare('SELECT id, domain_id, service_id, path FROM routes WHERE service_id = ? ORDER BY id').all(id) as Dependents['routes'],
+    };
+  }
+}
@@ -0,0 +1,57 @@
+export const ACME_CHALLENGE_PATH_PREFIX = '/.well-known/acme-challenge/';
+
+interface StoredChallenge {
+  keyAuthorization: string;
+  expiresAt: number;
+}
+
+/**
+ * In-memory store of pending HTTP-01 challenge responses, keyed by token.
+ * The provisioning service writes to it and the proxy's port 80 listener reads from it.
+ */
+export class AcmeChallengeStore {
+  private challenges = new Map<string, StoredChallenge>();
+
+  // Orders are abandoned by ACME servers well before this, so anything older is stale
+  constructor(private ttlMs: number = 60 * 60 * 1000) { }
+
+  set(token: string, keyAuthorization: string): void {
+    this.challenges.set(token, { keyAuthorization, expiresAt: Date.now() + this.ttlMs });
+  }
+
+  get(token: string): string | undefined {
+    const challenge = this.challenges.get(token);
+    if (!challenge) return undefined;
+
+    if (challenge.expiresAt <= Date.now()) {
+      this.challenges.delete(token);
+      return undefined;
+    }
+
+    return challenge.keyAuthorization;
+  }
+
+  delete(token: string): void {
+    this.challenges.delete(token);
+  }
+
+  get size(): number {
+    return this.challenges.size;
+  }
+
+  /**
+   * Answer a request for /.well-known/acme-challenge/<token>, or return undefined if the
+   * path is not a challenge path so the caller can handle the request normally
+   */
+  handleRequest(pathname: string): Response | undefined {
+    if (!pathname.startsWith(ACME_CHALLENGE_PATH_PREFIX)) return undefined;
+
+    const token = pathname.slice(ACME_CHALLENGE_PATH_PREFIX.length);
+    const keyAuthorization = token ? this.get(token) : undefined;
+    if (!keyAuthorization) {
+      return new Response('Challenge not found', { status: 404, headers: { 'Content-Type': 'text/plain' } });
+    }
+
+    return new Response(keyAuthorization, { status: 200, headers: { 'Content-Type': 'text/plain' } });
+  }
+}
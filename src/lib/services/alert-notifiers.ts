@@ -0,0 +1,143 @@
+import nodemailer from 'nodemailer';
+import type { AlertChannelType } from '../database';
+
+export interface AlertMessage {
+  event: 'down' | 'up' | 'test' | 'certificate_expiring';
+  serviceId?: number;
+  serviceName: string;
+  title: string;
+  text: string;
+  timestamp: string;
+  error?: string;
+}
+
+export interface WebhookChannelConfig {
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export interface SlackChannelConfig {
+  webhookUrl: string;
+}
+
+export interface EmailChannelConfig {
+  host: string;
+  port: number;
+  secure?: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+  to: string[];
+}
+
+export interface AlertNotifier {
+  /**
+   * Problems with a channel config, empty when it is usable
+   */
+  validate(config: unknown): string[];
+  send(message: AlertMessage, config: unknown): Promise<void>;
+}
+
+const isHttpUrl = (value: unknown): boolean => {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+const asObject = (config: unknown): Record<string, unknown> =>
+  config && typeof config === 'object' ? config as Record<string, unknown> : {};
+
+const postJson = async (url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(10000),
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+  }
+};
+
+/**
+ * Generic webhook: POSTs the alert as JSON
+ */
+export class WebhookNotifier implements AlertNotifier {
+  validate(config: unknown): string[] {
+    const { url, headers } = asObject(config);
+    const errors: string[] = [];
+    if (!isHttpUrl(url)) errors.push('url must be an http(s) URL');
+    if (headers !== undefined && (typeof headers !== 'object' || headers === null || Array.isArray(headers))) {
+      errors.push('headers must be an object');
+    }
+    return errors;
+  }
+
+  async send(message: AlertMessage, config: unknown): Promise<void> {
+    const { url, headers } = config as WebhookChannelConfig;
+    await postJson(url, message, headers);
+  }
+}
+
+/**
+ * Slack-compatible incoming webhook (also accepted by Mattermost, Rocket.Chat and Discord's /slack endpoint)
+ */
+export class SlackNotifier implements AlertNotifier {
+  validate(config: unknown): string[] {
+    return isHttpUrl(asObject(config).webhookUrl) ? [] : ['webhookUrl must be an http(s) URL'];
+  }
+
+  async send(message: AlertMessage, config: unknown): Promise<void> {
+    const { webhookUrl } = config as SlackChannelConfig;
+    const icon = message.event === 'down' ? ':red_circle:'
+      : message.event === 'up' ? ':large_green_circle:'
+      : message.event === 'certificate_expiring' ? ':warning:'
+      : ':bell:';
+    await postJson(webhookUrl, { text: `${icon} *${message.title}*\n${message.text}` });
+  }
+}
+
+/**
+ * Email over SMTP
+ */
+export class EmailNotifier implements AlertNotifier {
+  validate(config: unknown): string[] {
+    const { host, port, from, to } = asObject(config);
+    const errors: string[] = [];
+    if (typeof host !== 'string' || !host) errors.push('host is required');
+    if (!Number.isInteger(port) || (port as number) < 1 || (port as number) > 65535) errors.push('port must be a valid port number');
+    if (typeof from !== 'string' || !from.includes('@')) errors.push('from must be an email address');
+    if (!Array.isArray(to) || to.length === 0 || !to.every(address => typeof address === 'string' && address.includes('@'))) {
+      errors.push('to must be a non-empty list of email addresses');
+    }
+    return errors;
+  }
+
+  async send(message: AlertMessage, config: unknown): Promise<void> {
+    const { host, port, secure, username, password, from, to } = config as EmailChannelConfig;
+    const transport = nodemailer.createTransport({
+      host,
+      port,
+      // Implicit TLS on 465, STARTTLS elsewhere unless told otherwise
+      secure: secure ?? port === 465,
+      auth: username ? { user: username, pass: password } : undefined,
+    });
+
+    await transport.sendMail({
+      from,
+      to: to.join(', '),
+      subject: message.title,
+      text: message.text,
+    });
+  }
+}
+
+export const createDefaultNotifiers = (): Record<AlertChannelType, AlertNotifier> => ({
+  webhook: new WebhookNotifier(),
+  slack: new SlackNotifier(),
+  email: new EmailNotifier(),
+});
@@ -0,0 +1,187 @@
+import { AlertMessage, AlertNotifier, createDefaultNotifiers } from './alert-notifiers';
+import type { ServiceHealthChangeEvent } from './health-check-runner';
+import type { CertificateExpiringEvent } from './certificate-renewal';
+import type { Alert, AlertChannel, AlertChannelType } from '../database';
+import { logger } from '../logger';
+
+export interface AlertingDataSource {
+  getAlertChannelsByServiceId: (serviceId: number) => AlertChannel[];
+  getAlertChannelsByDomainId: (domainId: number) => AlertChannel[];
+  createAlert: (data: Omit<Alert, 'id' | 'created_at' | 'updated_at'>) => number;
+}
+
+export interface AlertDeliveryResult {
+  channelId: number;
+  success: boolean;
+  error?: string;
+}
+
+export interface AlertDispatchResult {
+  sent: number;
+  failed: number;
+  deliveries: AlertDeliveryResult[];
+}
+
+// Secret fields replaced when channel configs are returned from the API. Webhook URLs often carry tokens.
+const SECRET_CONFIG_FIELDS = ['password', 'webhookUrl', 'url'];
+// Config maps whose every value is a secret, such as webhook auth headers
+const SECRET_CONFIG_MAPS = ['headers'];
+const MASKED_SECRET = '********';
+
+export class AlertingService {
+  constructor(
+    private dataSource: AlertingDataSource,
+    private notifiers: Record<AlertChannelType, AlertNotifier> = createDefaultNotifiers()
+  ) { }
+
+  /**
+   * Parse and validate a channel's config for its type
+   */
+  validateChannel(type: string, config: unknown): { valid: boolean; errors: string[] } {
+    const notifier = Object.hasOwn(this.notifiers, type) ? this.notifiers[type as AlertChannelType] : undefined;
+    if (!notifier) {
+      return { valid: false, errors: [`type must be one of: ${Object.keys(this.notifiers).join(', ')}`] };
+    }
+    const errors = notifier.validate(config);
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * A channel's config with secrets masked, for API responses
+   */
+  getPublicConfig(channel: AlertChannel): Record<string, unknown> {
+    const config = JSON.parse(channel.config) as Record<string, unknown>;
+    SECRET_CONFIG_FIELDS.forEach(field => {
+      if (config[field] !== undefined) config[field] = MASKED_SECRET;
+    });
+    SECRET_CONFIG_MAPS.forEach(field => {
+      const values = config[field];
+      if (values && typeof values === 'object') {
+        config[field] = Object.fromEntries(Object.keys(values).map(key => [key, MASKED_SECRET]));
+      }
+    });
+    return config;
+  }
+
+  /**
+   * Keep stored secrets when an updated config sends back the masked placeholder
+   */
+  restoreSecrets(channel: AlertChannel, config: Record<string, unknown>): Record<string, unknown> {
+    const stored = JSON.parse(channel.config) as Record<string, unknown>;
+    const restored = { ...config };
+    SECRET_CONFIG_FIELDS.forEach(field => {
+      if (restored[field] === MASKED_SECRET) restored[field] = stored[field];
+    });
+    SECRET_CONFIG_MAPS.forEach(field => {
+      const values = restored[field];
+      if (!values || typeof values !== 'object') return;
+      const storedValues = (stored[field] ?? {}) as Record<string, unknown>;
+      restored[field] = Object.fromEntries(Object.entries(values).map(([key, value]) =>
+        [key, value === MASKED_SECRET ? storedValues[key] : value]
+      ));
+    });
+    return restored;
+  }
+
+  /**
+   * Alert the service's channels when it goes down, or recovers from being down.
+   * The first result for a new service (unknown -> up) is not worth alerting on.
+   */
+  async handleServiceHealthChange(event: ServiceHealthChangeEvent): Promise<AlertDispatchResult | undefined> {
+    if (event.current === 'unknown') return undefined;
+    if (event.current === 'up' && event.previous !== 'down') return undefined;
+
+    const channels = this.dataSource.getAlertChannelsByServiceId(event.serviceId).filter(channel => channel.is_active);
+    if (channels.length === 0) return undefined;
+
+    return this.dispatch(this.buildServiceMessage(event), channels);
+  }
+
+  /**
+   * Alert the channels of every service on a certificate's domain that the certificate failed to renew and expires soon
+   */
+  async handleCertificateExpiring(event: CertificateExpiringEvent): Promise<AlertDispatchResult | undefined> {
+    const channels = this.dataSource.getAlertChannelsByDomainId(event.domainId).filter(channel => channel.is_active);
+    if (channels.length === 0) return undefined;
+
+    const message: AlertMessage = {
+      event: 'certificate_expiring',
+      serviceName: event.domainName,
+      title: `Certificate for ${event.domainName} expires in ${event.daysRemaining} day(s)`,
+      text: `Certificate ${event.certificateId} for ${event.domainName} expires at ${event.expiresAt} and could not be renewed${event.error ? `: ${event.error}` : ''}`,
+      timestamp: new Date().toISOString(),
+      error: event.error,
+    };
+    return this.dispatch(message, channels);
+  }
+
+  /**
+   * Send a test alert through one channel
+   */
+  async sendTestAlert(channel: AlertChannel): Promise<AlertDeliveryResult> {
+    const message: AlertMessage = {
+      event: 'test',
+      serviceName: 'cloud-router',
+      title: `Test alert for channel "${channel.name}"`,
+      text: 'This is a test alert from cloud-router. If you can read this, the channel is configured correctly.',
+      timestamp: new Date().toISOString(),
+    };
+    const result = await this.dispatch(message, [channel]);
+    return result.deliveries[0];
+  }
+
+  /**
+   * Deliver a message to every channel, recording each attempt. One failing channel never blocks the others.
+   */
+  async dispatch(message: AlertMessage, channels: AlertChannel[]): Promise<AlertDispatchResult> {
+    const deliveries = await Promise.all(channels.map(async (channel): Promise<AlertDeliveryResult> => {
+      let error: string | undefined;
+      try {
+        const notifier = this.notifiers[channel.type];
+        if (!notifier) throw new Error(`Unsupported alert channel type: ${channel.type}`);
+        await notifier.send(message, JSON.parse(channel.config));
+      } catch (sendError) {
+        error = `${sendError}`;
+        logger.error('Failed to send alert', { channelId: channel.id, type: channel.type, error });
+      }
+
+      try {
+        this.dataSource.createAlert({
+          service_id: message.serviceId,
+          alert_channel_id: channel.id!,
+          event: message.event,
+          status: error ? 'failed' : 'sent',
+          message: message.title,
+          error,
+        });
+      } catch (recordError) {
+        // The delivery result still stands, it just goes unrecorded
+        logger.error('Failed to record alert', { channelId: channel.id, error: `${recordError}` });
+      }
+
+      return { channelId: channel.id!, success: !error, error };
+    }));
+
+    return {
+      sent: deliveries.filter(delivery => delivery.success).length,
+      failed: deliveries.filter(delivery => !delivery.success).length,
+      deliveries,
+    };
+  }
+
+  private buildServiceMessage(event: ServiceHealthChangeEvent): AlertMessage {
+    const down = event.current === 'down';
+    const timestamp = new Date().toISOString();
+    return {
+      event: down ? 'down' : 'up',
+      serviceId: event.serviceId,
+      serviceName: event.serviceName,
+      title: down ? `Service ${event.serviceName} is down` : `Service ${event.serviceName} has recovered`,
+      text: down
+        ? `Health check ${event.healthCheckId} marked ${event.serviceName} as down at ${timestamp}${event.error ? `: ${event.error}` : ''}`
+        : `${event.serviceName} is passing its health checks again as of ${timestamp}`,
+      timestamp,
+      error: event.error,
+    };
+  }
+}
@@ -0,0 +1,290 @@
+import * as acme from 'acme-client';
+import fs from 'fs';
+import path from 'path';
+import { Resolver } from 'dns/promises';
+import { DNSChange, DNSProvider, DNSRecordData, waitForDNSChange } from './dns-provider';
+import { getCertificateFiles } from './certificate-store';
+import { AcmeChallengeStore } from './acme-challenge-store';
+import type { Certificate, Domain } from '../database';
+
+export interface AcmeConfig {
+  directoryUrl: string;
+  email?: string;
+  certificateDir: string;
+  accountKeyPath?: string;
+  dnsResolvers?: string[];
+  propagationTimeoutMs?: number;
+  propagationIntervalMs?: number;
+}
+
+export interface CertificateProvisioningDataSource {
+  getCertificateById: (id: number) => Certificate | undefined;
+  getDomainById: (id: number) => Domain | undefined;
+  updateCertificate: (id: number, data: Partial<Omit<Certificate, 'id' | 'created_at'>>) => boolean;
+}
+
+export interface CertificateProvisioningResult {
+  success: boolean;
+  certificateId: number;
+  path?: string;
+  expiresAt?: string;
+  error?: string;
+  warnings: string[];
+}
+
+// The part of acme-client's Client we use, so tests can stand in for an ACME server
+export type AcmeOrderClient = Pick<acme.Client, 'auto'>;
+export type AcmeClientFactory = (options: acme.ClientOptions) => AcmeOrderClient;
+
+const CHALLENGE_RECORD_TTL = 60;
+
+export class CertificateProvisioningService {
+  private inFlight = new Set<number>();
+  // TXT values published per challenge record name. A wildcard and its apex share one name, and their
+  // authorizations run in parallel, so every write to a name goes through one queue.
+  private challengeValues = new Map<string, string[]>();
+  private challengeWrites = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private dnsProvider: DNSProvider,
+    private dataSource: CertificateProvisioningDataSource,
+    private config: AcmeConfig,
+    private challengeStore: AcmeChallengeStore = new AcmeChallengeStore(),
+    private createClient: AcmeClientFactory = options => new acme.Client(options)
+  ) { }
+
+  /**
+   * Issue (or re-issue) a certificate through ACME, using DNS-01 challenges in Route53 or
+   * HTTP-01 challenges served by the proxy depending on the certificate's challenge type,
+   * then write it to disk and record its path and expiry on the certificate row
+   */
+  async provisionCertificate(certificateId: number): Promise<CertificateProvisioningResult> {
+    const warnings: string[] = [];
+
+    if (this.inFlight.has(certificateId)) {
+      return {
+        success: false,
+        certificateId,
+        error: `Certificate ${certificateId} is already being provisioned`,
+        warnings,
+      };
+    }
+
+    this.inFlight.add(certificateId);
+    try {
+      const certificate = this.dataSource.getCertificateById(certificateId);
+      if (!certificate) {
+        return { success: false, certificateId, error: `Certificate with ID ${certificateId} not found`, warnings };
+      }
+
+      const domain = this.dataSource.getDomainById(certificate.domain_id);
+      if (!domain) {
+        return { success: false, certificateId, error: `Domain with ID ${certificate.domain_id} not found`, warnings };
+      }
+
+      const challengeType = certificate.challenge_type || 'dns-01';
+      if (challengeType === 'dns-01' && !domain.hosted_zone_id) {
+        return { success: false, certificateId, error: `Domain ${domain.name} has no hosted zone ID`, warnings };
+      }
+
+      // ACME servers only validate wildcard names over DNS-01 (RFC 8555 section 7.1.3)
+      if (challengeType === 'http-01' && certificate.is_wildcard) {
+        return { success: false, certificateId, error: 'Wildcard certificates require the dns-01 challenge type', warnings };
+      }
+
+      const hostedZoneId = domain.hosted_zone_id || '';
+      const identifiers = this.getCertificateIdentifiers(certificate, domain);
+
+      const client = this.createClient({
+        directoryUrl: this.config.directoryUrl,
+        accountKey: await this.getAccountKey(),
+      });
+
+      const [privateKey, csr] = await acme.crypto.createCsr({
+        commonName: identifiers[0],
+        altNames: identifiers,
+      });
+
+      const pem = await client.auto({
+        csr,
+        email: this.config.email || undefined,
+        termsOfServiceAgreed: true,
+        challengePriority: [challengeType],
+        // We wait for DNS propagation ourselves against the configured resolvers
+        skipChallengeVerification: true,
+        challengeCreateFn: async (authz, challenge, keyAuthorization) => {
+          if (challenge.type === 'http-01') {
+            this.challengeStore.set(challenge.token, keyAuthorization);
+            return;
+          }
+          await this.createDnsChallenge(hostedZoneId, authz.identifier.value, keyAuthorization);
+        },
+        challengeRemoveFn: async (authz, challenge, keyAuthorization) => {
+          if (challenge.type === 'http-01') {
+            this.challengeStore.delete(challenge.token);
+            return;
+          }
+          try {
+            await this.removeDnsChallenge(hostedZoneId, authz.identifier.value, keyAuthorization);
+          } catch (error) {
+            // Leaving a stale TXT record behind is harmless, so don't fail the order over it
+            warnings.push(`Failed to remove challenge record for ${authz.identifier.value}: ${error}`);
+          }
+        },
+      });
+
+      const certificatePath = path.resolve(this.config.certificateDir, String(certificateId));
+      this.writeCertificateFiles(certificatePath, pem, privateKey.toString());
+
+      const info = acme.crypto.readCertificateInfo(pem);
+      const expiresAt = info.notAfter.toISOString();
+
+      this.dataSource.updateCertificate(certificateId, {
+        path: certificatePath,
+        expires_at: expiresAt,
+      });
+
+      return {
+        success: true,
+        certificateId,
+        path: certificatePath,
+        expiresAt,
+        warnings,
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        certificateId,
+        error: `Failed to provision certificate: ${error}`,
+        warnings,
+      };
+    } finally {
+      this.inFlight.delete(certificateId);
+    }
+  }
+
+  /**
+   * Names to request on the certificate. A wildcard doesn't cover its apex, so it is added as a SAN.
+   */
+  getCertificateIdentifiers(certificate: Certificate, domain: Domain): string[] {
+    const domainName = domain.name.toLowerCase().replace(/\.$/, '');
+    return certificate.is_wildcard ? [`*.${domainName}`, domainName] : [domainName];
+  }
+
+  /**
+   * Check whether a certificate is currently being provisioned
+   */
+  isProvisioning(certificateId: number): boolean {
+    return this.inFlight.has(certificateId);
+  }
+
+  private async createDnsChallenge(hostedZoneId: string, identifier: string, keyAuthorization: string): Promise<void> {
+    const name = this.getChallengeRecordName(identifier);
+    // Route53 requires TXT values to be quoted
+    const value = `"${keyAuthorization}"`;
+    const change = await this.writeChallengeRecord(hostedZoneId, name, values => [...values, value]);
+    // Route53 reports INSYNC once every authoritative nameserver has the record; no point asking resolvers before that
+    if (change) {
+      await waitForDNSChange(this.dnsProvider, change, {
+        timeoutMs: this.config.propagationTimeoutMs ?? 120000,
+        pollIntervalMs: this.config.propagationIntervalMs ?? 5000,
+      });
+    }
+    await this.waitForTxtRecord(name, keyAuthorization);
+  }
+
+  private async removeDnsChallenge(hostedZoneId: string, identifier: string, keyAuthorization: string): Promise<void> {
+    const value = `"${keyAuthorization}"`;
+    await this.writeChallengeRecord(hostedZoneId, this.getChallengeRecordName(identifier), values => values.filter(existing => existing !== value));
+  }
+
+  /**
+   * Publish a challenge record name's new TXT values: upsert the remaining set, or delete the record once it is empty
+   */
+  private writeChallengeRecord(hostedZoneId: string, name: string, update: (values: string[]) => string[]): Promise<DNSChange | undefined> {
+    const previous = this.challengeWrites.get(name) ?? Promise.resolve();
+    const write = previous.catch(() => undefined).then(async () => {
+      const current = this.challengeValues.get(name) ?? [];
+      const values = update(current);
+      if (values.length > 0) {
+        this.challengeValues.set(name, values);
+        return this.dnsProvider.upsertDNSRecords(hostedZoneId, [this.getChallengeRecord(name, values)]);
+      }
+
+      this.challengeValues.delete(name);
+      if (current.length > 0) {
+        await this.dnsProvider.deleteDNSRecords(hostedZoneId, [this.getChallengeRecord(name, current)]);
+      }
+      return undefined;
+    });
+
+    this.challengeWrites.set(name, write);
+    // Forget the queue once it drains, so finished orders leave nothing behind
+    const forget = () => {
+      if (this.challengeWrites.get(name) === write) this.challengeWrites.delete(name);
+    };
+    write.then(forget, forget);
+    return write;
+  }
+
+  private getChallengeRecordName(identifier: string): string {
+    return `_acme-challenge.${identifier.replace(/^\*\./, '')}`;
+  }
+
+  private getChallengeRecord(name: string, values: string[]): DNSRecordData {
+    return { name, type: 'TXT', value: values.join('\n'), ttl: CHALLENGE_RECORD_TTL };
+  }
+
+  /**
+   * Poll DNS until the challenge TXT record is visible, or give up after the propagation timeout
+   */
+  private async waitForTxtRecord(name: string, expectedValue: string): Promise<void> {
+    const timeoutMs = this.config.propagationTimeoutMs ?? 120000;
+    const intervalMs = this.config.propagationIntervalMs ?? 5000;
+    const resolver = new Resolver();
+    if (this.config.dnsResolvers && this.config.dnsResolvers.length > 0) {
+      resolver.setServers(this.config.dnsResolvers);
+    }
+
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      try {
+        const records = await resolver.resolveTxt(name);
+        if (records.some(chunks => chunks.join('') === expectedValue)) {
+          return;
+        }
+      } catch {
+        // NXDOMAIN/ENODATA until the record propagates
+      }
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+    }
+
+    throw new Error(`Timed out after ${timeoutMs}ms waiting for ${name} TXT record to propagate`);
+  }
+
+  private async getAccountKey(): Promise<Buffer> {
+    const accountKeyPath = this.config.accountKeyPath || path.join(this.config.certificateDir, 'account.key');
+    if (fs.existsSync(accountKeyPath)) {
+      return fs.readFileSync(accountKeyPath);
+    }
+
+    const accountKey = await acme.crypto.createPrivateKey();
+    fs.mkdirSync(path.dirname(accountKeyPath), { recursive: true });
+    fs.writeFileSync(accountKeyPath, accountKey, { mode: 0o600 });
+    return accountKey;
+  }
+
+  /**
+   * Write via temp files and rename, so the proxy never reads a half-written certificate
+   */
+  private writeCertificateFiles(certificatePath: string, cert: string, key: string): void {
+    fs.mkdirSync(certificatePath, { recursive: true });
+    const { certPath, keyPath } = getCertificateFiles(certificatePath);
+
+    fs.writeFileSync(`${keyPath}.tmp`, key, { mode: 0o600 });
+    fs.writeFileSync(`${certPath}.tmp`, cert);
+    fs.renameSync(`${keyPath}.tmp`, keyPath);
+    fs.renameSync(`${certPath}.tmp`, certPath);
+  }
+}
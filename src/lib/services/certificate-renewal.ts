@@ -0,0 +1,154 @@
+import { EventEmitter } from 'events';
+import { CertificateProvisioningService, CertificateProvisioningResult } from './certificate-provisioning';
+import type { Certificate, CertificateRenewal, Domain } from '../database';
+import { logger } from '../logger';
+
+export interface CertificateRenewalOptions {
+  renewalWindowDays: number;
+  alertWindowDays: number;
+}
+
+export interface CertificateRenewalDataSource {
+  getAllCertificates: () => Certificate[];
+  getCertificateById: (id: number) => Certificate | undefined;
+  getDomainById: (id: number) => Domain | undefined;
+  createCertificateRenewal: (data: Omit<CertificateRenewal, 'id' | 'created_at' | 'updated_at'>) => number;
+  updateCertificateRenewal: (id: number, data: Partial<Omit<CertificateRenewal, 'id' | 'created_at'>>) => boolean;
+}
+
+export interface CertificateRenewalRunResult {
+  checked: number;
+  renewed: number;
+  failed: number;
+  expiringSoon: number[];
+}
+
+export interface CertificateExpiringEvent {
+  certificateId: number;
+  domainId: number;
+  domainName: string;
+  expiresAt: string;
+  daysRemaining: number;
+  error?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class CertificateRenewalService {
+  // Emits 'certificate-expiring' with a CertificateExpiringEvent
+  readonly events = new EventEmitter();
+
+  private timer?: ReturnType<typeof setInterval>;
+  private running = false;
+
+  constructor(
+    private provisioningService: CertificateProvisioningService,
+    private dataSource: CertificateRenewalDataSource,
+    private options: CertificateRenewalOptions
+  ) { }
+
+  /**
+   * Active certificates that expire within the renewal window
+   */
+  findCertificatesDueForRenewal(now: Date = new Date()): Certificate[] {
+    const cutoff = now.getTime() + this.options.renewalWindowDays * DAY_MS;
+    return this.dataSource.getAllCertificates().filter(certificate =>
+      certificate.is_active && new Date(certificate.expires_at).getTime() <= cutoff
+    );
+  }
+
+  /**
+   * Issue a certificate again and record the attempt and its outcome
+   */
+  async renewCertificate(certificateId: number, trigger: CertificateRenewal['trigger']): Promise<CertificateProvisioningResult> {
+    const certificate = this.dataSource.getCertificateById(certificateId);
+    const renewalId = this.dataSource.createCertificateRenewal({
+      certificate_id: certificateId,
+      trigger,
+      status: 'in_progress',
+      previous_expires_at: certificate?.expires_at,
+    });
+
+    const result = await this.provisioningService.provisionCertificate(certificateId);
+
+    this.dataSource.updateCertificateRenewal(renewalId, {
+      status: result.success ? 'succeeded' : 'failed',
+      error: result.error,
+      new_expires_at: result.expiresAt,
+      completed_at: new Date().toISOString(),
+    });
+
+    return result;
+  }
+
+  /**
+   * Renew every certificate that is due, and raise alerts for ones close to expiry
+   */
+  async runRenewals(now: Date = new Date()): Promise<CertificateRenewalRunResult> {
+    const due = this.findCertificatesDueForRenewal(now);
+    const result: CertificateRenewalRunResult = { checked: due.length, renewed: 0, failed: 0, expiringSoon: [] };
+
+    // Sequential on purpose: ACME rate limits and Route53 change batches both prefer it
+    for (const certificate of due) {
+      const renewal = await this.renewCertificate(certificate.id!, 'scheduled');
+      if (renewal.success) {
+        result.renewed++;
+        logger.info('Certificate renewed', { certificateId: certificate.id, expiresAt: renewal.expiresAt });
+        continue;
+      }
+
+      result.failed++;
+      logger.error('Certificate renewal failed', { certificateId: certificate.id, error: renewal.error });
+
+      const msUntilExpiry = new Date(certificate.expires_at).getTime() - now.getTime();
+      if (msUntilExpiry <= this.options.alertWindowDays * DAY_MS) {
+        result.expiringSoon.push(certificate.id!);
+        const event: CertificateExpiringEvent = {
+          certificateId: certificate.id!,
+          domainId: certificate.domain_id,
+          domainName: this.dataSource.getDomainById(certificate.domain_id)?.name ?? `domain ${certificate.domain_id}`,
+          expiresAt: certificate.expires_at,
+          daysRemaining: Math.floor(msUntilExpiry / DAY_MS),
+          error: renewal.error,
+        };
+        logger.error('Certificate renewal failed and certificate expires soon', event);
+        this.events.emit('certificate-expiring', event);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Start checking for due certificates on an interval (and once immediately)
+   */
+  start(intervalMs: number): void {
+    if (this.timer) return;
+
+    const tick = async () => {
+      // A slow ACME run must not overlap with the next tick
+      if (this.running) return;
+      this.running = true;
+      try {
+        const result = await this.runRenewals();
+        if (result.checked > 0) {
+          logger.info('Certificate renewal run completed', result);
+        }
+      } catch (error) {
+        logger.error('Certificate renewal run failed', { error: `${error}` });
+      } finally {
+        this.running = false;
+      }
+    };
+
+    this.timer = setInterval(tick, intervalMs);
+    tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
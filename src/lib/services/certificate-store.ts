@@ -0,0 +1,192 @@
+import fs from 'fs';
+import path from 'path';
+import type { Certificate, Domain } from '../database';
+
+// Certificate paths are directories laid out like certbot/acme.sh output
+export const CERTIFICATE_FILE_NAME = 'fullchain.pem';
+export const PRIVATE_KEY_FILE_NAME = 'privkey.pem';
+
+export interface CertificateStoreDataSource {
+  getAllCertificates: () => Certificate[];
+  getDomainById: (id: number) => Domain | undefined;
+}
+
+export interface LoadedCertificate {
+  certificateId: number;
+  serverName: string;
+  isWildcard: boolean;
+  isRedirect: boolean;
+  expiresAt: string;
+  cert: string;
+  key: string;
+  modifiedAt: number;
+}
+
+export interface CertificateLoadResult {
+  certificates: LoadedCertificate[];
+  warnings: string[];
+}
+
+export interface ProxyTlsOptions {
+  serverName: string;
+  cert: string;
+  key: string;
+}
+
+/**
+ * Resolve the certificate and private key files for a certificate row's path
+ */
+export const getCertificateFiles = (certificatePath: string): { certPath: string; keyPath: string } => ({
+  certPath: path.join(certificatePath, CERTIFICATE_FILE_NAME),
+  keyPath: path.join(certificatePath, PRIVATE_KEY_FILE_NAME),
+});
+
+/**
+ * Check whether a certificate server name covers a hostname.
+ * Wildcards only cover a single label, so *.example.com matches api.example.com
+ * but neither example.com nor a.b.example.com (RFC 6125 section 6.4.3).
+ */
+export const matchesServerName = (serverName: string, hostname: string): boolean => {
+  const pattern = serverName.toLowerCase().replace(/\.$/, '');
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+
+  if (!pattern.startsWith('*.')) {
+    return pattern === host;
+  }
+
+  const suffix = pattern.slice(1); // ".example.com"
+  if (!host.endsWith(suffix)) return false;
+
+  const label = host.slice(0, -suffix.length);
+  return label.length > 0 && !label.includes('.');
+};
+
+export class CertificateStoreService {
+  constructor(private dataSource: CertificateStoreDataSource) { }
+
+  /**
+   * Load every active certificate and its key material from disk
+   */
+  loadCertificates(): CertificateLoadResult {
+    const certificates: LoadedCertificate[] = [];
+    const warnings: string[] = [];
+
+    for (const certificate of this.dataSource.getAllCertificates()) {
+      if (!certificate.is_active) continue;
+
+      const domain = this.dataSource.getDomainById(certificate.domain_id);
+      if (!domain) {
+        warnings.push(`Certificate ${certificate.id} references missing domain ${certificate.domain_id}`);
+        continue;
+      }
+
+      if (!certificate.path) {
+        warnings.push(`Certificate ${certificate.id} for ${domain.name} has not been provisioned yet`);
+        continue;
+      }
+
+      const { certPath, keyPath } = getCertificateFiles(certificate.path);
+      try {
+        const certStat = fs.statSync(certPath);
+        const keyStat = fs.statSync(keyPath);
+
+        certificates.push({
+          certificateId: certificate.id!,
+          serverName: this.getServerName(certificate, domain),
+          isWildcard: !!certificate.is_wildcard,
+          isRedirect: !!certificate.is_redirect,
+          expiresAt: certificate.expires_at,
+          cert: fs.readFileSync(certPath, 'utf8'),
+          key: fs.readFileSync(keyPath, 'utf8'),
+          modifiedAt: Math.max(certStat.mtimeMs, keyStat.mtimeMs),
+        });
+      } catch (error) {
+        warnings.push(`Failed to read certificate ${certificate.id} for ${domain.name}: ${error}`);
+      }
+    }
+
+    return { certificates, warnings };
+  }
+
+  /**
+   * Pick the certificate to serve for a hostname: exact names beat wildcards,
+   * then unexpired certificates beat expired ones, then the latest expiry wins
+   */
+  selectCertificate(certificates: LoadedCertificate[], hostname: string, now: Date = new Date()): LoadedCertificate | undefined {
+    const candidates = certificates.filter(certificate => matchesServerName(certificate.serverName, hostname));
+    return candidates.sort((a, b) => this.compareCertificates(a, b, now))[0];
+  }
+
+  /**
+   * Build the Bun.serve tls array, one entry per distinct server name.
+   * Bun performs the SNI lookup itself, including wildcard server names.
+   */
+  buildTlsOptions(certificates: LoadedCertificate[], now: Date = new Date()): ProxyTlsOptions[] {
+    const bestByServerName = new Map<string, LoadedCertificate>();
+
+    for (const certificate of certificates) {
+      const serverName = certificate.serverName.toLowerCase();
+      const current = bestByServerName.get(serverName);
+      if (!current || this.compareCertificates(certificate, current, now) < 0) {
+        bestByServerName.set(serverName, certificate);
+      }
+    }
+
+    // Exact names first so the default (first) certificate is never a wildcard when avoidable
+    return [...bestByServerName.entries()]
+      .sort(([a], [b]) => Number(a.startsWith('*.')) - Number(b.startsWith('*.')) || a.localeCompare(b))
+      .map(([serverName, certificate]) => ({
+        serverName,
+        cert: certificate.cert,
+        key: certificate.key,
+      }));
+  }
+
+  /**
+   * Hostnames in the list that no loaded certificate covers
+   */
+  findUncoveredHostnames(certificates: LoadedCertificate[], hostnames: string[]): string[] {
+    return hostnames.filter(hostname => !this.selectCertificate(certificates, hostname));
+  }
+
+  /**
+   * Server names of loaded certificates whose hostnames should be redirected from HTTP to HTTPS
+   */
+  getRedirectServerNames(certificates: LoadedCertificate[]): string[] {
+    return [...new Set(certificates
+      .filter(certificate => certificate.isRedirect)
+      .map(certificate => certificate.serverName.toLowerCase()))];
+  }
+
+  /**
+   * A stable key that changes whenever a certificate is added, removed or renewed on disk
+   */
+  getFingerprint(certificates: LoadedCertificate[]): string {
+    return certificates
+      .map(certificate => `${certificate.certificateId}:${certificate.serverName}:${certificate.modifiedAt}`)
+      .sort()
+      .join('|');
+  }
+
+  /**
+   * The SNI server name a certificate row is issued for
+   */
+  getServerName(certificate: Certificate, domain: Domain): string {
+    const domainName = domain.name.toLowerCase().replace(/\.$/, '');
+    return certificate.is_wildcard ? `*.${domainName}` : domainName;
+  }
+
+  private compareCertificates(a: LoadedCertificate, b: LoadedCertificate, now: Date): number {
+    if (a.isWildcard !== b.isWildcard) {
+      return a.isWildcard ? 1 : -1;
+    }
+
+    const aExpired = new Date(a.expiresAt).getTime() <= now.getTime();
+    const bExpired = new Date(b.expiresAt).getTime() <= now.getTime();
+    if (aExpired !== bExpired) {
+      return aExpired ? 1 : -1;
+    }
+
+    return new Date(b.expiresAt).getTime() - new Date(a.expiresAt).getTime();
+  }
+}
@@ -0,0 +1,276 @@
+import type { DNSChange, DNSProvider, DNSRecordChange, DNSRecordData, DNSRecordType, HostedZoneSummary } from './dns-provider';
+import { findZoneForDomain, groupRecordSets, recordValues } from './dns-provider';
+
+export interface CloudflareConfig {
+  apiToken: string;
+  // Needed only to create zones
+  accountId?: string;
+  baseUrl?: string;
+}
+
+interface CloudflareResponse<T> {
+  success: boolean;
+  errors: Array<{ code: number; message: string }>;
+  result: T;
+  result_info?: { page: number; total_pages: number };
+}
+
+interface CloudflareZone {
+  id: string;
+  name: string;
+  name_servers?: string[];
+  created_on?: string;
+}
+
+interface CloudflareRecord {
+  id: string;
+  name: string;
+  type: string;
+  content: string;
+  ttl: number;
+  priority?: number;
+  data?: Record<string, string | number>;
+}
+
+type CloudflareRecordInput = Omit<CloudflareRecord, 'id'> & { proxied?: boolean };
+
+const stripDot = (name: string) => name.replace(/\.$/, '');
+
+/**
+ * Cloudflare DNS through the v4 API. Records are written DNS-only (not proxied) so traffic reaches the router directly.
+ */
+export class CloudflareDNSProvider implements DNSProvider {
+  readonly name = 'cloudflare' as const;
+  private baseUrl: string;
+
+  constructor(private config: CloudflareConfig) {
+    this.baseUrl = config.baseUrl || 'https://api.cloudflare.com/client/v4';
+  }
+
+  async listHostedZones(): Promise<HostedZoneSummary[]> {
+    try {
+      const zones = await this.paginate<CloudflareZone>('/zones');
+      return zones.map(zone => this.toZoneSummary(zone));
+    } catch (error) {
+      throw new Error(`Failed to list Cloudflare zones: ${error}`);
+    }
+  }
+
+  async getHostedZone(hostedZoneId: string): Promise<HostedZoneSummary> {
+    try {
+      return this.toZoneSummary(await this.request<CloudflareZone>('GET', `/zones/${hostedZoneId}`));
+    } catch (error) {
+      throw new Error(`Failed to get Cloudflare zone ${hostedZoneId}: ${error}`);
+    }
+  }
+
+  async findHostedZoneByName(domainName: string): Promise<HostedZoneSummary | null> {
+    try {
+      return findZoneForDomain(await this.listHostedZones(), domainName);
+    } catch (error) {
+      throw new Error(`Failed to find Cloudflare zone for ${domainName}: ${error}`);
+    }
+  }
+
+  async hostedZoneExists(hostedZoneId: string): Promise<boolean> {
+    try {
+      await this.getHostedZone(hostedZoneId);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async createHostedZone(domainName: string): Promise<{ hostedZoneId: string; nameServers: string[] }> {
+    if (!this.config.accountId) {
+      throw new Error('CLOUDFLARE_ACCOUNT_ID is required to create zones');
+    }
+    try {
+      const zone = await this.request<CloudflareZone>('POST', '/zones', {
+        name: stripDot(domainName),
+        account: { id: this.config.accountId },
+        type: 'full',
+      });
+      return { hostedZoneId: zone.id, nameServers: zone.name_servers || [] };
+    } catch (error) {
+      throw new Error(`Failed to create Cloudflare zone for ${domainName}: ${error}`);
+    }
+  }
+
+  async deleteHostedZone(hostedZoneId: string): Promise<void> {
+    try {
+      await this.request('DELETE', `/zones/${hostedZoneId}`);
+    } catch (error) {
+      throw new Error(`Failed to delete Cloudflare zone ${hostedZoneId}: ${error}`);
+    }
+  }
+
+  async getHostedZoneNameServers(hostedZoneId: string): Promise<string[]> {
+    try {
+      const zone = await this.request<CloudflareZone>('GET', `/zones/${hostedZoneId}`);
+      return zone.name_servers || [];
+    } catch (error) {
+      throw new Error(`Failed to get nameservers for Cloudflare zone ${hostedZoneId}: ${error}`);
+    }
+  }
+
+  async listDNSRecords(hostedZoneId: string): Promise<DNSRecordData[]> {
+    try {
+      const records = await this.paginate<CloudflareRecord>(`/zones/${hostedZoneId}/dns_records`);
+      const apex = stripDot((await this.getHostedZone(hostedZoneId)).name);
+      // NS and SOA at the apex are Cloudflare's own, as with Route53; NS elsewhere delegates a subdomain and is kept
+      return groupRecordSets(records
+        .filter(record => !(record.type === 'SOA' || (record.type === 'NS' && record.name === apex)))
+        .map(record => this.fromCloudflareRecord(record)));
+    } catch (error) {
+      throw new Error(`Failed to list DNS records for Cloudflare zone ${hostedZoneId}: ${error}`);
+    }
+  }
+
+  /**
+   * Apply changes through the batch endpoint, which Cloudflare runs atomically (deletes before creates).
+   * Cloudflare serves a change as soon as the call returns, so it is reported INSYNC.
+   */
+  async changeDNSRecords(hostedZoneId: string, changes: DNSRecordChange[]): Promise<DNSChange> {
+    try {
+      const existing = await this.paginate<CloudflareRecord>(`/zones/${hostedZoneId}/dns_records`);
+      const deletes = new Set<string>();
+      const posts: CloudflareRecordInput[] = [];
+
+      for (const { action, record } of changes) {
+        if (record.alias) {
+          throw new Error(`Alias records are Route53-only: ${record.name} ${record.type}`);
+        }
+        const sameSet = existing.filter(current =>
+          current.name.toLowerCase() === stripDot(record.name).toLowerCase() && current.type === record.type
+        );
+
+        if (action === 'UPSERT') {
+          // Match Route53: an upsert replaces the whole name/type set, one Cloudflare record per value
+          sameSet.forEach(current => deletes.add(current.id));
+          posts.push(...recordValues(record.value).map(value => this.toCloudflareRecord({ ...record, value })));
+        } else {
+          for (const value of recordValues(record.value)) {
+            const match = sameSet.find(current => this.fromCloudflareRecord(current).value === value);
+            if (!match) {
+              throw new Error(`Record ${record.name} ${record.type} ${value} not found`);
+            }
+            deletes.add(match.id);
+          }
+        }
+      }
+
+      await this.request('POST', `/zones/${hostedZoneId}/dns_records/batch`, {
+        deletes: [...deletes].map(id => ({ id })),
+        posts,
+      });
+      return { status: 'INSYNC', submittedAt: new Date().toISOString() };
+    } catch (error) {
+      throw new Error(`Failed to change DNS records in Cloudflare zone ${hostedZoneId}: ${error}`);
+    }
+  }
+
+  async upsertDNSRecords(hostedZoneId: string, records: DNSRecordData[]): Promise<DNSChange> {
+    return this.changeDNSRecords(hostedZoneId, records.map(record => ({ action: 'UPSERT', record })));
+  }
+
+  async deleteDNSRecords(hostedZoneId: string, records: DNSRecordData[]): Promise<DNSChange> {
+    return this.changeDNSRecords(hostedZoneId, records.map(record => ({ action: 'DELETE', record })));
+  }
+
+  async getChange(changeId: string): Promise<DNSChange> {
+    throw new Error(`Cloudflare applies changes synchronously and has no change ${changeId} to track`);
+  }
+
+  private toZoneSummary(zone: CloudflareZone): HostedZoneSummary {
+    return {
+      id: zone.id,
+      name: `${stripDot(zone.name)}.`,
+      // Cloudflare doesn't report record counts on zones
+      recordCount: 0,
+      createdAt: zone.created_on ? new Date(zone.created_on) : undefined,
+    };
+  }
+
+  /**
+   * Cloudflare keeps MX priority and SRV/CAA/DS fields out of `content`; fold them back into presentation format
+   */
+  private fromCloudflareRecord(record: CloudflareRecord): DNSRecordData {
+    let value = record.content;
+    if (record.type === 'MX') {
+      value = `${record.priority ?? 0} ${record.content}`;
+    } else if (record.type === 'SRV' && record.data) {
+      value = `${record.data.priority} ${record.data.weight} ${record.data.port} ${record.data.target}`;
+    } else if (record.type === 'CAA' && record.data) {
+      value = `${record.data.flags} ${record.data.tag} "${record.data.value}"`;
+    } else if (record.type === 'DS' && record.data) {
+      value = `${record.data.key_tag} ${record.data.algorithm} ${record.data.digest_type} ${record.data.digest}`;
+    } else if ((record.type === 'TXT' || record.type === 'SPF') && !record.content.startsWith('"')) {
+      value = `"${record.content}"`;
+    }
+
+    return {
+      name: `${stripDot(record.name)}.`,
+      type: record.type as DNSRecordType,
+      value,
+      ttl: record.ttl,
+    };
+  }
+
+  private toCloudflareRecord(record: DNSRecordData): CloudflareRecordInput {
+    const base = { name: stripDot(record.name), type: record.type, ttl: record.ttl, proxied: false };
+    const parts = record.value.trim().split(/\s+/);
+
+    if (record.type === 'MX') {
+      return { ...base, priority: Number(parts[0]), content: parts.slice(1).join(' ') };
+    }
+    if (record.type === 'SRV') {
+      const [priority, weight, port, target] = parts;
+      return { ...base, content: '', data: { priority: Number(priority), weight: Number(weight), port: Number(port), target } };
+    }
+    if (record.type === 'CAA') {
+      const [flags, tag, ...rest] = parts;
+      return { ...base, content: '', data: { flags: Number(flags), tag, value: rest.join(' ').replace(/^"|"$/g, '') } };
+    }
+    if (record.type === 'DS') {
+      const [keyTag, algorithm, digestType, digest] = parts;
+      return { ...base, content: '', data: { key_tag: Number(keyTag), algorithm: Number(algorithm), digest_type: Number(digestType), digest } };
+    }
+    return { ...base, content: record.value };
+  }
+
+  private async paginate<T>(path: string): Promise<T[]> {
+    const results: T[] = [];
+    for (let page = 1; ; page++) {
+      const separator = path.includes('?') ? '&' : '?';
+      const response = await this.send<T[]>('GET', `${path}${separator}page=${page}&per_page=100`);
+      results.push(...response.result);
+      if (!response.result_info || page >= response.result_info.total_pages) {
+        return results;
+      }
+    }
+  }
+
+  private async request<T = unknown>(method: string, path: string, body?: unknown): Promise<T> {
+    return (await this.send<T>(method, path, body)).result;
+  }
+
+  private async send<T>(method: string, path: string, body?: unknown): Promise<CloudflareResponse<T>> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.config.apiToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(30000),
+    });
+
+    const payload = await response.json().catch(() => undefined) as CloudflareResponse<T> | undefined;
+    if (!response.ok || !payload?.success) {
+      const details = payload?.errors?.map(error => `${error.code}: ${error.message}`).join('; ');
+      throw new Error(`Cloudflare API ${method} ${path} failed with ${response.status}${details ? ` (${details})` : ''}`);
+    }
+    return payload;
+  }
+}
@@ -0,0 +1,175 @@
+import { Resolver } from 'dns/promises';
+import { DNSProvider } from './dns-provider';
+import { DomainModel, Domain } from '../models/domain';
+import { logger } from '../logger';
+
+/**
+ * Looks up a domain's public NS records. Swappable so tests can answer from a local stand-in.
+ */
+export interface NameServerResolver {
+  resolveNs(domainName: string): Promise<string[]>;
+}
+
+/**
+ * Resolves NS records through the system resolver, or through specific servers
+ * (e.g. "127.0.0.1:5353" for a local DNS stand-in)
+ */
+export class DnsNameServerResolver implements NameServerResolver {
+  constructor(private servers: string[] = []) { }
+
+  async resolveNs(domainName: string): Promise<string[]> {
+    const resolver = new Resolver();
+    if (this.servers.length > 0) {
+      resolver.setServers(this.servers);
+    }
+    try {
+      return await resolver.resolveNs(domainName);
+    } catch (error) {
+      // No delegation at all is an answer, not a lookup failure
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === 'ENOTFOUND' || code === 'ENODATA') {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
+
+export interface DelegationVerificationResult {
+  success: boolean;
+  // False when the lookup itself failed and nothing was recorded
+  checked: boolean;
+  status: Domain['delegation_status'];
+  expectedNameServers: string[];
+  publicNameServers: string[];
+  // Why delegation failed, or why the check could not be made
+  error?: string;
+}
+
+const normalizeNameServer = (nameServer: string) => nameServer.trim().toLowerCase().replace(/\.$/, '');
+
+export class DelegationVerificationService {
+  private timer?: ReturnType<typeof setInterval>;
+  private running = false;
+
+  constructor(
+    private dnsProvider: DNSProvider,
+    private domainModel: DomainModel,
+    private resolver: NameServerResolver
+  ) { }
+
+  /**
+   * Compare the domain's public NS records with its hosted zone's delegation set and record the outcome.
+   * A lookup that can't be completed (provider or resolver errors) leaves the status as it was.
+   */
+  async verifyDomain(domainId: number): Promise<DelegationVerificationResult> {
+    const domain = this.domainModel.findById(domainId);
+    if (!domain) {
+      return { success: false, checked: false, status: 'pending', expectedNameServers: [], publicNameServers: [], error: `Domain with ID ${domainId} not found` };
+    }
+    if (!domain.hosted_zone_id) {
+      return this.record(domain, 'failed', [], [], 'Domain has no hosted zone to delegate to');
+    }
+
+    let expected: string[];
+    let found: string[];
+    try {
+      expected = (await this.dnsProvider.getHostedZoneNameServers(domain.hosted_zone_id)).map(normalizeNameServer);
+      found = (await this.resolver.resolveNs(domain.name)).map(normalizeNameServer);
+    } catch (error) {
+      logger.warn('Delegation check could not be completed', { domainId, error: `${error}` });
+      return {
+        success: false,
+        checked: false,
+        status: domain.delegation_status,
+        expectedNameServers: [],
+        publicNameServers: [],
+        error: `Delegation check could not be completed: ${error}`,
+      };
+    }
+
+    if (expected.length === 0) {
+      return this.record(domain, 'failed', expected, found, 'The DNS provider returned no nameservers for the zone');
+    }
+    if (found.length === 0) {
+      return this.record(domain, 'failed', expected, found, `No public NS records found for ${domain.name}; set the nameservers at your registrar to ${expected.join(', ')}`);
+    }
+
+    const missing = expected.filter(nameServer => !found.includes(nameServer));
+    const unexpected = found.filter(nameServer => !expected.includes(nameServer));
+    if (missing.length > 0 || unexpected.length > 0) {
+      const problems = [
+        missing.length > 0 ? `missing ${missing.join(', ')}` : '',
+        unexpected.length > 0 ? `unexpected ${unexpected.join(', ')}` : '',
+      ].filter(Boolean).join('; ');
+      return this.record(domain, 'failed', expected, found, `Public nameservers do not match the hosted zone (${problems})`);
+    }
+
+    return this.record(domain, 'completed', expected, found);
+  }
+
+  /**
+   * Check every domain that isn't delegated yet, including ones that failed before and may since have been fixed
+   */
+  async verifyPendingDomains(): Promise<DelegationVerificationResult[]> {
+    const domains = [
+      ...this.domainModel.getDomainsByDelegationStatus('pending'),
+      ...this.domainModel.getDomainsByDelegationStatus('failed'),
+    ];
+
+    const results: DelegationVerificationResult[] = [];
+    for (const domain of domains) {
+      results.push(await this.verifyDomain(domain.id!));
+    }
+    return results;
+  }
+
+  /**
+   * Start checking undelegated domains on an interval (and once immediately)
+   */
+  start(intervalMs: number): void {
+    if (this.timer) return;
+
+    const tick = async () => {
+      if (this.running) return;
+      this.running = true;
+      try {
+        await this.verifyPendingDomains();
+      } catch (error) {
+        logger.error('Delegation verification run failed', { error: `${error}` });
+      } finally {
+        this.running = false;
+      }
+    };
+
+    this.timer = setInterval(tick, intervalMs);
+    tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private record(
+    domain: Domain,
+    status: Domain['delegation_status'],
+    expectedNameServers: string[],
+    publicNameServers: string[],
+    error?: string
+  ): DelegationVerificationResult {
+    this.domainModel.update(domain.id!, {
+      delegation_status: status,
+      delegation_error: error ?? null,
+      delegation_checked_at: new Date().toISOString(),
+    });
+
+    if (status !== domain.delegation_status) {
+      logger.info('Domain delegation status changed', { domainId: domain.id, from: domain.delegation_status, to: status, error });
+    }
+
+    return { success: status === 'completed', checked: true, status, expectedNameServers, publicNameServers, error };
+  }
+}
@@ -0,0 +1,24 @@
+import type { DNSConflict } from './dns-conflict-validation';
+import type { DNSRecordData } from './dns-provider';
+
+/**
+ * One write a DNS operation would make: to the DNS provider's zone, or to the local dns_records table
+ */
+export interface DNSPlannedChange {
+  action: 'CREATE' | 'UPSERT' | 'DELETE';
+  target: 'provider' | 'local';
+  record: DNSRecordData;
+  // The stored record an UPSERT or DELETE applies to
+  recordId?: number;
+  // What an UPSERT replaces
+  previous?: DNSRecordData;
+}
+
+/**
+ * What a DNS operation would do, worked out without writing anything so it can be reviewed first
+ */
+export interface DNSChangePlan {
+  changes: DNSPlannedChange[];
+  conflicts: DNSConflict[];
+  warnings: string[];
+}
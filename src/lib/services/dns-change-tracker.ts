@@ -0,0 +1,116 @@
+import { DNSChange, DNSProvider, waitForDNSChange } from './dns-provider';
+import { DNSChangeModel, DNSChangeRecord } from '../models/dns-change';
+import { logger } from '../logger';
+
+export interface DNSChangeTrackerConfig {
+  // Which provider the changes were submitted to, stored alongside each change
+  provider: string;
+  // How often to ask the provider for a pending change's status
+  pollIntervalMs: number;
+  // How long callers block waiting for a change before giving up
+  timeoutMs: number;
+}
+
+/**
+ * Persists the changes submitted to the DNS provider and follows them until the provider reports them INSYNC,
+ * so the API and certificate provisioning can block on propagation
+ */
+export class DNSChangeTracker {
+  private timer?: ReturnType<typeof setInterval>;
+  private running = false;
+
+  constructor(
+    private dnsProvider: DNSProvider,
+    private dnsChangeModel: DNSChangeModel,
+    private config: DNSChangeTrackerConfig
+  ) { }
+
+  /**
+   * Store a submitted change and return its dns_changes row ID
+   */
+  record(domainId: number, change: DNSChange, description: string): number {
+    return this.dnsChangeModel.create({
+      domain_id: domainId,
+      provider: this.config.provider,
+      provider_change_id: change.id ?? null,
+      status: change.status,
+      description,
+      submitted_at: change.submittedAt,
+      synced_at: change.status === 'INSYNC' ? new Date().toISOString() : null,
+    });
+  }
+
+  getChange(id: number): DNSChangeRecord | undefined {
+    return this.dnsChangeModel.findById(id);
+  }
+
+  /**
+   * Ask the provider for the current status of a pending change, saving it if it has synced
+   */
+  async refresh(id: number): Promise<DNSChangeRecord | undefined> {
+    const change = this.dnsChangeModel.findById(id);
+    if (!change || change.status === 'INSYNC' || !change.provider_change_id) return change;
+
+    const current = await this.dnsProvider.getChange(change.provider_change_id);
+    if (current.status === 'INSYNC') {
+      this.dnsChangeModel.markInSync(id);
+    }
+    return this.dnsChangeModel.findById(id);
+  }
+
+  /**
+   * Block until a change is INSYNC, throwing if it takes longer than the configured timeout
+   */
+  async waitForChange(id: number): Promise<DNSChangeRecord | undefined> {
+    const change = this.dnsChangeModel.findById(id);
+    if (!change || change.status === 'INSYNC' || !change.provider_change_id) return change;
+
+    await waitForDNSChange(
+      this.dnsProvider,
+      { id: change.provider_change_id, status: change.status, submittedAt: change.submitted_at },
+      { timeoutMs: this.config.timeoutMs, pollIntervalMs: this.config.pollIntervalMs }
+    );
+    this.dnsChangeModel.markInSync(id);
+    return this.dnsChangeModel.findById(id);
+  }
+
+  /**
+   * Refresh every pending change once
+   */
+  async refreshPending(): Promise<void> {
+    for (const change of this.dnsChangeModel.findPending()) {
+      try {
+        await this.refresh(change.id!);
+      } catch (error) {
+        logger.warn('Failed to refresh DNS change status', { changeId: change.id, providerChangeId: change.provider_change_id, error: `${error}` });
+      }
+    }
+  }
+
+  /**
+   * Start refreshing pending changes on an interval (and once immediately)
+   */
+  start(intervalMs: number): void {
+    if (this.timer) return;
+
+    const tick = async () => {
+      if (this.running) return;
+      this.running = true;
+      try {
+        await this.refreshPending();
+      } finally {
+        this.running = false;
+      }
+    };
+
+    this.timer = setInterval(tick, intervalMs);
+    tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
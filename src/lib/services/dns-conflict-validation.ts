@@ -1,5 +1,6 @@
 import { DNSRecordModel, DNSRecord } from '../models/dns-record';
 import { DomainModel } from '../models/domain';
+import { recordValues } from './dns-provider';
 
 export interface DNSConflict {
   type: 'duplicate_name' | 'cname_conflict' | 'ttl_mismatch' | 'value_conflict';
@@ -22,6 +23,8 @@ export interface DNSRecordValidationOptions {
   type: string;
   value: string;
   ttl?: number;
+  // Alias records hold the target's DNS name rather than a value of their type
+  alias?: boolean;
   checkExisting?: boolean;
   strictMode?: boolean;
 }
@@ -36,7 +39,7 @@ export class DNSConflictValidationService {
    * Validate a DNS record for conflicts
    */
   async validateDNSRecord(options: DNSRecordValidationOptions): Promise<DNSValidationResult> {
-    const { domainId, name, type, value, ttl, checkExisting = true, strictMode = false } = options;
+    const { domainId, name, type, value, ttl, alias = false, checkExisting = true, strictMode = false } = options;
     const conflicts: DNSConflict[] = [];
     const warnings: string[] = [];
 
@@ -126,10 +129,23 @@ export class DNSConflictValidationService {
         }
       }
 
-      // Type-specific validations
-      const typeValidation = this.validateRecordTypeSpecific(name, type, value);
-      conflicts.push(...typeValidation.conflicts);
-      warnings.push(...typeValidation.warnings);
+      // Type-specific validations, for each value of a multi-value set
+      const values = alias ? [] : recordValues(value);
+      for (const single of values) {
+        const typeValidation = this.validateRecordTypeSpecific(name, type, single);
+        conflicts.push(...typeValidation.conflicts);
+        warnings.push(...typeValidation.warnings);
+      }
+      if (alias && !this.isValidDomainName(value)) {
+        conflicts.push({
+          type: 'value_conflict',
+          severity: 'error',
+          record: { name, type: type as DNSRecord['type'], value } as DNSRecord,
+          conflictingRecords: [],
+          description: `Invalid alias target: ${value}`,
+          resolution: 'Provide the DNS name of the load balancer, distribution or record set to alias',
+        });
+      }
 
       // Determine overall validity
       const hasErrors = conflicts.some(conflict => conflict.severity === 'error');
@@ -269,6 +285,45 @@ export class DNSConflictValidationService {
         }
         break;
 
+      case 'NS':
+        if (!this.isValidDomainName(value)) {
+          conflicts.push({
+            type: 'value_conflict',
+            severity: 'error',
+            record: { name, type: 'NS', value } as DNSRecord,
+            conflictingRecords: [],
+            description: `Invalid nameserver: ${value}`,
+            resolution: 'Provide the nameserver\'s fully qualified domain name',
+          });
+        }
+        break;
+
+      case 'CAA':
+        if (!/^\d{1,3} (issue|issuewild|iodef) "[^"]*"$/.test(value)) {
+          conflicts.push({
+            type: 'value_conflict',
+            severity: 'error',
+            record: { name, type: 'CAA', value } as DNSRecord,
+            conflictingRecords: [],
+            description: `Invalid CAA record format: ${value}`,
+            resolution: 'Use format: flags tag "value" (e.g., 0 issue "letsencrypt.org")',
+          });
+        }
+        break;
+
+      case 'DS':
+        if (!/^\d{1,5} \d{1,3} \d{1,3} [0-9a-fA-F]+$/.test(value)) {
+          conflicts.push({
+            type: 'value_conflict',
+            severity: 'error',
+            record: { name, type: 'DS', value } as DNSRecord,
+            conflictingRecords: [],
+            description: `Invalid DS record format: ${value}`,
+            resolution: 'Use format: "key-tag algorithm digest-type digest" (e.g., "12345 13 2 1F2E...")',
+          });
+        }
+        break;
+
       case 'TXT':
         // TXT records can contain any text, but warn about very long values
         if (value.length > 255) {
@@ -0,0 +1,154 @@
+import { DNSAliasTarget, DNSProvider, toDNSRecordData } from './dns-provider';
+import { DNSRecordRetrievalService } from './dns-record-retrieval';
+import type { DNSRecord } from '../models/dns-record';
+import { DomainModel } from '../models/domain';
+import { logger } from '../logger';
+
+export interface DNSDriftReconcilerConfig {
+  // Push our desired state back to the DNS provider when drift is found, rather than only reporting it
+  reapply: boolean;
+}
+
+export interface DNSRecordDrift {
+  kind: 'changed' | 'missing';
+  record: DNSRecord;
+  // What the DNS provider currently has, for changed records
+  remote?: { value: string; ttl: number; priority?: number; weight?: number; alias?: DNSAliasTarget };
+  reason: string;
+  reapplied: boolean;
+}
+
+export interface DNSDriftReport {
+  domainId: number;
+  domainName: string;
+  checkedAt: string;
+  inSync: boolean;
+  drift: DNSRecordDrift[];
+  errors: string[];
+}
+
+/**
+ * Periodically syncs each hosted zone into dns_records and reports where the DNS provider has drifted
+ * from the records cloud-router manages, optionally re-applying them
+ */
+export class DNSDriftReconcilerService {
+  private reports = new Map<number, DNSDriftReport>();
+  private timer?: ReturnType<typeof setInterval>;
+  private running = false;
+
+  constructor(
+    private dnsProvider: DNSProvider,
+    private dnsRecordRetrievalService: DNSRecordRetrievalService,
+    private domainModel: DomainModel,
+    private config: DNSDriftReconcilerConfig
+  ) { }
+
+  /**
+   * Sync one domain from its DNS provider and build its drift report. `reapply` overrides the configured default.
+   */
+  async checkDomain(domainId: number, options: { reapply?: boolean } = {}): Promise<DNSDriftReport | undefined> {
+    const domain = this.domainModel.findById(domainId);
+    if (!domain) return undefined;
+
+    const reapply = options.reapply ?? this.config.reapply;
+    const sync = await this.dnsRecordRetrievalService.syncDNSRecords(domainId);
+    const errors = [...sync.errors];
+
+    const drift: DNSRecordDrift[] = [
+      ...sync.conflicts.map(conflict => ({
+        kind: 'changed' as const,
+        record: conflict.local,
+        remote: {
+          value: conflict.remote.value,
+          ttl: conflict.remote.ttl,
+          priority: conflict.remote.priority,
+          weight: conflict.remote.weight,
+          alias: conflict.remote.alias,
+        },
+        reason: conflict.reason,
+        reapplied: false,
+      })),
+      ...sync.missing.map(record => ({
+        kind: 'missing' as const,
+        record,
+        reason: 'Missing from the DNS provider',
+        reapplied: false,
+      })),
+    ];
+
+    if (reapply && drift.length > 0 && domain.hosted_zone_id) {
+      try {
+        await this.dnsProvider.upsertDNSRecords(domain.hosted_zone_id, drift.map(({ record }) => toDNSRecordData(record)));
+        drift.forEach(entry => { entry.reapplied = true; });
+        logger.info('Re-applied drifted DNS records', { domainId, count: drift.length });
+      } catch (error) {
+        errors.push(`Failed to re-apply drifted records: ${error}`);
+      }
+    }
+
+    const report: DNSDriftReport = {
+      domainId,
+      domainName: domain.name,
+      checkedAt: new Date().toISOString(),
+      // A sync that failed can't vouch for anything
+      inSync: sync.success && drift.every(entry => entry.reapplied),
+      drift,
+      errors,
+    };
+    this.reports.set(domainId, report);
+
+    if (drift.length > 0) {
+      logger.info('DNS drift detected', { domainId, domain: domain.name, drifted: drift.length, reapplied: drift.filter(entry => entry.reapplied).length });
+    }
+
+    return report;
+  }
+
+  /**
+   * Check every domain that has a hosted zone
+   */
+  async checkAllDomains(): Promise<DNSDriftReport[]> {
+    const reports: DNSDriftReport[] = [];
+    for (const domain of this.domainModel.findAll().filter(domain => domain.hosted_zone_id)) {
+      const report = await this.checkDomain(domain.id!);
+      if (report) reports.push(report);
+    }
+    return reports;
+  }
+
+  /**
+   * The latest drift report for a domain, if it has been checked since startup
+   */
+  getReport(domainId: number): DNSDriftReport | undefined {
+    return this.reports.get(domainId);
+  }
+
+  /**
+   * Start checking for drift on an interval (and once immediately)
+   */
+  start(intervalMs: number): void {
+    if (this.timer) return;
+
+    const tick = async () => {
+      if (this.running) return;
+      this.running = true;
+      try {
+        await this.checkAllDomains();
+      } catch (error) {
+        logger.error('DNS drift check failed', { error: `${error}` });
+      } finally {
+        this.running = false;
+      }
+    };
+
+    this.timer = setInterval(tick, intervalMs);
+    tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
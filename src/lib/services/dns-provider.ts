@@ -0,0 +1,202 @@
+import { Route53ClientService } from './route53-client';
+import { CloudflareDNSProvider } from './cloudflare-dns-provider';
+import { RFC2136DNSProvider } from './rfc2136-dns-provider';
+import { DNSRecord, DNS_RECORD_TYPES } from '../models/dns-record';
+
+export type DNSProviderName = 'route53' | 'cloudflare' | 'rfc2136';
+
+export type DNSRecordType = typeof DNS_RECORD_TYPES[number];
+
+/**
+ * Route53 alias: the record answers with the target's addresses (an ELB, CloudFront distribution or
+ * another record set) instead of fixed values. The target DNS name is the record's value.
+ */
+export interface DNSAliasTarget {
+  hostedZoneId: string;
+  evaluateTargetHealth: boolean;
+}
+
+/**
+ * A record set in the provider's zone. Names are fully qualified with a trailing dot and values use
+ * zone-file presentation format (e.g. MX "10 mail.example.com", TXT "\"v=spf1 -all\""), whatever the provider.
+ * A set with several values (round-robin A, several MX) keeps them one per line, as the Route53 console does.
+ */
+export interface DNSRecordData {
+  name: string;
+  type: DNSRecordType;
+  value: string;
+  ttl: number;
+  priority?: number;
+  weight?: number;
+  alias?: DNSAliasTarget;
+}
+
+export interface HostedZoneSummary {
+  id: string;
+  // Fully qualified, with a trailing dot
+  name: string;
+  recordCount: number;
+  createdAt?: Date;
+  privateZone?: boolean;
+}
+
+export type DNSChangeStatus = 'PENDING' | 'INSYNC';
+
+/**
+ * A submitted change batch. Route53 applies changes asynchronously and reports INSYNC once every
+ * authoritative server has them; providers that apply changes synchronously report INSYNC straight away.
+ */
+export interface DNSChange {
+  // The provider's change ID, when there is something to poll
+  id?: string;
+  status: DNSChangeStatus;
+  submittedAt: string;
+}
+
+export interface DNSRecordChange {
+  // UPSERT replaces every record with the same name and type; DELETE removes exactly this record
+  action: 'UPSERT' | 'DELETE';
+  record: DNSRecordData;
+}
+
+/**
+ * Where zones and records live. Services depend on this rather than on a particular DNS host.
+ */
+export interface DNSProvider {
+  readonly name: DNSProviderName;
+
+  listHostedZones(): Promise<HostedZoneSummary[]>;
+  getHostedZone(hostedZoneId: string): Promise<HostedZoneSummary>;
+  findHostedZoneByName(domainName: string): Promise<HostedZoneSummary | null>;
+  hostedZoneExists(hostedZoneId: string): Promise<boolean>;
+  createHostedZone(domainName: string, comment?: string): Promise<{ hostedZoneId: string; nameServers: string[] }>;
+  deleteHostedZone(hostedZoneId: string): Promise<void>;
+  // The nameservers a registrar must delegate the zone to
+  getHostedZoneNameServers(hostedZoneId: string): Promise<string[]>;
+
+  listDNSRecords(hostedZoneId: string): Promise<DNSRecordData[]>;
+  // Apply all changes together: providers that support it do so atomically
+  changeDNSRecords(hostedZoneId: string, changes: DNSRecordChange[]): Promise<DNSChange>;
+  upsertDNSRecords(hostedZoneId: string, records: DNSRecordData[]): Promise<DNSChange>;
+  deleteDNSRecords(hostedZoneId: string, records: DNSRecordData[]): Promise<DNSChange>;
+  // Current status of a change returned with an ID
+  getChange(changeId: string): Promise<DNSChange>;
+}
+
+export interface DNSProviderSettings {
+  dnsProvider: string;
+  cloudflareApiToken: string;
+  cloudflareAccountId: string;
+  rfc2136Server: string;
+  rfc2136Port: number;
+  rfc2136Zones: string[];
+  rfc2136TsigKeyName: string;
+  rfc2136TsigSecret: string;
+  rfc2136TsigAlgorithm: string;
+}
+
+/**
+ * The individual values of a record set
+ */
+export const recordValues = (value: string): string[] =>
+  value.split('\n').map(line => line.trim()).filter(Boolean);
+
+/**
+ * Two record sets hold the same values, whatever order the provider returned them in
+ */
+export const sameRecordValues = (a: string, b: string): boolean => {
+  const left = recordValues(a).sort();
+  const right = recordValues(b).sort();
+  return left.length === right.length && left.every((value, i) => value === right[i]);
+};
+
+/**
+ * Merge per-value records, as listed by providers that don't group them, into one entry per name and type
+ */
+export const groupRecordSets = (records: DNSRecordData[]): DNSRecordData[] => {
+  const sets = new Map<string, DNSRecordData>();
+  for (const record of records) {
+    const key = `${record.name.toLowerCase()}:${record.type}`;
+    const existing = sets.get(key);
+    if (existing) {
+      existing.value = `${existing.value}\n${record.value}`;
+    } else {
+      sets.set(key, { ...record });
+    }
+  }
+  return [...sets.values()];
+};
+
+/**
+ * A stored record as the provider sees it. SQLite returns NULL for unset columns, which the providers expect as undefined.
+ */
+export const toDNSRecordData = (record: DNSRecord): DNSRecordData => ({
+  name: record.name,
+  type: record.type,
+  value: record.value,
+  ttl: record.ttl,
+  priority: record.priority ?? undefined,
+  weight: record.weight ?? undefined,
+  alias: record.alias_hosted_zone_id
+    ? { hostedZoneId: record.alias_hosted_zone_id, evaluateTargetHealth: Boolean(record.alias_evaluate_target_health) }
+    : undefined,
+});
+
+/**
+ * Poll a change until the provider reports it INSYNC, or give up after the timeout
+ */
+export const waitForDNSChange = async (
+  dnsProvider: DNSProvider,
+  change: DNSChange,
+  options: { timeoutMs: number; pollIntervalMs: number }
+): Promise<DNSChange> => {
+  let current = change;
+  const deadline = Date.now() + options.timeoutMs;
+  while (current.status !== 'INSYNC' && current.id) {
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out after ${options.timeoutMs}ms waiting for change ${current.id} to be INSYNC`);
+    }
+    await new Promise(resolve => setTimeout(resolve, options.pollIntervalMs));
+    current = await dnsProvider.getChange(current.id);
+  }
+  return current;
+};
+
+/**
+ * The most specific zone containing a domain: an exact match, else the closest parent
+ */
+export const findZoneForDomain = (zones: HostedZoneSummary[], domainName: string): HostedZoneSummary | null => {
+  const normalized = `${domainName.toLowerCase().replace(/\.$/, '')}.`;
+  const labels = normalized.split('.');
+  for (let i = 0; i < labels.length - 2; i++) {
+    const candidate = labels.slice(i).join('.');
+    const match = zones.find(zone => zone.name.toLowerCase() === candidate);
+    if (match) return match;
+  }
+  return null;
+};
+
+export const createDNSProvider = (settings: DNSProviderSettings): DNSProvider => {
+  switch (settings.dnsProvider) {
+    case 'route53':
+      return new Route53ClientService();
+    case 'cloudflare':
+      return new CloudflareDNSProvider({
+        apiToken: settings.cloudflareApiToken,
+        accountId: settings.cloudflareAccountId,
+      });
+    case 'rfc2136':
+      return new RFC2136DNSProvider({
+        server: settings.rfc2136Server,
+        port: settings.rfc2136Port,
+        zones: settings.rfc2136Zones,
+        tsig: settings.rfc2136TsigKeyName ? {
+          keyName: settings.rfc2136TsigKeyName,
+          secret: settings.rfc2136TsigSecret,
+          algorithm: settings.rfc2136TsigAlgorithm,
+        } : undefined,
+      });
+    default:
+      throw new Error(`Unknown DNS provider "${settings.dnsProvider}": expected route53, cloudflare or rfc2136`);
+  }
+};
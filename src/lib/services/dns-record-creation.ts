@@ -1,31 +1,43 @@
-import { Route53ClientService, DNSRecordData } from './route53-client';
-import { DNSRecordModel, DNSRecord } from '../models/dns-record';
+import { DNSAliasTarget, DNSProvider, DNSRecordData, recordValues } from './dns-provider';
+import { DNSChangePlan } from './dns-change-plan';
+import { DNSChangeTracker } from './dns-change-tracker';
+import { DNSRecordModel, DNSRecord, DNS_RECORD_TYPES } from '../models/dns-record';
 import { DomainModel } from '../models/domain';
 
 export interface DNSRecordCreationOptions {
   domainId: number;
   name: string;
-  type: 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'SRV' | 'PTR';
+  type: DNSRecord['type'];
+  // One value per line for a multi-value record set
   value: string;
   ttl?: number;
   priority?: number;
   weight?: number;
+  alias?: DNSAliasTarget;
   syncToRoute53?: boolean;
+  createdByRouteId?: number;
+  // Work out the change without writing anything
+  dryRun?: boolean;
 }
 
 export interface DNSRecordCreationResult {
   success: boolean;
   recordId?: number;
   route53ChangeId?: string;
+  // dns_changes row tracking the provider change until it is INSYNC
+  changeId?: number;
+  // Set for dry runs instead of recordId
+  plan?: DNSChangePlan;
   error?: string;
   warnings: string[];
 }
 
 export class DNSRecordCreationService {
   constructor(
-    private route53Client: Route53ClientService,
+    private dnsProvider: DNSProvider,
     private dnsRecordModel: DNSRecordModel,
-    private domainModel: DomainModel
+    private domainModel: DomainModel,
+    private changeTracker?: DNSChangeTracker
   ) { }
 
   /**
@@ -40,7 +52,10 @@ export class DNSRecordCreationService {
       ttl = 300,
       priority,
       weight,
+      alias,
       syncToRoute53 = true,
+      createdByRouteId,
+      dryRun = false,
     } = options;
 
     const warnings: string[] = [];
@@ -73,6 +88,7 @@ export class DNSRecordCreationService {
         ttl,
         priority,
         weight,
+        alias,
       });
 
       if (!validation.valid) {
@@ -93,6 +109,22 @@ export class DNSRecordCreationService {
         };
       }
 
+      if (dryRun) {
+        const record: DNSRecordData = { name, type, value, ttl, priority, weight, alias };
+        return {
+          success: true,
+          plan: {
+            changes: [
+              ...(syncToRoute53 ? [{ action: 'UPSERT' as const, target: 'provider' as const, record }] : []),
+              { action: 'CREATE', target: 'local', record },
+            ],
+            conflicts: [],
+            warnings,
+          },
+          warnings,
+        };
+      }
+
       // Create record locally first
       const recordId = this.dnsRecordModel.create({
         domain_id: domainId,
@@ -102,10 +134,14 @@ export class DNSRecordCreationService {
         ttl,
         priority,
         weight,
+        alias_hosted_zone_id: alias?.hostedZoneId,
+        alias_evaluate_target_health: alias?.evaluateTargetHealth,
         source: 'cloud_router',
+        created_by_route_id: createdByRouteId,
       });
 
       let route53ChangeId: string | undefined;
+      let changeId: number | undefined;
 
       // Sync to Route53 if requested
       if (syncToRoute53) {
@@ -117,11 +153,15 @@ export class DNSRecordCreationService {
             ttl,
             priority,
             weight,
+            alias,
           };
 
-          await this.route53Client.upsertDNSRecords(domain.hosted_zone_id, [route53Record]);
-          // Note: Route53 doesn't return a change ID for upsert operations
-          // In a production system, you might want to track this differently
+          const change = await this.dnsProvider.upsertDNSRecords(domain.hosted_zone_id, [route53Record]);
+          route53ChangeId = change.id;
+          if (this.changeTracker) {
+            changeId = this.changeTracker.record(domainId, change, `UPSERT ${name} ${type}`);
+            this.dnsRecordModel.update(recordId, { change_id: changeId });
+          }
 
         } catch (route53Error) {
           // If Route53 sync fails, we should probably delete the local record
@@ -130,7 +170,7 @@ export class DNSRecordCreationService {
 
           return {
             success: false,
-            error: `Failed to sync to Route53: ${route53Error}`,
+            error: `Failed to sync to DNS provider: ${route53Error}`,
             warnings: [],
           };
         }
@@ -143,6 +183,7 @@ export class DNSRecordCreationService {
         success: true,
         recordId,
         route53ChangeId,
+        changeId,
         warnings,
       };
 
@@ -204,6 +245,9 @@ export class DNSRecordCreationService {
           }
         });
 
+        let batchChangeId: number | undefined;
+        let batchRoute53ChangeId: string | undefined;
+
         // Create valid records in Route53 first (batch operation)
         if (validRecords.length > 0 && domainRecords.some(r => r.syncToRoute53 !== false)) {
           const route53Records: DNSRecordData[] = validRecords
@@ -215,17 +259,20 @@ export class DNSRecordCreationService {
               ttl: record.ttl || 300,
               priority: record.priority,
               weight: record.weight,
+              alias: record.alias,
             }));
 
           if (route53Records.length > 0) {
             try {
-              await this.route53Client.upsertDNSRecords(domain.hosted_zone_id!, route53Records);
+              const change = await this.dnsProvider.upsertDNSRecords(domain.hosted_zone_id!, route53Records);
+              batchChangeId = this.changeTracker?.record(domainId, change, `UPSERT ${route53Records.length} record(s)`);
+              batchRoute53ChangeId = change.id;
             } catch (route53Error) {
               // If Route53 batch fails, mark all records as failed
               domainRecords.forEach((record) => {
                 results.set((record as any)._index, {
                   success: false,
-                  error: `Route53 batch operation failed: ${route53Error}`,
+                  error: `DNS provider batch operation failed: ${route53Error}`,
                   warnings: [],
                 });
               });
@@ -245,12 +292,17 @@ export class DNSRecordCreationService {
               ttl: record.ttl || 300,
               priority: record.priority,
               weight: record.weight,
+              alias_hosted_zone_id: record.alias?.hostedZoneId,
+              alias_evaluate_target_health: record.alias?.evaluateTargetHealth,
+              change_id: record.syncToRoute53 !== false ? batchChangeId : undefined,
               source: 'cloud_router',
             });
 
             results.set((record as any)._index, {
               success: true,
               recordId,
+              route53ChangeId: record.syncToRoute53 !== false ? batchRoute53ChangeId : undefined,
+              changeId: record.syncToRoute53 !== false ? batchChangeId : undefined,
               warnings: [],
             });
           } catch (localError) {
@@ -300,7 +352,7 @@ export class DNSRecordCreationService {
       errors.push('Record name is required');
     }
 
-    if (!options.type || !['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'SRV', 'PTR'].includes(options.type)) {
+    if (!options.type || !(DNS_RECORD_TYPES as readonly string[]).includes(options.type)) {
       errors.push('Valid record type is required');
     }
 
@@ -308,44 +360,55 @@ export class DNSRecordCreationService {
       errors.push('Record value is required');
     }
 
-    // Type-specific validations
-    switch (options.type) {
-      case 'A':
-        if (!this.isValidIPv4(options.value)) {
-          errors.push('A record must contain a valid IPv4 address');
-        }
-        break;
-      case 'AAAA':
-        if (!this.isValidIPv6(options.value)) {
-          errors.push('AAAA record must contain a valid IPv6 address');
-        }
-        break;
-      case 'CNAME':
-        if (!this.isValidDomainName(options.value)) {
-          errors.push('CNAME record must contain a valid domain name');
-        }
-        break;
-      case 'MX':
-        if (options.priority === undefined || options.priority < 0 || options.priority > 65535) {
-          errors.push('MX record requires a valid priority (0-65535)');
-        }
-        if (!this.isValidDomainName(options.value)) {
-          errors.push('MX record must contain a valid domain name');
-        }
-        break;
-      case 'SRV':
-        if (options.priority === undefined || options.priority < 0 || options.priority > 65535) {
-          errors.push('SRV record requires a valid priority (0-65535)');
-        }
-        if (options.weight === undefined || options.weight < 0 || options.weight > 65535) {
-          errors.push('SRV record requires a valid weight (0-65535)');
-        }
-        // SRV format: priority weight port target
-        const srvParts = options.value.split(' ');
-        if (srvParts.length !== 4) {
-          errors.push('SRV record must be in format: "priority weight port target"');
+    // Type-specific validations, per value of the set; an alias's value is the target's DNS name
+    if (options.alias) {
+      if (!this.isValidDomainName(options.value)) {
+        errors.push('Alias record must target a valid domain name');
+      }
+    } else {
+      for (const value of recordValues(options.value || '')) {
+        switch (options.type) {
+          case 'A':
+            if (!this.isValidIPv4(value)) {
+              errors.push('A record must contain a valid IPv4 address');
+            }
+            break;
+          case 'AAAA':
+            if (!this.isValidIPv6(value)) {
+              errors.push('AAAA record must contain a valid IPv6 address');
+            }
+            break;
+          case 'CNAME':
+            if (!this.isValidDomainName(value)) {
+              errors.push('CNAME record must contain a valid domain name');
+            }
+            break;
+          case 'MX': {
+            // Presentation format, as the DNS providers and zone files use: "priority mailserver"
+            const [priority, exchange, ...rest] = value.split(/\s+/);
+            if (!/^\d+$/.test(priority) || Number(priority) > 65535) {
+              errors.push('MX record requires a valid priority (0-65535)');
+            }
+            if (!exchange || rest.length > 0 || !this.isValidDomainName(exchange)) {
+              errors.push('MX record must be in format: "priority mailserver.example.com"');
+            }
+            break;
+          }
+          case 'SRV':
+            if (options.priority === undefined || options.priority < 0 || options.priority > 65535) {
+              errors.push('SRV record requires a valid priority (0-65535)');
+            }
+            if (options.weight === undefined || options.weight < 0 || options.weight > 65535) {
+              errors.push('SRV record requires a valid weight (0-65535)');
+            }
+            // SRV format: priority weight port target
+            const srvParts = value.split(' ');
+            if (srvParts.length !== 4) {
+              errors.push('SRV record must be in format: "priority weight port target"');
+            }
+            break;
         }
-        break;
+      }
     }
 
     // TTL validation
@@ -355,7 +418,8 @@ export class DNSRecordCreationService {
 
     return {
       valid: errors.length === 0,
-      errors,
+      // Values of a set can fail the same per-record check
+      errors: [...new Set(errors)],
     };
   }
 
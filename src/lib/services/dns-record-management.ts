@@ -0,0 +1,330 @@
+import { DNSChangePlan } from './dns-change-plan';
+import { DNSChangeTracker } from './dns-change-tracker';
+import { DNSProvider, toDNSRecordData } from './dns-provider';
+import { DNSRecordCreationService, DNSRecordCreationOptions } from './dns-record-creation';
+import { DNSConflictValidationService, DNSConflict } from './dns-conflict-validation';
+import { DNSRecordModel, DNSRecord } from '../models/dns-record';
+import { DomainModel } from '../models/domain';
+
+export type DNSRecordInput = Omit<DNSRecordCreationOptions, 'domainId' | 'syncToRoute53' | 'createdByRouteId' | 'dryRun'>;
+
+export interface DNSRecordChangeOptions {
+  // Return the plan of what would change instead of changing anything
+  dryRun?: boolean;
+}
+
+export interface DNSRecordChangeResult {
+  success: boolean;
+  record?: DNSRecord;
+  conflicts: DNSConflict[];
+  // dns_changes row for the provider change, which callers can wait on until it is INSYNC
+  changeId?: number;
+  // Set for dry runs
+  plan?: DNSChangePlan;
+  error?: string;
+  // Why the change was refused: the caller's input, a conflict, or a provider/database failure
+  reason?: 'not_found' | 'invalid' | 'conflict' | 'read_only' | 'failed';
+  warnings: string[];
+}
+
+export interface DNSRecordBatchResult {
+  created: number;
+  failed: number;
+  results: DNSRecordChangeResult[];
+}
+
+/**
+ * Qualify a record name against its zone: "www" and "www.example.com" both become "www.example.com.",
+ * "@" is the apex. Stored names carry the trailing dot, as records synced from Route53 do.
+ */
+export const normalizeRecordName = (name: string, domainName: string): string => {
+  const zone = domainName.toLowerCase().replace(/\.$/, '');
+  const trimmed = name.trim().toLowerCase().replace(/\.$/, '');
+
+  if (trimmed === '@' || trimmed === zone) return `${zone}.`;
+  if (trimmed.endsWith(`.${zone}`)) return `${trimmed}.`;
+  return `${trimmed}.${zone}.`;
+};
+
+/**
+ * Record-level create, update and delete that keep the DNS provider and the local dns_records table together
+ */
+export class DNSRecordManagementService {
+  constructor(
+    private dnsProvider: DNSProvider,
+    private dnsRecordCreationService: DNSRecordCreationService,
+    private conflictValidationService: DNSConflictValidationService,
+    private dnsRecordModel: DNSRecordModel,
+    private domainModel: DomainModel,
+    private changeTracker?: DNSChangeTracker
+  ) { }
+
+  /**
+   * Validate and create a record at the DNS provider and locally
+   */
+  async createRecord(domainId: number, input: DNSRecordInput, options: DNSRecordChangeOptions = {}): Promise<DNSRecordChangeResult> {
+    const domain = this.domainModel.findById(domainId);
+    if (!domain) {
+      return { success: false, conflicts: [], error: `Domain with ID ${domainId} not found`, reason: 'not_found', warnings: [] };
+    }
+
+    const name = input.name ? normalizeRecordName(input.name, domain.name) : '';
+    const validation = await this.validate(domainId, { ...input, name });
+    if (!validation.success) return validation;
+
+    const creation = await this.dnsRecordCreationService.createDNSRecord({ ...input, name, domainId, dryRun: options.dryRun });
+    if (!creation.success) {
+      return { success: false, conflicts: [], error: creation.error, reason: 'failed', warnings: [...validation.warnings, ...creation.warnings] };
+    }
+
+    if (creation.plan) {
+      return {
+        success: true,
+        conflicts: [],
+        plan: { ...creation.plan, conflicts: validation.conflicts },
+        warnings: [...validation.warnings, ...creation.warnings],
+      };
+    }
+
+    return {
+      success: true,
+      record: this.dnsRecordModel.findById(creation.recordId!),
+      conflicts: [],
+      changeId: creation.changeId,
+      warnings: [...validation.warnings, ...creation.warnings],
+    };
+  }
+
+  /**
+   * Validate and create several records, writing the DNS provider in one change batch
+   */
+  async createRecordsBatch(domainId: number, inputs: DNSRecordInput[], options: DNSRecordChangeOptions = {}): Promise<DNSRecordBatchResult> {
+    const domain = this.domainModel.findById(domainId);
+    const results: DNSRecordChangeResult[] = new Array(inputs.length);
+    const valid: Array<{ index: number; options: DNSRecordCreationOptions; warnings: string[] }> = [];
+
+    for (const [index, input] of inputs.entries()) {
+      if (!domain) {
+        results[index] = { success: false, conflicts: [], error: `Domain with ID ${domainId} not found`, reason: 'not_found', warnings: [] };
+        continue;
+      }
+      const name = input.name ? normalizeRecordName(input.name, domain.name) : '';
+      const validation = await this.validate(domainId, { ...input, name });
+      if (!validation.success) {
+        results[index] = validation;
+        continue;
+      }
+      if (options.dryRun) {
+        const creation = await this.dnsRecordCreationService.createDNSRecord({ ...input, name, domainId, dryRun: true });
+        results[index] = creation.success
+          ? { success: true, conflicts: [], plan: { ...creation.plan!, conflicts: validation.conflicts }, warnings: [...validation.warnings, ...creation.warnings] }
+          : { success: false, conflicts: [], error: creation.error, reason: 'failed', warnings: validation.warnings };
+        continue;
+      }
+      valid.push({ index, options: { ...input, name, domainId }, warnings: validation.warnings });
+    }
+
+    if (valid.length > 0) {
+      const created = await this.dnsRecordCreationService.createDNSRecordsBatch(valid.map(entry => entry.options));
+      valid.forEach((entry, batchIndex) => {
+        const creation = created.get(batchIndex);
+        results[entry.index] = creation?.success
+          ? { success: true, record: this.dnsRecordModel.findById(creation.recordId!), conflicts: [], changeId: creation.changeId, warnings: entry.warnings }
+          : { success: false, conflicts: [], error: creation?.error, reason: 'failed', warnings: entry.warnings };
+      });
+    }
+
+    return {
+      created: results.filter(result => result.success).length,
+      failed: results.filter(result => !result.success).length,
+      results,
+    };
+  }
+
+  /**
+   * Change a record's name, type, values, TTL or alias target. Records created by routes or imported
+   * from the DNS provider are read-only here.
+   */
+  async updateRecord(domainId: number, recordId: number, changes: Partial<DNSRecordInput>, options: DNSRecordChangeOptions = {}): Promise<DNSRecordChangeResult> {
+    const lookup = this.findEditableRecord(domainId, recordId);
+    if (!lookup.record || !lookup.hostedZoneId) return lookup.result!;
+    const { record: existing, hostedZoneId, domainName } = lookup;
+
+    const updated: DNSRecordInput = {
+      name: changes.name === undefined ? existing.name : changes.name ? normalizeRecordName(changes.name, domainName!) : '',
+      type: changes.type ?? existing.type,
+      value: changes.value ?? existing.value,
+      ttl: changes.ttl ?? existing.ttl,
+      priority: changes.priority ?? existing.priority ?? undefined,
+      weight: changes.weight ?? existing.weight ?? undefined,
+      // An explicit undefined turns an alias back into a plain record
+      alias: 'alias' in changes ? changes.alias : toDNSRecordData(existing).alias,
+    };
+
+    const validation = await this.validate(domainId, updated, existing.id);
+    if (!validation.success) return validation;
+    const warnings = [...validation.warnings];
+
+    const renamed = updated.name !== existing.name || updated.type !== existing.type;
+
+    if (options.dryRun) {
+      const record = { ...updated, ttl: updated.ttl ?? 300 };
+      const previous = toDNSRecordData(existing);
+      return {
+        success: true,
+        conflicts: [],
+        plan: {
+          changes: [
+            { action: 'UPSERT', target: 'provider', record, ...(renamed ? {} : { recordId, previous }) },
+            ...(renamed ? [{ action: 'DELETE' as const, target: 'provider' as const, record: previous, recordId }] : []),
+            { action: 'UPSERT', target: 'local', record, recordId, previous },
+          ],
+          conflicts: validation.conflicts,
+          warnings,
+        },
+        warnings,
+      };
+    }
+
+    let changeId: number | undefined;
+    try {
+      // UPSERT replaces the whole record set, so a value or TTL change is a single call
+      const change = await this.dnsProvider.upsertDNSRecords(hostedZoneId, [{
+        name: updated.name,
+        type: updated.type,
+        value: updated.value,
+        ttl: updated.ttl ?? 300,
+        priority: updated.priority,
+        weight: updated.weight,
+        alias: updated.alias,
+      }]);
+      changeId = this.changeTracker?.record(domainId, change, `UPSERT ${updated.name} ${updated.type}`);
+    } catch (error) {
+      return { success: false, conflicts: [], error: `Failed to update record at the DNS provider: ${error}`, reason: 'failed', warnings };
+    }
+
+    if (renamed) {
+      try {
+        await this.dnsProvider.deleteDNSRecords(hostedZoneId, [toDNSRecordData(existing)]);
+      } catch (error) {
+        warnings.push(`Created ${updated.name} (${updated.type}) but failed to remove the old record ${existing.name} (${existing.type}) from the DNS provider: ${error}`);
+      }
+    }
+
+    this.dnsRecordModel.update(recordId, {
+      name: updated.name,
+      type: updated.type,
+      value: updated.value,
+      ttl: updated.ttl,
+      priority: updated.priority,
+      weight: updated.weight,
+      alias_hosted_zone_id: updated.alias?.hostedZoneId ?? null,
+      alias_evaluate_target_health: updated.alias ? updated.alias.evaluateTargetHealth : null,
+      ...(changeId !== undefined ? { change_id: changeId } : {}),
+    });
+
+    return { success: true, record: this.dnsRecordModel.findById(recordId), conflicts: [], changeId, warnings };
+  }
+
+  /**
+   * Delete a record from the DNS provider, then locally
+   */
+  async deleteRecord(domainId: number, recordId: number, options: DNSRecordChangeOptions = {}): Promise<DNSRecordChangeResult> {
+    const lookup = this.findEditableRecord(domainId, recordId);
+    if (!lookup.record || !lookup.hostedZoneId) return lookup.result!;
+
+    if (options.dryRun) {
+      const record = toDNSRecordData(lookup.record);
+      return {
+        success: true,
+        record: lookup.record,
+        conflicts: [],
+        plan: {
+          changes: [
+            { action: 'DELETE', target: 'provider', record, recordId },
+            { action: 'DELETE', target: 'local', record, recordId },
+          ],
+          conflicts: [],
+          warnings: [],
+        },
+        warnings: [],
+      };
+    }
+
+    let changeId: number | undefined;
+    try {
+      const change = await this.dnsProvider.deleteDNSRecords(lookup.hostedZoneId, [toDNSRecordData(lookup.record)]);
+      changeId = this.changeTracker?.record(domainId, change, `DELETE ${lookup.record.name} ${lookup.record.type}`);
+    } catch (error) {
+      return { success: false, conflicts: [], error: `Failed to delete record from the DNS provider: ${error}`, reason: 'failed', warnings: [] };
+    }
+
+    this.dnsRecordModel.delete(recordId);
+    this.domainModel.updateRecordCount(domainId);
+    return { success: true, record: lookup.record, conflicts: [], changeId, warnings: [] };
+  }
+
+  private async validate(domainId: number, input: DNSRecordInput, excludeRecordId?: number): Promise<DNSRecordChangeResult> {
+    const modelValidation = this.dnsRecordModel.validate({
+      ...input,
+      domain_id: domainId,
+      alias_hosted_zone_id: input.alias?.hostedZoneId,
+      source: 'cloud_router',
+    });
+    if (!modelValidation.valid) {
+      return { success: false, conflicts: [], error: modelValidation.errors.join(', '), reason: 'invalid', warnings: [] };
+    }
+
+    const validation = await this.conflictValidationService.validateDNSRecord({
+      domainId,
+      name: input.name,
+      type: input.type,
+      value: input.value,
+      ttl: input.ttl,
+      alias: Boolean(input.alias),
+    });
+
+    // When updating, the record being changed is not a conflict with itself
+    const onlySelf = (conflict: DNSConflict) => excludeRecordId !== undefined &&
+      conflict.conflictingRecords.length > 0 &&
+      conflict.conflictingRecords.every(record => record.id === excludeRecordId);
+    const conflicts = validation.conflicts.filter(conflict => conflict.severity === 'error' && !onlySelf(conflict));
+    const warningConflicts = validation.conflicts.filter(conflict => conflict.severity !== 'error' && !onlySelf(conflict));
+
+    if (conflicts.length > 0) {
+      return {
+        success: false,
+        conflicts,
+        error: conflicts.map(conflict => conflict.description).join('; '),
+        reason: 'conflict',
+        warnings: validation.warnings,
+      };
+    }
+
+    // Warning-level conflicts don't stop the change, but belong in a dry run's plan
+    return { success: true, conflicts: warningConflicts, warnings: validation.warnings };
+  }
+
+  private findEditableRecord(domainId: number, recordId: number): {
+    record?: DNSRecord;
+    hostedZoneId?: string;
+    domainName?: string;
+    result?: DNSRecordChangeResult;
+  } {
+    const domain = this.domainModel.findById(domainId);
+    const record = this.dnsRecordModel.findById(recordId);
+    if (!domain || !record || record.domain_id !== domainId) {
+      return { result: { success: false, conflicts: [], error: 'DNS record not found', reason: 'not_found', warnings: [] } };
+    }
+    if (record.created_by_route_id) {
+      return { result: { success: false, conflicts: [], error: `DNS record is managed by route ${record.created_by_route_id}; change the route instead`, reason: 'read_only', warnings: [] } };
+    }
+    if (record.source !== 'cloud_router') {
+      return { result: { success: false, conflicts: [], error: 'DNS record was imported from the DNS provider and is read-only', reason: 'read_only', warnings: [] } };
+    }
+    if (!domain.hosted_zone_id) {
+      return { result: { success: false, conflicts: [], error: `Domain ${domain.name} has no hosted zone ID`, reason: 'failed', warnings: [] } };
+    }
+    return { record, hostedZoneId: domain.hosted_zone_id, domainName: domain.name };
+  }
+}
@@ -1,5 +1,6 @@
-import { Route53ClientService, DNSRecordData } from './route53-client';
-import { DNSRecordModel, DNSRecord } from '../models/dns-record';
+import { DNSChangePlan, DNSPlannedChange } from './dns-change-plan';
+import { DNSProvider, DNSRecordData, sameRecordValues, toDNSRecordData } from './dns-provider';
+import { DNSRecordModel, DNSRecord, DNS_RECORD_TYPES } from '../models/dns-record';
 import { DomainModel } from '../models/domain';
 
 export interface DNSRecordSyncResult {
@@ -8,30 +9,43 @@ export interface DNSRecordSyncResult {
   createdCount: number;
   updatedCount: number;
   deletedCount: number;
+  // Records we manage that were changed at the DNS provider; the local row keeps our desired state
+  conflicts: DNSRecordConflict[];
+  // Records we manage that no longer exist at the DNS provider
+  missing: DNSRecord[];
   errors: string[];
   duration: number;
+  // Set for dry runs, which report the counts they would have but write nothing
+  plan?: DNSChangePlan;
+}
+
+export interface DNSRecordConflict {
+  local: DNSRecord;
+  remote: DNSRecordData;
+  reason: string;
 }
 
 export interface DNSRecordComparison {
   localOnly: DNSRecord[];
   remoteOnly: DNSRecordData[];
   matching: Array<{ local: DNSRecord; remote: DNSRecordData }>;
-  conflicts: Array<{ local: DNSRecord; remote: DNSRecordData; reason: string }>;
+  conflicts: DNSRecordConflict[];
 }
 
 export class DNSRecordRetrievalService {
   constructor(
-    private route53Client: Route53ClientService,
+    private dnsProvider: DNSProvider,
     private dnsRecordModel: DNSRecordModel,
     private domainModel: DomainModel
   ) {}
 
   /**
-   * Sync DNS records from Route53 to local database for a domain
+   * Sync DNS records from the DNS provider to the local database for a domain
    */
-  async syncDNSRecords(domainId: number): Promise<DNSRecordSyncResult> {
+  async syncDNSRecords(domainId: number, options: { dryRun?: boolean } = {}): Promise<DNSRecordSyncResult> {
     const startTime = Date.now();
     const errors: string[] = [];
+    const planned: DNSPlannedChange[] = [];
     let syncedCount = 0;
     let createdCount = 0;
     let updatedCount = 0;
@@ -48,8 +62,10 @@ export class DNSRecordRetrievalService {
         throw new Error(`Domain ${domain.name} has no hosted zone ID`);
       }
 
-      // Get remote DNS records from Route53
-      const remoteRecords = await this.route53Client.listDNSRecords(domain.hosted_zone_id);
+      // Get remote DNS records from the DNS provider. Types dns_records can't hold (NAPTR, SPF...)
+      // are left to be managed at the provider.
+      const remoteRecords = (await this.dnsProvider.listDNSRecords(domain.hosted_zone_id))
+        .filter(record => (DNS_RECORD_TYPES as readonly string[]).includes(record.type));
 
       // Get local DNS records from database
       const localRecords = this.dnsRecordModel.findByDomainId(domainId);
@@ -57,24 +73,26 @@ export class DNSRecordRetrievalService {
       // Compare records
       const comparison = this.compareDNSRecords(localRecords, remoteRecords);
 
-      // Handle conflicts (for now, prioritize remote records)
-      for (const conflict of comparison.conflicts) {
-        errors.push(`Conflict for ${conflict.local.name} (${conflict.local.type}): ${conflict.reason}`);
-        // In a real implementation, you might want to handle conflicts differently
-      }
-
       // Create new records from remote
       for (const remoteRecord of comparison.remoteOnly) {
+        if (options.dryRun) {
+          planned.push({ action: 'CREATE', target: 'local', record: remoteRecord });
+          createdCount++;
+          syncedCount++;
+          continue;
+        }
         try {
           this.dnsRecordModel.create({
             domain_id: domainId,
             name: remoteRecord.name,
-            type: remoteRecord.type as any,
+            type: remoteRecord.type,
             value: remoteRecord.value,
             ttl: remoteRecord.ttl,
             priority: remoteRecord.priority,
             weight: remoteRecord.weight,
-            source: 'route53',
+            alias_hosted_zone_id: remoteRecord.alias?.hostedZoneId,
+            alias_evaluate_target_health: remoteRecord.alias?.evaluateTargetHealth,
+            source: 'provider',
           });
           createdCount++;
           syncedCount++;
@@ -87,12 +105,17 @@ export class DNSRecordRetrievalService {
       for (const match of comparison.matching) {
         try {
           const needsUpdate = this.recordsDiffer(match.local, match.remote);
-          if (needsUpdate) {
+          if (needsUpdate && options.dryRun) {
+            planned.push({ action: 'UPSERT', target: 'local', record: match.remote, recordId: match.local.id, previous: toDNSRecordData(match.local) });
+            updatedCount++;
+          } else if (needsUpdate) {
             this.dnsRecordModel.update(match.local.id!, {
               value: match.remote.value,
               ttl: match.remote.ttl,
               priority: match.remote.priority,
               weight: match.remote.weight,
+              alias_hosted_zone_id: match.remote.alias?.hostedZoneId ?? null,
+              alias_evaluate_target_health: match.remote.alias ? match.remote.alias.evaluateTargetHealth : null,
             });
             updatedCount++;
           }
@@ -102,8 +125,15 @@ export class DNSRecordRetrievalService {
         }
       }
 
-      // Delete local-only records (they were removed from Route53)
-      for (const localRecord of comparison.localOnly) {
+      // Delete local-only records (they were removed at the provider), except ones we manage:
+      // those describe what the provider should contain, so they are reported as missing instead
+      const missing = comparison.localOnly.filter(record => record.source === 'cloud_router');
+      for (const localRecord of comparison.localOnly.filter(record => record.source !== 'cloud_router')) {
+        if (options.dryRun) {
+          planned.push({ action: 'DELETE', target: 'local', record: toDNSRecordData(localRecord), recordId: localRecord.id });
+          deletedCount++;
+          continue;
+        }
         try {
           this.dnsRecordModel.delete(localRecord.id!);
           deletedCount++;
@@ -113,8 +143,10 @@ export class DNSRecordRetrievalService {
       }
 
       // Update domain's last synced timestamp and record count
-      this.domainModel.updateLastSynced(domainId);
-      this.domainModel.updateRecordCount(domainId);
+      if (!options.dryRun) {
+        this.domainModel.updateLastSynced(domainId);
+        this.domainModel.updateRecordCount(domainId);
+      }
 
       const duration = Date.now() - startTime;
 
@@ -124,8 +156,20 @@ export class DNSRecordRetrievalService {
         createdCount,
         updatedCount,
         deletedCount,
+        conflicts: comparison.conflicts,
+        missing,
         errors,
         duration,
+        ...(options.dryRun ? {
+          plan: {
+            changes: planned,
+            conflicts: [],
+            warnings: [
+              ...comparison.conflicts.map(conflict => `${conflict.local.name} (${conflict.local.type}) ${conflict.reason}; the local record is kept`),
+              ...missing.map(record => `${record.name} (${record.type}) is missing from the DNS provider; the local record is kept`),
+            ],
+          },
+        } : {}),
       };
 
     } catch (error) {
@@ -136,6 +180,8 @@ export class DNSRecordRetrievalService {
         createdCount: 0,
         updatedCount: 0,
         deletedCount: 0,
+        conflicts: [],
+        missing: [],
         errors: [`Sync failed: ${error}`],
         duration,
       };
@@ -170,7 +216,13 @@ export class DNSRecordRetrievalService {
     for (const [key, localRecord] of localMap) {
       const remoteRecord = remoteMap.get(key);
       if (remoteRecord) {
-        matching.push({ local: localRecord, remote: remoteRecord });
+        // Imported records just follow the provider; a change to one of ours is drift
+        const differences = localRecord.source === 'cloud_router' ? this.describeDifferences(localRecord, remoteRecord) : [];
+        if (differences.length > 0) {
+          conflicts.push({ local: localRecord, remote: remoteRecord, reason: `Changed at the DNS provider: ${differences.join(', ')}` });
+        } else {
+          matching.push({ local: localRecord, remote: remoteRecord });
+        }
         remoteMap.delete(key); // Remove from remote map so remaining are remote-only
       } else {
         localOnly.push(localRecord);
@@ -184,7 +236,7 @@ export class DNSRecordRetrievalService {
       localOnly,
       remoteOnly,
       matching,
-      conflicts, // Empty for now - could be enhanced to detect actual conflicts
+      conflicts,
     };
   }
 
@@ -192,12 +244,34 @@ export class DNSRecordRetrievalService {
    * Check if local and remote records differ
    */
   private recordsDiffer(local: DNSRecord, remote: DNSRecordData): boolean {
-    return (
-      local.value !== remote.value ||
-      local.ttl !== remote.ttl ||
-      local.priority !== remote.priority ||
-      local.weight !== remote.weight
-    );
+    return this.describeDifferences(local, remote).length > 0;
+  }
+
+  /**
+   * Human-readable list of what differs between a local record and the DNS provider.
+   * SQLite returns NULL for unset priority/weight where the provider leaves them undefined,
+   * and the values of a set may come back in any order.
+   */
+  private describeDifferences(local: DNSRecord, remote: DNSRecordData): string[] {
+    const differences: string[] = [];
+    const localAlias = toDNSRecordData(local).alias;
+    if (!sameRecordValues(local.value, remote.value)) {
+      differences.push(`value ${local.value.replace(/\n/g, ', ')} -> ${remote.value.replace(/\n/g, ', ')}`);
+    }
+    if (localAlias?.hostedZoneId !== remote.alias?.hostedZoneId || localAlias?.evaluateTargetHealth !== remote.alias?.evaluateTargetHealth) {
+      differences.push(`alias ${localAlias?.hostedZoneId ?? 'none'} -> ${remote.alias?.hostedZoneId ?? 'none'}`);
+    }
+    // An alias has no TTL of its own
+    if (!remote.alias && local.ttl !== remote.ttl) {
+      differences.push(`TTL ${local.ttl} -> ${remote.ttl}`);
+    }
+    if ((local.priority ?? undefined) !== (remote.priority ?? undefined)) {
+      differences.push(`priority ${local.priority ?? 'none'} -> ${remote.priority ?? 'none'}`);
+    }
+    if ((local.weight ?? undefined) !== (remote.weight ?? undefined)) {
+      differences.push(`weight ${local.weight ?? 'none'} -> ${remote.weight ?? 'none'}`);
+    }
+    return differences;
   }
 
   /**
@@ -257,7 +331,7 @@ export class DNSRecordRetrievalService {
   }
 
   /**
-   * Validate DNS record data from Route53
+   * Validate DNS record data from the DNS provider
    */
   validateDNSRecordData(record: DNSRecordData): { valid: boolean; errors: string[] } {
     const errors: string[] = [];
@@ -266,7 +340,7 @@ export class DNSRecordRetrievalService {
       errors.push('Record name is required');
     }
 
-    if (!record.type || !['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'SRV', 'PTR'].includes(record.type)) {
+    if (!record.type || !(DNS_RECORD_TYPES as readonly string[]).includes(record.type)) {
       errors.push('Invalid or missing record type');
     }
 
@@ -0,0 +1,374 @@
+import { createHmac, randomInt } from 'crypto';
+import net from 'net';
+
+/**
+ * Just enough of the DNS wire format (RFC 1035) for dynamic updates (RFC 2136),
+ * zone transfers (RFC 5936) and TSIG (RFC 8945)
+ */
+
+export const RR_TYPES: Record<string, number> = {
+  A: 1, NS: 2, CNAME: 5, SOA: 6, PTR: 12, MX: 15, TXT: 16, AAAA: 28, SRV: 33, NAPTR: 35, DS: 43, SPF: 99, CAA: 257,
+  TSIG: 250, AXFR: 252, ANY: 255,
+};
+const RR_TYPE_NAMES = Object.fromEntries(Object.entries(RR_TYPES).map(([name, code]) => [code, name]));
+
+export const CLASS_IN = 1;
+export const CLASS_NONE = 254;
+export const CLASS_ANY = 255;
+
+export const OPCODE_QUERY = 0;
+export const OPCODE_UPDATE = 5;
+
+export const RCODE_NAMES = ['NOERROR', 'FORMERR', 'SERVFAIL', 'NXDOMAIN', 'NOTIMP', 'REFUSED', 'YXDOMAIN', 'YXRRSET', 'NXRRSET', 'NOTAUTH', 'NOTZONE'];
+
+const TSIG_ALGORITHMS: Record<string, string> = {
+  'hmac-md5.sig-alg.reg.int': 'md5',
+  'hmac-sha1': 'sha1',
+  'hmac-sha256': 'sha256',
+  'hmac-sha512': 'sha512',
+};
+
+export interface WireRecord {
+  name: string;
+  type: number;
+  class: number;
+  ttl: number;
+  rdata: Buffer;
+}
+
+export interface ParsedRecord extends WireRecord {
+  typeName?: string;
+  // Presentation-format value for the types we understand
+  value?: string;
+}
+
+export interface DNSMessage {
+  id: number;
+  opcode: number;
+  rcode: number;
+  questions: Array<{ name: string; type: number; class: number }>;
+  answers: ParsedRecord[];
+  authorities: ParsedRecord[];
+  additionals: ParsedRecord[];
+}
+
+export interface TsigKey {
+  keyName: string;
+  // Base64, as in a BIND key statement
+  secret: string;
+  algorithm: string;
+}
+
+export const typeCode = (type: string): number => {
+  const code = RR_TYPES[type.toUpperCase()];
+  if (code === undefined) throw new Error(`Unsupported record type ${type}`);
+  return code;
+};
+
+export const encodeName = (name: string): Buffer => {
+  const labels = name.replace(/\.$/, '').split('.').filter(Boolean);
+  return Buffer.concat([
+    ...labels.map(label => {
+      if (label.length > 63) throw new Error(`Label too long in ${name}`);
+      return Buffer.concat([Buffer.from([label.length]), Buffer.from(label, 'ascii')]);
+    }),
+    Buffer.from([0]),
+  ]);
+};
+
+const uint16 = (value: number) => {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16BE(value);
+  return buffer;
+};
+
+const uint32 = (value: number) => {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value);
+  return buffer;
+};
+
+/**
+ * Split a TXT value into its character-strings: `"a" "b"` is two strings, an unquoted value is one
+ */
+const parseCharacterStrings = (value: string): string[] => {
+  const quoted = [...value.matchAll(/"((?:[^"\\]|\\.)*)"/g)].map(match => match[1].replace(/\\(.)/g, '$1'));
+  const strings = quoted.length > 0 ? quoted : [value];
+  // Long strings are split into 255-byte chunks
+  return strings.flatMap(text => text.length === 0 ? [''] : text.match(/[\s\S]{1,255}/g)!);
+};
+
+const encodeIPv6 = (address: string): Buffer => {
+  const [head, tail] = address.includes('::') ? address.split('::') : [address, undefined];
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail !== undefined && tail !== '' ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  const groups = tail !== undefined ? [...headGroups, ...new Array(missing).fill('0'), ...tailGroups] : headGroups;
+  if (groups.length !== 8) throw new Error(`Invalid IPv6 address ${address}`);
+  return Buffer.concat(groups.map(group => uint16(parseInt(group, 16))));
+};
+
+const decodeIPv6 = (rdata: Buffer): string => {
+  const groups = Array.from({ length: 8 }, (_, i) => rdata.readUInt16BE(i * 2).toString(16));
+  // Compress the longest run of two or more zero groups (RFC 5952)
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let i = 0; i < 8; i++) {
+    let length = 0;
+    while (i + length < 8 && groups[i + length] === '0') length++;
+    if (length > bestLength && length > 1) {
+      bestStart = i;
+      bestLength = length;
+    }
+  }
+  if (bestStart === -1) return groups.join(':');
+  return `${groups.slice(0, bestStart).join(':')}::${groups.slice(bestStart + bestLength).join(':')}`;
+};
+
+/**
+ * Encode a presentation-format value (as stored in dns_records) into RDATA
+ */
+export const encodeRdata = (type: string, value: string): Buffer => {
+  const parts = value.trim().split(/\s+/);
+  switch (type) {
+    case 'A':
+      return Buffer.from(value.trim().split('.').map(Number));
+    case 'AAAA':
+      return encodeIPv6(value.trim());
+    case 'NS':
+    case 'CNAME':
+    case 'PTR':
+      return encodeName(value.trim());
+    case 'MX':
+      return Buffer.concat([uint16(Number(parts[0])), encodeName(parts[1])]);
+    case 'SRV':
+      return Buffer.concat([uint16(Number(parts[0])), uint16(Number(parts[1])), uint16(Number(parts[2])), encodeName(parts[3])]);
+    case 'TXT':
+    case 'SPF':
+      return Buffer.concat(parseCharacterStrings(value).map(text => {
+        const bytes = Buffer.from(text, 'utf8');
+        return Buffer.concat([Buffer.from([bytes.length]), bytes]);
+      }));
+    case 'DS':
+      return Buffer.concat([uint16(Number(parts[0])), Buffer.from([Number(parts[1]), Number(parts[2])]), Buffer.from(parts.slice(3).join(''), 'hex')]);
+    case 'CAA': {
+      const tag = Buffer.from(parts[1], 'ascii');
+      const caaValue = parts.slice(2).join(' ').replace(/^"|"$/g, '');
+      return Buffer.concat([Buffer.from([Number(parts[0]), tag.length]), tag, Buffer.from(caaValue, 'utf8')]);
+    }
+    default:
+      throw new Error(`Cannot encode ${type} records`);
+  }
+};
+
+export const readName = (message: Buffer, start: number): { name: string; offset: number } => {
+  const labels: string[] = [];
+  let offset = start;
+  let end: number | undefined;
+  for (let jumps = 0; jumps < 128; jumps++) {
+    const length = message[offset];
+    if (length === 0) {
+      return { name: labels.length > 0 ? `${labels.join('.')}.` : '.', offset: end ?? offset + 1 };
+    }
+    if ((length & 0xc0) === 0xc0) {
+      // Compression pointer
+      end = end ?? offset + 2;
+      offset = message.readUInt16BE(offset) & 0x3fff;
+      continue;
+    }
+    labels.push(message.subarray(offset + 1, offset + 1 + length).toString('ascii'));
+    offset += length + 1;
+  }
+  throw new Error('Name compression loop');
+};
+
+/**
+ * Decode RDATA into presentation format. Name-valued fields come back without the trailing dot,
+ * matching how values are written to the other providers.
+ */
+const decodeRdata = (type: number, message: Buffer, offset: number, length: number): string | undefined => {
+  const rdata = message.subarray(offset, offset + length);
+  const name = (at: number) => readName(message, at).name.replace(/\.$/, '');
+  switch (RR_TYPE_NAMES[type]) {
+    case 'A':
+      return [...rdata].join('.');
+    case 'AAAA':
+      return decodeIPv6(rdata);
+    case 'NS':
+    case 'CNAME':
+    case 'PTR':
+      return name(offset);
+    case 'MX':
+      return `${rdata.readUInt16BE(0)} ${name(offset + 2)}`;
+    case 'SRV':
+      return `${rdata.readUInt16BE(0)} ${rdata.readUInt16BE(2)} ${rdata.readUInt16BE(4)} ${name(offset + 6)}`;
+    case 'TXT':
+    case 'SPF': {
+      const strings: string[] = [];
+      for (let at = 0; at < rdata.length; at += rdata[at] + 1) {
+        strings.push(`"${rdata.subarray(at + 1, at + 1 + rdata[at]).toString('utf8').replace(/(["\\])/g, '\\$1')}"`);
+      }
+      return strings.join(' ');
+    }
+    case 'DS':
+      return `${rdata.readUInt16BE(0)} ${rdata[2]} ${rdata[3]} ${rdata.subarray(4).toString('hex').toUpperCase()}`;
+    case 'CAA': {
+      const tagLength = rdata[1];
+      return `${rdata[0]} ${rdata.subarray(2, 2 + tagLength).toString('ascii')} "${rdata.subarray(2 + tagLength).toString('utf8')}"`;
+    }
+    default:
+      return undefined;
+  }
+};
+
+const encodeRecord = (record: WireRecord): Buffer => Buffer.concat([
+  encodeName(record.name),
+  uint16(record.type),
+  uint16(record.class),
+  uint32(record.ttl),
+  uint16(record.rdata.length),
+  record.rdata,
+]);
+
+export const buildMessage = (options: {
+  id?: number;
+  opcode: number;
+  questions: Array<{ name: string; type: number; class: number }>;
+  answers?: WireRecord[];
+  authorities?: WireRecord[];
+}): Buffer => {
+  const { opcode, questions, answers = [], authorities = [] } = options;
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(options.id ?? randomInt(0, 0x10000), 0);
+  header.writeUInt16BE(opcode << 11, 2);
+  header.writeUInt16BE(questions.length, 4);
+  header.writeUInt16BE(answers.length, 6);
+  header.writeUInt16BE(authorities.length, 8);
+  header.writeUInt16BE(0, 10);
+
+  return Buffer.concat([
+    header,
+    ...questions.map(question => Buffer.concat([encodeName(question.name), uint16(question.type), uint16(question.class)])),
+    ...answers.map(encodeRecord),
+    ...authorities.map(encodeRecord),
+  ]);
+};
+
+export const parseMessage = (message: Buffer): DNSMessage => {
+  const flags = message.readUInt16BE(2);
+  const counts = [4, 6, 8, 10].map(at => message.readUInt16BE(at));
+  let offset = 12;
+
+  const questions: DNSMessage['questions'] = [];
+  for (let i = 0; i < counts[0]; i++) {
+    const { name, offset: next } = readName(message, offset);
+    questions.push({ name, type: message.readUInt16BE(next), class: message.readUInt16BE(next + 2) });
+    offset = next + 4;
+  }
+
+  const readRecords = (count: number): ParsedRecord[] => {
+    const records: ParsedRecord[] = [];
+    for (let i = 0; i < count; i++) {
+      const { name, offset: next } = readName(message, offset);
+      const type = message.readUInt16BE(next);
+      const rdlength = message.readUInt16BE(next + 8);
+      const rdataOffset = next + 10;
+      records.push({
+        name,
+        type,
+        typeName: RR_TYPE_NAMES[type],
+        class: message.readUInt16BE(next + 2),
+        ttl: message.readUInt32BE(next + 4),
+        rdata: message.subarray(rdataOffset, rdataOffset + rdlength),
+        value: rdlength > 0 ? decodeRdata(type, message, rdataOffset, rdlength) : undefined,
+      });
+      offset = rdataOffset + rdlength;
+    }
+    return records;
+  };
+
+  return {
+    id: message.readUInt16BE(0),
+    opcode: (flags >> 11) & 0xf,
+    rcode: flags & 0xf,
+    questions,
+    answers: readRecords(counts[1]),
+    authorities: readRecords(counts[2]),
+    additionals: readRecords(counts[3]),
+  };
+};
+
+/**
+ * Append a TSIG record (RFC 8945) signing the message with a shared key
+ */
+export const signMessage = (message: Buffer, key: TsigKey, now = Date.now()): Buffer => {
+  const algorithmName = key.algorithm.toLowerCase().replace(/\.$/, '');
+  const hash = TSIG_ALGORITHMS[algorithmName];
+  if (!hash) throw new Error(`Unsupported TSIG algorithm ${key.algorithm}`);
+
+  const timeSigned = Buffer.alloc(6);
+  timeSigned.writeUIntBE(Math.floor(now / 1000), 0, 6);
+  const fudge = uint16(300);
+  const keyName = encodeName(key.keyName.toLowerCase());
+  const algorithm = encodeName(algorithmName);
+
+  const mac = createHmac(hash, Buffer.from(key.secret, 'base64'))
+    .update(Buffer.concat([
+      message,
+      keyName, uint16(CLASS_ANY), uint32(0),
+      algorithm, timeSigned, fudge,
+      uint16(0), uint16(0), // error, other len
+    ]))
+    .digest();
+
+  const rdata = Buffer.concat([
+    algorithm, timeSigned, fudge,
+    uint16(mac.length), mac,
+    message.subarray(0, 2), // original ID
+    uint16(0), uint16(0),
+  ]);
+
+  const signed = Buffer.concat([message, encodeRecord({ name: key.keyName, type: RR_TYPES.TSIG, class: CLASS_ANY, ttl: 0, rdata })]);
+  signed.writeUInt16BE(message.readUInt16BE(10) + 1, 10);
+  return signed;
+};
+
+/**
+ * Send one message over TCP and collect response messages until `done` says the exchange is complete
+ */
+export const exchangeTcp = (
+  host: string,
+  port: number,
+  message: Buffer,
+  done: (responses: DNSMessage[]) => boolean = () => true,
+  timeoutMs = 10000
+): Promise<DNSMessage[]> => new Promise((resolve, reject) => {
+  const responses: DNSMessage[] = [];
+  let buffered = Buffer.alloc(0);
+  const socket = net.connect({ host, port });
+
+  const finish = (error?: Error) => {
+    clearTimeout(timer);
+    socket.destroy();
+    if (error) reject(error);
+    else resolve(responses);
+  };
+  const timer = setTimeout(() => finish(new Error(`Timed out after ${timeoutMs}ms talking to ${host}:${port}`)), timeoutMs);
+
+  socket.on('connect', () => socket.write(Buffer.concat([uint16(message.length), message])));
+  socket.on('data', chunk => {
+    buffered = Buffer.concat([buffered, chunk]);
+    try {
+      while (buffered.length >= 2 && buffered.length >= 2 + buffered.readUInt16BE(0)) {
+        const length = buffered.readUInt16BE(0);
+        responses.push(parseMessage(buffered.subarray(2, 2 + length)));
+        buffered = buffered.subarray(2 + length);
+        if (done(responses)) return finish();
+      }
+    } catch (error) {
+      finish(error as Error);
+    }
+  });
+  socket.on('error', error => finish(error));
+  socket.on('close', () => finish(responses.length > 0 ? undefined : new Error(`Connection to ${host}:${port} closed without a response`)));
+});
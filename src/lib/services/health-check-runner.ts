@@ -0,0 +1,212 @@
+import { EventEmitter } from 'events';
+import type { HealthCheck, HealthCheckInvocation, HealthState, Service } from '../database';
+import { logger } from '../logger';
+
+export interface HealthCheckRunnerDataSource {
+  getAllHealthChecks: () => HealthCheck[];
+  getServiceById: (id: number) => Service | undefined;
+  updateHealthCheck: (id: number, data: Partial<Omit<HealthCheck, 'id' | 'created_at'>>) => boolean;
+  updateService: (id: number, data: Partial<Omit<Service, 'id' | 'created_at'>>) => boolean;
+  createHealthCheckInvocation: (data: Omit<HealthCheckInvocation, 'id' | 'created_at' | 'updated_at'>) => number;
+}
+
+export interface HealthCheckRunnerOptions {
+  upstreamHost: string;
+  tickIntervalMs: number;
+}
+
+export interface HealthProbeResult {
+  success: boolean;
+  responseTime: number;
+  statusCode?: number;
+  error?: string;
+}
+
+export interface HealthCheckEvaluation {
+  state: HealthState;
+  consecutiveSuccesses: number;
+  consecutiveFailures: number;
+}
+
+export interface ServiceHealthChangeEvent {
+  serviceId: number;
+  serviceName: string;
+  previous: HealthState;
+  current: HealthState;
+  healthCheckId: number;
+  error?: string;
+}
+
+/**
+ * Apply one probe result to a check's counters. A check only flips to down after
+ * failure_threshold consecutive failures, and back up after success_threshold successes.
+ */
+export const evaluateHealthCheck = (check: HealthCheck, success: boolean): HealthCheckEvaluation => {
+  const current = check.state || 'unknown';
+  const consecutiveSuccesses = success ? (check.consecutive_successes || 0) + 1 : 0;
+  const consecutiveFailures = success ? 0 : (check.consecutive_failures || 0) + 1;
+
+  // Older rows only set the legacy threshold column
+  const failureThreshold = Math.max(1, check.failure_threshold || check.threshold || 1);
+  const successThreshold = Math.max(1, check.success_threshold || check.threshold || 1);
+
+  let state = current;
+  if (success && current !== 'up' && consecutiveSuccesses >= successThreshold) {
+    state = 'up';
+  } else if (!success && current !== 'down' && consecutiveFailures >= failureThreshold) {
+    state = 'down';
+  }
+
+  return { state, consecutiveSuccesses, consecutiveFailures };
+};
+
+/**
+ * A service is down if any of its checks is down, up once all of them are up
+ */
+export const combineHealthStates = (states: HealthState[]): HealthState => {
+  if (states.includes('down')) return 'down';
+  if (states.length > 0 && states.every(state => state === 'up')) return 'up';
+  return 'unknown';
+};
+
+export class HealthCheckRunnerService {
+  // Emits 'service-health-change' with a ServiceHealthChangeEvent
+  readonly events = new EventEmitter();
+
+  private timer?: ReturnType<typeof setInterval>;
+  private nextRunAt = new Map<number, number>();
+  private inFlight = new Set<number>();
+
+  constructor(
+    private dataSource: HealthCheckRunnerDataSource,
+    private options: HealthCheckRunnerOptions
+  ) { }
+
+  /**
+   * Probe a service over HTTP, treating a wrong status code, a network error or a timeout as a failure
+   */
+  async probe(check: HealthCheck, service: Service): Promise<HealthProbeResult> {
+    const path = check.path.startsWith('/') ? check.path : `/${check.path}`;
+    const url = `http://${this.options.upstreamHost}:${service.port}${path}`;
+    const startedAt = performance.now();
+
+    try {
+      const response = await fetch(url, {
+        redirect: 'manual',
+        signal: AbortSignal.timeout(check.timeout * 1000),
+      });
+      // Drain the body so the connection can be reused
+      await response.arrayBuffer();
+
+      const responseTime = Math.round(performance.now() - startedAt);
+      if (response.status !== check.status_code) {
+        return { success: false, responseTime, statusCode: response.status, error: `Expected status ${check.status_code}, got ${response.status}` };
+      }
+      return { success: true, responseTime, statusCode: response.status };
+    } catch (error) {
+      const responseTime = Math.round(performance.now() - startedAt);
+      const timedOut = (error as Error).name === 'TimeoutError';
+      return { success: false, responseTime, error: timedOut ? `Timed out after ${check.timeout}s` : `${error}` };
+    }
+  }
+
+  /**
+   * Run one check now: probe, record the invocation, update the check and its service's state
+   */
+  async runHealthCheck(check: HealthCheck): Promise<HealthCheckEvaluation | undefined> {
+    const service = this.dataSource.getServiceById(check.service_id);
+    if (!service) {
+      logger.warn('Health check references missing service', { healthCheckId: check.id, serviceId: check.service_id });
+      return undefined;
+    }
+
+    const result = await this.probe(check, service);
+    const evaluation = evaluateHealthCheck(check, result.success);
+
+    this.dataSource.createHealthCheckInvocation({
+      health_check_id: check.id!,
+      status: result.success ? 'success' : 'failure',
+      response_time: result.responseTime,
+    });
+
+    this.dataSource.updateHealthCheck(check.id!, {
+      state: evaluation.state,
+      consecutive_successes: evaluation.consecutiveSuccesses,
+      consecutive_failures: evaluation.consecutiveFailures,
+      last_checked_at: new Date().toISOString(),
+    });
+
+    if (!result.success) {
+      logger.info('Health check failed', { healthCheckId: check.id, serviceId: service.id, error: result.error, consecutiveFailures: evaluation.consecutiveFailures });
+    }
+
+    this.updateServiceHealth(service.id!, check.id!, result.error);
+    return evaluation;
+  }
+
+  /**
+   * Run every check whose interval has elapsed. Checks for inactive services are skipped.
+   */
+  async tick(now: number = Date.now()): Promise<void> {
+    const checks = this.dataSource.getAllHealthChecks();
+    const checkIds = new Set(checks.map(check => check.id!));
+
+    // Forget schedules of deleted checks
+    for (const id of this.nextRunAt.keys()) {
+      if (!checkIds.has(id)) this.nextRunAt.delete(id);
+    }
+
+    const due = checks.filter(check => !this.inFlight.has(check.id!) && now >= (this.nextRunAt.get(check.id!) ?? 0));
+
+    await Promise.all(due.map(async check => {
+      this.nextRunAt.set(check.id!, now + Math.max(1, check.interval) * 1000);
+
+      const service = this.dataSource.getServiceById(check.service_id);
+      if (service && !service.is_active) return;
+
+      this.inFlight.add(check.id!);
+      try {
+        await this.runHealthCheck(check);
+      } catch (error) {
+        logger.error('Health check run failed', { healthCheckId: check.id, error: `${error}` });
+      } finally {
+        this.inFlight.delete(check.id!);
+      }
+    }));
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), this.options.tickIntervalMs);
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private updateServiceHealth(serviceId: number, healthCheckId: number, error?: string): void {
+    // Read the service after the probe: other checks of the same service may have changed its state meanwhile
+    const service = this.dataSource.getServiceById(serviceId);
+    if (!service) return;
+
+    const states = this.dataSource.getAllHealthChecks()
+      .filter(check => check.service_id === service.id)
+      .map(check => check.state || 'unknown');
+    const current = combineHealthStates(states);
+    const previous = service.health_status || 'unknown';
+    if (current === previous) return;
+
+    this.dataSource.updateService(service.id!, {
+      health_status: current,
+      health_status_changed_at: new Date().toISOString(),
+    });
+
+    const event: ServiceHealthChangeEvent = { serviceId: service.id!, serviceName: service.name, previous, current, healthCheckId, error };
+    logger.info('Service health changed', event);
+    this.events.emit('service-health-change', event);
+  }
+}
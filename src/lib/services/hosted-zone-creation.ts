@@ -1,4 +1,4 @@
-import { Route53ClientService } from './route53-client';
+import { DNSProvider } from './dns-provider';
 import { DomainModel } from '../models/domain';
 import { Database } from 'bun:sqlite';
 
@@ -20,7 +20,7 @@ export interface HostedZoneCreationResult {
 
 export class HostedZoneCreationService {
   constructor(
-    private route53Client: Route53ClientService,
+    private dnsProvider: DNSProvider,
     private domainModel: DomainModel
   ) { }
 
@@ -59,7 +59,7 @@ export class HostedZoneCreationService {
       }
 
       // Create the hosted zone in Route53
-      const route53Result = await this.route53Client.createHostedZone(
+      const route53Result = await this.dnsProvider.createHostedZone(
         domainName,
         comment || `Cloud Router hosted zone for ${domainName}`
       );
@@ -194,11 +194,11 @@ export class HostedZoneCreationService {
   }
 
   /**
-   * Clean up hosted zone (for testing or error recovery)
+   * Delete a hosted zone and clear it from its domain. The zone must hold nothing but its SOA and NS records.
    */
   async cleanupHostedZone(hostedZoneId: string, domainName?: string): Promise<{ success: boolean; error?: string }> {
     try {
-      await this.route53Client.deleteHostedZone(hostedZoneId);
+      await this.dnsProvider.deleteHostedZone(hostedZoneId);
 
       // Update domain record if provided
       if (domainName) {
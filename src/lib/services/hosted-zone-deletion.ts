@@ -0,0 +1,110 @@
+import { DNSChangePlan } from './dns-change-plan';
+import { DNSProvider, DNSRecordData } from './dns-provider';
+import { HostedZoneCreationService } from './hosted-zone-creation';
+import { DNSRecordModel } from '../models/dns-record';
+import { DomainModel } from '../models/domain';
+
+export interface HostedZonePurgeOptions {
+  // Delete records cloud-router didn't create too, instead of refusing
+  force?: boolean;
+  // Return the plan of what would be deleted and delete nothing
+  dryRun?: boolean;
+}
+
+export interface HostedZonePurgeResult {
+  success: boolean;
+  deletedRecords: DNSRecordData[];
+  // Records in the zone that cloud-router didn't create
+  foreignRecords: DNSRecordData[];
+  zoneDeleted: boolean;
+  plan?: DNSChangePlan;
+  error?: string;
+  reason?: 'not_found' | 'foreign_records' | 'failed';
+  warnings: string[];
+}
+
+/**
+ * Removes a domain's hosted zone from the DNS provider so it stops being billed: the records cloud-router
+ * created go first (the SOA and apex NS go with the zone), then the zone itself. Zones holding records
+ * someone else created are left alone unless forced.
+ */
+export class HostedZoneDeletionService {
+  constructor(
+    private dnsProvider: DNSProvider,
+    private hostedZoneCreationService: HostedZoneCreationService,
+    private dnsRecordModel: DNSRecordModel,
+    private domainModel: DomainModel
+  ) { }
+
+  async purgeHostedZone(domainId: number, options: HostedZonePurgeOptions = {}): Promise<HostedZonePurgeResult> {
+    const { force = false, dryRun = false } = options;
+    const empty = { deletedRecords: [], foreignRecords: [], zoneDeleted: false, warnings: [] };
+
+    const domain = this.domainModel.findById(domainId);
+    if (!domain) {
+      return { ...empty, success: false, error: `Domain with ID ${domainId} not found`, reason: 'not_found' };
+    }
+    if (!domain.hosted_zone_id) {
+      return { ...empty, success: true, warnings: [`Domain ${domain.name} has no hosted zone to delete`] };
+    }
+    const hostedZoneId = domain.hosted_zone_id;
+
+    let remoteRecords: DNSRecordData[];
+    try {
+      remoteRecords = await this.dnsProvider.listDNSRecords(hostedZoneId);
+    } catch (error) {
+      return { ...empty, success: false, error: `Failed to list records in hosted zone ${hostedZoneId}: ${error}`, reason: 'failed' };
+    }
+
+    const owned = new Set(this.dnsRecordModel.findByDomainId(domainId)
+      .filter(record => record.source === 'cloud_router')
+      .map(record => `${record.name.toLowerCase()}:${record.type}`));
+    const isOwned = (record: DNSRecordData) => owned.has(`${record.name.toLowerCase()}:${record.type}`);
+    const foreignRecords = remoteRecords.filter(record => !isOwned(record));
+
+    if (foreignRecords.length > 0 && !force) {
+      return {
+        ...empty,
+        success: false,
+        foreignRecords,
+        error: `Hosted zone ${hostedZoneId} has ${foreignRecords.length} record(s) cloud-router didn't create; delete them first or force the purge`,
+        reason: 'foreign_records',
+      };
+    }
+
+    const warnings = foreignRecords.length > 0
+      ? [`Deleting ${foreignRecords.length} record(s) cloud-router didn't create`]
+      : [];
+
+    if (dryRun) {
+      return {
+        success: true,
+        deletedRecords: [],
+        foreignRecords,
+        zoneDeleted: false,
+        plan: {
+          changes: remoteRecords.map(record => ({ action: 'DELETE' as const, target: 'provider' as const, record })),
+          conflicts: [],
+          warnings: [...warnings, `Then delete hosted zone ${hostedZoneId}`],
+        },
+        warnings,
+      };
+    }
+
+    if (remoteRecords.length > 0) {
+      try {
+        await this.dnsProvider.changeDNSRecords(hostedZoneId, remoteRecords.map(record => ({ action: 'DELETE', record })));
+      } catch (error) {
+        return { ...empty, success: false, foreignRecords, error: `Failed to delete records from hosted zone ${hostedZoneId}: ${error}`, reason: 'failed', warnings };
+      }
+    }
+
+    // Route53 refuses to delete a zone holding record sets the listing leaves out, such as weighted or latency sets
+    const cleanup = await this.hostedZoneCreationService.cleanupHostedZone(hostedZoneId, domain.name);
+    if (!cleanup.success) {
+      return { success: false, deletedRecords: remoteRecords, foreignRecords, zoneDeleted: false, error: cleanup.error, reason: 'failed', warnings };
+    }
+
+    return { success: true, deletedRecords: remoteRecords, foreignRecords, zoneDeleted: true, warnings };
+  }
+}
@@ -1,4 +1,4 @@
-import { Route53ClientService, HostedZoneSummary } from './route53-client';
+import { DNSProvider, HostedZoneSummary } from './dns-provider';
 
 export interface DiscoveryResult {
   found: boolean;
@@ -8,7 +8,7 @@ export interface DiscoveryResult {
 }
 
 export class HostedZoneDiscoveryService {
-  constructor(private route53Client: Route53ClientService) { }
+  constructor(private dnsProvider: DNSProvider) { }
 
   /**
    * Discover hosted zone for a domain
@@ -20,7 +20,7 @@ export class HostedZoneDiscoveryService {
       const normalizedDomain = domainName.endsWith('.') ? domainName : `${domainName}.`;
 
       // Get all hosted zones
-      const allZones = await this.route53Client.listHostedZones();
+      const allZones = await this.dnsProvider.listHostedZones();
 
       // Find exact matches
       const exactMatches = allZones.filter(zone =>
@@ -100,11 +100,11 @@ export class HostedZoneDiscoveryService {
     warnings: string[];
   }> {
     try {
-      const hostedZone = await this.route53Client.getHostedZone(hostedZoneId);
+      const hostedZone = await this.dnsProvider.getHostedZone(hostedZoneId);
       const warnings: string[] = [];
 
       // Check if domain is within hosted zone
-      const zoneName = hostedZone.Name || '';
+      const zoneName = hostedZone.name || '';
       const normalizedDomain = domainName.endsWith('.') ? domainName : `${domainName}.`;
 
       if (!normalizedDomain.endsWith(zoneName)) {
@@ -116,12 +116,12 @@ export class HostedZoneDiscoveryService {
       }
 
       // Check if hosted zone is private (warning)
-      if (hostedZone.Config?.PrivateZone) {
+      if (hostedZone.privateZone) {
         warnings.push('Hosted zone is private - ensure domain delegation is configured correctly');
       }
 
       // Check record count (just informational)
-      const recordCount = hostedZone.ResourceRecordSetCount || 0;
+      const recordCount = hostedZone.recordCount || 0;
       if (recordCount > 1000) {
         warnings.push(`Hosted zone has ${recordCount} records - large zones may impact performance`);
       }
@@ -181,7 +181,7 @@ export class HostedZoneDiscoveryService {
     const results = new Map<string, DiscoveryResult>();
 
     // Get all hosted zones once for efficiency
-    const allZones = await this.route53Client.listHostedZones();
+    const allZones = await this.dnsProvider.listHostedZones();
 
     for (const domainName of domainNames) {
       try {
@@ -0,0 +1,76 @@
+import { matchesServerName } from './certificate-store';
+import { normalizeHostname } from './proxy-routing';
+import type { Domain } from '../database';
+
+export interface HstsPolicy {
+  domainName: string;
+  maxAge: number;
+  includeSubdomains: boolean;
+  preload: boolean;
+}
+
+export interface HttpsRedirectDataSource {
+  getAllDomains: () => Domain[];
+}
+
+const DEFAULT_HSTS_MAX_AGE = 31536000;
+
+/**
+ * Build a Strict-Transport-Security header value (RFC 6797 section 6.1)
+ */
+export const formatHstsHeader = (policy: HstsPolicy): string => {
+  const directives = [`max-age=${policy.maxAge}`];
+  if (policy.includeSubdomains) directives.push('includeSubDomains');
+  if (policy.preload) directives.push('preload');
+  return directives.join('; ');
+};
+
+export class HttpsRedirectService {
+  constructor(private dataSource: HttpsRedirectDataSource) { }
+
+  /**
+   * HSTS policies for every domain that has HSTS enabled
+   */
+  loadHstsPolicies(): HstsPolicy[] {
+    return this.dataSource.getAllDomains()
+      .filter(domain => !!domain.hsts_enabled)
+      .map(domain => ({
+        domainName: domain.name.toLowerCase().replace(/\.$/, ''),
+        maxAge: domain.hsts_max_age ?? DEFAULT_HSTS_MAX_AGE,
+        includeSubdomains: !!domain.hsts_include_subdomains,
+        preload: !!domain.hsts_preload,
+      }));
+  }
+
+  /**
+   * The HSTS policy of the domain a hostname belongs to, preferring the most specific domain
+   */
+  findHstsPolicy(policies: HstsPolicy[], host: string): HstsPolicy | undefined {
+    const hostname = normalizeHostname(host);
+    return policies
+      .filter(policy => hostname === policy.domainName || hostname.endsWith(`.${policy.domainName}`))
+      .sort((a, b) => b.domainName.length - a.domainName.length)[0];
+  }
+
+  /**
+   * Check whether a hostname is covered by a certificate that is marked for redirect
+   */
+  shouldRedirect(redirectServerNames: string[], host: string): boolean {
+    const hostname = normalizeHostname(host);
+    return redirectServerNames.some(serverName => matchesServerName(serverName, hostname));
+  }
+
+  /**
+   * Redirect a plain HTTP request to the same URL over HTTPS. Safe methods get a 301;
+   * anything else gets a 308 so clients repeat the method and body (RFC 9110 section 15.4).
+   */
+  buildRedirect(request: Request, host: string, httpsPort: number): Response {
+    const url = new URL(request.url);
+    const hostname = normalizeHostname(host);
+    const port = httpsPort === 443 ? '' : `:${httpsPort}`;
+    const location = `https://${hostname}${port}${url.pathname}${url.search}`;
+    const status = request.method === 'GET' || request.method === 'HEAD' ? 301 : 308;
+
+    return new Response(null, { status, headers: { Location: location } });
+  }
+}
@@ -0,0 +1,201 @@
+import type { Domain, Route, Service } from '../database';
+
+export interface ProxyRouteTarget {
+  routeId: number;
+  serviceId: number;
+  serviceName: string;
+  hostname: string;
+  pathPrefix: string;
+  port: number;
+}
+
+export interface ProxyRouteMatch {
+  found: boolean;
+  target?: ProxyRouteTarget;
+  reason?: 'unknown_host' | 'no_matching_path';
+}
+
+export interface ProxyRoutingDataSource {
+  getAllRoutes: () => Route[];
+  getServiceById: (id: number) => Service | undefined;
+  getDomainById: (id: number) => Domain | undefined;
+}
+
+export interface ProxyRoutingBuildResult {
+  table: ProxyRoutingTable;
+  skipped: number;
+  warnings: string[];
+}
+
+/**
+ * Normalise a hostname (or Host header) for lookups: lowercase, no port, no trailing dot
+ */
+export const normalizeHostname = (host: string): string => {
+  let hostname = host.trim().toLowerCase();
+
+  // Strip the port, taking care not to break bracketed IPv6 literals
+  if (hostname.startsWith('[')) {
+    const end = hostname.indexOf(']');
+    hostname = end === -1 ? hostname : hostname.slice(0, end + 1);
+  } else {
+    hostname = hostname.split(':')[0];
+  }
+
+  return hostname.replace(/\.$/, '');
+};
+
+/**
+ * Normalise a route path into a prefix with a leading slash and no trailing slash
+ */
+export const normalizePathPrefix = (path: string): string => {
+  const trimmed = (path || '').trim().replace(/^\/+/, '').replace(/\/+$/, '');
+  return `/${trimmed}`;
+};
+
+/**
+ * The hostname a route serves: <path>.<domain> for dedicated subdomains, otherwise the domain itself
+ */
+export const getRouteHostname = (route: Route, domain: Pick<Domain, 'name'>): string => {
+  const domainName = normalizeHostname(domain.name);
+  if (!route.is_dedicated_subdomain) {
+    return domainName;
+  }
+
+  const label = (route.path || '').trim().replace(/^\/+/, '').replace(/\/+$/, '').toLowerCase();
+  return label ? `${label}.${domainName}` : domainName;
+};
+
+/**
+ * Immutable lookup table of hostnames and path prefixes to upstream services
+ */
+export class ProxyRoutingTable {
+  private routesByHost = new Map<string, ProxyRouteTarget[]>();
+
+  constructor(targets: ProxyRouteTarget[]) {
+    for (const target of targets) {
+      const hostname = normalizeHostname(target.hostname);
+      if (!this.routesByHost.has(hostname)) {
+        this.routesByHost.set(hostname, []);
+      }
+      this.routesByHost.get(hostname)!.push({ ...target, hostname });
+    }
+
+    // Longest prefix first so that /api/v2 wins over /api and / is the fallback
+    for (const targetsForHost of this.routesByHost.values()) {
+      targetsForHost.sort((a, b) => b.pathPrefix.length - a.pathPrefix.length);
+    }
+  }
+
+  /**
+   * Number of routable targets in the table
+   */
+  get size(): number {
+    let count = 0;
+    for (const targetsForHost of this.routesByHost.values()) {
+      count += targetsForHost.length;
+    }
+    return count;
+  }
+
+  /**
+   * Hostnames served by this table
+   */
+  get hostnames(): string[] {
+    return [...this.routesByHost.keys()];
+  }
+
+  /**
+   * Check whether any route is configured for a hostname
+   */
+  hasHost(host: string): boolean {
+    return this.routesByHost.has(normalizeHostname(host));
+  }
+
+  /**
+   * Find the upstream target for a Host header and request path
+   */
+  match(host: string, pathname: string): ProxyRouteMatch {
+    const targetsForHost = this.routesByHost.get(normalizeHostname(host));
+    if (!targetsForHost) {
+      return { found: false, reason: 'unknown_host' };
+    }
+
+    const target = targetsForHost.find(candidate => this.pathMatches(candidate.pathPrefix, pathname));
+    if (!target) {
+      return { found: false, reason: 'no_matching_path' };
+    }
+
+    return { found: true, target };
+  }
+
+  /**
+   * Prefix match on whole path segments, so /api matches /api and /api/users but not /apix
+   */
+  private pathMatches(prefix: string, pathname: string): boolean {
+    if (prefix === '/') return true;
+    return pathname === prefix || pathname.startsWith(`${prefix}/`);
+  }
+}
+
+export class ProxyRoutingService {
+  constructor(private dataSource: ProxyRoutingDataSource) { }
+
+  /**
+   * Build a routing table from the active routes, services and domains
+   */
+  buildRoutingTable(): ProxyRoutingBuildResult {
+    const targets: ProxyRouteTarget[] = [];
+    const warnings: string[] = [];
+    let skipped = 0;
+
+    for (const route of this.dataSource.getAllRoutes()) {
+      // SQLite hands booleans back as 0/1, so only rely on truthiness
+      if (!route.is_active) {
+        skipped++;
+        continue;
+      }
+
+      const service = this.dataSource.getServiceById(route.service_id);
+      if (!service) {
+        warnings.push(`Route ${route.id} references missing service ${route.service_id}`);
+        skipped++;
+        continue;
+      }
+
+      if (!service.is_active) {
+        skipped++;
+        continue;
+      }
+
+      const domain = this.dataSource.getDomainById(route.domain_id);
+      if (!domain) {
+        warnings.push(`Route ${route.id} references missing domain ${route.domain_id}`);
+        skipped++;
+        continue;
+      }
+
+      targets.push({
+        routeId: route.id!,
+        serviceId: service.id!,
+        serviceName: service.name,
+        hostname: this.getRouteHostname(route, domain),
+        pathPrefix: route.is_dedicated_subdomain ? '/' : normalizePathPrefix(route.path),
+        port: service.port,
+      });
+    }
+
+    return {
+      table: new ProxyRoutingTable(targets),
+      skipped,
+      warnings,
+    };
+  }
+
+  /**
+   * Dedicated subdomain routes use their path as the subdomain label (api -> api.example.com),
+   * every other route is served from the domain itself
+   */
+  getRouteHostname(route: Route, domain: Domain): string {
+    return getRouteHostname(route, domain);
+  }
+}
@@ -0,0 +1,170 @@
+import { RequestLogModel, RequestLogScope } from '../models/request-log';
+import { RequestRollupModel, RollupPeriod } from '../models/request-rollup';
+import { ServiceModel } from '../models/service';
+import { logger } from '../logger';
+
+export interface RequestLogRetentionOptions {
+  // Days to keep raw request logs for services without their own retention
+  retentionDays: number;
+  // Days to keep hourly rollups; daily rollups are kept indefinitely
+  hourlyRollupRetentionDays: number;
+  // Rows deleted per statement, so pruning never holds the write lock for long
+  pruneBatchSize: number;
+}
+
+export interface RequestLogRetentionRunResult {
+  hourlyRollups: number;
+  dailyRollups: number;
+  prunedRequests: number;
+  prunedHourlyRollups: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// The request logger writes in batches, so a period is only rolled up once its stragglers have had time to land
+const SETTLE_MS = 60 * 1000;
+
+const PERIOD_MS: Record<RollupPeriod, number> = { hour: HOUR_MS, day: DAY_MS };
+
+const periodStart = (period: RollupPeriod, time: number) => Math.floor(time / PERIOD_MS[period]) * PERIOD_MS[period];
+
+// Nearest-rank percentile: the smallest value at least p of the requests are no slower than
+const percentileRank = (count: number, p: number) => Math.max(Math.ceil(count * p) - 1, 0);
+
+/**
+ * Keeps the requests table bounded: rolls raw request logs up into hourly and daily per-route stats, then
+ * prunes the raw rows past their service's retention (only ever ones that have been rolled up)
+ */
+export class RequestLogRetentionService {
+  private timer?: ReturnType<typeof setInterval>;
+
+  constructor(
+    private requestLogModel: RequestLogModel,
+    private requestRollupModel: RequestRollupModel,
+    private serviceModel: ServiceModel,
+    private options: RequestLogRetentionOptions
+  ) { }
+
+  /**
+   * Roll up every complete period at this granularity that hasn't been yet, returning how many rollups were written
+   */
+  rollup(period: RollupPeriod, now: Date = new Date()): number {
+    const until = periodStart(period, now.getTime() - SETTLE_MS);
+    const latest = this.requestRollupModel.findLatestPeriodStart(period);
+    let since = latest ? new Date(latest).getTime() + PERIOD_MS[period] : 0;
+    let written = 0;
+
+    // Jump straight to the next period with traffic rather than stepping through quiet ones
+    let next = this.requestLogModel.findEarliestCreatedAt(new Date(since).toISOString());
+    while (next) {
+      since = periodStart(period, new Date(next).getTime());
+      if (since >= until) break;
+
+      const from = new Date(since).toISOString();
+      const to = new Date(since + PERIOD_MS[period]).toISOString();
+      this.requestRollupModel.transaction(() => {
+        for (const summary of this.requestLogModel.summarize(from, to)) {
+          const responseTimeAt = (p: number) => this.requestLogModel.findResponseTimeAtRank(
+            from, to, summary.service_id, summary.route_id, percentileRank(summary.request_count, p)
+          ) ?? 0;
+
+          this.requestRollupModel.upsert({
+            period,
+            period_start: from,
+            service_id: summary.service_id,
+            route_id: summary.route_id,
+            request_count: summary.request_count,
+            client_error_count: summary.client_error_count,
+            server_error_count: summary.server_error_count,
+            error_rate: summary.server_error_count / summary.request_count,
+            response_time_avg: summary.response_time_avg,
+            response_time_p50: responseTimeAt(0.5),
+            response_time_p95: responseTimeAt(0.95),
+            response_time_p99: responseTimeAt(0.99),
+            response_time_max: summary.response_time_max,
+          });
+          written++;
+        }
+      });
+
+      next = this.requestLogModel.findEarliestCreatedAt(to);
+    }
+
+    return written;
+  }
+
+  /**
+   * Delete raw request logs past their service's retention, stopping short of anything not yet rolled up.
+   * Returns the number deleted.
+   */
+  prune(now: Date = new Date()): number {
+    // Everything before the current (unsettled) day has been rolled up at both granularities
+    const rolledUpUntil = periodStart('day', now.getTime() - SETTLE_MS);
+    const cutoff = (days: number) => new Date(Math.min(now.getTime() - days * DAY_MS, rolledUpUntil)).toISOString();
+
+    const overrides = this.serviceModel.findAll().filter(service => service.request_log_retention_days);
+    let pruned = 0;
+    for (const service of overrides) {
+      pruned += this.deleteInBatches(cutoff(service.request_log_retention_days!), { serviceId: service.id! });
+    }
+    pruned += this.deleteInBatches(cutoff(this.options.retentionDays), { excludeServiceIds: overrides.map(service => service.id!) });
+
+    return pruned;
+  }
+
+  /**
+   * Roll up, then prune raw logs and expired hourly rollups
+   */
+  run(now: Date = new Date()): RequestLogRetentionRunResult {
+    const result: RequestLogRetentionRunResult = {
+      hourlyRollups: this.rollup('hour', now),
+      dailyRollups: this.rollup('day', now),
+      prunedRequests: this.prune(now),
+      prunedHourlyRollups: this.requestRollupModel.deleteBefore(
+        'hour',
+        new Date(now.getTime() - this.options.hourlyRollupRetentionDays * DAY_MS).toISOString()
+      ),
+    };
+
+    if (result.prunedRequests > 0 || result.prunedHourlyRollups > 0) {
+      logger.info('Pruned request logs', { ...result });
+    }
+
+    return result;
+  }
+
+  /**
+   * Run on an interval (and once immediately)
+   */
+  start(intervalMs: number): void {
+    if (this.timer) return;
+
+    const tick = () => {
+      try {
+        this.run();
+      } catch (error) {
+        logger.error('Request log retention failed', { error: `${error}` });
+      }
+    };
+
+    this.timer = setInterval(tick, intervalMs);
+    tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private deleteInBatches(before: string, scope: RequestLogScope): number {
+    let deleted = 0;
+    let batch: number;
+    do {
+      batch = this.requestLogModel.deleteOlderThan(before, scope, this.options.pruneBatchSize);
+      deleted += batch;
+    } while (batch === this.options.pruneBatchSize);
+    return deleted;
+  }
+}
@@ -0,0 +1,101 @@
+import type { RequestLog } from '../database';
+import { logger } from '../logger';
+
+export type RequestLogEntry = Omit<RequestLog, 'id' | 'updated_at'>;
+
+export interface RequestLoggerDataSource {
+  createRequestLogs: (entries: RequestLogEntry[]) => number;
+}
+
+export interface RequestLoggerOptions {
+  batchSize: number;
+  flushIntervalMs: number;
+  maxBufferSize: number;
+}
+
+/**
+ * Buffers request logs in memory and writes them in batches, so the proxy's request path
+ * never waits on SQLite
+ */
+export class RequestLoggerService {
+  private buffer: RequestLogEntry[] = [];
+  private timer?: ReturnType<typeof setInterval>;
+  private flushScheduled = false;
+  private dropped = 0;
+
+  constructor(
+    private dataSource: RequestLoggerDataSource,
+    private options: RequestLoggerOptions
+  ) { }
+
+  /**
+   * Queue a request log; a full batch is flushed on the next tick rather than inline
+   */
+  log(entry: RequestLogEntry): void {
+    if (this.buffer.length >= this.options.maxBufferSize) {
+      // The database is falling behind (or failing), so shed the oldest entries rather than grow without bound
+      this.buffer.shift();
+      this.dropped++;
+    }
+    this.buffer.push(entry);
+
+    if (this.buffer.length >= this.options.batchSize && !this.flushScheduled) {
+      this.flushScheduled = true;
+      setTimeout(() => this.flush(), 0);
+    }
+  }
+
+  /**
+   * Write every buffered entry in batches, returning the number written
+   */
+  flush(): number {
+    this.flushScheduled = false;
+    let written = 0;
+
+    while (this.buffer.length > 0) {
+      const batch = this.buffer.slice(0, this.options.batchSize);
+      try {
+        this.dataSource.createRequestLogs(batch);
+      } catch (error) {
+        // Keep the batch buffered and retry on the next flush
+        logger.error('Failed to write request logs', { error: `${error}`, pending: this.buffer.length });
+        break;
+      }
+      this.buffer.splice(0, batch.length);
+      written += batch.length;
+    }
+
+    if (this.dropped > 0) {
+      logger.warn('Request log buffer overflowed, dropped oldest entries', { dropped: this.dropped });
+      this.dropped = 0;
+    }
+
+    return written;
+  }
+
+  /**
+   * Number of entries waiting to be written
+   */
+  get pending(): number {
+    return this.buffer.length;
+  }
+
+  /**
+   * Flush on an interval so quiet periods still get their logs written promptly
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.flush(), this.options.flushIntervalMs);
+  }
+
+  /**
+   * Stop the interval and write whatever is still buffered
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.flush();
+  }
+}
@@ -0,0 +1,179 @@
+import type { DNSChange, DNSProvider, DNSRecordChange, DNSRecordData, DNSRecordType, HostedZoneSummary } from './dns-provider';
+import { findZoneForDomain, groupRecordSets, recordValues } from './dns-provider';
+import {
+  CLASS_ANY,
+  CLASS_IN,
+  CLASS_NONE,
+  DNSMessage,
+  OPCODE_QUERY,
+  OPCODE_UPDATE,
+  RCODE_NAMES,
+  RR_TYPES,
+  TsigKey,
+  WireRecord,
+  buildMessage,
+  encodeRdata,
+  exchangeTcp,
+  signMessage,
+  typeCode,
+} from './dns-wire';
+
+export interface RFC2136Config {
+  server: string;
+  port?: number;
+  // Zones the server is authoritative for; there is no protocol for discovering them
+  zones: string[];
+  tsig?: TsigKey;
+  timeoutMs?: number;
+}
+
+const fqdn = (name: string) => `${name.toLowerCase().replace(/\.$/, '')}.`;
+
+/**
+ * Any server that accepts RFC 2136 dynamic updates (BIND, Knot, PowerDNS). Records are listed with a zone
+ * transfer, so the server must allow AXFR for the same TSIG key. Zones are configured on the server itself,
+ * so they can't be created or deleted from here; the hosted zone ID is the zone name.
+ */
+export class RFC2136DNSProvider implements DNSProvider {
+  readonly name = 'rfc2136' as const;
+
+  constructor(private config: RFC2136Config) { }
+
+  async listHostedZones(): Promise<HostedZoneSummary[]> {
+    return this.config.zones.map(zone => ({ id: fqdn(zone), name: fqdn(zone), recordCount: 0 }));
+  }
+
+  async getHostedZone(hostedZoneId: string): Promise<HostedZoneSummary> {
+    const zone = (await this.listHostedZones()).find(candidate => candidate.id === fqdn(hostedZoneId));
+    if (!zone) {
+      throw new Error(`Zone ${hostedZoneId} is not in RFC2136_ZONES`);
+    }
+    return zone;
+  }
+
+  async findHostedZoneByName(domainName: string): Promise<HostedZoneSummary | null> {
+    return findZoneForDomain(await this.listHostedZones(), domainName);
+  }
+
+  async hostedZoneExists(hostedZoneId: string): Promise<boolean> {
+    return this.config.zones.some(zone => fqdn(zone) === fqdn(hostedZoneId));
+  }
+
+  /**
+   * Zones can't be created over RFC 2136, but one already configured on the server can be adopted
+   */
+  async createHostedZone(domainName: string): Promise<{ hostedZoneId: string; nameServers: string[] }> {
+    if (!(await this.hostedZoneExists(domainName))) {
+      throw new Error(`RFC 2136 cannot create zones: add ${fqdn(domainName)} to the DNS server and to RFC2136_ZONES`);
+    }
+    return { hostedZoneId: fqdn(domainName), nameServers: await this.getHostedZoneNameServers(domainName) };
+  }
+
+  async deleteHostedZone(hostedZoneId: string): Promise<void> {
+    throw new Error(`RFC 2136 cannot delete zones: remove ${fqdn(hostedZoneId)} from the DNS server configuration`);
+  }
+
+  async getHostedZoneNameServers(hostedZoneId: string): Promise<string[]> {
+    try {
+      const [response] = await this.send(buildMessage({
+        opcode: OPCODE_QUERY,
+        questions: [{ name: fqdn(hostedZoneId), type: RR_TYPES.NS, class: CLASS_IN }],
+      }));
+      return response.answers.filter(record => record.type === RR_TYPES.NS && record.value).map(record => record.value!);
+    } catch (error) {
+      throw new Error(`Failed to get nameservers for zone ${hostedZoneId}: ${error}`);
+    }
+  }
+
+  async listDNSRecords(hostedZoneId: string): Promise<DNSRecordData[]> {
+    try {
+      const soaCount = (responses: DNSMessage[]) =>
+        responses.flatMap(response => response.answers).filter(record => record.type === RR_TYPES.SOA).length;
+      // A transfer starts and ends with the zone's SOA
+      const responses = await this.send(buildMessage({
+        opcode: OPCODE_QUERY,
+        questions: [{ name: fqdn(hostedZoneId), type: RR_TYPES.AXFR, class: CLASS_IN }],
+      }), responses => responses.some(response => response.rcode !== 0) || soaCount(responses) >= 2);
+
+      // A refused or cut-short transfer must not read as an empty zone, or drift checks would think every record was deleted
+      const failed = responses.find(response => response.rcode !== 0);
+      if (failed) {
+        throw new Error(`Server answered ${RCODE_NAMES[failed.rcode] ?? failed.rcode}`);
+      }
+      if (soaCount(responses) < 2) {
+        throw new Error('Transfer ended before the closing SOA');
+      }
+
+      // SOA and NS at the apex are the server's own, as with Route53; types we can't decode are left alone
+      const apex = fqdn(hostedZoneId);
+      return groupRecordSets(responses
+        .flatMap(response => response.answers)
+        .filter(record => record.typeName && record.value !== undefined && !['SOA', 'TSIG'].includes(record.typeName))
+        .filter(record => !(record.typeName === 'NS' && record.name.toLowerCase() === apex))
+        .map(record => ({
+          name: record.name.toLowerCase(),
+          type: record.typeName as DNSRecordType,
+          value: record.value!,
+          ttl: record.ttl,
+        })));
+    } catch (error) {
+      throw new Error(`Failed to transfer zone ${hostedZoneId}: ${error}`);
+    }
+  }
+
+  /**
+   * Send every change as one UPDATE message, which the server applies atomically before answering.
+   * Secondaries catch up through NOTIFY; the primary has the change, so it is reported INSYNC.
+   */
+  async changeDNSRecords(hostedZoneId: string, changes: DNSRecordChange[]): Promise<DNSChange> {
+    try {
+      const rrsetDeletes = new Map<string, WireRecord>();
+      const updates: WireRecord[] = [];
+
+      for (const { action, record } of changes) {
+        if (record.alias) {
+          throw new Error(`Alias records are Route53-only: ${record.name} ${record.type}`);
+        }
+        const type = typeCode(record.type);
+        const values = recordValues(record.value);
+        if (action === 'UPSERT') {
+          // Delete the RRset (class ANY, no RDATA) before adding, so an upsert replaces it as Route53's does
+          rrsetDeletes.set(`${fqdn(record.name)}:${type}`, { name: fqdn(record.name), type, class: CLASS_ANY, ttl: 0, rdata: Buffer.alloc(0) });
+          updates.push(...values.map(value => ({ name: fqdn(record.name), type, class: CLASS_IN, ttl: record.ttl, rdata: encodeRdata(record.type, value) })));
+        } else {
+          // Class NONE deletes just the RRs with matching RDATA
+          updates.push(...values.map(value => ({ name: fqdn(record.name), type, class: CLASS_NONE, ttl: 0, rdata: encodeRdata(record.type, value) })));
+        }
+      }
+
+      const [response] = await this.send(buildMessage({
+        opcode: OPCODE_UPDATE,
+        questions: [{ name: fqdn(hostedZoneId), type: RR_TYPES.SOA, class: CLASS_IN }],
+        authorities: [...rrsetDeletes.values(), ...updates],
+      }));
+      if (response.rcode !== 0) {
+        throw new Error(`Server answered ${RCODE_NAMES[response.rcode] ?? response.rcode}`);
+      }
+      return { status: 'INSYNC', submittedAt: new Date().toISOString() };
+    } catch (error) {
+      throw new Error(`Failed to update zone ${hostedZoneId}: ${error}`);
+    }
+  }
+
+  async upsertDNSRecords(hostedZoneId: string, records: DNSRecordData[]): Promise<DNSChange> {
+    return this.changeDNSRecords(hostedZoneId, records.map(record => ({ action: 'UPSERT', record })));
+  }
+
+  async deleteDNSRecords(hostedZoneId: string, records: DNSRecordData[]): Promise<DNSChange> {
+    return this.changeDNSRecords(hostedZoneId, records.map(record => ({ action: 'DELETE', record })));
+  }
+
+  async getChange(changeId: string): Promise<DNSChange> {
+    throw new Error(`RFC 2136 updates are applied synchronously; there is no change ${changeId} to track`);
+  }
+
+  private send(message: Buffer, done?: (responses: DNSMessage[]) => boolean): Promise<DNSMessage[]> {
+    const signed = this.config.tsig ? signMessage(message, this.config.tsig) : message;
+    return exchangeTcp(this.config.server, this.config.port ?? 53, signed, done, this.config.timeoutMs);
+  }
+}
@@ -0,0 +1,224 @@
+import { DNSProvider } from './dns-provider';
+import { DNSRecordCreationService } from './dns-record-creation';
+import { DNSConflictValidationService, DNSConflict } from './dns-conflict-validation';
+import { getRouteHostname } from './proxy-routing';
+import { DNSRecordModel, DNSRecord } from '../models/dns-record';
+import { DomainModel } from '../models/domain';
+import type { Route } from '../database';
+
+export interface RouteDNSConfig {
+  // Where dedicated subdomains point: an IP address (A/AAAA) or a hostname (CNAME)
+  publicAddress: string;
+  ttl: number;
+}
+
+export interface RouteDNSResult {
+  success: boolean;
+  recordIds: number[];
+  conflicts: DNSConflict[];
+  error?: string;
+  warnings: string[];
+}
+
+type DesiredRecord = Pick<DNSRecord, 'name' | 'type' | 'value' | 'ttl'>;
+
+const IPV4_PATTERN = /^(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)$/;
+
+/**
+ * Keeps the DNS records owned by a route (dns_records.created_by_route_id) in line with the route:
+ * active dedicated-subdomain routes get one record pointing at the router, every other route gets none
+ */
+export class RouteDNSService {
+  constructor(
+    private dnsProvider: DNSProvider,
+    private dnsRecordCreationService: DNSRecordCreationService,
+    private conflictValidationService: DNSConflictValidationService,
+    private dnsRecordModel: DNSRecordModel,
+    private domainModel: DomainModel,
+    private config: RouteDNSConfig
+  ) { }
+
+  /**
+   * The record a route should own, if any. Names are fully qualified with a trailing dot,
+   * matching how records synced from Route53 are stored.
+   */
+  getDesiredRecord(route: Route, domainName: string): DesiredRecord | undefined {
+    if (!route.is_active || !route.is_dedicated_subdomain || !this.config.publicAddress) {
+      return undefined;
+    }
+
+    const address = this.config.publicAddress.trim().replace(/\.$/, '');
+    const type = IPV4_PATTERN.test(address) ? 'A' : address.includes(':') ? 'AAAA' : 'CNAME';
+
+    return {
+      name: `${getRouteHostname(route, { name: domainName })}.`,
+      type,
+      value: address,
+      ttl: this.config.ttl,
+    };
+  }
+
+  /**
+   * Check that a route's record can be created, without changing anything
+   */
+  async validateRoute(route: Route): Promise<RouteDNSResult> {
+    const warnings: string[] = [];
+    const domain = this.domainModel.findById(route.domain_id);
+    if (!domain) {
+      return { success: false, recordIds: [], conflicts: [], error: `Domain with ID ${route.domain_id} not found`, warnings };
+    }
+
+    const desired = this.getDesiredRecord(route, domain.name);
+    if (!desired) {
+      return { success: true, recordIds: [], conflicts: [], warnings };
+    }
+
+    if (desired.type === 'CNAME' && desired.name === `${domain.name.replace(/\.$/, '')}.`) {
+      return {
+        success: false,
+        recordIds: [],
+        conflicts: [],
+        error: 'A dedicated subdomain route needs a path: the zone apex cannot be a CNAME',
+        warnings,
+      };
+    }
+
+    // Records this route already owns are replaced, so they are not conflicts
+    const owned = route.id !== undefined ? this.dnsRecordModel.findByRouteId(route.id) : [];
+    if (owned.some(record => this.sameRecord(record, desired))) {
+      return { success: true, recordIds: owned.map(record => record.id!), conflicts: [], warnings };
+    }
+
+    const validation = await this.conflictValidationService.validateDNSRecord({
+      domainId: domain.id!,
+      name: desired.name,
+      type: desired.type,
+      value: desired.value,
+      ttl: desired.ttl,
+    });
+    const ownedOnly = (conflict: DNSConflict) => route.id !== undefined &&
+      conflict.conflictingRecords.length > 0 &&
+      conflict.conflictingRecords.every(record => record.created_by_route_id === route.id);
+    const conflicts = validation.conflicts.filter(conflict => conflict.severity === 'error' && !ownedOnly(conflict));
+    warnings.push(...validation.warnings);
+
+    if (conflicts.length > 0) {
+      return {
+        success: false,
+        recordIds: [],
+        conflicts,
+        error: conflicts.map(conflict => conflict.description).join('; '),
+        warnings,
+      };
+    }
+
+    return { success: true, recordIds: [], conflicts: [], warnings };
+  }
+
+  /**
+   * Create, replace or remove the route's record so it matches the route's current state
+   */
+  async syncRouteRecords(route: Route): Promise<RouteDNSResult> {
+    const warnings: string[] = [];
+
+    try {
+      const domain = this.domainModel.findById(route.domain_id);
+      if (!domain) {
+        return { success: false, recordIds: [], conflicts: [], error: `Domain with ID ${route.domain_id} not found`, warnings };
+      }
+
+      // Without an address we can't tell what the record should be, so leave any existing one alone
+      if (route.is_active && route.is_dedicated_subdomain && !this.config.publicAddress) {
+        warnings.push('ROUTER_PUBLIC_ADDRESS is not set, so DNS records for this route were not changed');
+        return { success: true, recordIds: [], conflicts: [], warnings };
+      }
+
+      const desired = this.getDesiredRecord(route, domain.name);
+      if (desired && !domain.hosted_zone_id) {
+        warnings.push(`Domain ${domain.name} has no hosted zone, so its DNS must be managed elsewhere`);
+        return { success: true, recordIds: [], conflicts: [], warnings };
+      }
+
+      const owned = this.dnsRecordModel.findByRouteId(route.id!);
+      const current = owned.find(record => desired && this.sameRecord(record, desired));
+      if (current && owned.length === 1) {
+        return { success: true, recordIds: [current.id!], conflicts: [], warnings };
+      }
+
+      if (desired) {
+        const validation = await this.validateRoute(route);
+        warnings.push(...validation.warnings);
+        if (!validation.success) {
+          return { ...validation, warnings };
+        }
+      }
+
+      const removal = await this.removeRouteRecords(route.id!);
+      warnings.push(...removal.warnings);
+      if (!removal.success) {
+        return { ...removal, warnings };
+      }
+
+      if (!desired) {
+        return { success: true, recordIds: [], conflicts: [], warnings };
+      }
+
+      const creation = await this.dnsRecordCreationService.createDNSRecord({
+        domainId: domain.id!,
+        name: desired.name,
+        type: desired.type,
+        value: desired.value,
+        ttl: desired.ttl,
+        createdByRouteId: route.id,
+      });
+      warnings.push(...creation.warnings);
+
+      if (!creation.success) {
+        return { success: false, recordIds: [], conflicts: [], error: creation.error, warnings };
+      }
+
+      return { success: true, recordIds: [creation.recordId!], conflicts: [], warnings };
+
+    } catch (error) {
+      return { success: false, recordIds: [], conflicts: [], error: `Failed to sync DNS records for route: ${error}`, warnings };
+    }
+  }
+
+  /**
+   * Delete every record a route owns, from Route53 first so a failure leaves the local rows for a retry
+   */
+  async removeRouteRecords(routeId: number): Promise<RouteDNSResult> {
+    const warnings: string[] = [];
+    const owned = this.dnsRecordModel.findByRouteId(routeId);
+    if (owned.length === 0) {
+      return { success: true, recordIds: [], conflicts: [], warnings };
+    }
+
+    const domain = this.domainModel.findById(owned[0].domain_id);
+    try {
+      if (domain?.hosted_zone_id) {
+        await this.dnsProvider.deleteDNSRecords(domain.hosted_zone_id, owned.map(record => ({
+          name: record.name,
+          type: record.type,
+          value: record.value,
+          ttl: record.ttl,
+        })));
+      } else {
+        warnings.push('Domain has no hosted zone, removed the records locally only');
+      }
+    } catch (error) {
+      return { success: false, recordIds: [], conflicts: [], error: `Failed to delete DNS records from Route53: ${error}`, warnings };
+    }
+
+    this.dnsRecordModel.deleteByRouteId(routeId);
+    if (domain) {
+      this.domainModel.updateRecordCount(domain.id!);
+    }
+
+    return { success: true, recordIds: owned.map(record => record.id!), conflicts: [], warnings };
+  }
+
+  private sameRecord(record: DNSRecord, desired: DesiredRecord): boolean {
+    return record.name === desired.name && record.type === desired.type && record.value === desired.value && record.ttl === desired.ttl;
+  }
+}
@@ -6,13 +6,26 @@ import {
   DeleteHostedZoneCommand,
   ListResourceRecordSetsCommand,
   ChangeResourceRecordSetsCommand,
-  ChangeResourceRecordSetsCommandInput,
+  GetChangeCommand,
+  Change,
+  ChangeInfo,
+  ChangeAction,
   HostedZone,
   ResourceRecordSet,
-  Change,
   RRType,
-  ChangeAction,
 } from '@aws-sdk/client-route-53';
+import {
+  DNSChange,
+  DNSProvider,
+  DNSRecordChange,
+  DNSRecordData,
+  DNSRecordType,
+  HostedZoneSummary,
+  findZoneForDomain,
+  recordValues,
+} from './dns-provider';
+
+export type { DNSRecordData, HostedZoneSummary } from './dns-provider';
 
 export interface Route53Config {
   region?: string;
@@ -21,23 +34,8 @@ export interface Route53Config {
   sessionToken?: string;
 }
 
-export interface DNSRecordData {
-  name: string;
-  type: RRType;
-  value: string;
-  ttl: number;
-  priority?: number;
-  weight?: number;
-}
-
-export interface HostedZoneSummary {
-  id: string;
-  name: string;
-  recordCount: number;
-  createdAt?: Date;
-}
-
-export class Route53ClientService {
+export class Route53ClientService implements DNSProvider {
+  readonly name = 'route53' as const;
   private client: Route53Client;
 
   constructor(config: Route53Config = {}) {
@@ -52,18 +50,24 @@ export class Route53ClientService {
   }
 
   /**
-   * List all hosted zones
+   * List all hosted zones, following Route53's pagination (100 per page)
    */
   async listHostedZones(): Promise<HostedZoneSummary[]> {
     try {
-      const command = new ListHostedZonesCommand({});
-      const response = await this.client.send(command);
-
-      return (response.HostedZones || []).map(zone => ({
+      const zones: HostedZone[] = [];
+      let marker: string | undefined;
+      do {
+        const command = new ListHostedZonesCommand({ Marker: marker });
+        const response = await this.client.send(command);
+        zones.push(...(response.HostedZones || []));
+        marker = response.IsTruncated ? response.NextMarker : undefined;
+      } while (marker);
+
+      return zones.map(zone => ({
         id: zone.Id!.replace('/hostedzone/', ''), // Remove /hostedzone/ prefix
         name: zone.Name!,
         recordCount: zone.ResourceRecordSetCount || 0,
-        createdAt: zone.Created ? new Date(zone.Created) : undefined,
+        privateZone: zone.Config?.PrivateZone,
       }));
     } catch (error) {
       throw new Error(`Failed to list hosted zones: ${error}`);
@@ -73,7 +77,7 @@ export class Route53ClientService {
   /**
    * Get detailed hosted zone information
    */
-  async getHostedZone(hostedZoneId: string): Promise<HostedZone> {
+  async getHostedZone(hostedZoneId: string): Promise<HostedZoneSummary> {
     try {
       const command = new GetHostedZoneCommand({
         Id: hostedZoneId,
@@ -84,12 +88,33 @@ export class Route53ClientService {
         throw new Error(`Hosted zone ${hostedZoneId} not found`);
       }
 
-      return response.HostedZone;
+      return {
+        id: response.HostedZone.Id!.replace('/hostedzone/', ''),
+        name: response.HostedZone.Name!,
+        recordCount: response.HostedZone.ResourceRecordSetCount || 0,
+        privateZone: response.HostedZone.Config?.PrivateZone,
+      };
     } catch (error) {
       throw new Error(`Failed to get hosted zone ${hostedZoneId}: ${error}`);
     }
   }
 
+  /**
+   * The nameservers Route53 assigned to a hosted zone, which the registrar must delegate to
+   */
+  async getHostedZoneNameServers(hostedZoneId: string): Promise<string[]> {
+    try {
+      const command = new GetHostedZoneCommand({
+        Id: hostedZoneId,
+      });
+      const response = await this.client.send(command);
+
+      return response.DelegationSet?.NameServers || [];
+    } catch (error) {
+      throw new Error(`Failed to get nameservers for hosted zone ${hostedZoneId}: ${error}`);
+    }
+  }
+
   /**
    * Find hosted zone by domain name
    */
@@ -97,19 +122,7 @@ export class Route53ClientService {
     try {
       const zones = await this.listHostedZones();
 
-      // Look for exact match first
-      let exactMatch = zones.find(zone => zone.name === domainName);
-      if (exactMatch) return exactMatch;
-
-      // Look for zones that are parents of the domain
-      const domainParts = domainName.split('.');
-      for (let i = 1; i < domainParts.length - 1; i++) {
-        const potentialZone = domainParts.slice(i).join('.') + '.';
-        const match = zones.find(zone => zone.name === potentialZone);
-        if (match) return match;
-      }
-
-      return null;
+      return findZoneForDomain(zones, domainName);
     } catch (error) {
       throw new Error(`Failed to find hosted zone for ${domainName}: ${error}`);
     }
@@ -158,98 +171,102 @@ export class Route53ClientService {
   }
 
   /**
-   * List DNS records for a hosted zone
+   * List every record set in a hosted zone, following Route53's pagination (300 per page).
+   * Multi-value sets keep all their values and alias records keep their target.
    */
   async listDNSRecords(hostedZoneId: string): Promise<DNSRecordData[]> {
     try {
-      const command = new ListResourceRecordSetsCommand({
-        HostedZoneId: hostedZoneId,
-      });
-
-      const response = await this.client.send(command);
-      const records: DNSRecordData[] = [];
-
-      for (const record of response.ResourceRecordSets || []) {
-        if (record.Type === 'SOA' || record.Type === 'NS') {
-          // Skip SOA and NS records as they're managed by AWS
-          continue;
-        }
-
-        records.push({
-          name: record.Name!,
-          type: record.Type!,
-          value: record.ResourceRecords?.[0]?.Value || '',
-          ttl: record.TTL || 300,
-          priority: record.SetIdentifier ? undefined : record.Priority, // Only for weighted routing
-          weight: record.SetIdentifier ? record.Weight : undefined,
+      const recordSets: ResourceRecordSet[] = [];
+      let next: { name?: string; type?: RRType; identifier?: string } | undefined = {};
+      while (next) {
+        const command: ListResourceRecordSetsCommand = new ListResourceRecordSetsCommand({
+          HostedZoneId: hostedZoneId,
+          StartRecordName: next.name,
+          StartRecordType: next.type,
+          StartRecordIdentifier: next.identifier,
         });
+        const response = await this.client.send(command);
+        recordSets.push(...(response.ResourceRecordSets || []));
+        next = response.IsTruncated
+          ? { name: response.NextRecordName, type: response.NextRecordType, identifier: response.NextRecordIdentifier }
+          : undefined;
       }
 
-      return records;
+      // The apex SOA and NS are managed by AWS. NS elsewhere delegates a subdomain and is kept.
+      const apex = recordSets.find(recordSet => recordSet.Type === 'SOA')?.Name;
+      return recordSets
+        .filter(recordSet => !(recordSet.Name === apex && (recordSet.Type === 'SOA' || recordSet.Type === 'NS')))
+        // Routing policies (weighted, latency, failover...) give several sets the same name and type,
+        // which the one-set-per-name-and-type model can't hold; leave them to be managed in Route53
+        .filter(recordSet => !recordSet.SetIdentifier)
+        .map(recordSet => this.fromResourceRecordSet(recordSet));
     } catch (error) {
       throw new Error(`Failed to list DNS records for hosted zone ${hostedZoneId}: ${error}`);
     }
   }
 
   /**
-   * Create or update DNS records
+   * Apply a batch of changes in one atomic ChangeResourceRecordSets call. The change starts PENDING;
+   * poll getChange until it is INSYNC to know every Route53 nameserver is answering with it.
    */
-  async upsertDNSRecords(hostedZoneId: string, records: DNSRecordData[]): Promise<void> {
+  async changeDNSRecords(hostedZoneId: string, changes: DNSRecordChange[]): Promise<DNSChange> {
     try {
-      const changes: Change[] = records.map(record => ({
-        Action: ChangeAction.UPSERT,
-        ResourceRecordSet: {
-          Name: record.name,
-          Type: record.type,
-          TTL: record.ttl,
-          ResourceRecords: [{
-            Value: record.value,
-          }],
-          ...(record.priority !== undefined && { Priority: record.priority }),
-          ...(record.weight !== undefined && { Weight: record.weight }),
-        },
-      }));
-
       const command = new ChangeResourceRecordSetsCommand({
         HostedZoneId: hostedZoneId,
         ChangeBatch: {
-          Changes: changes,
+          Changes: changes.map(({ action, record }): Change => ({
+            Action: action === 'UPSERT' ? ChangeAction.UPSERT : ChangeAction.DELETE,
+            ResourceRecordSet: this.toResourceRecordSet(record),
+          })),
         },
       });
 
-      await this.client.send(command);
+      const response = await this.client.send(command);
+      if (!response.ChangeInfo) {
+        throw new Error('Invalid response from Route53');
+      }
+      return this.fromChangeInfo(response.ChangeInfo);
     } catch (error) {
-      throw new Error(`Failed to upsert DNS records in hosted zone ${hostedZoneId}: ${error}`);
+      throw new Error(`Failed to change DNS records in hosted zone ${hostedZoneId}: ${error}`);
     }
   }
 
   /**
-   * Delete DNS records
+   * Get the status of a change submitted by changeDNSRecords
    */
-  async deleteDNSRecords(hostedZoneId: string, records: DNSRecordData[]): Promise<void> {
+  async getChange(changeId: string): Promise<DNSChange> {
     try {
-      const changes: Change[] = records.map(record => ({
-        Action: ChangeAction.DELETE,
-        ResourceRecordSet: {
-          Name: record.name,
-          Type: record.type,
-          TTL: record.ttl,
-          ResourceRecords: [{
-            Value: record.value,
-          }],
-          ...(record.priority !== undefined && { Priority: record.priority }),
-          ...(record.weight !== undefined && { Weight: record.weight }),
-        },
-      }));
-
-      const command = new ChangeResourceRecordSetsCommand({
-        HostedZoneId: hostedZoneId,
-        ChangeBatch: {
-          Changes: changes,
-        },
+      const command = new GetChangeCommand({
+        Id: changeId,
       });
+      const response = await this.client.send(command);
 
-      await this.client.send(command);
+      if (!response.ChangeInfo) {
+        throw new Error(`Change ${changeId} not found`);
+      }
+      return this.fromChangeInfo(response.ChangeInfo);
+    } catch (error) {
+      throw new Error(`Failed to get change ${changeId}: ${error}`);
+    }
+  }
+
+  /**
+   * Create or update DNS records
+   */
+  async upsertDNSRecords(hostedZoneId: string, records: DNSRecordData[]): Promise<DNSChange> {
+    try {
+      return await this.changeDNSRecords(hostedZoneId, records.map(record => ({ action: 'UPSERT', record })));
+    } catch (error) {
+      throw new Error(`Failed to upsert DNS records in hosted zone ${hostedZoneId}: ${error}`);
+    }
+  }
+
+  /**
+   * Delete DNS records
+   */
+  async deleteDNSRecords(hostedZoneId: string, records: DNSRecordData[]): Promise<DNSChange> {
+    try {
+      return await this.changeDNSRecords(hostedZoneId, records.map(record => ({ action: 'DELETE', record })));
     } catch (error) {
       throw new Error(`Failed to delete DNS records from hosted zone ${hostedZoneId}: ${error}`);
     }
@@ -267,6 +284,58 @@ export class Route53ClientService {
     }
   }
 
+  private fromChangeInfo(changeInfo: ChangeInfo): DNSChange {
+    return {
+      id: changeInfo.Id!.replace('/change/', ''), // Remove /change/ prefix
+      status: changeInfo.Status === 'INSYNC' ? 'INSYNC' : 'PENDING',
+      submittedAt: (changeInfo.SubmittedAt ?? new Date()).toISOString(),
+    };
+  }
+
+  private fromResourceRecordSet(recordSet: ResourceRecordSet): DNSRecordData {
+    if (recordSet.AliasTarget) {
+      return {
+        name: recordSet.Name!,
+        type: recordSet.Type! as DNSRecordType,
+        value: recordSet.AliasTarget.DNSName!,
+        // Aliases take the target's TTL; 60 is what Route53 uses for most AWS targets
+        ttl: 60,
+        alias: {
+          hostedZoneId: recordSet.AliasTarget.HostedZoneId!,
+          evaluateTargetHealth: recordSet.AliasTarget.EvaluateTargetHealth ?? false,
+        },
+      };
+    }
+
+    return {
+      name: recordSet.Name!,
+      type: recordSet.Type! as DNSRecordType,
+      value: (recordSet.ResourceRecords || []).map(resourceRecord => resourceRecord.Value!).join('\n'),
+      ttl: recordSet.TTL ?? 300,
+    };
+  }
+
+  private toResourceRecordSet(record: DNSRecordData): ResourceRecordSet {
+    if (record.alias) {
+      return {
+        Name: record.name,
+        Type: record.type,
+        AliasTarget: {
+          HostedZoneId: record.alias.hostedZoneId,
+          DNSName: record.value,
+          EvaluateTargetHealth: record.alias.evaluateTargetHealth,
+        },
+      };
+    }
+
+    return {
+      Name: record.name,
+      Type: record.type,
+      TTL: record.ttl,
+      ResourceRecords: recordValues(record.value).map(value => ({ Value: value })),
+    };
+  }
+
   /**
    * Validate AWS credentials and permissions
    */
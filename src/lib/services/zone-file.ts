@@ -0,0 +1,440 @@
+import { DNSChangeTracker } from './dns-change-tracker';
+import { DNSConflict, DNSConflictValidationService } from './dns-conflict-validation';
+import { DNSProvider, DNSRecordData, DNSRecordType, recordValues, sameRecordValues } from './dns-provider';
+import { DNSRecordModel, DNSRecord, DNS_RECORD_TYPES } from '../models/dns-record';
+import { DomainModel } from '../models/domain';
+
+const DEFAULT_TTL = 300;
+
+// Types whose data ends in a DNS name, which a zone file may write relative to $ORIGIN
+const NAME_TARGET_TYPES = ['CNAME', 'NS', 'PTR'];
+
+export interface ParsedZoneFile {
+  records: DNSRecordData[];
+  // Line-numbered problems that stop the file being imported
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ZoneImportEntry {
+  action: 'create' | 'update' | 'unchanged';
+  record: DNSRecordData;
+  existingRecordId?: number;
+  conflicts: DNSConflict[];
+  // Why this record can't be imported
+  errors: string[];
+}
+
+export interface ZoneImportPreview {
+  domainId: number;
+  domainName: string;
+  valid: boolean;
+  entries: ZoneImportEntry[];
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ZoneImportResult {
+  success: boolean;
+  preview?: ZoneImportPreview;
+  // dns_changes row for the change batch, when anything was written
+  changeId?: number;
+  error?: string;
+  reason?: 'not_found' | 'invalid' | 'failed';
+  warnings: string[];
+}
+
+const absolute = (name: string): string => name.endsWith('.') ? name : `${name}.`;
+
+const qualify = (name: string, origin: string): string => {
+  if (name === '@') return origin;
+  return name.endsWith('.') ? name.toLowerCase() : `${name}.${origin}`.toLowerCase();
+};
+
+/**
+ * BIND TTLs may carry units: 3600, 1h, 1h30m, 1d
+ */
+const parseTTL = (token: string): number | undefined => {
+  if (/^\d+$/.test(token)) return Number(token);
+  const units: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+  const parts = [...token.toLowerCase().matchAll(/(\d+)([smhdw])/g)];
+  if (parts.length === 0 || parts.map(part => part[0]).join('') !== token.toLowerCase()) return undefined;
+  return parts.reduce((total, [, amount, unit]) => total + Number(amount) * units[unit], 0);
+};
+
+/**
+ * Split a line into fields, keeping quoted strings (with their quotes) together and dropping comments
+ */
+const tokenize = (line: string): string[] => {
+  const tokens: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      current += char;
+      if (char === '\\' && i + 1 < line.length) current += line[++i];
+      else if (char === '"') quoted = false;
+    } else if (char === ';') {
+      break;
+    } else if (char === '"') {
+      current += char;
+      quoted = true;
+    } else if (/\s/.test(char)) {
+      if (current) tokens.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current) tokens.push(current);
+  return tokens;
+};
+
+/**
+ * Join records split over several lines with parentheses, as SOA records usually are
+ */
+const logicalLines = (text: string): Array<{ lineNumber: number; text: string; continued: boolean }> => {
+  const lines: Array<{ lineNumber: number; text: string; continued: boolean }> = [];
+  let pending: { lineNumber: number; text: string; continued: boolean } | undefined;
+  let depth = 0;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    // Comments end at the line break, so drop them before joining lines
+    const withoutComment = tokenize(raw).join(' ');
+    const opens = (withoutComment.match(/\(/g) ?? []).length - (withoutComment.match(/\)/g) ?? []).length;
+    if (pending) {
+      pending.text += ` ${withoutComment}`;
+    } else {
+      // A line starting with whitespace reuses the previous owner name
+      pending = { lineNumber: index + 1, text: withoutComment, continued: /^\s/.test(raw) };
+    }
+    depth += opens;
+    if (depth <= 0) {
+      lines.push(pending);
+      pending = undefined;
+      depth = 0;
+    }
+  });
+  if (pending) lines.push(pending);
+  return lines;
+};
+
+/**
+ * Put record data into the presentation format stored in dns_records, qualifying relative names
+ */
+const normalizeRdata = (type: DNSRecordType, rdata: string[], origin: string): string => {
+  switch (type) {
+    case 'CNAME':
+    case 'NS':
+    case 'PTR':
+      return qualify(rdata[0], origin);
+    case 'MX':
+      return `${rdata[0]} ${qualify(rdata[1], origin)}`;
+    case 'SRV':
+      return `${rdata[0]} ${rdata[1]} ${rdata[2]} ${qualify(rdata[3], origin)}`;
+    case 'TXT':
+      return rdata.map(part => part.startsWith('"') ? part : `"${part}"`).join(' ');
+    case 'CAA': {
+      const value = rdata.slice(2).join(' ');
+      return `${rdata[0]} ${rdata[1]} ${value.startsWith('"') ? value : `"${value}"`}`;
+    }
+    case 'DS':
+      // Long digests are often split across several fields
+      return `${rdata[0]} ${rdata[1]} ${rdata[2]} ${rdata.slice(3).join('').toUpperCase()}`;
+    default:
+      return rdata.join(' ');
+  }
+};
+
+const MIN_RDATA_FIELDS: Partial<Record<DNSRecordType, number>> = { MX: 2, SRV: 4, CAA: 3, DS: 4, SOA: 7 };
+
+/**
+ * Parse a BIND zone file into record sets, one per name and type. `origin` is the zone the file describes;
+ * the SOA and apex NS are left out since the DNS provider manages them.
+ */
+export const parseZoneFile = (text: string, origin: string): ParsedZoneFile => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const sets = new Map<string, DNSRecordData>();
+  const zone = absolute(origin.toLowerCase());
+
+  let currentOrigin = zone;
+  let defaultTTL: number | undefined;
+  let lastOwner: string | undefined;
+  let lastTTL: number | undefined;
+  let skippedApex = false;
+
+  for (const line of logicalLines(text)) {
+    const tokens = tokenize(line.text).filter(token => token !== '(' && token !== ')')
+      .map(token => token.replace(/^\(|\)$/g, '')).filter(Boolean);
+    if (tokens.length === 0) continue;
+    const at = `line ${line.lineNumber}`;
+
+    if (tokens[0].startsWith('$')) {
+      const directive = tokens[0].toUpperCase();
+      if (directive === '$ORIGIN' && tokens[1]) {
+        currentOrigin = qualify(tokens[1], currentOrigin);
+      } else if (directive === '$TTL' && tokens[1] && parseTTL(tokens[1]) !== undefined) {
+        defaultTTL = parseTTL(tokens[1]);
+      } else {
+        errors.push(`${at}: unsupported directive ${tokens.slice(0, 2).join(' ')}`);
+      }
+      continue;
+    }
+
+    let owner: string | undefined;
+    if (line.continued) {
+      owner = lastOwner;
+    } else {
+      owner = qualify(tokens.shift()!, currentOrigin);
+    }
+    if (!owner) {
+      errors.push(`${at}: record has no owner name`);
+      continue;
+    }
+    lastOwner = owner;
+
+    // TTL and class may come in either order before the type
+    let ttl: number | undefined;
+    while (tokens.length > 0) {
+      const token = tokens[0].toUpperCase();
+      if (token === 'IN') {
+        tokens.shift();
+      } else if (ttl === undefined && parseTTL(token) !== undefined) {
+        ttl = parseTTL(tokens.shift()!);
+      } else {
+        break;
+      }
+    }
+
+    const type = tokens.shift()?.toUpperCase();
+    if (!type) {
+      errors.push(`${at}: missing record type`);
+      continue;
+    }
+    if (['CH', 'HS'].includes(type)) {
+      errors.push(`${at}: only IN class records can be imported`);
+      continue;
+    }
+    if (!DNS_RECORD_TYPES.includes(type as DNSRecordType)) {
+      errors.push(`${at}: unsupported record type ${type}`);
+      continue;
+    }
+    const recordType = type as DNSRecordType;
+    if (tokens.length < (MIN_RDATA_FIELDS[recordType] ?? 1)) {
+      errors.push(`${at}: incomplete ${type} record`);
+      continue;
+    }
+
+    ttl = ttl ?? defaultTTL ?? lastTTL ?? DEFAULT_TTL;
+    lastTTL = ttl;
+
+    if (recordType === 'SOA' || (recordType === 'NS' && owner === zone)) {
+      skippedApex = true;
+      continue;
+    }
+    if (owner !== zone && !owner.endsWith(`.${zone}`)) {
+      errors.push(`${at}: ${owner} is outside the zone ${zone}`);
+      continue;
+    }
+
+    const value = normalizeRdata(recordType, tokens, currentOrigin);
+    const key = `${owner}:${recordType}`;
+    const existing = sets.get(key);
+    if (existing) {
+      if (existing.ttl !== ttl) {
+        warnings.push(`${at}: ${owner} ${recordType} has several TTLs; using ${existing.ttl}`);
+      }
+      if (!recordValues(existing.value).includes(value)) existing.value = `${existing.value}\n${value}`;
+    } else {
+      sets.set(key, { name: owner, type: recordType, value, ttl });
+    }
+  }
+
+  if (skippedApex) {
+    warnings.push('Skipped the SOA and apex NS records; the DNS provider manages them');
+  }
+
+  // A CNAME can't share its name with anything else
+  const records = [...sets.values()];
+  for (const record of records.filter(record => record.type === 'CNAME')) {
+    const others = records.filter(other => other.name === record.name && other.type !== 'CNAME');
+    if (others.length > 0) {
+      errors.push(`CNAME ${record.name} cannot share its name with ${others.map(other => other.type).join(', ')} records`);
+    }
+  }
+
+  return { records, errors, warnings };
+};
+
+/**
+ * Write records as a BIND zone file. Names and targets are fully qualified so the file reads the same
+ * wherever it is loaded; Route53 alias records have no zone file form and are listed as comments.
+ */
+export const formatZoneFile = (domainName: string, records: DNSRecord[], generatedAt = new Date()): string => {
+  const zone = absolute(domainName.toLowerCase());
+  const lines = [
+    `; Zone file for ${zone}`,
+    `; Exported by cloud-router at ${generatedAt.toISOString()}`,
+    `$ORIGIN ${zone}`,
+    '',
+  ];
+
+  for (const record of records) {
+    if (record.alias_hosted_zone_id) {
+      lines.push(`; ALIAS ${record.name} ${record.type} -> ${record.value} (hosted zone ${record.alias_hosted_zone_id})`);
+      continue;
+    }
+    for (const value of recordValues(record.value)) {
+      lines.push(`${absolute(record.name)}\t${record.ttl}\tIN\t${record.type}\t${formatRdata(record.type, value)}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+};
+
+const formatRdata = (type: DNSRecordType, value: string): string => {
+  const fields = value.split(' ');
+  if (NAME_TARGET_TYPES.includes(type)) return absolute(value);
+  if (type === 'MX' && fields.length === 2) return `${fields[0]} ${absolute(fields[1])}`;
+  if (type === 'SRV' && fields.length === 4) return `${fields.slice(0, 3).join(' ')} ${absolute(fields[3])}`;
+  return value;
+};
+
+/**
+ * BIND zone file export, and import that previews the change set and applies it in one DNS provider change batch
+ */
+export class ZoneFileService {
+  constructor(
+    private dnsProvider: DNSProvider,
+    private conflictValidationService: DNSConflictValidationService,
+    private dnsRecordModel: DNSRecordModel,
+    private domainModel: DomainModel,
+    private changeTracker?: DNSChangeTracker
+  ) { }
+
+  /**
+   * The domain's records as a zone file, or undefined when the domain doesn't exist
+   */
+  exportZoneFile(domainId: number): string | undefined {
+    const domain = this.domainModel.findById(domainId);
+    if (!domain) return undefined;
+    return formatZoneFile(domain.name, this.dnsRecordModel.findByDomainId(domainId));
+  }
+
+  /**
+   * Parse a zone file and work out what importing it would create and change, without writing anything
+   */
+  async previewImport(domainId: number, zoneFile: string): Promise<ZoneImportPreview | undefined> {
+    const domain = this.domainModel.findById(domainId);
+    if (!domain) return undefined;
+
+    const parsed = parseZoneFile(zoneFile, domain.name);
+    const existingRecords = this.dnsRecordModel.findByDomainId(domainId);
+    const imported = new Set(parsed.records.map(record => `${record.name}:${record.type}`));
+    // Records this import overwrites aren't conflicts with it
+    const replaced = (record: DNSRecord) => imported.has(`${record.name}:${record.type}`);
+
+    const entries: ZoneImportEntry[] = [];
+    for (const record of parsed.records) {
+      const existing = existingRecords.find(candidate => candidate.name === record.name && candidate.type === record.type);
+      const validation = await this.conflictValidationService.validateDNSRecord({
+        domainId,
+        name: record.name,
+        type: record.type,
+        value: record.value,
+        ttl: record.ttl,
+      });
+      const conflicts = validation.conflicts.filter(conflict =>
+        conflict.conflictingRecords.length === 0 || !conflict.conflictingRecords.every(replaced));
+      const errors = conflicts.filter(conflict => conflict.severity === 'error').map(conflict => conflict.description);
+
+      if (existing?.created_by_route_id) {
+        errors.push(`${record.name} (${record.type}) is managed by route ${existing.created_by_route_id}`);
+      }
+
+      const unchanged = existing && !existing.alias_hosted_zone_id &&
+        existing.ttl === record.ttl && sameRecordValues(existing.value, record.value);
+
+      entries.push({
+        action: !existing ? 'create' : unchanged ? 'unchanged' : 'update',
+        record,
+        existingRecordId: existing?.id,
+        conflicts,
+        errors,
+      });
+    }
+
+    const errors = [...parsed.errors];
+    if (!domain.hosted_zone_id) {
+      errors.push(`Domain ${domain.name} has no hosted zone ID`);
+    }
+
+    return {
+      domainId,
+      domainName: domain.name,
+      valid: errors.length === 0 && entries.every(entry => entry.errors.length === 0),
+      entries,
+      errors,
+      warnings: [...parsed.warnings, ...entries.flatMap(entry => entry.conflicts
+        .filter(conflict => conflict.severity !== 'error').map(conflict => conflict.description))],
+    };
+  }
+
+  /**
+   * Import a zone file: nothing is written unless every record is valid, the DNS provider gets a single
+   * change batch, and the local records are written together once it has been accepted.
+   * Records missing from the file are left alone.
+   */
+  async importZoneFile(domainId: number, zoneFile: string): Promise<ZoneImportResult> {
+    const preview = await this.previewImport(domainId, zoneFile);
+    if (!preview) {
+      return { success: false, error: `Domain with ID ${domainId} not found`, reason: 'not_found', warnings: [] };
+    }
+    if (!preview.valid) {
+      return { success: false, preview, error: 'Zone file has errors; nothing was imported', reason: 'invalid', warnings: preview.warnings };
+    }
+
+    const writes = preview.entries.filter(entry => entry.action !== 'unchanged');
+    if (writes.length === 0) {
+      return { success: true, preview, warnings: preview.warnings };
+    }
+
+    const hostedZoneId = this.domainModel.findById(domainId)!.hosted_zone_id!;
+    let changeId: number | undefined;
+    try {
+      const change = await this.dnsProvider.changeDNSRecords(hostedZoneId, writes.map(entry => ({ action: 'UPSERT' as const, record: entry.record })));
+      changeId = this.changeTracker?.record(domainId, change, `IMPORT ${writes.length} record set(s)`);
+    } catch (error) {
+      return { success: false, preview, error: `Failed to apply zone file at the DNS provider: ${error}`, reason: 'failed', warnings: preview.warnings };
+    }
+
+    this.dnsRecordModel.transaction(() => {
+      for (const { record, existingRecordId } of writes) {
+        if (existingRecordId) {
+          this.dnsRecordModel.update(existingRecordId, {
+            value: record.value,
+            ttl: record.ttl,
+            alias_hosted_zone_id: null,
+            alias_evaluate_target_health: null,
+            ...(changeId !== undefined ? { change_id: changeId } : {}),
+          });
+        } else {
+          this.dnsRecordModel.create({
+            domain_id: domainId,
+            name: record.name,
+            type: record.type,
+            value: record.value,
+            ttl: record.ttl,
+            change_id: changeId,
+            source: 'cloud_router',
+          });
+        }
+      }
+    });
+    this.domainModel.updateRecordCount(domainId);
+
+    return { success: true, preview, changeId, warnings: preview.warnings };
+  }
+}
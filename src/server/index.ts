@@ -1,20 +1,27 @@
 import express from "express";
 import cors from "cors";
 
-import db, { getApiKeyByKey } from "@/lib/database";
+import { getDatabase } from "@/lib/database";
+import { ApiKeyModel } from "@/lib/models/api-key";
 import { runMigrations } from "@/lib/database/migration";
 
-import domainsRouter from "./routers/domains";
-import certificatesRouter from "./routers/certificates";
+import domainsRouter, { delegationVerificationService, dnsChangeTracker, dnsDriftReconciler } from "./routers/domains";
+import certificatesRouter, { certificateRenewalService } from "./routers/certificates";
 import servicesRouter from "./routers/services";
-import healthChecksRouter from "./routers/healthChecks";
+import healthChecksRouter, { healthCheckRunner } from "./routers/healthChecks";
 import healthCheckInvocationsRouter from "./routers/healthCheckInvocations";
 import routesRouter from "./routers/routes";
-import requestsRouter from "./routers/requests";
+import requestsRouter, { requestLogRetentionService } from "./routers/requests";
 import apiKeysRouter from "./routers/apiKeys";
+import alertsRouter, { alertingService } from "./routers/alerts";
+import summaryRouter from "./routers/summary";
+import { startProxyServer } from "./proxy";
 
 import { $ } from "bun";
 import { logger } from "@/lib/logger";
+import config from "@/lib/config";
+
+const apiKeyModel = new ApiKeyModel();
 
 const app = express();
 
@@ -54,7 +61,7 @@ apiRouter.use((req, res, next) => {
     return res.status(400).json({ error: 'Invalid Authorization header format' });
   }
   const apiKey = parts[1];
-  const keyRecord = getApiKeyByKey(apiKey);
+  const keyRecord = apiKeyModel.findByKey(apiKey);
   if (!keyRecord) {
     logger.info('Invalid API key');
     return res.status(401).json({ error: 'Invalid API key' });
@@ -77,6 +84,8 @@ apiRouter.use('/health_check_invocations', healthCheckInvocationsRouter);
 apiRouter.use('/routes', routesRouter);
 apiRouter.use('/requests', requestsRouter);
 apiRouter.use('/api_keys', apiKeysRouter);
+apiRouter.use('/alerts', alertsRouter);
+apiRouter.use('/summary', summaryRouter);
 
 app.use('/api/v1', apiRouter);
 
@@ -86,7 +95,29 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
   res.status(500).json({ error: 'Internal server error', details: err.message });
 });
 
+// Bring the schema up to date before serving anything or starting the background services
+const appliedMigrations = await runMigrations(getDatabase());
+for (const migration of appliedMigrations) {
+  logger.info(`Applied migration ${migration.version} (${migration.name})`);
+}
+
 const port = process.env.PORT || 3000;
 app.listen(port, () => {
   logger.info(`Server is running on port ${port}`);
-});
\ No newline at end of file
+});
+
+startProxyServer();
+certificateRenewalService.events.on('certificate-expiring', event => {
+  alertingService.handleCertificateExpiring(event)
+    .catch(error => logger.error('Failed to alert on expiring certificate', { certificateId: event.certificateId, error: `${error}` }));
+});
+certificateRenewalService.start(config.certificateRenewalIntervalMs);
+delegationVerificationService.start(config.delegationCheckIntervalMs);
+dnsDriftReconciler.start(config.dnsDriftCheckIntervalMs);
+dnsChangeTracker.start(config.dnsChangeRefreshIntervalMs);
+requestLogRetentionService.start(config.requestLogRetentionIntervalMs);
+healthCheckRunner.events.on('service-health-change', event => {
+  alertingService.handleServiceHealthChange(event)
+    .catch(error => logger.error('Failed to alert on service health change', { serviceId: event.serviceId, error: `${error}` }));
+});
+healthCheckRunner.start();
\ No newline at end of file
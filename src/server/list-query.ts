@@ -0,0 +1,128 @@
+import type { Request, Response } from "express";
+import type { ListQuery, ListSpec, Page, SortOrder } from "@/lib/models/repository";
+
+export const DEFAULT_LIST_LIMIT = 50;
+export const MAX_LIST_LIMIT = 500;
+
+// Query parameters every list takes; anything else is a filter or ignored
+const RESERVED = new Set(['limit', 'cursor', 'sort', 'order', 'from', 'to']);
+
+export type ListQueryResult = { query: ListQuery; error?: undefined } | { query?: undefined; error: string };
+
+// Cursors are opaque to clients but carry the sort they were issued for, so they can't be replayed against another
+const encodeCursor = (query: ListQuery, value: string | number, id: number) =>
+  Buffer.from(JSON.stringify([query.sort, query.order, value, id])).toString('base64url');
+
+const decodeCursor = (cursor: string, sort: string, order: SortOrder): ListQuery['after'] | string => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+  } catch {
+    return 'Invalid cursor';
+  }
+  if (!Array.isArray(parsed) || parsed.length !== 4 || typeof parsed[3] !== 'number') {
+    return 'Invalid cursor';
+  }
+  const [cursorSort, cursorOrder, value, id] = parsed;
+  if (cursorSort !== sort || cursorOrder !== order) {
+    return 'cursor was issued for a different sort; start again without it';
+  }
+  return { value, id };
+};
+
+const parseTime = (value: string) => {
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+};
+
+/**
+ * Parse limit, cursor, sort (a column, `-column` for descending, or with order=asc|desc), from/to and field
+ * filters from a list request's query string, against what the list supports
+ */
+export const parseListQuery = (raw: Request['query'], spec: ListSpec): ListQueryResult => {
+  const param = (name: string) => typeof raw[name] === 'string' ? raw[name] as string : undefined;
+
+  const limit = param('limit') !== undefined ? Number(param('limit')) : DEFAULT_LIST_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+    return { error: `limit must be a whole number from 1 to ${MAX_LIST_LIMIT}` };
+  }
+
+  let sort = param('sort') ?? spec.defaultSort;
+  let order: SortOrder = param('sort') === undefined ? spec.defaultOrder : 'asc';
+  if (sort.startsWith('-')) {
+    sort = sort.slice(1);
+    order = 'desc';
+  }
+  if (!spec.sorts.includes(sort)) {
+    return { error: `sort must be one of ${spec.sorts.join(', ')}` };
+  }
+  const orderParam = param('order');
+  if (orderParam !== undefined) {
+    if (orderParam !== 'asc' && orderParam !== 'desc') {
+      return { error: "order must be 'asc' or 'desc'" };
+    }
+    order = orderParam;
+  }
+
+  const filters: ListQuery['filters'] = {};
+  for (const [name, value] of Object.entries(raw)) {
+    // Own keys only, so ?constructor= and friends aren't mistaken for filters
+    if (RESERVED.has(name) || !Object.hasOwn(spec.filters, name)) continue;
+    if (typeof value !== 'string') {
+      return { error: `${name} must be given once` };
+    }
+    switch (spec.filters[name]) {
+      case 'integer':
+        if (!/^-?\d+$/.test(value)) return { error: `${name} must be a whole number` };
+        filters[name] = parseInt(value);
+        break;
+      case 'boolean':
+        if (value !== 'true' && value !== 'false') return { error: `${name} must be true or false` };
+        filters[name] = value === 'true' ? 1 : 0;
+        break;
+      default:
+        filters[name] = value;
+    }
+  }
+
+  const query: ListQuery = { filters, sort, order, limit };
+
+  for (const bound of ['from', 'to'] as const) {
+    const value = param(bound);
+    if (value === undefined) continue;
+    if (!spec.timeColumn) {
+      return { error: `This list can't be filtered by ${bound}` };
+    }
+    query[bound] = parseTime(value);
+    if (!query[bound]) {
+      return { error: `${bound} must be an ISO 8601 timestamp` };
+    }
+  }
+
+  const cursor = param('cursor');
+  if (cursor !== undefined) {
+    const after = decodeCursor(cursor, sort, order);
+    if (typeof after === 'string') {
+      return { error: after };
+    }
+    query.after = after;
+  }
+
+  return { query };
+};
+
+/**
+ * Send a page in the envelope every list shares: the items under `data`, and under `pagination` the cursor
+ * for the next page (null on the last)
+ */
+export const sendPage = <T extends { id?: number }>(res: Response, page: Page<T>, query: ListQuery, format: (item: T) => unknown = item => item) => {
+  const last = page.items.at(-1);
+  const nextCursor = page.hasMore && last
+    ? encodeCursor(query, (last as Record<string, unknown>)[query.sort] as string | number, last.id!)
+    : null;
+
+  res.json({
+    data: page.items.map(format),
+    pagination: { limit: query.limit, next_cursor: nextCursor },
+  });
+};
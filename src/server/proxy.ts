@@ -1,12 +1,340 @@
-// TODO: Implement proxy server
-// Before we can do that we need to be able to load domains and certificates from the database
-// Then we can populate the array of tls objects with the correct cert and key for each domain
-
-const proxyServer = Bun.serve({
-  fetch: (request: Request) => new Response("Welcome to Bun!"),
-  tls: [{
-    cert: Bun.file("cert.pem"),
-    key: Bun.file("key.pem"),
-    serverName: ""
-  }],
-});
\ No newline at end of file
+import config from "@/lib/config";
+import { logger } from "@/lib/logger";
+import { databaseEvents, DatabaseChangeEvent } from "@/lib/models/repository";
+import { RouteModel } from "@/lib/models/route";
+import { ServiceModel } from "@/lib/models/service";
+import { DomainModel } from "@/lib/models/domain";
+import { CertificateModel } from "@/lib/models/certificate";
+import { RequestLogModel } from "@/lib/models/request-log";
+import { ProxyRoutingService, ProxyRoutingTable, ProxyRouteTarget } from "@/lib/services/proxy-routing";
+import { CertificateStoreService, ProxyTlsOptions } from "@/lib/services/certificate-store";
+import { AcmeChallengeStore } from "@/lib/services/acme-challenge-store";
+import { HttpsRedirectService, HstsPolicy, formatHstsHeader } from "@/lib/services/https-redirect";
+import { RequestLoggerService } from "@/lib/services/request-logger";
+
+interface RoutingSnapshot {
+  version: number;
+  table: ProxyRoutingTable;
+  hstsPolicies: HstsPolicy[];
+  loadedAt: string;
+}
+
+// Tables whose rows feed into the routing table
+const ROUTING_TABLES = ["routes", "services", "domains"];
+
+// Coalesce bursts of dashboard edits into a single reload
+const ROUTING_RELOAD_DEBOUNCE_MS = 250;
+
+const routeModel = new RouteModel();
+const serviceModel = new ServiceModel();
+const domainModel = new DomainModel();
+const certificateModel = new CertificateModel();
+const requestLogModel = new RequestLogModel();
+
+const routingService = new ProxyRoutingService({
+  getAllRoutes: () => routeModel.findAll(),
+  getServiceById: id => serviceModel.findById(id),
+  getDomainById: id => domainModel.findById(id),
+});
+const certificateStore = new CertificateStoreService({
+  getAllCertificates: () => certificateModel.findAll(),
+  getDomainById: id => domainModel.findById(id),
+});
+const httpsRedirectService = new HttpsRedirectService({ getAllDomains: () => domainModel.findAll() });
+const requestLogger = new RequestLoggerService({ createRequestLogs: entries => requestLogModel.createMany(entries) }, {
+  batchSize: config.requestLogBatchSize,
+  flushIntervalMs: config.requestLogFlushIntervalMs,
+  maxBufferSize: config.requestLogMaxBufferSize,
+});
+
+// Shared with the certificate provisioning service, which publishes HTTP-01 responses here
+export const acmeChallengeStore = new AcmeChallengeStore();
+
+// Each reload builds a new snapshot and swaps the reference, so in-flight requests keep
+// the snapshot they started with and never see a half-built table
+let routingSnapshot: RoutingSnapshot = {
+  version: 0,
+  table: new ProxyRoutingTable([]),
+  hstsPolicies: [],
+  loadedAt: new Date().toISOString(),
+};
+let routingReloadTimer: ReturnType<typeof setTimeout> | undefined;
+
+let tlsFingerprint: string | undefined;
+// Server names of certificates marked is_redirect; plain HTTP requests for them go to HTTPS
+let redirectServerNames: string[] = [];
+
+// Hop-by-hop headers must not be forwarded by proxies (RFC 9110 section 7.6.1)
+const HOP_BY_HOP_HEADERS = [
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+];
+
+// Load the routing table from the database. On failure the previous snapshot stays live.
+export const loadRoutingTable = (): RoutingSnapshot => {
+  try {
+    const result = routingService.buildRoutingTable();
+    routingSnapshot = {
+      version: routingSnapshot.version + 1,
+      table: result.table,
+      hstsPolicies: httpsRedirectService.loadHstsPolicies(),
+      loadedAt: new Date().toISOString(),
+    };
+    result.warnings.forEach(warning => logger.warn(warning));
+    logger.info('Proxy routing table loaded', {
+      version: routingSnapshot.version,
+      routes: result.table.size,
+      skipped: result.skipped,
+      hosts: result.table.hostnames,
+      hsts: routingSnapshot.hstsPolicies.map(policy => policy.domainName),
+    });
+  } catch (error) {
+    logger.error('Failed to load proxy routing table', { error: (error as Error).message, version: routingSnapshot.version });
+  }
+  return routingSnapshot;
+};
+
+export const getRoutingSnapshot = (): RoutingSnapshot => routingSnapshot;
+
+export const scheduleRoutingReload = () => {
+  if (routingReloadTimer) return;
+  routingReloadTimer = setTimeout(() => {
+    routingReloadTimer = undefined;
+    loadRoutingTable();
+    // New hostnames may need certificates we previously reported as missing
+    refreshTlsCertificates();
+  }, ROUTING_RELOAD_DEBOUNCE_MS);
+};
+
+const handleDatabaseChange = (event: DatabaseChangeEvent) => {
+  if (ROUTING_TABLES.includes(event.table)) {
+    logger.info('Routing data changed, scheduling proxy reload', event);
+    scheduleRoutingReload();
+  }
+  if (event.table === "certificates") {
+    logger.info('Certificate data changed, reloading TLS certificates', event);
+    refreshTlsCertificates();
+  }
+};
+
+// Rebuild the routing snapshot whenever routing data changes; returns a function that stops watching
+export const watchRoutingChanges = () => {
+  databaseEvents.on("change", handleDatabaseChange);
+  return () => {
+    databaseEvents.off("change", handleDatabaseChange);
+    clearTimeout(routingReloadTimer);
+    routingReloadTimer = undefined;
+  };
+};
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, "&amp;")
+  .replace(/</g, "&lt;")
+  .replace(/>/g, "&gt;")
+  .replace(/"/g, "&quot;");
+
+const errorPage = (status: number, title: string, message: string) => new Response(
+  `<!DOCTYPE html>
+<html>
+<head><title>${status} ${escapeHtml(title)}</title></head>
+<body>
+<h1>${status} ${escapeHtml(title)}</h1>
+<p>${escapeHtml(message)}</p>
+<hr><p>cloud-router</p>
+</body>
+</html>
+`,
+  { status, headers: { "Content-Type": "text/html; charset=utf-8" } }
+);
+
+const buildUpstreamHeaders = (request: Request, url: URL, clientIp?: string) => {
+  const headers = new Headers(request.headers);
+  HOP_BY_HOP_HEADERS.forEach(header => headers.delete(header));
+  headers.delete("host");
+
+  const forwardedFor = request.headers.get("x-forwarded-for");
+  if (clientIp) {
+    headers.set("X-Forwarded-For", forwardedFor ? `${forwardedFor}, ${clientIp}` : clientIp);
+  }
+  headers.set("X-Forwarded-Host", request.headers.get("host") || url.host);
+  headers.set("X-Forwarded-Proto", url.protocol.replace(":", ""));
+  return headers;
+};
+
+const forwardRequest = async (request: Request, url: URL, target: ProxyRouteTarget, clientIp?: string) => {
+  const upstreamUrl = `http://${config.upstreamHost}:${target.port}${url.pathname}${url.search}`;
+  const hasBody = request.method !== "GET" && request.method !== "HEAD";
+
+  try {
+    const upstreamResponse = await fetch(upstreamUrl, {
+      method: request.method,
+      headers: buildUpstreamHeaders(request, url, clientIp),
+      body: hasBody ? request.body : undefined,
+      redirect: "manual",
+    });
+
+    const headers = new Headers(upstreamResponse.headers);
+    HOP_BY_HOP_HEADERS.forEach(header => headers.delete(header));
+
+    return new Response(upstreamResponse.body, {
+      status: upstreamResponse.status,
+      statusText: upstreamResponse.statusText,
+      headers,
+    });
+  } catch (error) {
+    logger.error('Upstream request failed', { upstreamUrl, service: target.serviceName, error: (error as Error).message });
+    return errorPage(502, "Bad Gateway", `The service "${target.serviceName}" is not responding.`);
+  }
+};
+
+// The subset of Bun's Server used by the request handler
+interface ProxyServerContext {
+  requestIP?: (request: Request) => { address: string } | null;
+}
+
+// Queue a request log entry; response time is measured to the response headers, not the full body
+const recordRequest = (request: Request, response: Response, startedAt: number, server?: ProxyServerContext, target?: ProxyRouteTarget) => {
+  requestLogger.log({
+    service_id: target?.serviceId,
+    route_id: target?.routeId,
+    url: request.url,
+    method: request.method,
+    status: String(response.status),
+    response_time: Math.round(performance.now() - startedAt),
+    user_agent: request.headers.get("user-agent") || "",
+    ip_address: server?.requestIP?.(request)?.address || "",
+    created_at: new Date().toISOString(),
+  });
+};
+
+const routeRequest = async (request: Request, url: URL, host: string, server?: ProxyServerContext) => {
+  const { table } = routingSnapshot;
+  const match = table.match(host, url.pathname);
+
+  if (!match.found || !match.target) {
+    if (match.reason === "unknown_host") {
+      logger.info('Proxy request for unknown host', { host, path: url.pathname });
+      return { response: errorPage(421, "Misdirected Request", `No routes are configured for ${host}.`) };
+    }
+    logger.info('Proxy request for unrouted path', { host, path: url.pathname });
+    return { response: errorPage(404, "Not Found", `No route on ${host} matches ${url.pathname}.`) };
+  }
+
+  const clientIp = server?.requestIP?.(request)?.address;
+  return { response: await forwardRequest(request, url, match.target, clientIp), target: match.target };
+};
+
+export const handleProxyRequest = async (request: Request, server?: ProxyServerContext): Promise<Response> => {
+  const startedAt = performance.now();
+  const url = new URL(request.url);
+  const host = request.headers.get("host") || url.host;
+
+  const { response, target } = await routeRequest(request, url, host, server);
+  recordRequest(request, response, startedAt, server, target);
+  return response;
+};
+
+// HTTPS listener: proxies as usual and adds the domain's HSTS header when it has one
+export const handleHttpsRequest = async (request: Request, server?: ProxyServerContext): Promise<Response> => {
+  const response = await handleProxyRequest(request, server);
+  const host = request.headers.get("host") || new URL(request.url).host;
+  const policy = httpsRedirectService.findHstsPolicy(routingSnapshot.hstsPolicies, host);
+  if (policy) {
+    response.headers.set("Strict-Transport-Security", formatHstsHeader(policy));
+  }
+  return response;
+};
+
+const listen = (tls: ProxyTlsOptions[]) => Bun.serve({
+  port: config.routerPort,
+  // Lets a replacement listener bind before the old one stops, so TLS swaps drop no connections
+  reusePort: true,
+  // HSTS is ignored over plain HTTP (RFC 6797 section 8.1), so only send it once TLS is on
+  fetch: tls.length > 0 ? handleHttpsRequest : handleProxyRequest,
+  ...(tls.length > 0 && { tls }),
+});
+
+let proxyServer: ReturnType<typeof listen> | undefined;
+let httpServer: ReturnType<typeof listen> | undefined;
+
+// Plain HTTP listener: answers ACME HTTP-01 challenges, redirects hostnames marked for
+// redirect to HTTPS, and proxies everything else as usual
+export const handleHttpRequest = async (request: Request, server?: ProxyServerContext): Promise<Response> => {
+  const startedAt = performance.now();
+  const url = new URL(request.url);
+  const host = request.headers.get("host") || url.host;
+
+  // Challenges must be answered over HTTP even when the host redirects (RFC 8555 section 8.3)
+  const challengeResponse = acmeChallengeStore.handleRequest(url.pathname);
+  if (challengeResponse) {
+    logger.info('Served ACME HTTP-01 challenge', { host, path: url.pathname, status: challengeResponse.status });
+    recordRequest(request, challengeResponse, startedAt, server);
+    return challengeResponse;
+  }
+
+  if (httpsRedirectService.shouldRedirect(redirectServerNames, host)) {
+    const redirect = httpsRedirectService.buildRedirect(request, host, Number(config.routerPort));
+    recordRequest(request, redirect, startedAt, server);
+    return redirect;
+  }
+
+  return handleProxyRequest(request, server);
+};
+
+// Reload certificates from the database and disk, restarting the listener only when they changed
+export const refreshTlsCertificates = () => {
+  try {
+    const { certificates, warnings } = certificateStore.loadCertificates();
+    warnings.forEach(warning => logger.warn(warning));
+
+    // Redirect flags can change without the key material changing, so refresh them first
+    redirectServerNames = certificateStore.getRedirectServerNames(certificates);
+
+    const fingerprint = certificateStore.getFingerprint(certificates);
+    if (proxyServer && fingerprint === tlsFingerprint) return;
+
+    const uncovered = certificateStore.findUncoveredHostnames(certificates, routingSnapshot.table.hostnames);
+    if (uncovered.length > 0) {
+      logger.warn('No active certificate covers some routed hostnames', { hostnames: uncovered });
+    }
+
+    const tls = certificateStore.buildTlsOptions(certificates);
+    const previousServer = proxyServer;
+    proxyServer = listen(tls);
+    tlsFingerprint = fingerprint;
+
+    // Graceful stop: the old listener finishes in-flight requests before closing
+    previousServer?.stop(false);
+
+    logger.info(`Proxy is listening on port ${proxyServer.port}`, {
+      tls: tls.length > 0,
+      serverNames: tls.map(entry => entry.serverName),
+    });
+  } catch (error) {
+    logger.error('Failed to reload TLS certificates', { error: (error as Error).message });
+  }
+};
+
+export const startProxyServer = () => {
+  loadRoutingTable();
+  refreshTlsCertificates();
+  watchRoutingChanges();
+  requestLogger.start();
+
+  httpServer = Bun.serve({
+    port: config.routerHttpPort,
+    fetch: handleHttpRequest,
+  });
+  logger.info(`Proxy HTTP listener is running on port ${httpServer.port}`);
+
+  // Renewals rewrite files on disk without touching the database, so poll for them too
+  setInterval(refreshTlsCertificates, config.certificateReloadIntervalMs);
+
+  return proxyServer;
+};
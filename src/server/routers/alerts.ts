@@ -0,0 +1,169 @@
+import express from "express";
+import { AlertChannel, AlertChannelModel, AlertModel } from "@/lib/models/alert";
+import { ServiceModel } from "@/lib/models/service";
+import { AlertingService } from "@/lib/services/alerting";
+import { logger } from "@/lib/logger";
+import { parseListQuery, sendPage } from "../list-query";
+
+const alertChannelModel = new AlertChannelModel();
+const alertModel = new AlertModel();
+const serviceModel = new ServiceModel();
+
+export const alertingService = new AlertingService({
+  getAlertChannelsByServiceId: serviceId => alertChannelModel.findByServiceId(serviceId),
+  getAlertChannelsByDomainId: domainId => alertChannelModel.findByDomainId(domainId),
+  createAlert: data => alertModel.create(data),
+});
+
+const alertsRouter = express.Router();
+
+const formatChannel = (channel: AlertChannel) => ({
+  ...channel,
+  is_active: !!channel.is_active,
+  config: alertingService.getPublicConfig(channel),
+});
+
+// GET /alerts - Alert history, newest first; filter by service_id, alert_channel_id, event or status
+alertsRouter.get('/', (req, res) => {
+  const parsed = parseListQuery(req.query, alertModel.listSpec);
+  if (parsed.error !== undefined) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  sendPage(res, alertModel.list(parsed.query), parsed.query);
+});
+
+alertsRouter.post('/channels', (req, res) => {
+  const { name, type, config, is_active } = req.body;
+  if (!name || typeof name !== 'string') {
+    return res.status(400).json({ error: 'name is required' });
+  }
+  const validation = alertingService.validateChannel(type, config);
+  if (!validation.valid) {
+    return res.status(400).json({ error: validation.errors.join(', ') });
+  }
+  try {
+    const id = alertChannelModel.create({ name, type, config: JSON.stringify(config), is_active: is_active ?? true });
+    res.status(201).json({ id });
+  } catch {
+    res.status(400).json({ error: 'Failed to create alert channel' });
+  }
+});
+
+alertsRouter.get('/channels', (req, res) => {
+  const parsed = parseListQuery(req.query, alertChannelModel.listSpec);
+  if (parsed.error !== undefined) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  sendPage(res, alertChannelModel.list(parsed.query), parsed.query, formatChannel);
+});
+
+alertsRouter.get('/channels/:id', (req, res) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: 'Invalid ID' });
+  }
+  const channel = alertChannelModel.findById(id);
+  if (!channel) {
+    return res.status(404).json({ error: 'Alert channel not found' });
+  }
+  res.json(formatChannel(channel));
+});
+
+alertsRouter.put('/channels/:id', (req, res) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: 'Invalid ID' });
+  }
+  const channel = alertChannelModel.findById(id);
+  if (!channel) {
+    return res.status(404).json({ error: 'Alert channel not found' });
+  }
+
+  const { name, type, is_active } = req.body;
+  const config = req.body.config !== undefined ? alertingService.restoreSecrets(channel, req.body.config) : undefined;
+  // A new type needs a config to go with it, so always validate the pair
+  if (type !== undefined || config !== undefined) {
+    const validation = alertingService.validateChannel(type ?? channel.type, config ?? JSON.parse(channel.config));
+    if (!validation.valid) {
+      return res.status(400).json({ error: validation.errors.join(', ') });
+    }
+  }
+
+  const success = alertChannelModel.update(id, {
+    name,
+    type,
+    config: config !== undefined ? JSON.stringify(config) : undefined,
+    is_active,
+  });
+  if (!success) {
+    return res.status(404).json({ error: 'Alert channel not found or no changes' });
+  }
+  res.json({ message: 'Alert channel updated' });
+});
+
+alertsRouter.delete('/channels/:id', (req, res) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: 'Invalid ID' });
+  }
+  const success = alertChannelModel.delete(id);
+  if (!success) {
+    return res.status(404).json({ error: 'Alert channel not found' });
+  }
+  res.json({ message: 'Alert channel deleted' });
+});
+
+// POST /alerts/channels/{id}/test - Send a test alert through the channel
+alertsRouter.post('/channels/:id/test', async (req, res) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: 'Invalid ID' });
+  }
+  const channel = alertChannelModel.findById(id);
+  if (!channel) {
+    return res.status(404).json({ error: 'Alert channel not found' });
+  }
+  const result = await alertingService.sendTestAlert(channel);
+  if (!result.success) {
+    logger.info('Test alert failed', { channelId: id, error: result.error });
+    return res.status(502).json({ error: 'Failed to send test alert', details: result.error });
+  }
+  res.json({ message: 'Test alert sent' });
+});
+
+// GET /alerts/services/{serviceId}/channels - Channels a service alerts to
+alertsRouter.get('/services/:serviceId/channels', (req, res) => {
+  const serviceId = parseInt(req.params.serviceId);
+  if (isNaN(serviceId)) {
+    return res.status(400).json({ error: 'Invalid service ID' });
+  }
+  if (!serviceModel.findById(serviceId)) {
+    return res.status(404).json({ error: 'Service not found' });
+  }
+  res.json(alertChannelModel.findByServiceId(serviceId).map(formatChannel));
+});
+
+// PUT /alerts/services/{serviceId}/channels - Replace the channels a service alerts to
+alertsRouter.put('/services/:serviceId/channels', (req, res) => {
+  const serviceId = parseInt(req.params.serviceId);
+  if (isNaN(serviceId)) {
+    return res.status(400).json({ error: 'Invalid service ID' });
+  }
+  if (!serviceModel.findById(serviceId)) {
+    return res.status(404).json({ error: 'Service not found' });
+  }
+
+  const { channel_ids } = req.body;
+  if (!Array.isArray(channel_ids) || !channel_ids.every(Number.isInteger)) {
+    return res.status(400).json({ error: 'channel_ids must be a list of alert channel IDs' });
+  }
+  const missing = channel_ids.filter((channelId: number) => !alertChannelModel.findById(channelId));
+  if (missing.length > 0) {
+    return res.status(400).json({ error: `Unknown alert channel IDs: ${missing.join(', ')}` });
+  }
+
+  alertChannelModel.setServiceChannels(serviceId, channel_ids);
+  res.json(alertChannelModel.findByServiceId(serviceId).map(formatChannel));
+});
+
+export default alertsRouter;
@@ -1,11 +1,14 @@
 import express from "express";
-import { createApiKey, getApiKeyById, getAllApiKeys, updateApiKey, deleteApiKey } from "@/lib/database";
+import { ApiKeyModel } from "@/lib/models/api-key";
+import { parseListQuery, sendPage } from "../list-query";
+
+const apiKeyModel = new ApiKeyModel();
 
 const apiKeysRouter = express.Router();
 
 apiKeysRouter.post('/', (req, res) => {
   try {
-    const id = createApiKey(req.body);
+    const id = apiKeyModel.create(req.body);
     res.status(201).json({ id });
   } catch (error) {
     res.status(400).json({ error: 'Failed to create API key' });
@@ -17,7 +20,7 @@ apiKeysRouter.get('/:id', (req, res) => {
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID' });
   }
-  const apiKey = getApiKeyById(id);
+  const apiKey = apiKeyModel.findById(id);
   if (!apiKey) {
     return res.status(404).json({ error: 'API key not found' });
   }
@@ -25,8 +28,11 @@ apiKeysRouter.get('/:id', (req, res) => {
 });
 
 apiKeysRouter.get('/', (req, res) => {
-  const apiKeys = getAllApiKeys();
-  res.json(apiKeys);
+  const parsed = parseListQuery(req.query, apiKeyModel.listSpec);
+  if (parsed.error !== undefined) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  sendPage(res, apiKeyModel.list(parsed.query), parsed.query);
 });
 
 apiKeysRouter.put('/:id', (req, res) => {
@@ -34,7 +40,7 @@ apiKeysRouter.put('/:id', (req, res) => {
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID' });
   }
-  const success = updateApiKey(id, req.body);
+  const success = apiKeyModel.update(id, req.body);
   if (!success) {
     return res.status(404).json({ error: 'API key not found or no changes' });
   }
@@ -46,7 +52,7 @@ apiKeysRouter.delete('/:id', (req, res) => {
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID' });
   }
-  const success = deleteApiKey(id);
+  const success = apiKeyModel.delete(id);
   if (!success) {
     return res.status(404).json({ error: 'API key not found' });
   }
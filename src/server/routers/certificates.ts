@@ -1,23 +1,78 @@
 import express from "express";
-import { createCertificate, getCertificateById, getAllCertificates, updateCertificate, deleteCertificate } from "@/lib/database";
+import config from "@/lib/config";
+import { CertificateModel, CertificateRenewalModel } from "@/lib/models/certificate";
+import { DomainModel } from "@/lib/models/domain";
+import { createDNSProvider } from "@/lib/services/dns-provider";
+import { CertificateProvisioningService } from "@/lib/services/certificate-provisioning";
+import { CertificateRenewalService } from "@/lib/services/certificate-renewal";
+import { logger } from "@/lib/logger";
+import { acmeChallengeStore } from "../proxy";
+import { parseListQuery, sendPage } from "../list-query";
+
+// Initialize models
+const certificateModel = new CertificateModel();
+const certificateRenewalModel = new CertificateRenewalModel();
+const domainModel = new DomainModel();
+
+// Initialize services
+const dnsProvider = createDNSProvider(config);
+const certificateProvisioningService = new CertificateProvisioningService(
+  dnsProvider,
+  {
+    getCertificateById: id => certificateModel.findById(id),
+    getDomainById: id => domainModel.findById(id),
+    updateCertificate: (id, data) => certificateModel.update(id, data),
+  },
+  {
+    directoryUrl: config.acmeDirectoryUrl,
+    email: config.acmeEmail,
+    certificateDir: config.certificateDir,
+    dnsResolvers: config.acmeDnsResolvers,
+    propagationTimeoutMs: config.acmePropagationTimeoutMs,
+  },
+  acmeChallengeStore
+);
+export const certificateRenewalService = new CertificateRenewalService(
+  certificateProvisioningService,
+  {
+    getAllCertificates: () => certificateModel.findAll(),
+    getCertificateById: id => certificateModel.findById(id),
+    getDomainById: id => domainModel.findById(id),
+    createCertificateRenewal: data => certificateRenewalModel.create(data),
+    updateCertificateRenewal: (id, data) => certificateRenewalModel.update(id, data),
+  },
+  {
+    renewalWindowDays: config.certificateRenewalWindowDays,
+    alertWindowDays: config.certificateExpiryAlertDays,
+  }
+);
 
 const certificatesRouter = express.Router();
 
 certificatesRouter.post('/', (req, res) => {
   try {
-    const id = createCertificate(req.body);
+    const id = certificateModel.create(req.body);
     res.status(201).json({ id });
   } catch (error) {
     res.status(400).json({ error: 'Failed to create certificate' });
   }
 });
 
+// GET /certificates/renewals - Renewal history across all certificates
+certificatesRouter.get('/renewals', (req, res) => {
+  const parsed = parseListQuery(req.query, certificateRenewalModel.listSpec);
+  if (parsed.error !== undefined) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  sendPage(res, certificateRenewalModel.list(parsed.query), parsed.query);
+});
+
 certificatesRouter.get('/:id', (req, res) => {
   const id = parseInt(req.params.id);
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID' });
   }
-  const cert = getCertificateById(id);
+  const cert = certificateModel.findById(id);
   if (!cert) {
     return res.status(404).json({ error: 'Certificate not found' });
   }
@@ -25,8 +80,59 @@ certificatesRouter.get('/:id', (req, res) => {
 });
 
 certificatesRouter.get('/', (req, res) => {
-  const certs = getAllCertificates();
-  res.json(certs);
+  const parsed = parseListQuery(req.query, certificateModel.listSpec);
+  if (parsed.error !== undefined) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  sendPage(res, certificateModel.list(parsed.query), parsed.query);
+});
+
+// POST /certificates/{id}/provision - Issue the certificate through ACME
+certificatesRouter.post('/:id/provision', async (req, res) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: 'Invalid ID' });
+  }
+  const cert = certificateModel.findById(id);
+  if (!cert) {
+    return res.status(404).json({ error: 'Certificate not found' });
+  }
+  if (certificateProvisioningService.isProvisioning(id)) {
+    return res.status(409).json({ error: 'Certificate is already being provisioned' });
+  }
+
+  logger.info('Provisioning certificate', { id, domainId: cert.domain_id });
+  const result = await certificateRenewalService.renewCertificate(id, 'manual');
+  if (!result.success) {
+    logger.error('Certificate provisioning failed', { id, error: result.error });
+    return res.status(502).json({ error: 'Certificate provisioning failed', details: result.error });
+  }
+
+  logger.info('Certificate provisioned', { id, path: result.path, expiresAt: result.expiresAt });
+  res.json({
+    message: 'Certificate provisioned',
+    path: result.path,
+    expires_at: result.expiresAt,
+    warnings: result.warnings,
+  });
+});
+
+// GET /certificates/{id}/renewals - Renewal history for a certificate
+certificatesRouter.get('/:id/renewals', (req, res) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: 'Invalid ID' });
+  }
+  const cert = certificateModel.findById(id);
+  if (!cert) {
+    return res.status(404).json({ error: 'Certificate not found' });
+  }
+  const parsed = parseListQuery(req.query, certificateRenewalModel.listSpec);
+  if (parsed.error !== undefined) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  parsed.query.filters.certificate_id = id;
+  sendPage(res, certificateRenewalModel.list(parsed.query), parsed.query);
 });
 
 certificatesRouter.put('/:id', (req, res) => {
@@ -34,7 +140,7 @@ certificatesRouter.put('/:id', (req, res) => {
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID' });
   }
-  const success = updateCertificate(id, req.body);
+  const success = certificateModel.update(id, req.body);
   if (!success) {
     return res.status(404).json({ error: 'Certificate not found or no changes' });
   }
@@ -46,7 +152,7 @@ certificatesRouter.delete('/:id', (req, res) => {
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID' });
   }
-  const success = deleteCertificate(id);
+  const success = certificateModel.delete(id);
   if (!success) {
     return res.status(404).json({ error: 'Certificate not found' });
   }
@@ -1,24 +1,224 @@
 import express from "express";
-import { Database } from "bun:sqlite";
 import { DomainModel } from "@/lib/models/domain";
-import { DNSRecordModel } from "@/lib/models/dns-record";
-import { Route53ClientService } from "@/lib/services/route53-client";
+import { DNSRecordModel, DNSRecord } from "@/lib/models/dns-record";
+import { DNSChangeModel, DNSChangeRecord } from "@/lib/models/dns-change";
+import { createDNSProvider, recordValues, toDNSRecordData } from "@/lib/services/dns-provider";
 import { HostedZoneCreationService } from "@/lib/services/hosted-zone-creation";
+import { HostedZoneDeletionService } from "@/lib/services/hosted-zone-deletion";
 import { DNSRecordRetrievalService } from "@/lib/services/dns-record-retrieval";
+import { DNSRecordCreationService } from "@/lib/services/dns-record-creation";
+import { DNSConflictValidationService } from "@/lib/services/dns-conflict-validation";
+import { DNSRecordManagementService, DNSRecordChangeResult, DNSRecordInput } from "@/lib/services/dns-record-management";
+import { DelegationVerificationService, DnsNameServerResolver } from "@/lib/services/delegation-verification";
+import { DNSDriftReconcilerService, DNSDriftReport } from "@/lib/services/dns-drift-reconciler";
+import { DNSChangeTracker } from "@/lib/services/dns-change-tracker";
+import type { DNSChangePlan } from "@/lib/services/dns-change-plan";
+import type { DNSConflict } from "@/lib/services/dns-conflict-validation";
+import { ZoneFileService, ZoneImportPreview } from "@/lib/services/zone-file";
+import config from "@/lib/config";
 import { logger } from "@/lib/logger";
+import { hasDependents, describeDependents } from "@/lib/models/repository";
+import type { Domain } from "@/lib/models/domain";
+import { parseListQuery, sendPage } from "../list-query";
 
-// Initialize database and models
-const db = new Database("database.sqlite");
-const domainModel = new DomainModel(db);
-const dnsRecordModel = new DNSRecordModel(db);
+// Initialize models
+const domainModel = new DomainModel();
+const dnsRecordModel = new DNSRecordModel();
 
 // Initialize services
-const route53Client = new Route53ClientService();
-const hostedZoneCreationService = new HostedZoneCreationService(route53Client, domainModel);
-const dnsRecordRetrievalService = new DNSRecordRetrievalService(route53Client, dnsRecordModel, domainModel);
+const dnsProvider = createDNSProvider(config);
+const hostedZoneCreationService = new HostedZoneCreationService(dnsProvider, domainModel);
+const hostedZoneDeletionService = new HostedZoneDeletionService(dnsProvider, hostedZoneCreationService, dnsRecordModel, domainModel);
+const dnsRecordRetrievalService = new DNSRecordRetrievalService(dnsProvider, dnsRecordModel, domainModel);
+
+export const dnsChangeTracker = new DNSChangeTracker(dnsProvider, new DNSChangeModel(), {
+  provider: config.dnsProvider,
+  pollIntervalMs: config.dnsChangePollIntervalMs,
+  timeoutMs: config.dnsChangeWaitTimeoutMs,
+});
+
+const dnsConflictValidationService = new DNSConflictValidationService(dnsRecordModel, domainModel);
+const dnsRecordManagementService = new DNSRecordManagementService(
+  dnsProvider,
+  new DNSRecordCreationService(dnsProvider, dnsRecordModel, domainModel, dnsChangeTracker),
+  dnsConflictValidationService,
+  dnsRecordModel,
+  domainModel,
+  dnsChangeTracker
+);
+const zoneFileService = new ZoneFileService(dnsProvider, dnsConflictValidationService, dnsRecordModel, domainModel, dnsChangeTracker);
+
+export const delegationVerificationService = new DelegationVerificationService(
+  dnsProvider,
+  domainModel,
+  new DnsNameServerResolver(config.delegationDnsResolvers)
+);
+
+export const dnsDriftReconciler = new DNSDriftReconcilerService(
+  dnsProvider,
+  dnsRecordRetrievalService,
+  domainModel,
+  { reapply: config.dnsDriftReapply }
+);
 
 const domainsRouter = express.Router();
 
+const formatHsts = (domain: Domain) => ({
+  enabled: !!domain.hsts_enabled,
+  maxAge: domain.hsts_max_age,
+  includeSubdomains: !!domain.hsts_include_subdomains,
+  preload: !!domain.hsts_preload,
+});
+
+const formatDNSRecord = (record: DNSRecord) => ({
+  id: record.id,
+  name: record.name,
+  type: record.type,
+  value: record.value,
+  values: recordValues(record.value),
+  ttl: record.ttl,
+  priority: record.priority,
+  weight: record.weight,
+  alias: toDNSRecordData(record).alias ?? null,
+  source: record.source,
+  changeId: record.change_id ?? null,
+  createdByRouteId: record.created_by_route_id,
+  createdAt: record.created_at,
+  updatedAt: record.updated_at,
+});
+
+const formatDNSChange = (change: DNSChangeRecord) => ({
+  id: change.id,
+  domainId: change.domain_id,
+  provider: change.provider,
+  providerChangeId: change.provider_change_id,
+  status: change.status,
+  description: change.description,
+  submittedAt: change.submitted_at,
+  syncedAt: change.synced_at,
+});
+
+const RECORD_ERROR_STATUS: Record<NonNullable<DNSRecordChangeResult['reason']>, number> = {
+  not_found: 404,
+  invalid: 400,
+  conflict: 409,
+  read_only: 409,
+  failed: 502,
+};
+
+const formatChangeOf = (result: DNSRecordChangeResult) => {
+  const change = result.changeId !== undefined ? dnsChangeTracker.getChange(result.changeId) : undefined;
+  return change ? formatDNSChange(change) : null;
+};
+
+const formatConflict = (conflict: DNSConflict) => ({
+  type: conflict.type,
+  severity: conflict.severity,
+  description: conflict.description,
+  resolution: conflict.resolution,
+  conflictingRecords: conflict.conflictingRecords.map(formatDNSRecord),
+});
+
+const formatDNSChangePlan = (plan: DNSChangePlan) => ({
+  changes: plan.changes.map(change => ({
+    action: change.action,
+    target: change.target,
+    recordId: change.recordId ?? null,
+    name: change.record.name,
+    type: change.record.type,
+    values: recordValues(change.record.value),
+    ttl: change.record.ttl,
+    alias: change.record.alias ?? null,
+    previous: change.previous ? { values: recordValues(change.previous.value), ttl: change.previous.ttl, alias: change.previous.alias ?? null } : null,
+  })),
+  conflicts: plan.conflicts.map(formatConflict),
+  warnings: plan.warnings,
+});
+
+const formatRecordResult = (result: DNSRecordChangeResult) => {
+  if (!result.success) {
+    return { error: result.error, conflicts: result.conflicts.map(formatConflict), warnings: result.warnings };
+  }
+  if (result.plan) {
+    return { dryRun: true, plan: formatDNSChangePlan(result.plan), warnings: result.warnings };
+  }
+  return { record: formatDNSRecord(result.record!), change: formatChangeOf(result), warnings: result.warnings };
+};
+
+const sendRecordResult = (res: express.Response, result: DNSRecordChangeResult, successStatus = 200) => {
+  // A dry run created nothing, whatever it would have created
+  const status = result.success ? (result.plan ? 200 : successStatus) : RECORD_ERROR_STATUS[result.reason ?? 'failed'];
+  res.status(status).json(formatRecordResult(result));
+};
+
+// ?dryRun=true returns the plan of what would change and writes nothing
+const isDryRun = (req: express.Request) => req.query.dryRun === 'true';
+
+// With ?wait=true, hold the response until the DNS provider reports the change INSYNC
+const waitIfRequested = async (req: express.Request, result: DNSRecordChangeResult) => {
+  if (req.query.wait !== 'true' || !result.success || result.changeId === undefined) return;
+  try {
+    await dnsChangeTracker.waitForChange(result.changeId);
+  } catch (error) {
+    result.warnings.push(`${(error as Error).message}`);
+  }
+};
+
+// Only the fields a client may set; source and route ownership are decided by the server
+const parseRecordInput = (body: Record<string, unknown>): Partial<DNSRecordInput> => {
+  const input: Partial<DNSRecordInput> = {};
+  if (body.name !== undefined) input.name = String(body.name);
+  if (body.type !== undefined) input.type = String(body.type).toUpperCase() as DNSRecordInput['type'];
+  if (body.value !== undefined) input.value = String(body.value);
+  // A multi-value record set may be given as a list instead of one value per line
+  if (Array.isArray(body.values)) input.value = body.values.map(String).join('\n');
+  if (body.ttl !== undefined) input.ttl = Number(body.ttl);
+  if (body.priority !== undefined) input.priority = Number(body.priority);
+  if (body.weight !== undefined) input.weight = Number(body.weight);
+  if (body.alias !== undefined) {
+    const alias = body.alias as { hostedZoneId?: unknown; evaluateTargetHealth?: unknown } | null;
+    input.alias = alias ? { hostedZoneId: String(alias.hostedZoneId ?? ''), evaluateTargetHealth: Boolean(alias.evaluateTargetHealth) } : undefined;
+  }
+  return input;
+};
+
+const formatZoneImportPreview = (preview: ZoneImportPreview) => ({
+  domainId: preview.domainId,
+  domainName: preview.domainName,
+  valid: preview.valid,
+  summary: {
+    create: preview.entries.filter(entry => entry.action === 'create').length,
+    update: preview.entries.filter(entry => entry.action === 'update').length,
+    unchanged: preview.entries.filter(entry => entry.action === 'unchanged').length,
+  },
+  changes: preview.entries.map(entry => ({
+    action: entry.action,
+    name: entry.record.name,
+    type: entry.record.type,
+    values: recordValues(entry.record.value),
+    ttl: entry.record.ttl,
+    existingRecordId: entry.existingRecordId ?? null,
+    errors: entry.errors,
+  })),
+  errors: preview.errors,
+  warnings: preview.warnings,
+});
+
+const formatDriftReport = (report: DNSDriftReport) => ({
+  domainId: report.domainId,
+  domainName: report.domainName,
+  checkedAt: report.checkedAt,
+  inSync: report.inSync,
+  drift: report.drift.map(entry => ({
+    kind: entry.kind,
+    reason: entry.reason,
+    reapplied: entry.reapplied,
+    record: formatDNSRecord(entry.record),
+    remote: entry.remote,
+  })),
+  errors: report.errors,
+});
+
 // POST /domains - Add a domain to Cloud Router
 domainsRouter.post('/', async (req, res) => {
   try {
@@ -73,6 +273,8 @@ domainsRouter.post('/', async (req, res) => {
       name: domain.name,
       hostedZoneId: domain.hosted_zone_id,
       delegationStatus: domain.delegation_status,
+      delegationError: domain.delegation_error,
+      delegationCheckedAt: domain.delegation_checked_at,
       createdAt: domain.created_at,
       updatedAt: domain.updated_at,
       zoneCreatedAt: domain.zone_created_at,
@@ -104,19 +306,7 @@ domainsRouter.get('/:domainId', (req, res) => {
     }
 
     // Format DNS records according to API contract
-    const dnsRecords = domainWithRecords.dnsRecords.map(record => ({
-      id: record.id,
-      name: record.name,
-      type: record.type,
-      value: record.value,
-      ttl: record.ttl,
-      priority: record.priority,
-      weight: record.weight,
-      source: record.source,
-      createdByRouteId: record.created_by_route_id,
-      createdAt: record.created_at,
-      updatedAt: record.updated_at,
-    }));
+    const dnsRecords = domainWithRecords.dnsRecords.map(formatDNSRecord);
 
     // Format response according to API contract
     const response = {
@@ -124,11 +314,14 @@ domainsRouter.get('/:domainId', (req, res) => {
       name: domainWithRecords.name,
       hostedZoneId: domainWithRecords.hosted_zone_id,
       delegationStatus: domainWithRecords.delegation_status,
+      delegationError: domainWithRecords.delegation_error,
+      delegationCheckedAt: domainWithRecords.delegation_checked_at,
       createdAt: domainWithRecords.created_at,
       updatedAt: domainWithRecords.updated_at,
       zoneCreatedAt: domainWithRecords.zone_created_at,
       lastSyncedAt: domainWithRecords.last_synced_at,
       recordCount: domainWithRecords.record_count,
+      hsts: formatHsts(domainWithRecords),
       dnsRecords,
     };
 
@@ -143,32 +336,33 @@ domainsRouter.get('/:domainId', (req, res) => {
 
 // GET /domains - List domains
 domainsRouter.get('/', (req, res) => {
-  try {
-    const domains = domainModel.findAll();
+  const parsed = parseListQuery(req.query, domainModel.listSpec);
+  if (parsed.error !== undefined) {
+    return res.status(400).json({ error: parsed.error });
+  }
 
+  try {
     // Format response according to API contract
-    const response = {
-      domains: domains.map(domain => ({
-        id: domain.id,
-        name: domain.name,
-        hostedZoneId: domain.hosted_zone_id,
-        delegationStatus: domain.delegation_status,
-        createdAt: domain.created_at,
-        updatedAt: domain.updated_at,
-        zoneCreatedAt: domain.zone_created_at,
-        lastSyncedAt: domain.last_synced_at,
-        recordCount: domain.record_count,
-      }))
-    };
-
-    res.json(response);
+    sendPage(res, domainModel.list(parsed.query), parsed.query, domain => ({
+      id: domain.id,
+      name: domain.name,
+      hostedZoneId: domain.hosted_zone_id,
+      delegationStatus: domain.delegation_status,
+      delegationError: domain.delegation_error,
+      delegationCheckedAt: domain.delegation_checked_at,
+      createdAt: domain.created_at,
+      updatedAt: domain.updated_at,
+      zoneCreatedAt: domain.zone_created_at,
+      lastSyncedAt: domain.last_synced_at,
+      recordCount: domain.record_count,
+    }));
   } catch (error: any) {
     logger.error('Failed to list domains:', { error: error.message });
     res.status(500).json({ error: 'Failed to list domains', details: error.message });
   }
 });
 
-// POST /domains/{domainId}/sync - Sync DNS records
+// POST /domains/{domainId}/sync - Sync DNS records from the DNS provider; ?dryRun=true plans the sync instead
 domainsRouter.post('/:domainId/sync', async (req, res) => {
   try {
     const domainId = parseInt(req.params.domainId);
@@ -179,7 +373,7 @@ domainsRouter.post('/:domainId/sync', async (req, res) => {
     logger.info('Starting DNS sync for domain', { domainId });
 
     // Sync DNS records
-    const syncResult = await dnsRecordRetrievalService.syncDNSRecords(domainId);
+    const syncResult = await dnsRecordRetrievalService.syncDNSRecords(domainId, { dryRun: isDryRun(req) });
 
     if (!syncResult.success) {
       logger.error('DNS sync failed', { domainId, errors: syncResult.errors });
@@ -189,6 +383,14 @@ domainsRouter.post('/:domainId/sync', async (req, res) => {
       });
     }
 
+    if (syncResult.plan) {
+      return res.json({
+        dryRun: true,
+        syncedRecords: syncResult.syncedCount,
+        plan: formatDNSChangePlan(syncResult.plan),
+      });
+    }
+
     // Format response according to API contract
     const response = {
       syncedRecords: syncResult.syncedCount,
@@ -211,39 +413,427 @@ domainsRouter.post('/:domainId/sync', async (req, res) => {
   }
 });
 
-// DELETE /domains/{domainId} - Remove domain
-domainsRouter.delete('/:domainId', (req, res) => {
+// GET /domains/{domainId}/drift - Latest drift report between the DNS provider and the records we manage
+domainsRouter.get('/:domainId/drift', async (req, res) => {
+  const domainId = parseInt(req.params.domainId);
+  if (isNaN(domainId)) {
+    return res.status(400).json({ error: 'Invalid domain ID' });
+  }
+  if (!domainModel.findById(domainId)) {
+    return res.status(404).json({ error: 'Domain not found' });
+  }
+
+  try {
+    // Not checked since startup yet: check now, report only
+    const report = dnsDriftReconciler.getReport(domainId) ?? await dnsDriftReconciler.checkDomain(domainId, { reapply: false });
+    res.json(formatDriftReport(report!));
+  } catch (error) {
+    logger.error('DNS drift check failed:', { domainId, error: (error as Error).message });
+    res.status(500).json({ error: 'DNS drift check failed', details: (error as Error).message });
+  }
+});
+
+// POST /domains/{domainId}/drift/reconcile - Check for drift now, re-applying our records if `reapply` is set
+domainsRouter.post('/:domainId/drift/reconcile', async (req, res) => {
+  const domainId = parseInt(req.params.domainId);
+  if (isNaN(domainId)) {
+    return res.status(400).json({ error: 'Invalid domain ID' });
+  }
+  if (!domainModel.findById(domainId)) {
+    return res.status(404).json({ error: 'Domain not found' });
+  }
+  const { reapply } = req.body ?? {};
+  if (reapply !== undefined && typeof reapply !== 'boolean') {
+    return res.status(400).json({ error: 'reapply must be a boolean' });
+  }
+
+  try {
+    const report = await dnsDriftReconciler.checkDomain(domainId, { reapply });
+    res.json(formatDriftReport(report!));
+  } catch (error) {
+    logger.error('DNS drift reconciliation failed:', { domainId, error: (error as Error).message });
+    res.status(500).json({ error: 'DNS drift reconciliation failed', details: (error as Error).message });
+  }
+});
+
+// POST /domains/{domainId}/delegation/verify - Check the registrar delegation against the hosted zone's nameservers
+domainsRouter.post('/:domainId/delegation/verify', async (req, res) => {
+  const domainId = parseInt(req.params.domainId);
+  if (isNaN(domainId)) {
+    return res.status(400).json({ error: 'Invalid domain ID' });
+  }
+  if (!domainModel.findById(domainId)) {
+    return res.status(404).json({ error: 'Domain not found' });
+  }
+
+  const result = await delegationVerificationService.verifyDomain(domainId);
+  const domain = domainModel.findById(domainId)!;
+  const response = {
+    delegationStatus: result.status,
+    delegationError: result.error,
+    delegationCheckedAt: domain.delegation_checked_at,
+    expectedNameServers: result.expectedNameServers,
+    publicNameServers: result.publicNameServers,
+  };
+
+  // A failed delegation is a valid answer; only a check that couldn't run is an error
+  if (!result.checked) {
+    return res.status(502).json({ error: 'Failed to verify delegation', ...response });
+  }
+  res.json(response);
+});
+
+// GET /domains/{domainId}/zone-file - Export the domain's DNS records as a BIND zone file
+domainsRouter.get('/:domainId/zone-file', (req, res) => {
+  const domainId = parseInt(req.params.domainId);
+  if (isNaN(domainId)) {
+    return res.status(400).json({ error: 'Invalid domain ID' });
+  }
+
+  const zoneFile = zoneFileService.exportZoneFile(domainId);
+  if (zoneFile === undefined) {
+    return res.status(404).json({ error: 'Domain not found' });
+  }
+  const domain = domainModel.findById(domainId)!;
+  res.type('text/dns').attachment(`${domain.name}.zone`).send(zoneFile);
+});
+
+// POST /domains/{domainId}/zone-file/preview - Show what importing a zone file would create and change
+domainsRouter.post('/:domainId/zone-file/preview', async (req, res) => {
+  const domainId = parseInt(req.params.domainId);
+  if (isNaN(domainId)) {
+    return res.status(400).json({ error: 'Invalid domain ID' });
+  }
+  const { zoneFile } = req.body ?? {};
+  if (typeof zoneFile !== 'string' || !zoneFile.trim()) {
+    return res.status(400).json({ error: 'zoneFile must be the zone file text' });
+  }
+
+  try {
+    const preview = await zoneFileService.previewImport(domainId, zoneFile);
+    if (!preview) {
+      return res.status(404).json({ error: 'Domain not found' });
+    }
+    res.json(formatZoneImportPreview(preview));
+  } catch (error) {
+    logger.error('Zone file preview failed:', { domainId, error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to preview zone file', details: (error as Error).message });
+  }
+});
+
+// POST /domains/{domainId}/zone-file/import - Import a zone file in one DNS provider change; all or nothing
+domainsRouter.post('/:domainId/zone-file/import', async (req, res) => {
+  const domainId = parseInt(req.params.domainId);
+  if (isNaN(domainId)) {
+    return res.status(400).json({ error: 'Invalid domain ID' });
+  }
+  const { zoneFile } = req.body ?? {};
+  if (typeof zoneFile !== 'string' || !zoneFile.trim()) {
+    return res.status(400).json({ error: 'zoneFile must be the zone file text' });
+  }
+
+  try {
+    const result = await zoneFileService.importZoneFile(domainId, zoneFile);
+    if (!result.success) {
+      logger.info('Zone file import rejected', { domainId, reason: result.reason, error: result.error });
+      const status = result.reason === 'not_found' ? 404 : result.reason === 'invalid' ? 400 : 502;
+      return res.status(status).json({
+        error: result.error,
+        ...(result.preview ? { preview: formatZoneImportPreview(result.preview) } : {}),
+      });
+    }
+
+    await waitIfRequested(req, { success: true, conflicts: [], changeId: result.changeId, warnings: result.warnings });
+    // waitIfRequested adds a warning to result.warnings if the change didn't sync in time
+    logger.info('Zone file imported', { domainId, changeId: result.changeId });
+    const change = result.changeId !== undefined ? dnsChangeTracker.getChange(result.changeId) : undefined;
+    res.json({
+      ...formatZoneImportPreview(result.preview!),
+      change: change ? formatDNSChange(change) : null,
+      warnings: result.warnings,
+    });
+  } catch (error) {
+    logger.error('Zone file import failed:', { domainId, error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to import zone file', details: (error as Error).message });
+  }
+});
+
+// GET /domains/{domainId}/records - List the domain's DNS records
+domainsRouter.get('/:domainId/records', (req, res) => {
+  const domainId = parseInt(req.params.domainId);
+  if (isNaN(domainId)) {
+    return res.status(400).json({ error: 'Invalid domain ID' });
+  }
+  if (!domainModel.findById(domainId)) {
+    return res.status(404).json({ error: 'Domain not found' });
+  }
+
+  const parsed = parseListQuery(req.query, dnsRecordModel.listSpec);
+  if (parsed.error !== undefined) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  const { filters } = parsed.query;
+  filters.domain_id = domainId;
+  if (typeof filters.type === 'string') filters.type = filters.type.toUpperCase();
+  sendPage(res, dnsRecordModel.list(parsed.query), parsed.query, formatDNSRecord);
+});
+
+// POST /domains/{domainId}/records - Create a DNS record at the DNS provider and locally
+domainsRouter.post('/:domainId/records', async (req, res) => {
+  const domainId = parseInt(req.params.domainId);
+  if (isNaN(domainId)) {
+    return res.status(400).json({ error: 'Invalid domain ID' });
+  }
+
+  try {
+    const result = await dnsRecordManagementService.createRecord(domainId, parseRecordInput(req.body ?? {}) as DNSRecordInput, { dryRun: isDryRun(req) });
+    if (!result.success) {
+      logger.info('DNS record creation rejected', { domainId, reason: result.reason, error: result.error });
+    }
+    await waitIfRequested(req, result);
+    sendRecordResult(res, result, 201);
+  } catch (error) {
+    logger.error('DNS record creation failed:', { domainId, error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to create DNS record', details: (error as Error).message });
+  }
+});
+
+// POST /domains/{domainId}/records/batch - Create several DNS records in one DNS provider change
+domainsRouter.post('/:domainId/records/batch', async (req, res) => {
+  const domainId = parseInt(req.params.domainId);
+  if (isNaN(domainId)) {
+    return res.status(400).json({ error: 'Invalid domain ID' });
+  }
+  if (!domainModel.findById(domainId)) {
+    return res.status(404).json({ error: 'Domain not found' });
+  }
+
+  const { records } = req.body ?? {};
+  if (!Array.isArray(records) || records.length === 0) {
+    return res.status(400).json({ error: 'records must be a non-empty list' });
+  }
+
+  try {
+    const result = await dnsRecordManagementService.createRecordsBatch(
+      domainId,
+      records.map(record => parseRecordInput(record ?? {}) as DNSRecordInput),
+      { dryRun: isDryRun(req) }
+    );
+    // 201 when everything was created, 207 when only some were
+    const status = result.failed === 0 ? (isDryRun(req) ? 200 : 201) : result.created === 0 ? 409 : 207;
+    res.status(status).json({
+      created: result.created,
+      failed: result.failed,
+      results: result.results.map(formatRecordResult),
+    });
+  } catch (error) {
+    logger.error('DNS record batch creation failed:', { domainId, error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to create DNS records', details: (error as Error).message });
+  }
+});
+
+// GET /domains/{domainId}/records/{recordId} - Get one DNS record
+domainsRouter.get('/:domainId/records/:recordId', (req, res) => {
+  const domainId = parseInt(req.params.domainId);
+  const recordId = parseInt(req.params.recordId);
+  if (isNaN(domainId) || isNaN(recordId)) {
+    return res.status(400).json({ error: 'Invalid domain or record ID' });
+  }
+
+  const record = dnsRecordModel.findById(recordId);
+  if (!record || record.domain_id !== domainId) {
+    return res.status(404).json({ error: 'DNS record not found' });
+  }
+  res.json(formatDNSRecord(record));
+});
+
+// PUT /domains/{domainId}/records/{recordId} - Change a DNS record at the DNS provider and locally
+domainsRouter.put('/:domainId/records/:recordId', async (req, res) => {
+  const domainId = parseInt(req.params.domainId);
+  const recordId = parseInt(req.params.recordId);
+  if (isNaN(domainId) || isNaN(recordId)) {
+    return res.status(400).json({ error: 'Invalid domain or record ID' });
+  }
+
+  try {
+    const result = await dnsRecordManagementService.updateRecord(domainId, recordId, parseRecordInput(req.body ?? {}), { dryRun: isDryRun(req) });
+    if (!result.success) {
+      logger.info('DNS record update rejected', { domainId, recordId, reason: result.reason, error: result.error });
+    }
+    await waitIfRequested(req, result);
+    sendRecordResult(res, result);
+  } catch (error) {
+    logger.error('DNS record update failed:', { domainId, recordId, error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to update DNS record', details: (error as Error).message });
+  }
+});
+
+// DELETE /domains/{domainId}/records/{recordId} - Delete a DNS record from the DNS provider and locally
+domainsRouter.delete('/:domainId/records/:recordId', async (req, res) => {
+  const domainId = parseInt(req.params.domainId);
+  const recordId = parseInt(req.params.recordId);
+  if (isNaN(domainId) || isNaN(recordId)) {
+    return res.status(400).json({ error: 'Invalid domain or record ID' });
+  }
+
+  try {
+    const result = await dnsRecordManagementService.deleteRecord(domainId, recordId, { dryRun: isDryRun(req) });
+    if (!result.success || result.plan) {
+      if (!result.success) {
+        logger.info('DNS record deletion rejected', { domainId, recordId, reason: result.reason, error: result.error });
+      }
+      return sendRecordResult(res, result);
+    }
+    await waitIfRequested(req, result);
+    res.json({ message: 'DNS record deleted', change: formatChangeOf(result), warnings: result.warnings });
+  } catch (error) {
+    logger.error('DNS record deletion failed:', { domainId, recordId, error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to delete DNS record', details: (error as Error).message });
+  }
+});
+
+// GET /domains/{domainId}/changes/{changeId} - Status of a change submitted to the DNS provider, refreshed while PENDING
+domainsRouter.get('/:domainId/changes/:changeId', async (req, res) => {
+  const domainId = parseInt(req.params.domainId);
+  const changeId = parseInt(req.params.changeId);
+  if (isNaN(domainId) || isNaN(changeId)) {
+    return res.status(400).json({ error: 'Invalid domain or change ID' });
+  }
+
+  const change = dnsChangeTracker.getChange(changeId);
+  if (!change || change.domain_id !== domainId) {
+    return res.status(404).json({ error: 'DNS change not found' });
+  }
+
+  try {
+    const current = req.query.wait === 'true'
+      ? await dnsChangeTracker.waitForChange(changeId)
+      : await dnsChangeTracker.refresh(changeId);
+    res.json(formatDNSChange(current!));
+  } catch (error) {
+    logger.error('DNS change status check failed:', { domainId, changeId, error: (error as Error).message });
+    res.status(502).json({ error: 'Failed to check DNS change status', details: (error as Error).message, change: formatDNSChange(change) });
+  }
+});
+
+// PUT /domains/{domainId}/hsts - Configure the Strict-Transport-Security header for the domain
+domainsRouter.put('/:domainId/hsts', (req, res) => {
   try {
     const domainId = parseInt(req.params.domainId);
     if (isNaN(domainId)) {
       return res.status(400).json({ error: 'Invalid domain ID' });
     }
 
-    // Check if domain exists
+    const { enabled, maxAge, includeSubdomains, preload } = req.body;
+    if (typeof enabled !== 'boolean') {
+      return res.status(400).json({ error: 'enabled is required and must be a boolean' });
+    }
+    if (maxAge !== undefined && (!Number.isInteger(maxAge) || maxAge < 0)) {
+      return res.status(400).json({ error: 'maxAge must be a non-negative integer number of seconds' });
+    }
+    if (includeSubdomains !== undefined && typeof includeSubdomains !== 'boolean') {
+      return res.status(400).json({ error: 'includeSubdomains must be a boolean' });
+    }
+    if (preload !== undefined && typeof preload !== 'boolean') {
+      return res.status(400).json({ error: 'preload must be a boolean' });
+    }
+
     const domain = domainModel.findById(domainId);
     if (!domain) {
       return res.status(404).json({ error: 'Domain not found' });
     }
 
-    // Check if domain has active routes
-    const routeCheckStmt = db.prepare('SELECT COUNT(*) as count FROM routes WHERE domain_id = ?');
-    const routeResult = routeCheckStmt.get(domainId) as { count: number };
+    // Preload lists require a year-long max-age that covers subdomains (https://hstspreload.org)
+    const effectiveMaxAge = maxAge ?? domain.hsts_max_age;
+    const effectiveIncludeSubdomains = includeSubdomains ?? !!domain.hsts_include_subdomains;
+    if (enabled && (preload ?? !!domain.hsts_preload) && (!effectiveIncludeSubdomains || (effectiveMaxAge ?? 0) < 31536000)) {
+      return res.status(400).json({ error: 'preload requires includeSubdomains and a maxAge of at least 31536000' });
+    }
 
-    if (routeResult.count > 0) {
-      logger.info('Cannot delete domain with active routes', {
+    // DomainModel announces the change, so the proxy reloads its HSTS policies
+    domainModel.update(domainId, {
+      hsts_enabled: enabled,
+      hsts_max_age: maxAge,
+      hsts_include_subdomains: includeSubdomains,
+      hsts_preload: preload,
+    });
+
+    const updated = domainModel.findById(domainId)!;
+    logger.info('Domain HSTS settings updated', { domainId, name: domain.name, hsts: formatHsts(updated) });
+    res.json({ id: updated.id, name: updated.name, hsts: formatHsts(updated) });
+
+  } catch (error) {
+    logger.error('Failed to update HSTS settings:', { error: (error as Error).message });
+    res.status(500).json({ error: 'Failed to update HSTS settings', details: (error as Error).message });
+  }
+});
+
+// DELETE /domains/{domainId} - Remove domain. ?purge=true also deletes its hosted zone at the DNS provider,
+// refusing if the zone holds records cloud-router didn't create unless &force=true. ?dryRun=true returns the plan
+domainsRouter.delete('/:domainId', async (req, res) => {
+  try {
+    const domainId = parseInt(req.params.domainId);
+    if (isNaN(domainId)) {
+      return res.status(400).json({ error: 'Invalid domain ID' });
+    }
+
+    // Check if domain exists
+    const domain = domainModel.findById(domainId);
+    if (!domain) {
+      return res.status(404).json({ error: 'Domain not found' });
+    }
+
+    // Services, routes and certificates on the domain would be orphaned, so they have to be removed first
+    const dependents = domainModel.findDependents(domainId);
+    if (hasDependents(dependents)) {
+      logger.info('Cannot delete domain with dependents', {
         domainId,
         name: domain.name,
-        routeCount: routeResult.count
+        dependents: describeDependents(dependents)
       });
       return res.status(409).json({
-        error: 'Cannot remove domain with active routes',
-        details: `Domain has ${routeResult.count} active route(s). Remove routes first.`
+        error: 'Cannot remove domain with services, routes or certificates',
+        details: `Domain has ${describeDependents(dependents)}. Remove them first.`,
+        dependents
       });
     }
 
+    // The domain's cached records and change history cascade with it
+    const domainDeletionPlan = (plan?: DNSChangePlan): DNSChangePlan => ({
+      changes: [
+        ...(plan?.changes ?? []),
+        ...dnsRecordModel.findByDomainId(domainId).map(record => ({ action: 'DELETE' as const, target: 'local' as const, record: toDNSRecordData(record), recordId: record.id })),
+      ],
+      conflicts: plan?.conflicts ?? [],
+      warnings: [...(plan?.warnings ?? []), `Then delete domain ${domain.name}`],
+    });
+
+    if (req.query.purge === 'true') {
+      const purge = await hostedZoneDeletionService.purgeHostedZone(domainId, { force: req.query.force === 'true', dryRun: isDryRun(req) });
+      const formatRecords = (records: typeof purge.deletedRecords) =>
+        records.map(record => ({ name: record.name, type: record.type, values: recordValues(record.value) }));
+
+      if (!purge.success) {
+        logger.info('Hosted zone purge refused or failed', { domainId, name: domain.name, reason: purge.reason, error: purge.error });
+        return res.status(purge.reason === 'foreign_records' ? 409 : 502).json({
+          error: purge.reason === 'foreign_records' ? 'Hosted zone has records cloud-router did not create' : 'Failed to delete hosted zone',
+          details: purge.error,
+          foreignRecords: formatRecords(purge.foreignRecords),
+          deletedRecords: formatRecords(purge.deletedRecords),
+        });
+      }
+      if (purge.plan) {
+        return res.json({ dryRun: true, plan: formatDNSChangePlan(domainDeletionPlan(purge.plan)), warnings: purge.warnings });
+      }
+      logger.info('Hosted zone purged', { domainId, name: domain.name, hostedZoneId: domain.hosted_zone_id, deletedRecords: purge.deletedRecords.length });
+    } else if (isDryRun(req)) {
+      // Without purge the hosted zone stays at the DNS provider, so only local rows would go
+      return res.json({ dryRun: true, plan: formatDNSChangePlan(domainDeletionPlan()), warnings: [] });
+    }
+
     logger.info('Deleting domain', { domainId, name: domain.name });
 
-    // Delete domain (this will cascade delete DNS records due to foreign key)
+    // Delete domain (its DNS records and change history cascade)
     const success = domainModel.delete(domainId);
     if (!success) {
       return res.status(404).json({ error: 'Domain not found or could not be deleted' });
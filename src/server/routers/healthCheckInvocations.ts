@@ -1,11 +1,17 @@
 import express from "express";
-import { getHealthCheckInvocationById, getAllHealthCheckInvocations } from "@/lib/database";
+import { HealthCheckInvocationModel } from "@/lib/models/health-check";
+import { parseListQuery, sendPage } from "../list-query";
+
+const healthCheckInvocationModel = new HealthCheckInvocationModel();
 
 const healthCheckInvocationsRouter = express.Router();
 
 healthCheckInvocationsRouter.get('/', (req, res) => {
-  const invocations = getAllHealthCheckInvocations();
-  res.json(invocations);
+  const parsed = parseListQuery(req.query, healthCheckInvocationModel.listSpec);
+  if (parsed.error !== undefined) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  sendPage(res, healthCheckInvocationModel.list(parsed.query), parsed.query);
 });
 
 healthCheckInvocationsRouter.get('/:id', (req, res) => {
@@ -13,7 +19,7 @@ healthCheckInvocationsRouter.get('/:id', (req, res) => {
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID' });
   }
-  const invocation = getHealthCheckInvocationById(id);
+  const invocation = healthCheckInvocationModel.findById(id);
   if (!invocation) {
     return res.status(404).json({ error: 'Health check invocation not found' });
   }
@@ -1,11 +1,33 @@
 import express from "express";
-import { createHealthCheck, getHealthCheckById, getAllHealthChecks, updateHealthCheck, deleteHealthCheck } from "@/lib/database";
+import config from "@/lib/config";
+import { HealthCheckModel, HealthCheckInvocationModel } from "@/lib/models/health-check";
+import { ServiceModel } from "@/lib/models/service";
+import { HealthCheckRunnerService } from "@/lib/services/health-check-runner";
+import { parseListQuery, sendPage } from "../list-query";
+
+const healthCheckModel = new HealthCheckModel();
+const healthCheckInvocationModel = new HealthCheckInvocationModel();
+const serviceModel = new ServiceModel();
+
+export const healthCheckRunner = new HealthCheckRunnerService(
+  {
+    getAllHealthChecks: () => healthCheckModel.findAll(),
+    getServiceById: id => serviceModel.findById(id),
+    updateHealthCheck: (id, data) => healthCheckModel.update(id, data),
+    updateService: (id, data) => serviceModel.update(id, data),
+    createHealthCheckInvocation: data => healthCheckInvocationModel.create(data),
+  },
+  {
+    upstreamHost: config.upstreamHost,
+    tickIntervalMs: config.healthCheckTickIntervalMs,
+  }
+);
 
 const healthChecksRouter = express.Router();
 
 healthChecksRouter.post('/', (req, res) => {
   try {
-    const id = createHealthCheck(req.body);
+    const id = healthCheckModel.create(req.body);
     res.status(201).json({ id });
   } catch (error) {
     res.status(400).json({ error: 'Failed to create health check' });
@@ -17,7 +39,7 @@ healthChecksRouter.get('/:id', (req, res) => {
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID' });
   }
-  const healthCheck = getHealthCheckById(id);
+  const healthCheck = healthCheckModel.findById(id);
   if (!healthCheck) {
     return res.status(404).json({ error: 'Health check not found' });
   }
@@ -25,8 +47,28 @@ healthChecksRouter.get('/:id', (req, res) => {
 });
 
 healthChecksRouter.get('/', (req, res) => {
-  const healthChecks = getAllHealthChecks();
-  res.json(healthChecks);
+  const parsed = parseListQuery(req.query, healthCheckModel.listSpec);
+  if (parsed.error !== undefined) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  sendPage(res, healthCheckModel.list(parsed.query), parsed.query);
+});
+
+// Run a check immediately, outside its schedule
+healthChecksRouter.post('/:id/run', async (req, res) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: 'Invalid ID' });
+  }
+  const healthCheck = healthCheckModel.findById(id);
+  if (!healthCheck) {
+    return res.status(404).json({ error: 'Health check not found' });
+  }
+  const evaluation = await healthCheckRunner.runHealthCheck(healthCheck);
+  if (!evaluation) {
+    return res.status(409).json({ error: 'Health check service not found' });
+  }
+  res.json(healthCheckModel.findById(id));
 });
 
 healthChecksRouter.put('/:id', (req, res) => {
@@ -34,7 +76,7 @@ healthChecksRouter.put('/:id', (req, res) => {
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID' });
   }
-  const success = updateHealthCheck(id, req.body);
+  const success = healthCheckModel.update(id, req.body);
   if (!success) {
     return res.status(404).json({ error: 'Health check not found or no changes' });
   }
@@ -46,7 +88,7 @@ healthChecksRouter.delete('/:id', (req, res) => {
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID' });
   }
-  const success = deleteHealthCheck(id);
+  const success = healthCheckModel.delete(id);
   if (!success) {
     return res.status(404).json({ error: 'Health check not found' });
   }
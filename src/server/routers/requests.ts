@@ -1,23 +1,61 @@
 import express from "express";
-import { createRequestLog, getRequestLogById, getAllRequestLogs, updateRequestLog, deleteRequestLog } from "@/lib/database";
+import { RequestLogModel } from "@/lib/models/request-log";
+import { RequestRollupModel } from "@/lib/models/request-rollup";
+import { ServiceModel } from "@/lib/models/service";
+import { RequestLogRetentionService } from "@/lib/services/request-log-retention";
+import config from "@/lib/config";
+import { parseListQuery, sendPage } from "../list-query";
+
+const requestLogModel = new RequestLogModel();
+const requestRollupModel = new RequestRollupModel();
+
+export const requestLogRetentionService = new RequestLogRetentionService(requestLogModel, requestRollupModel, new ServiceModel(), {
+  retentionDays: config.requestLogRetentionDays,
+  hourlyRollupRetentionDays: config.requestRollupHourlyRetentionDays,
+  pruneBatchSize: config.requestLogPruneBatchSize,
+});
 
 const requestsRouter = express.Router();
 
 requestsRouter.post('/', (req, res) => {
   try {
-    const id = createRequestLog(req.body);
+    const id = requestLogModel.create(req.body);
     res.status(201).json({ id });
   } catch (error) {
     res.status(400).json({ error: 'Failed to create request log' });
   }
 });
 
+// Hourly or daily request stats per service and route; these outlive the raw logs
+requestsRouter.get('/rollups', (req, res) => {
+  const parsed = parseListQuery(req.query, requestRollupModel.listSpec);
+  if (parsed.error !== undefined) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  const period = parsed.query.filters.period ?? 'hour';
+  if (period !== 'hour' && period !== 'day') {
+    return res.status(400).json({ error: "period must be 'hour' or 'day'" });
+  }
+  parsed.query.filters.period = period;
+  sendPage(res, requestRollupModel.list(parsed.query), parsed.query);
+});
+
+// How many request logs match the list's filters and time range, without paging through them
+requestsRouter.get('/count', (req, res) => {
+  const parsed = parseListQuery(req.query, requestLogModel.listSpec);
+  if (parsed.error !== undefined) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  const { filters, from, to } = parsed.query;
+  res.json({ count: requestLogModel.count({ filters, from, to }) });
+});
+
 requestsRouter.get('/:id', (req, res) => {
   const id = parseInt(req.params.id);
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID' });
   }
-  const request = getRequestLogById(id);
+  const request = requestLogModel.findById(id);
   if (!request) {
     return res.status(404).json({ error: 'Request log not found' });
   }
@@ -25,8 +63,11 @@ requestsRouter.get('/:id', (req, res) => {
 });
 
 requestsRouter.get('/', (req, res) => {
-  const requests = getAllRequestLogs();
-  res.json(requests);
+  const parsed = parseListQuery(req.query, requestLogModel.listSpec);
+  if (parsed.error !== undefined) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  sendPage(res, requestLogModel.list(parsed.query), parsed.query);
 });
 
 requestsRouter.put('/:id', (req, res) => {
@@ -34,7 +75,7 @@ requestsRouter.put('/:id', (req, res) => {
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID' });
   }
-  const success = updateRequestLog(id, req.body);
+  const success = requestLogModel.update(id, req.body);
   if (!success) {
     return res.status(404).json({ error: 'Request log not found or no changes' });
   }
@@ -46,7 +87,7 @@ requestsRouter.delete('/:id', (req, res) => {
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID' });
   }
-  const success = deleteRequestLog(id);
+  const success = requestLogModel.delete(id);
   if (!success) {
     return res.status(404).json({ error: 'Request log not found' });
   }
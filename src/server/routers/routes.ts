@@ -1,15 +1,84 @@
 import express from "express";
-import { createRoute, getRouteById, getAllRoutes, updateRoute, deleteRoute } from "@/lib/database";
+import config from "@/lib/config";
+import { Route, RouteModel } from "@/lib/models/route";
+import { DomainModel } from "@/lib/models/domain";
+import { DNSRecordModel } from "@/lib/models/dns-record";
+import { DNSChangeModel } from "@/lib/models/dns-change";
+import { createDNSProvider } from "@/lib/services/dns-provider";
+import { DNSRecordCreationService } from "@/lib/services/dns-record-creation";
+import { DNSChangeTracker } from "@/lib/services/dns-change-tracker";
+import { DNSConflictValidationService } from "@/lib/services/dns-conflict-validation";
+import { RouteDNSService, RouteDNSResult } from "@/lib/services/route-dns";
+import { logger } from "@/lib/logger";
+import { parseListQuery, sendPage } from "../list-query";
+
+// Initialize models
+const routeModel = new RouteModel();
+const domainModel = new DomainModel();
+const dnsRecordModel = new DNSRecordModel();
+
+// Initialize services
+const dnsProvider = createDNSProvider(config);
+const routeDNSService = new RouteDNSService(
+  dnsProvider,
+  new DNSRecordCreationService(dnsProvider, dnsRecordModel, domainModel, new DNSChangeTracker(dnsProvider, new DNSChangeModel(), {
+    provider: config.dnsProvider,
+    pollIntervalMs: config.dnsChangePollIntervalMs,
+    timeoutMs: config.dnsChangeWaitTimeoutMs,
+  })),
+  new DNSConflictValidationService(dnsRecordModel, domainModel),
+  dnsRecordModel,
+  domainModel,
+  {
+    publicAddress: config.routerPublicAddress,
+    ttl: config.routeDnsTtl,
+  }
+);
 
 const routesRouter = express.Router();
 
-routesRouter.post('/', (req, res) => {
+// Conflicts are the caller's to fix (409), anything else is a DNS provider or lookup failure (502)
+const dnsErrorResponse = (result: RouteDNSResult) => ({
+  status: result.conflicts.length > 0 ? 409 : 502,
+  body: {
+    error: result.conflicts.length > 0 ? 'DNS record conflict' : 'Failed to update DNS records for route',
+    details: result.error,
+    conflicts: result.conflicts.map(conflict => ({
+      type: conflict.type,
+      description: conflict.description,
+      resolution: conflict.resolution,
+    })),
+  },
+});
+
+routesRouter.post('/', async (req, res) => {
+  if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+    return res.status(400).json({ error: 'Request body must be a route object' });
+  }
+
+  // Check for DNS conflicts before the route exists, so a rejected route leaves nothing behind
+  const validation = await routeDNSService.validateRoute(req.body as Route);
+  if (!validation.success) {
+    const { body } = dnsErrorResponse(validation);
+    return res.status(validation.conflicts.length > 0 ? 409 : 400).json(body);
+  }
+
+  let id: number;
   try {
-    const id = createRoute(req.body);
-    res.status(201).json({ id });
-  } catch (error) {
-    res.status(400).json({ error: 'Failed to create route' });
+    id = routeModel.create(req.body);
+  } catch {
+    return res.status(400).json({ error: 'Failed to create route' });
+  }
+
+  const dns = await routeDNSService.syncRouteRecords(routeModel.findById(id)!);
+  if (!dns.success) {
+    logger.error('DNS record creation failed, removing route', { routeId: id, error: dns.error });
+    routeModel.delete(id);
+    const { status, body } = dnsErrorResponse(dns);
+    return res.status(status).json(body);
   }
+
+  res.status(201).json({ id, dns_record_ids: dns.recordIds, warnings: dns.warnings });
 });
 
 routesRouter.get('/:id', (req, res) => {
@@ -17,7 +86,7 @@ routesRouter.get('/:id', (req, res) => {
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID' });
   }
-  const route = getRouteById(id);
+  const route = routeModel.findById(id);
   if (!route) {
     return res.status(404).json({ error: 'Route not found' });
   }
@@ -25,28 +94,58 @@ routesRouter.get('/:id', (req, res) => {
 });
 
 routesRouter.get('/', (req, res) => {
-  const routes = getAllRoutes();
-  res.json(routes);
+  const parsed = parseListQuery(req.query, routeModel.listSpec);
+  if (parsed.error !== undefined) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  sendPage(res, routeModel.list(parsed.query), parsed.query);
 });
 
-routesRouter.put('/:id', (req, res) => {
+routesRouter.put('/:id', async (req, res) => {
   const id = parseInt(req.params.id);
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID' });
   }
-  const success = updateRoute(id, req.body);
-  if (!success) {
+  const previous = routeModel.findById(id);
+  const success = routeModel.update(id, req.body);
+  if (!previous || !success) {
     return res.status(404).json({ error: 'Route not found or no changes' });
   }
-  res.json({ message: 'Route updated' });
+
+  const dns = await routeDNSService.syncRouteRecords(routeModel.findById(id)!);
+  if (!dns.success) {
+    logger.error('DNS record update failed, reverting route', { routeId: id, error: dns.error });
+    const { domain_id, service_id, path, is_active, is_dedicated_subdomain, is_path } = previous;
+    routeModel.update(id, { domain_id, service_id, path, is_active, is_dedicated_subdomain, is_path });
+    // The failed sync may already have removed the old record, so put it back for the reverted route
+    const restore = await routeDNSService.syncRouteRecords(routeModel.findById(id)!);
+    if (!restore.success) {
+      logger.error('Failed to restore DNS records for reverted route', { routeId: id, error: restore.error });
+    }
+    const { status, body } = dnsErrorResponse(dns);
+    return res.status(status).json(body);
+  }
+
+  res.json({ message: 'Route updated', dns_record_ids: dns.recordIds, warnings: dns.warnings });
 });
 
-routesRouter.delete('/:id', (req, res) => {
+routesRouter.delete('/:id', async (req, res) => {
   const id = parseInt(req.params.id);
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID' });
   }
-  const success = deleteRoute(id);
+  if (!routeModel.findById(id)) {
+    return res.status(404).json({ error: 'Route not found' });
+  }
+
+  // Keep the route if its records can't be removed, so the delete can be retried
+  const dns = await routeDNSService.removeRouteRecords(id);
+  if (!dns.success) {
+    const { status, body } = dnsErrorResponse(dns);
+    return res.status(status).json(body);
+  }
+
+  const success = routeModel.delete(id);
   if (!success) {
     return res.status(404).json({ error: 'Route not found' });
   }
@@ -1,11 +1,17 @@
 import express from "express";
-import { createService, getServiceById, getAllServices, updateService, deleteService } from "@/lib/database";
+import { ServiceModel } from "@/lib/models/service";
+import { DomainModel } from "@/lib/models/domain";
+import { hasDependents, describeDependents } from "@/lib/models/repository";
+import { parseListQuery, sendPage } from "../list-query";
+
+const serviceModel = new ServiceModel();
+const domainModel = new DomainModel();
 
 const servicesRouter = express.Router();
 
 servicesRouter.post('/', (req, res) => {
   try {
-    const id = createService(req.body);
+    const id = serviceModel.create(req.body);
     res.status(201).json({ id });
   } catch (error) {
     res.status(400).json({ error: 'Failed to create service' });
@@ -17,7 +23,7 @@ servicesRouter.get('/:id', (req, res) => {
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID' });
   }
-  const service = getServiceById(id);
+  const service = serviceModel.findById(id);
   if (!service) {
     return res.status(404).json({ error: 'Service not found' });
   }
@@ -25,8 +31,11 @@ servicesRouter.get('/:id', (req, res) => {
 });
 
 servicesRouter.get('/', (req, res) => {
-  const services = getAllServices();
-  res.json(services);
+  const parsed = parseListQuery(req.query, serviceModel.listSpec);
+  if (parsed.error !== undefined) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  sendPage(res, serviceModel.list(parsed.query), parsed.query);
 });
 
 servicesRouter.put('/:id', (req, res) => {
@@ -34,7 +43,11 @@ servicesRouter.put('/:id', (req, res) => {
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID' });
   }
-  const success = updateService(id, req.body);
+  // Moving a service to a domain that doesn't exist would fail its foreign key
+  if (req.body?.domain_id !== undefined && !domainModel.findById(Number(req.body.domain_id))) {
+    return res.status(400).json({ error: 'domain_id does not match a domain' });
+  }
+  const success = serviceModel.update(id, req.body);
   if (!success) {
     return res.status(404).json({ error: 'Service not found or no changes' });
   }
@@ -46,7 +59,16 @@ servicesRouter.delete('/:id', (req, res) => {
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID' });
   }
-  const success = deleteService(id);
+  // Routes point traffic at the service, so they have to go first; its health checks are deleted along with it
+  const dependents = serviceModel.findDependents(id);
+  if (hasDependents(dependents)) {
+    return res.status(409).json({
+      error: 'Cannot delete service with routes',
+      details: `Service has ${describeDependents(dependents)}. Remove them first.`,
+      dependents,
+    });
+  }
+  const success = serviceModel.delete(id);
   if (!success) {
     return res.status(404).json({ error: 'Service not found' });
   }
@@ -0,0 +1,33 @@
+import express from "express";
+import { DomainModel } from "@/lib/models/domain";
+import { RouteModel } from "@/lib/models/route";
+import { ServiceModel } from "@/lib/models/service";
+import { HealthCheckModel } from "@/lib/models/health-check";
+import { CertificateModel } from "@/lib/models/certificate";
+import { ApiKeyModel } from "@/lib/models/api-key";
+import { RequestLogModel } from "@/lib/models/request-log";
+
+const domainModel = new DomainModel();
+const routeModel = new RouteModel();
+const serviceModel = new ServiceModel();
+const healthCheckModel = new HealthCheckModel();
+const certificateModel = new CertificateModel();
+const apiKeyModel = new ApiKeyModel();
+const requestLogModel = new RequestLogModel();
+
+const summaryRouter = express.Router();
+
+// How many of each entity there are, for the dashboard, without paging through the lists
+summaryRouter.get('/', (req, res) => {
+  res.json({
+    domains: domainModel.count(),
+    routes: routeModel.count(),
+    services: serviceModel.count(),
+    health_checks: healthCheckModel.count(),
+    certificates: certificateModel.count(),
+    api_keys: apiKeyModel.count(),
+    requests: requestLogModel.count(),
+  });
+});
+
+export default summaryRouter;
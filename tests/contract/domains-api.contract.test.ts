@@ -3,6 +3,8 @@ import request from 'supertest';
 import express from 'express';
 import { setupTestDatabase, teardownTestDatabase, TestDatabase } from '../fixtures/database.fixtures';
 import domainsRouter from '../../src/server/routers/domains';
+import { DomainModel } from '../../src/lib/models/domain';
+import { DNSRecordModel } from '../../src/lib/models/dns-record';
 
 // Mock Express app for testing
 let app: express.Application;
@@ -42,8 +44,31 @@ describe('Domains API Contract Tests', () => {
         .get('/api/v1/domains')
         .expect(200);
 
-      expect(response.body).toHaveProperty('domains');
-      expect(Array.isArray(response.body.domains)).toBe(true);
+      expect(response.body).toHaveProperty('data');
+      expect(Array.isArray(response.body.data)).toBe(true);
+      expect(response.body.pagination).toEqual({ limit: 50, next_cursor: null });
+    });
+
+    test('should page through domains with a cursor', async () => {
+      const first = await request(app)
+        .get('/api/v1/domains?limit=3')
+        .expect(200);
+
+      expect(first.body.data).toHaveLength(3);
+      expect(first.body.pagination.next_cursor).toEqual(expect.any(String));
+
+      const second = await request(app)
+        .get(`/api/v1/domains?limit=3&cursor=${first.body.pagination.next_cursor}`)
+        .expect(200);
+
+      const names = [...first.body.data, ...second.body.data].map((domain: { name: string }) => domain.name);
+      expect(names).toEqual(testDb.getAllDomains().map(domain => domain.name).sort());
+      expect(second.body.pagination.next_cursor).toBeNull();
+    });
+
+    test('should reject unknown sorts and malformed cursors', async () => {
+      await request(app).get('/api/v1/domains?sort=hosted_zone_id').expect(400);
+      await request(app).get('/api/v1/domains?cursor=not-a-cursor').expect(400);
     });
   });
 
@@ -65,5 +90,21 @@ describe('Domains API Contract Tests', () => {
 
       expect(response.body).toHaveProperty('error');
     });
+
+    test('should return the plan and keep the domain on a dry run', async () => {
+      const domainId = new DomainModel().create({ name: 'unused.example.com', hosted_zone_id: 'ZUNUSED', delegation_status: 'completed' });
+      new DNSRecordModel().create({ domain_id: domainId, name: 'www.unused.example.com.', type: 'A', value: '203.0.113.10', ttl: 300, source: 'provider' });
+
+      const response = await request(app)
+        .delete(`/api/v1/domains/${domainId}?dryRun=true`)
+        .expect(200);
+
+      expect(response.body.dryRun).toBe(true);
+      expect(response.body.plan.changes).toEqual([
+        expect.objectContaining({ action: 'DELETE', target: 'local', name: 'www.unused.example.com.', type: 'A' }),
+      ]);
+      expect(response.body.plan.warnings).toEqual(['Then delete domain unused.example.com']);
+      expect(testDb.getDomainByName('unused.example.com')).toBeDefined();
+    });
   });
 });
\ No newline at end of file
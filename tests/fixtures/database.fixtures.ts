@@ -1,5 +1,6 @@
 import { Database } from "bun:sqlite";
 import { runMigrations } from "../../src/lib/database/migration";
+import { openDatabase, setDatabase } from "../../src/lib/database/connection";
 
 // Test data fixtures for DNS testing
 export interface TestDomain {
@@ -111,10 +112,13 @@ export class TestDatabase {
 
   constructor(dbPath?: string) {
     // Create in-memory database for testing by default
-    this.db = new Database(dbPath || ':memory:');
+    this.db = openDatabase(dbPath || ':memory:');
   }
 
   async setup(): Promise<void> {
+    // Routers and services built on the shared connection use this database
+    setDatabase(this.db);
+
     // Run migrations to set up schema
     await runMigrations(this.db);
 
@@ -0,0 +1,56 @@
+import { mock, type Mock } from "bun:test";
+import { Database } from "bun:sqlite";
+import { runMigrations } from "../../src/lib/database/migration";
+import { DomainModel } from "../../src/lib/models/domain";
+import { DNSRecordModel } from "../../src/lib/models/dns-record";
+import type { DNSChange, DNSProvider } from "../../src/lib/services/dns-provider";
+
+// The zone every DNS test works in: domain 1
+export const TEST_ZONE = { name: 'example.com', hostedZoneId: 'Z123' };
+
+export interface DNSTestDatabase {
+  db: Database;
+  domainModel: DomainModel;
+  dnsRecordModel: DNSRecordModel;
+}
+
+/**
+ * A migrated in-memory database holding the test zone, delegated and ready for records
+ */
+export const setupDNSTestDatabase = async (): Promise<DNSTestDatabase> => {
+  const db = new Database(':memory:');
+  await runMigrations(db);
+  const domainModel = new DomainModel(db);
+  const dnsRecordModel = new DNSRecordModel(db);
+  domainModel.create({ name: TEST_ZONE.name, hosted_zone_id: TEST_ZONE.hostedZoneId, delegation_status: 'completed' });
+  return { db, domainModel, dnsRecordModel };
+};
+
+type ProviderMethod = Exclude<keyof DNSProvider, 'name'>;
+
+// Every provider method is a bun mock, so tests can assert on calls and swap in failures
+export type MockDNSProvider = DNSProvider & { [K in ProviderMethod]: Mock<DNSProvider[K]> };
+
+/**
+ * A DNS provider that hosts only the test zone, holds no records and applies every change straight away
+ */
+export const createMockDNSProvider = (): MockDNSProvider => {
+  const applied = (): Promise<DNSChange> => Promise.resolve({ status: 'INSYNC', submittedAt: new Date().toISOString() });
+  const zone = { id: TEST_ZONE.hostedZoneId, name: `${TEST_ZONE.name}.`, recordCount: 0 };
+
+  return {
+    name: 'route53',
+    listHostedZones: mock<DNSProvider['listHostedZones']>(() => Promise.resolve([zone])),
+    getHostedZone: mock<DNSProvider['getHostedZone']>(() => Promise.resolve(zone)),
+    findHostedZoneByName: mock<DNSProvider['findHostedZoneByName']>(() => Promise.resolve(zone)),
+    hostedZoneExists: mock<DNSProvider['hostedZoneExists']>(() => Promise.resolve(true)),
+    createHostedZone: mock<DNSProvider['createHostedZone']>(() => Promise.resolve({ hostedZoneId: zone.id, nameServers: [] })),
+    deleteHostedZone: mock<DNSProvider['deleteHostedZone']>(() => Promise.resolve()),
+    getHostedZoneNameServers: mock<DNSProvider['getHostedZoneNameServers']>(() => Promise.resolve([])),
+    listDNSRecords: mock<DNSProvider['listDNSRecords']>(() => Promise.resolve([])),
+    changeDNSRecords: mock<DNSProvider['changeDNSRecords']>(applied),
+    upsertDNSRecords: mock<DNSProvider['upsertDNSRecords']>(applied),
+    deleteDNSRecords: mock<DNSProvider['deleteDNSRecords']>(applied),
+    getChange: mock<DNSProvider['getChange']>(applied),
+  };
+};
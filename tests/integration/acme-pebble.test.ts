@@ -0,0 +1,72 @@
+import { describe, test, expect } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CertificateProvisioningService } from '../../src/lib/services/certificate-provisioning';
+import type { Route53ClientService } from '../../src/lib/services/route53-client';
+
+// Runs against a local Pebble using pebble-challtestsrv as its DNS resolver (Pebble's docker-compose.yml
+// sets this up), and is skipped otherwise:
+//   PEBBLE_DIRECTORY_URL=https://localhost:14000/dir PEBBLE_CHALLTESTSRV_URL=http://localhost:8055 \
+//   NODE_EXTRA_CA_CERTS=pebble.minica.pem bun test tests/integration
+const directoryUrl = process.env.PEBBLE_DIRECTORY_URL;
+const challtestsrvUrl = process.env.PEBBLE_CHALLTESTSRV_URL || 'http://localhost:8055';
+const challtestsrvDns = process.env.PEBBLE_CHALLTESTSRV_DNS || '127.0.0.1:8053';
+
+// Stands in for Route53 by publishing TXT records through challtestsrv's management API
+const challtestsrvRoute53Client = {
+  upsertDNSRecords: async (_hostedZoneId: string, records: Array<{ name: string; value: string }>) => {
+    for (const record of records) {
+      await fetch(`${challtestsrvUrl}/set-txt`, {
+        method: 'POST',
+        body: JSON.stringify({ host: `${record.name}.`, value: record.value.replace(/^"|"$/g, '') }),
+      });
+    }
+    // challtestsrv serves the record as soon as it is set
+    return { status: 'INSYNC' as const, submittedAt: new Date().toISOString() };
+  },
+  deleteDNSRecords: async (_hostedZoneId: string, records: Array<{ name: string }>) => {
+    for (const record of records) {
+      await fetch(`${challtestsrvUrl}/clear-txt`, {
+        method: 'POST',
+        body: JSON.stringify({ host: `${record.name}.` }),
+      });
+    }
+    return { status: 'INSYNC' as const, submittedAt: new Date().toISOString() };
+  },
+};
+
+describe('ACME DNS-01 issuance against Pebble', () => {
+  test.skipIf(!directoryUrl)('should issue a certificate and record its path and expiry', async () => {
+    const now = new Date().toISOString();
+    const certificateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cloud-router-acme-'));
+    const updates: Record<string, unknown>[] = [];
+
+    const service = new CertificateProvisioningService(
+      challtestsrvRoute53Client as unknown as Route53ClientService,
+      {
+        getCertificateById: () => ({
+          id: 1, domain_id: 1, path: '', is_active: true, is_wildcard: false, is_custom_domain: false,
+          is_dedicated_subdomain: false, is_path: false, is_redirect: false, expires_at: now, created_at: now, updated_at: now,
+        }),
+        getDomainById: () => ({ id: 1, name: 'pebble.example.com', hosted_zone_id: 'ZPEBBLE', delegation_status: 'completed', record_count: 0, created_at: now, updated_at: now }),
+        updateCertificate: (_id, data) => { updates.push(data); return true; },
+      },
+      {
+        directoryUrl: directoryUrl!,
+        certificateDir,
+        dnsResolvers: [challtestsrvDns],
+        propagationIntervalMs: 500,
+      }
+    );
+
+    const result = await service.provisionCertificate(1);
+
+    expect(result.success).toBe(true);
+    expect(fs.existsSync(path.join(result.path!, 'fullchain.pem'))).toBe(true);
+    expect(fs.existsSync(path.join(result.path!, 'privkey.pem'))).toBe(true);
+    expect(updates[0]).toEqual({ path: result.path, expires_at: result.expiresAt });
+
+    fs.rmSync(certificateDir, { recursive: true, force: true });
+  }, 60000);
+});
@@ -0,0 +1,27 @@
+import { describe, test, expect } from 'bun:test';
+import { AcmeChallengeStore } from '../../src/lib/services/acme-challenge-store';
+
+describe('AcmeChallengeStore', () => {
+  test('should serve stored key authorizations on the well-known path', async () => {
+    const store = new AcmeChallengeStore();
+    store.set('token123', 'token123.thumbprint');
+
+    const response = store.handleRequest('/.well-known/acme-challenge/token123');
+    expect(response?.status).toBe(200);
+    expect(await response?.text()).toBe('token123.thumbprint');
+
+    expect(store.handleRequest('/.well-known/acme-challenge/unknown')?.status).toBe(404);
+    expect(store.handleRequest('/index.html')).toBeUndefined();
+  });
+
+  test('should forget expired and deleted challenges', () => {
+    const store = new AcmeChallengeStore(-1);
+    store.set('expired', 'value');
+    expect(store.get('expired')).toBeUndefined();
+
+    const fresh = new AcmeChallengeStore();
+    fresh.set('token', 'value');
+    fresh.delete('token');
+    expect(fresh.size).toBe(0);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, test, expect, mock } from 'bun:test';
+import { AlertingService } from '../../src/lib/services/alerting';
+import type { AlertNotifier } from '../../src/lib/services/alert-notifiers';
+import { EmailNotifier, SlackNotifier, WebhookNotifier } from '../../src/lib/services/alert-notifiers';
+import type { AlertChannel } from '../../src/lib/database';
+
+const now = new Date().toISOString();
+
+const channel = (id: number, overrides: Partial<AlertChannel> = {}): AlertChannel => ({
+  id,
+  name: `channel-${id}`,
+  type: 'webhook',
+  config: JSON.stringify({ url: 'https://hooks.example.com/alert' }),
+  is_active: true,
+  created_at: now,
+  updated_at: now,
+  ...overrides,
+});
+
+const createService = (channels: AlertChannel[], send: AlertNotifier['send']) => {
+  const notifier: AlertNotifier = { validate: () => [], send: mock(send) };
+  const dataSource = {
+    getAlertChannelsByServiceId: () => channels,
+    getAlertChannelsByDomainId: () => channels,
+    createAlert: mock(() => 1),
+  };
+  const service = new AlertingService(dataSource, { webhook: notifier, slack: notifier, email: notifier });
+  return { service, notifier, dataSource };
+};
+
+const healthChange = { serviceId: 1, serviceName: 'api', healthCheckId: 1 };
+
+describe('AlertingService', () => {
+  test('should alert on down and on recovery, but not on the first up', async () => {
+    const { service, notifier } = createService([channel(1)], async () => { });
+
+    expect(await service.handleServiceHealthChange({ ...healthChange, previous: 'unknown', current: 'up' })).toBeUndefined();
+    expect((await service.handleServiceHealthChange({ ...healthChange, previous: 'up', current: 'down' }))?.sent).toBe(1);
+    expect((await service.handleServiceHealthChange({ ...healthChange, previous: 'down', current: 'up' }))?.sent).toBe(1);
+
+    expect(notifier.send).toHaveBeenNthCalledWith(1, expect.objectContaining({ event: 'down', title: 'Service api is down' }), expect.anything());
+    expect(notifier.send).toHaveBeenNthCalledWith(2, expect.objectContaining({ event: 'up' }), expect.anything());
+  });
+
+  test('should skip inactive channels and record failed deliveries', async () => {
+    const { service, dataSource } = createService(
+      [channel(1), channel(2, { is_active: false })],
+      async () => { throw new Error('connection refused'); }
+    );
+
+    const result = await service.handleServiceHealthChange({ ...healthChange, previous: 'up', current: 'down' });
+
+    expect(result).toEqual(expect.objectContaining({ sent: 0, failed: 1 }));
+    expect(dataSource.createAlert).toHaveBeenCalledTimes(1);
+    expect(dataSource.createAlert).toHaveBeenCalledWith(expect.objectContaining({ alert_channel_id: 1, status: 'failed', event: 'down' }));
+  });
+
+  test('should still report deliveries when recording the alert fails', async () => {
+    const { service, dataSource } = createService([channel(1)], async () => { });
+    dataSource.createAlert.mockImplementation(() => { throw new Error('database is locked'); });
+
+    const result = await service.handleServiceHealthChange({ ...healthChange, previous: 'up', current: 'down' });
+
+    expect(result).toEqual(expect.objectContaining({ sent: 1, failed: 0 }));
+  });
+
+  test('should alert the domain\'s channels about an expiring certificate', async () => {
+    const { service, notifier, dataSource } = createService([channel(1)], async () => { });
+
+    const result = await service.handleCertificateExpiring({
+      certificateId: 4,
+      domainId: 1,
+      domainName: 'example.com',
+      expiresAt: '2025-06-03T00:00:00.000Z',
+      daysRemaining: 2,
+      error: 'rate limited',
+    });
+
+    expect(result?.sent).toBe(1);
+    expect(notifier.send).toHaveBeenCalledWith(
+      expect.objectContaining({ event: 'certificate_expiring', title: 'Certificate for example.com expires in 2 day(s)' }),
+      expect.anything()
+    );
+    expect(dataSource.createAlert).toHaveBeenCalledWith(expect.objectContaining({ service_id: undefined, event: 'certificate_expiring', status: 'sent' }));
+  });
+
+  test('should mask secrets in channel configs', () => {
+    const { service } = createService([], async () => { });
+    const config = service.getPublicConfig(channel(1, { type: 'email', config: JSON.stringify({ host: 'smtp.example.com', password: 'hunter2' }) }));
+
+    expect(config).toEqual({ host: 'smtp.example.com', password: '********' });
+    expect(service.restoreSecrets(channel(1, { config: JSON.stringify({ password: 'hunter2' }) }), config))
+      .toEqual({ host: 'smtp.example.com', password: 'hunter2' });
+  });
+
+  test('should mask Slack and webhook URLs and webhook headers', () => {
+    const { service } = createService([], async () => { });
+    const slack = channel(1, { type: 'slack', config: JSON.stringify({ webhookUrl: 'https://hooks.slack.com/services/T/B/X' }) });
+    const webhook = channel(2, {
+      type: 'webhook',
+      config: JSON.stringify({ url: 'https://example.com/hook', headers: { Authorization: 'Bearer abc', 'X-Team': 'ops' } }),
+    });
+
+    expect(service.getPublicConfig(slack)).toEqual({ webhookUrl: '********' });
+    expect(service.restoreSecrets(slack, service.getPublicConfig(slack)))
+      .toEqual({ webhookUrl: 'https://hooks.slack.com/services/T/B/X' });
+
+    const config = service.getPublicConfig(webhook);
+    expect(config).toEqual({ url: '********', headers: { Authorization: '********', 'X-Team': '********' } });
+    expect(service.restoreSecrets(webhook, { ...config, headers: { Authorization: '********', 'X-Team': 'dev' } }))
+      .toEqual({ url: 'https://example.com/hook', headers: { Authorization: 'Bearer abc', 'X-Team': 'dev' } });
+  });
+
+  test('should reject unknown types, including Object.prototype members', () => {
+    const { service } = createService([], async () => { });
+
+    expect(service.validateChannel('webhook', {})).toEqual({ valid: true, errors: [] });
+    expect(service.validateChannel('pager', {}).valid).toBe(false);
+    expect(service.validateChannel('constructor', {})).toEqual({ valid: false, errors: ['type must be one of: webhook, slack, email'] });
+  });
+});
+
+describe('alert notifiers', () => {
+  test('should validate channel configs', () => {
+    expect(new WebhookNotifier().validate({ url: 'ftp://example.com' })).toEqual(['url must be an http(s) URL']);
+    expect(new SlackNotifier().validate({ webhookUrl: 'https://hooks.slack.com/services/T/B/X' })).toEqual([]);
+    expect(new EmailNotifier().validate({ host: 'smtp.example.com', port: 587, from: 'router@example.com', to: [] }))
+      .toEqual(['to must be a non-empty list of email addresses']);
+  });
+
+  test('should post Slack-formatted messages', async () => {
+    let body: { text?: string } = {};
+    const server = Bun.serve({
+      port: 0,
+      fetch: async (request: Request) => {
+        body = await request.json();
+        return new Response('ok');
+      },
+    });
+
+    try {
+      await new SlackNotifier().send(
+        { event: 'down', serviceName: 'api', title: 'Service api is down', text: 'details', timestamp: now },
+        { webhookUrl: `http://localhost:${server.port}/hook` }
+      );
+      expect(body.text).toBe(':red_circle: *Service api is down*\ndetails');
+    } finally {
+      server.stop(true);
+    }
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, test, expect, mock, spyOn, beforeAll, afterAll } from 'bun:test';
+import * as acme from 'acme-client';
+import dgram from 'dgram';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AcmeClientFactory, CertificateProvisioningService } from '../../src/lib/services/certificate-provisioning';
+import { recordValues } from '../../src/lib/services/dns-provider';
+import { getCertificateFiles } from '../../src/lib/services/certificate-store';
+import { buildMessage, CLASS_IN, encodeRdata, OPCODE_QUERY, parseMessage, RR_TYPES } from '../../src/lib/services/dns-wire';
+import type { Certificate } from '../../src/lib/database';
+import { createMockDNSProvider, TEST_ZONE } from '../fixtures/dns.fixtures';
+
+const now = new Date().toISOString();
+
+const certificate: Certificate = {
+  id: 1,
+  domain_id: 1,
+  path: '',
+  is_active: true,
+  is_wildcard: false,
+  is_custom_domain: false,
+  is_dedicated_subdomain: false,
+  is_path: false,
+  is_redirect: false,
+  expires_at: now,
+  created_at: now,
+  updated_at: now,
+};
+
+/**
+ * Minimal authoritative stand-in: answers TXT queries with whatever is currently published, NXDOMAIN for anything else
+ */
+const startTxtStandIn = async (published: Map<string, string>) => {
+  const socket = dgram.createSocket('udp4');
+  socket.on('message', (query, remote) => {
+    const { id, questions } = parseMessage(query);
+    const name = questions[0].name.toLowerCase().replace(/\.$/, '');
+    const value = published.get(name);
+    const response = buildMessage({
+      id,
+      opcode: OPCODE_QUERY,
+      questions,
+      answers: recordValues(value ?? '').map(txt => ({ name, type: RR_TYPES.TXT, class: CLASS_IN, ttl: 60, rdata: encodeRdata('TXT', txt) })),
+    });
+    // A response from an authoritative server, NXDOMAIN until something is published
+    response.writeUInt16BE(value ? 0x8400 : 0x8403, 2);
+    socket.send(response, remote.port, remote.address);
+  });
+  await new Promise<void>(resolve => socket.bind(0, '127.0.0.1', resolve));
+  return socket;
+};
+
+const createService = (
+  domain: { id: number; name: string; hosted_zone_id?: string } | undefined,
+  overrides: Partial<Certificate> = {},
+  options: { certificateDir?: string; dnsResolvers?: string[]; createClient?: AcmeClientFactory } = {}
+) => {
+  const dnsProvider = createMockDNSProvider();
+  const updateCertificate = mock(() => true);
+  const service = new CertificateProvisioningService(
+    dnsProvider,
+    {
+      getCertificateById: (id: number) => (id === certificate.id ? { ...certificate, ...overrides } : undefined),
+      getDomainById: () => domain && { ...domain, delegation_status: 'completed', record_count: 0, created_at: now, updated_at: now },
+      updateCertificate,
+    },
+    {
+      directoryUrl: 'https://localhost:14000/dir',
+      certificateDir: options.certificateDir ?? '/tmp/cloud-router-test-certificates',
+      dnsResolvers: options.dnsResolvers,
+      propagationTimeoutMs: 2000,
+      propagationIntervalMs: 10,
+    },
+    undefined,
+    options.createClient
+  );
+  return { service, dnsProvider, updateCertificate };
+};
+
+describe('CertificateProvisioningService', () => {
+  test('should add the apex to wildcard certificates', () => {
+    const { service } = createService({ id: 1, name: TEST_ZONE.name, hosted_zone_id: TEST_ZONE.hostedZoneId });
+    const domain = { id: 1, name: 'Example.com.', delegation_status: 'completed' as const, record_count: 0, created_at: now, updated_at: now };
+
+    expect(service.getCertificateIdentifiers(certificate, domain)).toEqual(['example.com']);
+    expect(service.getCertificateIdentifiers({ ...certificate, is_wildcard: true }, domain)).toEqual(['*.example.com', 'example.com']);
+  });
+
+  test('should fail for unknown certificates', async () => {
+    const result = await createService({ id: 1, name: TEST_ZONE.name, hosted_zone_id: TEST_ZONE.hostedZoneId }).service.provisionCertificate(99);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('not found');
+  });
+
+  test('should refuse DNS-01 issuance for domains without a hosted zone', async () => {
+    const { service, dnsProvider } = createService({ id: 1, name: TEST_ZONE.name });
+    const result = await service.provisionCertificate(1);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('no hosted zone');
+    expect(dnsProvider.upsertDNSRecords).not.toHaveBeenCalled();
+  });
+
+  test('should refuse HTTP-01 issuance for wildcard certificates', async () => {
+    const result = await createService(
+      { id: 1, name: TEST_ZONE.name },
+      { is_wildcard: true, challenge_type: 'http-01' }
+    ).service.provisionCertificate(1);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('dns-01');
+  });
+
+  describe('with a stubbed ACME server', () => {
+    const published = new Map<string, string>();
+    let standIn: dgram.Socket;
+    let certificateDir: string;
+    const notAfter = new Date('2026-01-01T00:00:00.000Z');
+
+    beforeAll(async () => {
+      standIn = await startTxtStandIn(published);
+      certificateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cloud-router-certificates-'));
+    });
+
+    afterAll(() => {
+      standIn.close();
+      fs.rmSync(certificateDir, { recursive: true, force: true });
+    });
+
+    test('should publish every challenge in one TXT record, wait for it, and write the certificate', async () => {
+      const readCertificateInfo = spyOn(acme.crypto, 'readCertificateInfo').mockReturnValue({
+        issuer: { commonName: 'Stub CA' },
+        domains: { commonName: '*.example.com', altNames: ['*.example.com', 'example.com'] },
+        notBefore: new Date(),
+        notAfter,
+      });
+      const requested: string[][] = [];
+
+      // Like acme-client: every authorization in parallel, each challenge removed once it is valid
+      const createClient: AcmeClientFactory = () => ({
+        auto: async options => {
+          const domains = acme.crypto.readCsrDomains(options.csr);
+          const identifiers = [domains.commonName, ...domains.altNames.filter(name => name !== domains.commonName)];
+          requested.push(identifiers);
+
+          await Promise.all(identifiers.map(async (identifier, i) => {
+            const authz = { identifier: { type: 'dns', value: identifier.replace(/^\*\./, '') }, wildcard: identifier.startsWith('*.') };
+            const challenge = { type: 'dns-01', url: '', status: 'pending', token: `token-${i}` };
+            await options.challengeCreateFn(authz as never, challenge as never, `key-authorization-${i}`);
+            await options.challengeRemoveFn!(authz as never, challenge as never, `key-authorization-${i}`);
+          }));
+          return 'CERTIFICATE PEM';
+        },
+      });
+
+      const { service, dnsProvider, updateCertificate } = createService(
+        { id: 1, name: TEST_ZONE.name, hosted_zone_id: TEST_ZONE.hostedZoneId },
+        { is_wildcard: true },
+        { certificateDir, dnsResolvers: [`127.0.0.1:${standIn.address().port}`], createClient }
+      );
+      dnsProvider.upsertDNSRecords.mockImplementation(async (_zone, records) => {
+        records.forEach(record => published.set(record.name, record.value));
+        return { id: 'C1', status: 'PENDING', submittedAt: now };
+      });
+      dnsProvider.deleteDNSRecords.mockImplementation(async (_zone, records) => {
+        records.forEach(record => published.delete(record.name));
+        return { status: 'INSYNC', submittedAt: now };
+      });
+
+      try {
+        const result = await service.provisionCertificate(1);
+
+        expect(result).toEqual({ success: true, certificateId: 1, path: path.join(certificateDir, '1'), expiresAt: notAfter.toISOString(), warnings: [] });
+        expect(requested).toEqual([['*.example.com', 'example.com']]);
+
+        // Both challenges share _acme-challenge.example.com, so the second joins the first rather than replacing it
+        expect(dnsProvider.upsertDNSRecords).toHaveBeenNthCalledWith(2, TEST_ZONE.hostedZoneId, [
+          expect.objectContaining({ name: '_acme-challenge.example.com', type: 'TXT', value: '"key-authorization-0"\n"key-authorization-1"' }),
+        ]);
+        expect(dnsProvider.getChange).toHaveBeenCalledWith('C1');
+        expect(dnsProvider.deleteDNSRecords).toHaveBeenCalledTimes(1);
+        expect(published.size).toBe(0);
+
+        const { certPath, keyPath } = getCertificateFiles(path.join(certificateDir, '1'));
+        expect(fs.readFileSync(certPath, 'utf8')).toBe('CERTIFICATE PEM');
+        expect(fs.readFileSync(keyPath, 'utf8')).toContain('PRIVATE KEY');
+        expect(updateCertificate).toHaveBeenCalledWith(1, { path: path.join(certificateDir, '1'), expires_at: notAfter.toISOString() });
+      } finally {
+        readCertificateInfo.mockRestore();
+      }
+    });
+  });
+});
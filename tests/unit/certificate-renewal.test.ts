@@ -0,0 +1,78 @@
+import { describe, test, expect, mock } from 'bun:test';
+import { CertificateRenewalService } from '../../src/lib/services/certificate-renewal';
+import type { CertificateProvisioningService } from '../../src/lib/services/certificate-provisioning';
+
+const now = new Date('2025-06-01T00:00:00.000Z');
+const daysFromNow = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+
+const certificate = (id: number, expiresAt: string, isActive = true) => ({
+  id,
+  domain_id: 1,
+  path: `/certs/${id}`,
+  is_active: isActive,
+  is_wildcard: false,
+  is_custom_domain: false,
+  is_dedicated_subdomain: false,
+  is_path: false,
+  is_redirect: false,
+  expires_at: expiresAt,
+  created_at: now.toISOString(),
+  updated_at: now.toISOString(),
+});
+
+const certificates = [
+  certificate(1, daysFromNow(10)),
+  certificate(2, daysFromNow(60)),
+  certificate(3, daysFromNow(3), false),
+  certificate(4, daysFromNow(2)),
+];
+
+describe('CertificateRenewalService', () => {
+  test('should only select active certificates inside the renewal window', () => {
+    const service = new CertificateRenewalService({} as CertificateProvisioningService, {
+      getAllCertificates: () => certificates,
+      getCertificateById: () => undefined,
+      getDomainById: () => undefined,
+      createCertificateRenewal: () => 1,
+      updateCertificateRenewal: () => true,
+    }, { renewalWindowDays: 30, alertWindowDays: 7 });
+
+    expect(service.findCertificatesDueForRenewal(now).map(c => c.id)).toEqual([1, 4]);
+  });
+
+  test('should record every attempt and flag failures close to expiry', async () => {
+    const provisionCertificate = mock((id: number) => Promise.resolve(
+      id === 1
+        ? { success: true, certificateId: id, expiresAt: daysFromNow(90), warnings: [] }
+        : { success: false, certificateId: id, error: 'rate limited', warnings: [] }
+    ));
+    const createCertificateRenewal = mock(() => 100);
+    const updateCertificateRenewal = mock(() => true);
+
+    const service = new CertificateRenewalService({ provisionCertificate } as unknown as CertificateProvisioningService, {
+      getAllCertificates: () => certificates,
+      getCertificateById: (id: number) => certificates.find(c => c.id === id),
+      getDomainById: () => ({ id: 1, name: 'example.com', delegation_status: 'completed', record_count: 0, created_at: now.toISOString(), updated_at: now.toISOString() }),
+      createCertificateRenewal,
+      updateCertificateRenewal,
+    }, { renewalWindowDays: 30, alertWindowDays: 7 });
+    const expiring = mock(() => { });
+    service.events.on('certificate-expiring', expiring);
+
+    const result = await service.runRenewals(now);
+
+    expect(result).toEqual({ checked: 2, renewed: 1, failed: 1, expiringSoon: [4] });
+    expect(createCertificateRenewal).toHaveBeenCalledTimes(2);
+    expect(createCertificateRenewal).toHaveBeenNthCalledWith(1, expect.objectContaining({ certificate_id: 1, trigger: 'scheduled', status: 'in_progress' }));
+    expect(updateCertificateRenewal).toHaveBeenNthCalledWith(2, 100, expect.objectContaining({ status: 'failed', error: 'rate limited' }));
+    expect(expiring).toHaveBeenCalledTimes(1);
+    expect(expiring).toHaveBeenCalledWith({
+      certificateId: 4,
+      domainId: 1,
+      domainName: 'example.com',
+      expiresAt: daysFromNow(2),
+      daysRemaining: 2,
+      error: 'rate limited',
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, test, expect } from 'bun:test';
+import { CertificateStoreService, LoadedCertificate, matchesServerName } from '../../src/lib/services/certificate-store';
+
+const now = new Date('2025-06-01T00:00:00.000Z');
+
+const loaded = (overrides: Partial<LoadedCertificate>): LoadedCertificate => ({
+  certificateId: 1,
+  serverName: 'example.com',
+  isWildcard: false,
+  isRedirect: false,
+  expiresAt: '2025-09-01T00:00:00.000Z',
+  cert: 'CERT',
+  key: 'KEY',
+  modifiedAt: 0,
+  ...overrides,
+});
+
+const service = new CertificateStoreService({
+  getAllCertificates: () => [],
+  getDomainById: () => undefined,
+});
+
+describe('matchesServerName', () => {
+  test('should match exact names case-insensitively', () => {
+    expect(matchesServerName('example.com', 'Example.COM')).toBe(true);
+    expect(matchesServerName('example.com', 'api.example.com')).toBe(false);
+  });
+
+  test('should match wildcards against exactly one label', () => {
+    expect(matchesServerName('*.example.com', 'api.example.com')).toBe(true);
+    expect(matchesServerName('*.example.com', 'example.com')).toBe(false);
+    expect(matchesServerName('*.example.com', 'a.b.example.com')).toBe(false);
+  });
+});
+
+describe('CertificateStoreService', () => {
+  test('should prefer an exact certificate over a wildcard', () => {
+    const certificates = [
+      loaded({ certificateId: 1, serverName: '*.example.com', isWildcard: true, expiresAt: '2026-01-01T00:00:00.000Z' }),
+      loaded({ certificateId: 2, serverName: 'api.example.com' }),
+    ];
+
+    expect(service.selectCertificate(certificates, 'api.example.com', now)?.certificateId).toBe(2);
+    expect(service.selectCertificate(certificates, 'www.example.com', now)?.certificateId).toBe(1);
+    expect(service.selectCertificate(certificates, 'other.com', now)).toBeUndefined();
+  });
+
+  test('should prefer the renewed certificate when several share a name', () => {
+    const certificates = [
+      loaded({ certificateId: 1, expiresAt: '2025-05-01T00:00:00.000Z' }),
+      loaded({ certificateId: 2, expiresAt: '2025-08-01T00:00:00.000Z' }),
+      loaded({ certificateId: 3, expiresAt: '2025-07-01T00:00:00.000Z' }),
+    ];
+
+    expect(service.selectCertificate(certificates, 'example.com', now)?.certificateId).toBe(2);
+  });
+
+  test('should build one tls entry per server name with exact names first', () => {
+    const tls = service.buildTlsOptions([
+      loaded({ certificateId: 1, serverName: '*.example.com', isWildcard: true, cert: 'WILDCARD' }),
+      loaded({ certificateId: 2, serverName: 'example.com', expiresAt: '2025-07-01T00:00:00.000Z', cert: 'OLD' }),
+      loaded({ certificateId: 3, serverName: 'example.com', cert: 'NEW' }),
+    ], now);
+
+    expect(tls.map(entry => entry.serverName)).toEqual(['example.com', '*.example.com']);
+    expect(tls[0].cert).toBe('NEW');
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, test, expect, beforeAll, beforeEach, afterAll } from 'bun:test';
+import { CloudflareDNSProvider } from '../../src/lib/services/cloudflare-dns-provider';
+
+interface FakeRecord {
+  id: string;
+  name: string;
+  type: string;
+  content: string;
+  ttl: number;
+  priority?: number;
+  data?: Record<string, string | number>;
+}
+
+describe('CloudflareDNSProvider', () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let provider: CloudflareDNSProvider;
+  let records: FakeRecord[];
+  let batches: Array<{ deletes: Array<{ id: string }>; posts: Array<Omit<FakeRecord, 'id'> & { proxied?: boolean }> }>;
+
+  const ok = (result: unknown, resultInfo?: unknown) =>
+    Response.json({ success: true, errors: [], result, result_info: resultInfo });
+
+  beforeAll(() => {
+    // Stand-in for the parts of the v4 API the provider uses
+    server = Bun.serve({
+      port: 0,
+      fetch: async (request: Request) => {
+        const url = new URL(request.url);
+        if (request.headers.get('Authorization') !== 'Bearer test-token') {
+          return Response.json({ success: false, errors: [{ code: 10000, message: 'Authentication error' }] }, { status: 403 });
+        }
+        if (url.pathname === '/zones') {
+          // Two pages, to exercise pagination
+          const page = Number(url.searchParams.get('page'));
+          const zones = page === 1 ? [{ id: 'zone-a', name: 'example.org' }] : [{ id: 'zone-b', name: 'example.com', name_servers: ['ada.ns.cloudflare.com'] }];
+          return ok(zones, { page, total_pages: 2 });
+        }
+        if (url.pathname === '/zones/zone-b') {
+          return ok({ id: 'zone-b', name: 'example.com', name_servers: ['ada.ns.cloudflare.com', 'bob.ns.cloudflare.com'] });
+        }
+        if (url.pathname === '/zones/zone-b/dns_records') {
+          return ok(records, { page: 1, total_pages: 1 });
+        }
+        if (url.pathname === '/zones/zone-b/dns_records/batch') {
+          batches.push(await request.json());
+          return ok({});
+        }
+        return Response.json({ success: false, errors: [{ code: 7003, message: 'Could not route' }] }, { status: 404 });
+      },
+    });
+    provider = new CloudflareDNSProvider({ apiToken: 'test-token', baseUrl: `http://127.0.0.1:${server.port}` });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  beforeEach(() => {
+    batches = [];
+    records = [
+      { id: 'r1', name: 'example.com', type: 'NS', content: 'ada.ns.cloudflare.com', ttl: 86400 },
+      { id: 'r2', name: 'www.example.com', type: 'A', content: '203.0.113.10', ttl: 300 },
+      { id: 'r3', name: 'www.example.com', type: 'A', content: '203.0.113.11', ttl: 300 },
+      { id: 'r4', name: 'example.com', type: 'MX', content: 'mail.example.com', priority: 10, ttl: 3600 },
+      { id: 'r5', name: 'example.com', type: 'TXT', content: 'v=spf1 -all', ttl: 300 },
+      { id: 'r6', name: 'dev.example.com', type: 'NS', content: 'ns1.dev.example.net', ttl: 3600 },
+    ];
+  });
+
+  test('should find the zone for a subdomain across pages', async () => {
+    expect(await provider.findHostedZoneByName('app.example.com.')).toMatchObject({ id: 'zone-b', name: 'example.com.' });
+    expect(await provider.getHostedZoneNameServers('zone-b')).toEqual(['ada.ns.cloudflare.com', 'bob.ns.cloudflare.com']);
+  });
+
+  test('should list record sets in presentation format without the apex NS', async () => {
+    expect(await provider.listDNSRecords('zone-b')).toEqual([
+      { name: 'www.example.com.', type: 'A', value: '203.0.113.10\n203.0.113.11', ttl: 300 },
+      { name: 'example.com.', type: 'MX', value: '10 mail.example.com', ttl: 3600 },
+      { name: 'example.com.', type: 'TXT', value: '"v=spf1 -all"', ttl: 300 },
+      { name: 'dev.example.com.', type: 'NS', value: 'ns1.dev.example.net', ttl: 3600 },
+    ]);
+  });
+
+  test('should replace the whole name/type set on upsert and delete single values', async () => {
+    await provider.changeDNSRecords('zone-b', [
+      { action: 'UPSERT', record: { name: 'www.example.com.', type: 'A', value: '198.51.100.1\n198.51.100.2', ttl: 60 } },
+      { action: 'DELETE', record: { name: 'example.com.', type: 'MX', value: '10 mail.example.com', ttl: 3600 } },
+    ]);
+
+    expect(batches).toEqual([{
+      deletes: [{ id: 'r2' }, { id: 'r3' }, { id: 'r4' }],
+      posts: [
+        { name: 'www.example.com', type: 'A', content: '198.51.100.1', ttl: 60, proxied: false },
+        { name: 'www.example.com', type: 'A', content: '198.51.100.2', ttl: 60, proxied: false },
+      ],
+    }]);
+  });
+
+  test('should refuse alias records', async () => {
+    await expect(provider.upsertDNSRecords('zone-b', [{
+      name: 'www.example.com.',
+      type: 'A',
+      value: 'my-lb-123.us-east-1.elb.amazonaws.com',
+      ttl: 60,
+      alias: { hostedZoneId: 'Z35SXDOTRQ7X7K', evaluateTargetHealth: false },
+    }])).rejects.toThrow('Alias records are Route53-only');
+  });
+
+  test('should fail to delete a record that does not exist', async () => {
+    await expect(provider.deleteDNSRecords('zone-b', [
+      { name: 'gone.example.com.', type: 'A', value: '203.0.113.99', ttl: 300 },
+    ])).rejects.toThrow('not found');
+    expect(batches).toEqual([]);
+  });
+
+  test('should surface API errors', async () => {
+    const unauthorized = new CloudflareDNSProvider({ apiToken: 'wrong', baseUrl: `http://127.0.0.1:${server.port}` });
+
+    await expect(unauthorized.listHostedZones()).rejects.toThrow('Authentication error');
+    expect(await unauthorized.hostedZoneExists('zone-b')).toBe(false);
+  });
+});
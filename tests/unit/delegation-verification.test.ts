@@ -0,0 +1,154 @@
+import { describe, test, expect, mock, beforeEach, beforeAll, afterAll } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import dgram from 'dgram';
+import { runMigrations } from '../../src/lib/database/migration';
+import { DomainModel } from '../../src/lib/models/domain';
+import {
+  DelegationVerificationService,
+  DnsNameServerResolver,
+  NameServerResolver,
+} from '../../src/lib/services/delegation-verification';
+import type { Route53ClientService } from '../../src/lib/services/route53-client';
+
+const ZONE_NAME_SERVERS = ['ns-1.awsdns-01.org', 'ns-2.awsdns-02.co.uk'];
+
+const encodeName = (name: string) => Buffer.concat([
+  ...name.split('.').filter(Boolean).map(label => Buffer.concat([Buffer.from([label.length]), Buffer.from(label)])),
+  Buffer.from([0]),
+]);
+
+/**
+ * Minimal authoritative stand-in: answers NS queries from a fixed table, NXDOMAIN for anything else
+ */
+const startDnsStandIn = async (zones: Record<string, string[]>) => {
+  const socket = dgram.createSocket('udp4');
+  socket.on('message', (query, remote) => {
+    let offset = 12;
+    const labels: string[] = [];
+    while (query[offset] !== 0) {
+      labels.push(query.subarray(offset + 1, offset + 1 + query[offset]).toString());
+      offset += query[offset] + 1;
+    }
+    const question = query.subarray(12, offset + 5);
+    const nameServers = zones[labels.join('.').toLowerCase()];
+
+    const header = Buffer.alloc(12);
+    query.copy(header, 0, 0, 2);
+    header.writeUInt16BE(nameServers ? 0x8400 : 0x8403, 2);
+    header.writeUInt16BE(1, 4);
+    header.writeUInt16BE(nameServers?.length ?? 0, 6);
+
+    const answers = (nameServers ?? []).map(nameServer => {
+      const rdata = encodeName(nameServer);
+      const fixed = Buffer.alloc(12);
+      fixed.writeUInt16BE(0xc00c, 0);
+      fixed.writeUInt16BE(2, 2);
+      fixed.writeUInt16BE(1, 4);
+      fixed.writeUInt32BE(300, 6);
+      fixed.writeUInt16BE(rdata.length, 10);
+      return Buffer.concat([fixed, rdata]);
+    });
+
+    socket.send(Buffer.concat([header, question, ...answers]), remote.port, remote.address);
+  });
+  await new Promise<void>(resolve => socket.bind(0, '127.0.0.1', resolve));
+  return socket;
+};
+
+describe('DnsNameServerResolver', () => {
+  let standIn: dgram.Socket;
+  let resolver: DnsNameServerResolver;
+
+  beforeAll(async () => {
+    standIn = await startDnsStandIn({ 'example.com': ZONE_NAME_SERVERS });
+    resolver = new DnsNameServerResolver([`127.0.0.1:${standIn.address().port}`]);
+  });
+
+  afterAll(() => {
+    standIn.close();
+  });
+
+  test('should resolve NS records through the configured server', async () => {
+    expect((await resolver.resolveNs('example.com')).sort()).toEqual(ZONE_NAME_SERVERS);
+  });
+
+  test('should treat a missing domain as having no nameservers', async () => {
+    expect(await resolver.resolveNs('missing.test')).toEqual([]);
+  });
+});
+
+describe('DelegationVerificationService', () => {
+  let domainModel: DomainModel;
+  let publicNameServers: string[];
+  let service: DelegationVerificationService;
+
+  const mockRoute53Client = {
+    getHostedZoneNameServers: mock(() => Promise.resolve(ZONE_NAME_SERVERS)),
+  };
+  const resolver: NameServerResolver = {
+    resolveNs: mock(() => Promise.resolve(publicNameServers)),
+  };
+
+  beforeEach(async () => {
+    const db = new Database(':memory:');
+    await runMigrations(db);
+    domainModel = new DomainModel(db);
+    domainModel.create({ name: 'example.com', hosted_zone_id: 'Z123', delegation_status: 'pending' });
+    publicNameServers = [];
+
+    service = new DelegationVerificationService(
+      mockRoute53Client as unknown as Route53ClientService,
+      domainModel,
+      resolver
+    );
+  });
+
+  test('should complete delegation when the public nameservers match the hosted zone', async () => {
+    // Resolvers may return different case and trailing dots
+    publicNameServers = ['NS-2.awsdns-02.co.uk.', 'ns-1.awsdns-01.org'];
+
+    const result = await service.verifyDomain(1);
+
+    expect(result.success).toBe(true);
+    expect(domainModel.findById(1)).toEqual(expect.objectContaining({ delegation_status: 'completed', delegation_error: null }));
+    expect(domainModel.findById(1)!.delegation_checked_at).toBeTruthy();
+  });
+
+  test('should fail with a reason when the registrar points elsewhere', async () => {
+    publicNameServers = ['ns1.registrar-parking.example', 'ns-1.awsdns-01.org'];
+
+    const result = await service.verifyDomain(1);
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toContain('missing ns-2.awsdns-02.co.uk');
+    expect(result.error).toContain('unexpected ns1.registrar-parking.example');
+    expect(domainModel.findById(1)!.delegation_error).toBe(result.error!);
+  });
+
+  test('should fail when the domain has no public NS records', async () => {
+    const result = await service.verifyDomain(1);
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toContain('No public NS records');
+  });
+
+  test('should leave the status alone when the lookup itself fails', async () => {
+    mockRoute53Client.getHostedZoneNameServers.mockImplementationOnce(() => Promise.reject(new Error('Throttled')));
+
+    const result = await service.verifyDomain(1);
+
+    expect(result.checked).toBe(false);
+    expect(domainModel.findById(1)!.delegation_status).toBe('pending');
+  });
+
+  test('should recheck failed domains and skip completed ones', async () => {
+    domainModel.create({ name: 'done.com', hosted_zone_id: 'Z456', delegation_status: 'completed' });
+    await service.verifyDomain(1);
+    publicNameServers = ZONE_NAME_SERVERS;
+
+    const results = await service.verifyPendingDomains();
+
+    expect(results).toHaveLength(1);
+    expect(domainModel.findById(1)!.delegation_status).toBe('completed');
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, test, expect, mock, beforeEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { runMigrations } from '../../src/lib/database/migration';
+import { DomainModel } from '../../src/lib/models/domain';
+import { DNSChangeModel } from '../../src/lib/models/dns-change';
+import { DNSChangeTracker } from '../../src/lib/services/dns-change-tracker';
+import type { DNSProvider } from '../../src/lib/services/dns-provider';
+
+describe('DNSChangeTracker', () => {
+  let tracker: DNSChangeTracker;
+  let dnsChangeModel: DNSChangeModel;
+  let polls: number;
+
+  // Route53 reports the change INSYNC on the second poll
+  const mockDNSProvider = {
+    getChange: mock((id: string) => Promise.resolve({ id, status: ++polls >= 2 ? 'INSYNC' : 'PENDING', submittedAt: '2024-01-01T00:00:00.000Z' })),
+  };
+
+  beforeEach(async () => {
+    const db = new Database(':memory:');
+    await runMigrations(db);
+    new DomainModel(db).create({ name: 'example.com', hosted_zone_id: 'Z123', delegation_status: 'completed' });
+    dnsChangeModel = new DNSChangeModel(db);
+    polls = 0;
+    mockDNSProvider.getChange.mockClear();
+
+    tracker = new DNSChangeTracker(mockDNSProvider as unknown as DNSProvider, dnsChangeModel, {
+      provider: 'route53',
+      pollIntervalMs: 1,
+      timeoutMs: 1000,
+    });
+  });
+
+  test('should store changes the provider applied synchronously as INSYNC', () => {
+    const id = tracker.record(1, { status: 'INSYNC', submittedAt: '2024-01-01T00:00:00.000Z' }, 'UPSERT www.example.com. A');
+
+    expect(tracker.getChange(id)).toMatchObject({ status: 'INSYNC', provider_change_id: null, provider: 'route53' });
+    expect(dnsChangeModel.findPending()).toEqual([]);
+  });
+
+  test('should poll a pending change until it is INSYNC', async () => {
+    const id = tracker.record(1, { id: 'C123', status: 'PENDING', submittedAt: '2024-01-01T00:00:00.000Z' }, 'UPSERT www.example.com. A');
+
+    const change = await tracker.waitForChange(id);
+
+    expect(mockDNSProvider.getChange).toHaveBeenCalledTimes(2);
+    expect(change).toMatchObject({ status: 'INSYNC', provider_change_id: 'C123' });
+    expect(change!.synced_at).toBeTruthy();
+  });
+
+  test('should only mark a change INSYNC once the provider says so when refreshing', async () => {
+    const id = tracker.record(1, { id: 'C123', status: 'PENDING', submittedAt: '2024-01-01T00:00:00.000Z' }, 'DELETE www.example.com. A');
+
+    expect((await tracker.refresh(id))!.status).toBe('PENDING');
+    await tracker.refreshPending();
+    expect(tracker.getChange(id)!.status).toBe('INSYNC');
+  });
+
+  test('should give up waiting after the timeout', async () => {
+    const slow = new DNSChangeTracker(
+      { getChange: (id: string) => Promise.resolve({ id, status: 'PENDING', submittedAt: '2024-01-01T00:00:00.000Z' }) } as unknown as DNSProvider,
+      dnsChangeModel,
+      { provider: 'route53', pollIntervalMs: 5, timeoutMs: 20 }
+    );
+    const id = slow.record(1, { id: 'C123', status: 'PENDING', submittedAt: '2024-01-01T00:00:00.000Z' }, 'UPSERT www.example.com. A');
+
+    await expect(slow.waitForChange(id)).rejects.toThrow('Timed out');
+    expect(slow.getChange(id)!.status).toBe('PENDING');
+  });
+});
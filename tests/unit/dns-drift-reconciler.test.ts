@@ -0,0 +1,117 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { DNSRecordModel } from '../../src/lib/models/dns-record';
+import { DNSRecordRetrievalService } from '../../src/lib/services/dns-record-retrieval';
+import { DNSDriftReconcilerService } from '../../src/lib/services/dns-drift-reconciler';
+import type { DNSRecordData } from '../../src/lib/services/dns-provider';
+import { createMockDNSProvider, MockDNSProvider, setupDNSTestDatabase } from '../fixtures/dns.fixtures';
+
+describe('DNSDriftReconcilerService', () => {
+  let dnsRecordModel: DNSRecordModel;
+  let dnsProvider: MockDNSProvider;
+  let retrievalService: DNSRecordRetrievalService;
+  let remoteRecords: DNSRecordData[];
+  let reconciler: DNSDriftReconcilerService;
+
+  beforeEach(async () => {
+    const { domainModel, ...database } = await setupDNSTestDatabase();
+    dnsRecordModel = database.dnsRecordModel;
+
+    dnsRecordModel.create({ domain_id: 1, name: 'app.example.com.', type: 'A', value: '203.0.113.10', ttl: 300, source: 'cloud_router' });
+    dnsRecordModel.create({ domain_id: 1, name: 'mail.example.com.', type: 'A', value: '203.0.113.20', ttl: 300, source: 'provider' });
+    remoteRecords = [
+      { name: 'app.example.com.', type: 'A', value: '203.0.113.10', ttl: 300 },
+      { name: 'mail.example.com.', type: 'A', value: '203.0.113.20', ttl: 300 },
+    ];
+    dnsProvider = createMockDNSProvider();
+    dnsProvider.listDNSRecords.mockImplementation(() => Promise.resolve(remoteRecords));
+
+    retrievalService = new DNSRecordRetrievalService(dnsProvider, dnsRecordModel, domainModel);
+    reconciler = new DNSDriftReconcilerService(
+      dnsProvider,
+      retrievalService,
+      domainModel,
+      { reapply: false }
+    );
+  });
+
+  test('should report no drift when Route53 matches', async () => {
+    const report = await reconciler.checkDomain(1);
+
+    expect(report!.inSync).toBe(true);
+    expect(report!.drift).toEqual([]);
+    expect(reconciler.getReport(1)).toBe(report);
+  });
+
+  test('should report changes to our records and keep the desired state locally', async () => {
+    remoteRecords[0] = { ...remoteRecords[0], value: '198.51.100.1', ttl: 60 };
+
+    const report = await reconciler.checkDomain(1);
+
+    expect(report!.inSync).toBe(false);
+    expect(report!.drift).toEqual([expect.objectContaining({
+      kind: 'changed',
+      reason: 'Changed at the DNS provider: value 203.0.113.10 -> 198.51.100.1, TTL 300 -> 60',
+      remote: expect.objectContaining({ value: '198.51.100.1', ttl: 60 }),
+      reapplied: false,
+    })]);
+    expect(dnsRecordModel.findByDomainNameType(1, 'app.example.com.', 'A')!.value).toBe('203.0.113.10');
+    expect(dnsProvider.upsertDNSRecords).not.toHaveBeenCalled();
+  });
+
+  test('should compare multi-value record sets regardless of order', async () => {
+    dnsRecordModel.update(1, { value: '203.0.113.10\n203.0.113.11' });
+    remoteRecords[0] = { ...remoteRecords[0], value: '203.0.113.11\n203.0.113.10' };
+
+    const report = await reconciler.checkDomain(1);
+
+    expect(report!.drift).toEqual([]);
+  });
+
+  test('should follow Route53 for records imported from it', async () => {
+    remoteRecords[1] = { ...remoteRecords[1], value: '198.51.100.2' };
+
+    const report = await reconciler.checkDomain(1);
+
+    expect(report!.drift).toEqual([]);
+    expect(dnsRecordModel.findByDomainNameType(1, 'mail.example.com.', 'A')!.value).toBe('198.51.100.2');
+  });
+
+  test('should keep our records that were deleted from Route53 and re-apply them on request', async () => {
+    remoteRecords = [remoteRecords[1]];
+
+    const report = await reconciler.checkDomain(1, { reapply: true });
+
+    expect(report!.drift).toEqual([expect.objectContaining({ kind: 'missing', reapplied: true })]);
+    expect(report!.inSync).toBe(true);
+    expect(dnsRecordModel.findByDomainNameType(1, 'app.example.com.', 'A')).toBeTruthy();
+    expect(dnsProvider.upsertDNSRecords).toHaveBeenCalledWith('Z123', [
+      expect.objectContaining({ name: 'app.example.com.', type: 'A', value: '203.0.113.10', ttl: 300 }),
+    ]);
+  });
+
+  test('should still report drift when re-applying fails', async () => {
+    remoteRecords = [remoteRecords[1]];
+    dnsProvider.upsertDNSRecords.mockImplementationOnce(() => Promise.reject(new Error('Throttled')));
+
+    const report = await reconciler.checkDomain(1, { reapply: true });
+
+    expect(report!.inSync).toBe(false);
+    expect(report!.drift[0].reapplied).toBe(false);
+    expect(report!.errors[0]).toContain('Throttled');
+  });
+
+  test('should plan a sync without writing to dns_records', async () => {
+    remoteRecords = [
+      { name: 'app.example.com.', type: 'A', value: '203.0.113.10', ttl: 300 },
+      { name: 'new.example.com.', type: 'TXT', value: '"hello"', ttl: 300 },
+    ];
+
+    const result = await retrievalService.syncDNSRecords(1, { dryRun: true });
+
+    expect(result.plan!.changes.map(change => [change.action, change.target, change.record.name])).toEqual([
+      ['CREATE', 'local', 'new.example.com.'],
+      ['DELETE', 'local', 'mail.example.com.'],
+    ]);
+    expect(dnsRecordModel.findByDomainId(1).map(record => record.name)).toEqual(['app.example.com.', 'mail.example.com.']);
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { DNSRecordModel } from '../../src/lib/models/dns-record';
+import { DNSRecordCreationService } from '../../src/lib/services/dns-record-creation';
+import { DNSConflictValidationService } from '../../src/lib/services/dns-conflict-validation';
+import { DNSRecordManagementService, normalizeRecordName } from '../../src/lib/services/dns-record-management';
+import { createMockDNSProvider, MockDNSProvider, setupDNSTestDatabase } from '../fixtures/dns.fixtures';
+
+describe('normalizeRecordName', () => {
+  test('should qualify names against the zone', () => {
+    expect(normalizeRecordName('www', 'example.com')).toBe('www.example.com.');
+    expect(normalizeRecordName('WWW.example.com', 'example.com')).toBe('www.example.com.');
+    expect(normalizeRecordName('www.example.com.', 'example.com')).toBe('www.example.com.');
+    expect(normalizeRecordName('@', 'example.com')).toBe('example.com.');
+  });
+});
+
+describe('DNSRecordManagementService', () => {
+  let dnsRecordModel: DNSRecordModel;
+  let dnsProvider: MockDNSProvider;
+  let service: DNSRecordManagementService;
+
+  beforeEach(async () => {
+    const { domainModel, ...database } = await setupDNSTestDatabase();
+    dnsRecordModel = database.dnsRecordModel;
+    dnsProvider = createMockDNSProvider();
+
+    service = new DNSRecordManagementService(
+      dnsProvider,
+      new DNSRecordCreationService(dnsProvider, dnsRecordModel, domainModel),
+      new DNSConflictValidationService(dnsRecordModel, domainModel),
+      dnsRecordModel,
+      domainModel
+    );
+  });
+
+  test('should create records in Route53 and locally', async () => {
+    const result = await service.createRecord(1, { name: 'www', type: 'A', value: '203.0.113.10', ttl: 300 });
+
+    expect(result.success).toBe(true);
+    expect(result.record).toEqual(expect.objectContaining({ name: 'www.example.com.', type: 'A', source: 'cloud_router' }));
+    expect(dnsProvider.upsertDNSRecords).toHaveBeenCalledTimes(1);
+  });
+
+  test('should create MX records given in "priority mailserver" format', async () => {
+    const result = await service.createRecord(1, { name: '@', type: 'MX', value: '10 mail.example.com', ttl: 3600 });
+
+    expect(result.success).toBe(true);
+    expect(result.record).toEqual(expect.objectContaining({ name: 'example.com.', type: 'MX', value: '10 mail.example.com' }));
+    expect(dnsProvider.upsertDNSRecords).toHaveBeenCalledTimes(1);
+  });
+
+  test('should reject MX records without a priority in the value', async () => {
+    const result = await service.createRecord(1, { name: '@', type: 'MX', value: 'mail.example.com', priority: 10 });
+
+    expect(result.success).toBe(false);
+    expect(dnsProvider.upsertDNSRecords).not.toHaveBeenCalled();
+  });
+
+  test('should return conflicts without touching Route53', async () => {
+    dnsRecordModel.create({ domain_id: 1, name: 'www.example.com.', type: 'CNAME', value: 'example.net', ttl: 300, source: 'provider' });
+
+    const result = await service.createRecord(1, { name: 'www', type: 'A', value: '203.0.113.10' });
+
+    expect(result.success).toBe(false);
+    expect(result.reason).toBe('conflict');
+    expect(result.conflicts.map(conflict => conflict.type)).toContain('cname_conflict');
+    expect(result.conflicts[0].conflictingRecords[0].value).toBe('example.net');
+    expect(dnsProvider.upsertDNSRecords).not.toHaveBeenCalled();
+  });
+
+  test('should create the valid records of a batch and report the rest', async () => {
+    const result = await service.createRecordsBatch(1, [
+      { name: 'a', type: 'A', value: '203.0.113.10' },
+      { name: 'b', type: 'A', value: 'not-an-ip' },
+    ]);
+
+    expect(result.created).toBe(1);
+    expect(result.failed).toBe(1);
+    expect(result.results[1].reason).toBe('conflict');
+    expect(dnsProvider.upsertDNSRecords).toHaveBeenCalledTimes(1);
+    expect(dnsRecordModel.findByDomainId(1).map(record => record.name)).toEqual(['a.example.com.']);
+  });
+
+  test('should update a record without conflicting with itself', async () => {
+    const created = await service.createRecord(1, { name: 'www', type: 'A', value: '203.0.113.10' });
+
+    const result = await service.updateRecord(1, created.record!.id!, { value: '203.0.113.20', ttl: 60 });
+
+    expect(result.success).toBe(true);
+    expect(result.record).toEqual(expect.objectContaining({ value: '203.0.113.20', ttl: 60 }));
+    expect(dnsProvider.deleteDNSRecords).not.toHaveBeenCalled();
+  });
+
+  test('should remove the old Route53 record when a record is renamed', async () => {
+    const created = await service.createRecord(1, { name: 'www', type: 'A', value: '203.0.113.10' });
+
+    const result = await service.updateRecord(1, created.record!.id!, { name: 'app' });
+
+    expect(result.success).toBe(true);
+    expect(result.record!.name).toBe('app.example.com.');
+    expect(dnsProvider.deleteDNSRecords).toHaveBeenCalledWith('Z123', [
+      expect.objectContaining({ name: 'www.example.com.', type: 'A' }),
+    ]);
+  });
+
+  test('should refuse to change records owned by routes or imported from Route53', async () => {
+    const imported = dnsRecordModel.create({ domain_id: 1, name: 'mail.example.com.', type: 'A', value: '203.0.113.30', ttl: 300, source: 'provider' });
+
+    const result = await service.deleteRecord(1, imported);
+
+    expect(result.success).toBe(false);
+    expect(result.reason).toBe('read_only');
+    expect(dnsRecordModel.findById(imported)).toBeTruthy();
+  });
+
+  test('should keep the local record when the Route53 delete fails', async () => {
+    const created = await service.createRecord(1, { name: 'www', type: 'A', value: '203.0.113.10' });
+    dnsProvider.deleteDNSRecords.mockImplementation(() => Promise.reject(new Error('Throttled')));
+
+    const result = await service.deleteRecord(1, created.record!.id!);
+
+    expect(result.success).toBe(false);
+    expect(result.reason).toBe('failed');
+    expect(dnsRecordModel.findById(created.record!.id!)).toBeTruthy();
+  });
+
+  test('should delete records from Route53 and locally', async () => {
+    const created = await service.createRecord(1, { name: 'www', type: 'A', value: '203.0.113.10' });
+
+    const result = await service.deleteRecord(1, created.record!.id!);
+
+    expect(result.success).toBe(true);
+    expect(dnsRecordModel.findById(created.record!.id!)).toBeFalsy();
+    expect(dnsProvider.deleteDNSRecords).toHaveBeenCalledTimes(1);
+  });
+
+  test('should plan a create without writing anything', async () => {
+    const result = await service.createRecord(1, { name: 'www', type: 'A', value: '203.0.113.10' }, { dryRun: true });
+
+    expect(result.success).toBe(true);
+    expect(result.plan!.changes).toEqual([
+      { action: 'UPSERT', target: 'provider', record: expect.objectContaining({ name: 'www.example.com.', type: 'A', value: '203.0.113.10', ttl: 300 }) },
+      { action: 'CREATE', target: 'local', record: expect.objectContaining({ name: 'www.example.com.' }) },
+    ]);
+    expect(dnsProvider.upsertDNSRecords).not.toHaveBeenCalled();
+    expect(dnsRecordModel.findByDomainId(1)).toEqual([]);
+  });
+
+  test('should plan a rename as an upsert of the new record and a delete of the old one', async () => {
+    const created = await service.createRecord(1, { name: 'www', type: 'A', value: '203.0.113.10' });
+    dnsProvider.upsertDNSRecords.mockClear();
+
+    const result = await service.updateRecord(1, created.record!.id!, { name: 'app' }, { dryRun: true });
+
+    expect(result.plan!.changes.map(change => [change.action, change.target, change.record.name])).toEqual([
+      ['UPSERT', 'provider', 'app.example.com.'],
+      ['DELETE', 'provider', 'www.example.com.'],
+      ['UPSERT', 'local', 'app.example.com.'],
+    ]);
+    expect(dnsProvider.upsertDNSRecords).not.toHaveBeenCalled();
+    expect(dnsProvider.deleteDNSRecords).not.toHaveBeenCalled();
+    expect(dnsRecordModel.findById(created.record!.id!)!.name).toBe('www.example.com.');
+  });
+
+  test('should report conflicts for a dry run the same way as for a real change', async () => {
+    dnsRecordModel.create({ domain_id: 1, name: 'www.example.com.', type: 'CNAME', value: 'example.net', ttl: 300, source: 'provider' });
+
+    const result = await service.createRecord(1, { name: 'www', type: 'A', value: '203.0.113.10' }, { dryRun: true });
+
+    expect(result).toMatchObject({ success: false, reason: 'conflict' });
+    expect(result.plan).toBeUndefined();
+  });
+
+  test('should plan a delete without deleting', async () => {
+    const created = await service.createRecord(1, { name: 'www', type: 'A', value: '203.0.113.10' });
+
+    const result = await service.deleteRecord(1, created.record!.id!, { dryRun: true });
+
+    expect(result.plan!.changes.map(change => [change.action, change.target, change.recordId])).toEqual([
+      ['DELETE', 'provider', created.record!.id],
+      ['DELETE', 'local', created.record!.id],
+    ]);
+    expect(dnsProvider.deleteDNSRecords).not.toHaveBeenCalled();
+    expect(dnsRecordModel.findById(created.record!.id!)).toBeTruthy();
+  });
+});
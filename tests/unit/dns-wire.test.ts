@@ -0,0 +1,74 @@
+import { describe, test, expect } from 'bun:test';
+import { createHmac } from 'crypto';
+import {
+  CLASS_IN,
+  OPCODE_UPDATE,
+  RR_TYPES,
+  buildMessage,
+  encodeName,
+  encodeRdata,
+  parseMessage,
+  signMessage,
+  typeCode,
+} from '../../src/lib/services/dns-wire';
+
+const roundTrip = (type: string, value: string) => {
+  const message = buildMessage({
+    id: 1,
+    opcode: OPCODE_UPDATE,
+    questions: [{ name: 'example.com.', type: RR_TYPES.SOA, class: CLASS_IN }],
+    authorities: [{ name: 'www.example.com.', type: typeCode(type), class: CLASS_IN, ttl: 300, rdata: encodeRdata(type, value) }],
+  });
+  return parseMessage(message).authorities[0];
+};
+
+describe('dns-wire', () => {
+  test('should round-trip records in presentation format', () => {
+    expect(roundTrip('A', '203.0.113.10').value).toBe('203.0.113.10');
+    expect(roundTrip('AAAA', '2001:db8::1').value).toBe('2001:db8::1');
+    expect(roundTrip('CNAME', 'target.example.net').value).toBe('target.example.net');
+    expect(roundTrip('MX', '10 mail.example.com').value).toBe('10 mail.example.com');
+    expect(roundTrip('SRV', '10 5 5060 sip.example.com').value).toBe('10 5 5060 sip.example.com');
+    expect(roundTrip('TXT', '"v=spf1 -all" "second"').value).toBe('"v=spf1 -all" "second"');
+    expect(roundTrip('CAA', '0 issue "letsencrypt.org"').value).toBe('0 issue "letsencrypt.org"');
+    expect(roundTrip('DS', '12345 13 2 1F2E3D4C').value).toBe('12345 13 2 1F2E3D4C');
+  });
+
+  test('should keep the owner name, type, class and TTL', () => {
+    const record = roundTrip('A', '203.0.113.10');
+
+    expect(record).toMatchObject({ name: 'www.example.com.', typeName: 'A', class: CLASS_IN, ttl: 300 });
+  });
+
+  test('should reject record types it cannot encode', () => {
+    expect(() => encodeRdata('NAPTR', '100 10 "U" "E2U+sip" "" .')).toThrow('Cannot encode NAPTR records');
+    expect(() => typeCode('BOGUS')).toThrow();
+  });
+
+  test('should sign messages with a TSIG record over the message and its variables', () => {
+    const key = { keyName: 'update-key', secret: Buffer.from('secret').toString('base64'), algorithm: 'hmac-sha256' };
+    const message = buildMessage({ id: 0x1234, opcode: OPCODE_UPDATE, questions: [{ name: 'example.com.', type: RR_TYPES.SOA, class: CLASS_IN }] });
+    const now = 1700000000 * 1000;
+
+    const signed = parseMessage(signMessage(message, key, now));
+    const tsig = signed.additionals[0];
+
+    expect(signed.id).toBe(0x1234);
+    expect(tsig).toMatchObject({ name: 'update-key.', typeName: 'TSIG', class: 255, ttl: 0 });
+
+    const algorithm = encodeName('hmac-sha256');
+    const timeSigned = tsig.rdata.subarray(algorithm.length, algorithm.length + 6);
+    expect(timeSigned.readUIntBE(0, 6)).toBe(1700000000);
+
+    const macLength = tsig.rdata.readUInt16BE(algorithm.length + 8);
+    const mac = tsig.rdata.subarray(algorithm.length + 10, algorithm.length + 10 + macLength);
+    const expected = createHmac('sha256', 'secret')
+      .update(Buffer.concat([
+        message,
+        encodeName('update-key'), Buffer.from([0, 255, 0, 0, 0, 0]),
+        algorithm, timeSigned, Buffer.from([1, 44, 0, 0, 0, 0]),
+      ]))
+      .digest();
+    expect(mac.equals(expected)).toBe(true);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, test, expect, mock, afterAll } from 'bun:test';
+import { HealthCheckRunnerService, evaluateHealthCheck, combineHealthStates } from '../../src/lib/services/health-check-runner';
+import type { HealthCheck, Service } from '../../src/lib/database';
+
+const now = new Date().toISOString();
+
+const check = (overrides: Partial<HealthCheck> = {}): HealthCheck => ({
+  id: 1,
+  service_id: 1,
+  path: '/health',
+  interval: 10,
+  timeout: 1,
+  threshold: 0,
+  failure_threshold: 3,
+  success_threshold: 2,
+  status_code: 200,
+  state: 'unknown',
+  consecutive_successes: 0,
+  consecutive_failures: 0,
+  created_at: now,
+  updated_at: now,
+  ...overrides,
+});
+
+describe('evaluateHealthCheck', () => {
+  test('should only go down after failure_threshold consecutive failures', () => {
+    expect(evaluateHealthCheck(check({ state: 'up', consecutive_failures: 1 }), false))
+      .toEqual({ state: 'up', consecutiveSuccesses: 0, consecutiveFailures: 2 });
+    expect(evaluateHealthCheck(check({ state: 'up', consecutive_failures: 2 }), false).state).toBe('down');
+  });
+
+  test('should only recover after success_threshold consecutive successes', () => {
+    expect(evaluateHealthCheck(check({ state: 'down', consecutive_failures: 5 }), true))
+      .toEqual({ state: 'down', consecutiveSuccesses: 1, consecutiveFailures: 0 });
+    expect(evaluateHealthCheck(check({ state: 'down', consecutive_successes: 1 }), true).state).toBe('up');
+  });
+});
+
+describe('combineHealthStates', () => {
+  test('should report down if any check is down and up only when all are up', () => {
+    expect(combineHealthStates(['up', 'down'])).toBe('down');
+    expect(combineHealthStates(['up', 'unknown'])).toBe('unknown');
+    expect(combineHealthStates(['up', 'up'])).toBe('up');
+    expect(combineHealthStates([])).toBe('unknown');
+  });
+});
+
+describe('HealthCheckRunnerService', () => {
+  const upstream = Bun.serve({
+    port: 0,
+    fetch: (request: Request) => new Response('ok', { status: new URL(request.url).pathname === '/health' ? 200 : 503 }),
+  });
+  afterAll(() => upstream.stop(true));
+
+  const service: Service = { id: 1, domain_id: 1, name: 'api', description: '', port: upstream.port, is_active: true, health_status: 'unknown', created_at: now, updated_at: now };
+
+  const createRunner = (checks: HealthCheck[], serviceOverrides: Partial<Service> = {}) => {
+    const stored = { ...service, ...serviceOverrides };
+    const dataSource = {
+      getAllHealthChecks: () => checks,
+      getServiceById: () => ({ ...stored }),
+      updateHealthCheck: mock((id: number, data: Partial<HealthCheck>) => {
+        Object.assign(checks.find(candidate => candidate.id === id)!, data);
+        return true;
+      }),
+      updateService: mock((_id: number, data: Partial<Service>) => {
+        Object.assign(stored, data);
+        return true;
+      }),
+      createHealthCheckInvocation: mock(() => 1),
+    };
+    return { dataSource, runner: new HealthCheckRunnerService(dataSource, { upstreamHost: 'localhost', tickIntervalMs: 1000 }) };
+  };
+
+  test('should record invocations and mark the service up once thresholds are met', async () => {
+    const checks = [check({ success_threshold: 1 })];
+    const { dataSource, runner } = createRunner(checks);
+    const changes = mock(() => { });
+    runner.events.on('service-health-change', changes);
+
+    await runner.runHealthCheck(checks[0]);
+
+    expect(dataSource.createHealthCheckInvocation).toHaveBeenCalledWith(expect.objectContaining({ health_check_id: 1, status: 'success' }));
+    expect(dataSource.updateService).toHaveBeenCalledWith(1, expect.objectContaining({ health_status: 'up' }));
+    expect(changes).toHaveBeenCalledWith(expect.objectContaining({ serviceId: 1, previous: 'unknown', current: 'up' }));
+  });
+
+  test('should treat an unexpected status code as a failure', async () => {
+    const result = await createRunner([]).runner.probe(check({ path: 'broken' }), service);
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(503);
+  });
+
+  test('should not run a check again before its interval has elapsed', async () => {
+    const checks = [check()];
+    const { dataSource, runner } = createRunner(checks);
+
+    await runner.tick(1000);
+    await runner.tick(5000);
+    await runner.tick(11000);
+
+    expect(dataSource.createHealthCheckInvocation).toHaveBeenCalledTimes(2);
+  });
+
+  test('should report a service going down once when several of its checks fail in the same tick', async () => {
+    const checks = [
+      check({ id: 1, path: 'broken', state: 'up', failure_threshold: 1 }),
+      check({ id: 2, path: 'broken', state: 'up', failure_threshold: 1 }),
+    ];
+    const { dataSource, runner } = createRunner(checks, { health_status: 'up' });
+    const changes = mock(() => { });
+    runner.events.on('service-health-change', changes);
+
+    await runner.tick(1000);
+
+    expect(dataSource.updateService).toHaveBeenCalledTimes(1);
+    expect(changes).toHaveBeenCalledTimes(1);
+    expect(changes).toHaveBeenCalledWith(expect.objectContaining({ previous: 'up', current: 'down' }));
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, test, expect, mock, beforeEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { runMigrations } from '../../src/lib/database/migration';
+import { DomainModel } from '../../src/lib/models/domain';
+import { DNSRecordModel } from '../../src/lib/models/dns-record';
+import { HostedZoneCreationService } from '../../src/lib/services/hosted-zone-creation';
+import { HostedZoneDeletionService } from '../../src/lib/services/hosted-zone-deletion';
+import type { DNSProvider, DNSRecordData } from '../../src/lib/services/dns-provider';
+
+describe('HostedZoneDeletionService', () => {
+  let domainModel: DomainModel;
+  let dnsRecordModel: DNSRecordModel;
+  let remoteRecords: DNSRecordData[];
+  let service: HostedZoneDeletionService;
+
+  const mockDNSProvider = {
+    listDNSRecords: mock(() => Promise.resolve(remoteRecords)),
+    changeDNSRecords: mock(() => Promise.resolve({ id: 'C123', status: 'PENDING', submittedAt: new Date().toISOString() })),
+    deleteHostedZone: mock(() => Promise.resolve()),
+  };
+
+  beforeEach(async () => {
+    const db = new Database(':memory:');
+    await runMigrations(db);
+    domainModel = new DomainModel(db);
+    dnsRecordModel = new DNSRecordModel(db);
+    domainModel.create({ name: 'example.com', hosted_zone_id: 'Z123', delegation_status: 'completed' });
+    dnsRecordModel.create({ domain_id: 1, name: 'app.example.com.', type: 'A', value: '203.0.113.10', ttl: 300, source: 'cloud_router' });
+    dnsRecordModel.create({ domain_id: 1, name: 'mail.example.com.', type: 'MX', value: '10 mx.example.net', ttl: 300, source: 'provider' });
+    remoteRecords = [
+      { name: 'app.example.com.', type: 'A', value: '203.0.113.10', ttl: 300 },
+      { name: 'mail.example.com.', type: 'MX', value: '10 mx.example.net', ttl: 300 },
+    ];
+    mockDNSProvider.changeDNSRecords.mockClear();
+    mockDNSProvider.deleteHostedZone.mockClear();
+
+    const dnsProvider = mockDNSProvider as unknown as DNSProvider;
+    service = new HostedZoneDeletionService(dnsProvider, new HostedZoneCreationService(dnsProvider, domainModel), dnsRecordModel, domainModel);
+  });
+
+  test('should refuse to purge a zone holding records cloud-router did not create', async () => {
+    const result = await service.purgeHostedZone(1);
+
+    expect(result).toMatchObject({ success: false, reason: 'foreign_records', zoneDeleted: false });
+    expect(result.foreignRecords.map(record => record.name)).toEqual(['mail.example.com.']);
+    expect(mockDNSProvider.changeDNSRecords).not.toHaveBeenCalled();
+    expect(mockDNSProvider.deleteHostedZone).not.toHaveBeenCalled();
+  });
+
+  test('should delete our records and then the zone', async () => {
+    remoteRecords = remoteRecords.slice(0, 1);
+
+    const result = await service.purgeHostedZone(1);
+
+    expect(result).toMatchObject({ success: true, zoneDeleted: true });
+    expect(mockDNSProvider.changeDNSRecords).toHaveBeenCalledWith('Z123', [{ action: 'DELETE', record: remoteRecords[0] }]);
+    expect(mockDNSProvider.deleteHostedZone).toHaveBeenCalledWith('Z123');
+    expect(domainModel.findById(1)!.hosted_zone_id).toBeNull();
+  });
+
+  test('should delete foreign records too when forced', async () => {
+    const result = await service.purgeHostedZone(1, { force: true });
+
+    expect(result.success).toBe(true);
+    expect(result.deletedRecords).toHaveLength(2);
+    expect(result.warnings).toEqual(["Deleting 1 record(s) cloud-router didn't create"]);
+    expect(mockDNSProvider.deleteHostedZone).toHaveBeenCalledTimes(1);
+  });
+
+  test('should plan the purge without deleting anything', async () => {
+    const result = await service.purgeHostedZone(1, { force: true, dryRun: true });
+
+    expect(result.plan!.changes.map(change => [change.action, change.record.name])).toEqual([
+      ['DELETE', 'app.example.com.'],
+      ['DELETE', 'mail.example.com.'],
+    ]);
+    expect(mockDNSProvider.changeDNSRecords).not.toHaveBeenCalled();
+    expect(mockDNSProvider.deleteHostedZone).not.toHaveBeenCalled();
+  });
+
+  test('should report a zone the provider refuses to delete', async () => {
+    remoteRecords = remoteRecords.slice(0, 1);
+    mockDNSProvider.deleteHostedZone.mockImplementationOnce(() => Promise.reject(new Error('HostedZoneNotEmpty')));
+
+    const result = await service.purgeHostedZone(1);
+
+    expect(result).toMatchObject({ success: false, reason: 'failed', zoneDeleted: false });
+    expect(result.error).toContain('HostedZoneNotEmpty');
+    expect(domainModel.findById(1)!.hosted_zone_id).toBe('Z123');
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, test, expect } from 'bun:test';
+import { HttpsRedirectService, formatHstsHeader } from '../../src/lib/services/https-redirect';
+
+const now = new Date().toISOString();
+
+const service = new HttpsRedirectService({
+  getAllDomains: () => [
+    { id: 1, name: 'example.com', hsts_enabled: true, hsts_max_age: 600, delegation_status: 'completed' as const, record_count: 0, created_at: now, updated_at: now },
+    { id: 2, name: 'api.example.com', hsts_enabled: true, hsts_max_age: 31536000, hsts_include_subdomains: true, hsts_preload: true, delegation_status: 'completed' as const, record_count: 0, created_at: now, updated_at: now },
+    { id: 3, name: 'other.com', hsts_enabled: false, delegation_status: 'completed' as const, record_count: 0, created_at: now, updated_at: now },
+  ],
+});
+
+describe('HttpsRedirectService', () => {
+  test('should use 301 for safe methods and 308 otherwise', () => {
+    const get = service.buildRedirect(new Request('http://example.com/a?b=1'), 'Example.com:80', 443);
+    expect(get.status).toBe(301);
+    expect(get.headers.get('Location')).toBe('https://example.com/a?b=1');
+
+    const post = service.buildRedirect(new Request('http://example.com/form', { method: 'POST' }), 'example.com', 8443);
+    expect(post.status).toBe(308);
+    expect(post.headers.get('Location')).toBe('https://example.com:8443/form');
+  });
+
+  test('should redirect hostnames covered by redirect certificates', () => {
+    expect(service.shouldRedirect(['*.example.com'], 'www.example.com')).toBe(true);
+    expect(service.shouldRedirect(['*.example.com'], 'example.com')).toBe(false);
+    expect(service.shouldRedirect([], 'www.example.com')).toBe(false);
+  });
+
+  test('should pick the most specific enabled HSTS policy for a host', () => {
+    const policies = service.loadHstsPolicies();
+    expect(policies.map(policy => policy.domainName)).toEqual(['example.com', 'api.example.com']);
+
+    expect(service.findHstsPolicy(policies, 'www.example.com')?.domainName).toBe('example.com');
+    expect(formatHstsHeader(service.findHstsPolicy(policies, 'v1.api.example.com')!)).toBe('max-age=31536000; includeSubDomains; preload');
+    expect(service.findHstsPolicy(policies, 'other.com')).toBeUndefined();
+    expect(service.findHstsPolicy(policies, 'notexample.com')).toBeUndefined();
+  });
+});
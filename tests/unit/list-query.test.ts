@@ -0,0 +1,116 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { runMigrations } from '../../src/lib/database/migration';
+import { RequestLogModel } from '../../src/lib/models/request-log';
+import type { ListQuery } from '../../src/lib/models/repository';
+import { parseListQuery } from '../../src/server/list-query';
+
+describe('parseListQuery', () => {
+  const spec = new RequestLogModel().listSpec;
+
+  test('should apply the list defaults', () => {
+    expect(parseListQuery({}, spec)).toEqual({
+      query: { filters: {}, sort: 'created_at', order: 'desc', limit: 50 },
+    });
+  });
+
+  test('should parse filters, sorts and time ranges, ignoring unknown parameters', () => {
+    const { query } = parseListQuery({
+      service_id: '3',
+      method: 'POST',
+      sort: '-response_time',
+      from: '2025-06-01',
+      limit: '10',
+      period: '24h',
+    }, spec);
+
+    expect(query).toEqual({
+      filters: { service_id: 3, method: 'POST' },
+      sort: 'response_time',
+      order: 'desc',
+      limit: 10,
+      from: '2025-06-01T00:00:00.000Z',
+    });
+  });
+
+  test('should reject what the list does not support', () => {
+    expect(parseListQuery({ limit: '0' }, spec).error).toContain('limit');
+    expect(parseListQuery({ sort: 'user_agent' }, spec).error).toContain('sort must be one of');
+    expect(parseListQuery({ service_id: 'abc' }, spec).error).toBe('service_id must be a whole number');
+    expect(parseListQuery({ to: 'yesterday' }, spec).error).toContain('ISO 8601');
+    expect(parseListQuery({ cursor: 'nonsense' }, spec).error).toBe('Invalid cursor');
+  });
+
+  test('should ignore parameters named after Object.prototype members', () => {
+    expect(parseListQuery({ constructor: 'x', toString: 'y', hasOwnProperty: 'z' }, spec).query?.filters).toEqual({});
+  });
+});
+
+describe('Repository pagination', () => {
+  let requestLogModel: RequestLogModel;
+
+  const log = (created_at: string) => ({
+    url: '/',
+    method: 'GET',
+    status: '200',
+    response_time: 10,
+    user_agent: 'test',
+    ip_address: '203.0.113.1',
+    created_at,
+  });
+
+  beforeEach(async () => {
+    const db = new Database(':memory:');
+    await runMigrations(db);
+    requestLogModel = new RequestLogModel(db);
+    requestLogModel.createMany([
+      log('2025-06-01T00:00:00.000Z'),
+      log('2025-06-02T00:00:00.000Z'),
+      // Ties on the sort column are broken by id, so no page repeats or skips one
+      log('2025-06-02T00:00:00.000Z'),
+      log('2025-06-03T00:00:00.000Z'),
+      log('2025-06-04T00:00:00.000Z'),
+    ]);
+  });
+
+  test('should walk every row exactly once in keyset order', () => {
+    const query: ListQuery = { filters: {}, sort: 'created_at', order: 'desc', limit: 2 };
+    const ids: number[] = [];
+    let page = requestLogModel.list(query);
+    ids.push(...page.items.map(item => item.id!));
+    while (page.hasMore) {
+      const last = page.items.at(-1)!;
+      page = requestLogModel.list({ ...query, after: { value: last.created_at, id: last.id! } });
+      ids.push(...page.items.map(item => item.id!));
+    }
+
+    expect(ids).toEqual([5, 4, 3, 2, 1]);
+  });
+
+  test('should filter by field and time range', () => {
+    requestLogModel.createMany([{ ...log('2025-06-02T12:00:00.000Z'), method: 'POST' }]);
+
+    const page = requestLogModel.list({
+      filters: { method: 'POST' },
+      from: '2025-06-02T00:00:00.000Z',
+      to: '2025-06-03T00:00:00.000Z',
+      sort: 'id',
+      order: 'asc',
+      limit: 10,
+    });
+
+    expect(page).toEqual({ items: [expect.objectContaining({ id: 6, method: 'POST' })], hasMore: false });
+    expect(() => requestLogModel.list({ filters: { user_agent: 'test' }, sort: 'id', order: 'asc', limit: 10 }))
+      .toThrow('Cannot filter requests by user_agent');
+    expect(() => requestLogModel.list({ filters: { constructor: 'x' }, sort: 'id', order: 'asc', limit: 10 }))
+      .toThrow('Cannot filter requests by constructor');
+  });
+
+  test('should count matching rows across every page', () => {
+    requestLogModel.createMany([{ ...log('2025-06-02T12:00:00.000Z'), method: 'POST' }]);
+
+    expect(requestLogModel.count()).toBe(6);
+    expect(requestLogModel.count({ filters: { method: 'GET' }, from: '2025-06-02T00:00:00.000Z' })).toBe(4);
+    expect(() => requestLogModel.count({ filters: { user_agent: 'test' } })).toThrow('Cannot filter requests by user_agent');
+  });
+});
@@ -0,0 +1,278 @@
+import { describe, test, expect } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { Migration, migrationChecksum, migrationStatus, rollbackMigrations, runMigrations } from '../../src/lib/database/migration';
+import migrations from '../../src/lib/database/migrations';
+import { DNSRecordModel } from '../../src/lib/models/dns-record';
+
+describe('runMigrations', () => {
+  test('should rebuild a dns_records table whose type constraint predates CAA, DS, NS and SOA', async () => {
+    const db = new Database(':memory:');
+    db.query(`CREATE TABLE domains (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT NOT NULL, created_at TEXT NOT NULL, updated_at TEXT NOT NULL);`).run();
+    db.query(`INSERT INTO domains (name, created_at, updated_at) VALUES ('example.com', '2024-01-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z')`).run();
+    db.query(`
+      CREATE TABLE dns_records (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        domain_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL CHECK (type IN ('A', 'AAAA', 'CNAME', 'MX', 'TXT', 'SRV', 'PTR')),
+        value TEXT NOT NULL,
+        ttl INTEGER NOT NULL DEFAULT 300,
+        priority INTEGER,
+        weight INTEGER,
+        source TEXT NOT NULL CHECK (source IN ('route53', 'cloud_router')),
+        created_by_route_id INTEGER,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `).run();
+    db.query(`
+      INSERT INTO dns_records (domain_id, name, type, value, ttl, source, created_at, updated_at)
+      VALUES (1, 'www.example.com.', 'A', '203.0.113.10', 300, 'route53', '2024-01-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z')
+    `).run();
+
+    await runMigrations(db);
+
+    const model = new DNSRecordModel(db);
+    expect(model.findById(1)).toMatchObject({ name: 'www.example.com.', type: 'A', value: '203.0.113.10', source: 'provider' });
+
+    const id = model.create({
+      domain_id: 1,
+      name: 'example.com.',
+      type: 'CAA',
+      value: '0 issue "letsencrypt.org"',
+      ttl: 300,
+      source: 'provider',
+    });
+    expect(model.findById(id)!.type).toBe('CAA');
+
+    const aliasId = model.create({
+      domain_id: 1,
+      name: 'app.example.com.',
+      type: 'A',
+      value: 'my-lb-123.us-east-1.elb.amazonaws.com.',
+      ttl: 60,
+      alias_hosted_zone_id: 'Z35SXDOTRQ7X7K',
+      alias_evaluate_target_health: true,
+      source: 'provider',
+    });
+    expect(model.findById(aliasId)).toMatchObject({ alias_hosted_zone_id: 'Z35SXDOTRQ7X7K', alias_evaluate_target_health: 1 });
+  });
+
+  test('should mark imported records with the provider-neutral source, and back on rollback', async () => {
+    const db = new Database(':memory:');
+    await runMigrations(db, migrations.filter(migration => migration.version < 5));
+    db.query(`INSERT INTO domains (name, created_at, updated_at) VALUES ('example.com', '2024-01-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z')`).run();
+    db.query(`
+      INSERT INTO dns_records (domain_id, name, type, value, ttl, source, created_at, updated_at)
+      VALUES (1, 'www.example.com.', 'A', '203.0.113.10', 300, 'route53', '2024-01-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z'),
+             (1, 'app.example.com.', 'A', '203.0.113.20', 300, 'cloud_router', '2024-01-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z')
+    `).run();
+
+    await runMigrations(db);
+    expect(db.query('SELECT source FROM dns_records ORDER BY id').all()).toEqual([{ source: 'provider' }, { source: 'cloud_router' }]);
+
+    await rollbackMigrations(db, { to: 4 });
+    expect(db.query('SELECT source FROM dns_records ORDER BY id').all()).toEqual([{ source: 'route53' }, { source: 'cloud_router' }]);
+  });
+
+  test('should allow certificate expiry alerts, and drop them on rollback', async () => {
+    const db = new Database(':memory:');
+    await runMigrations(db);
+    db.query(`INSERT INTO alert_channels (name, type, config, created_at, updated_at) VALUES ('ops', 'webhook', '{}', '2024-01-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z')`).run();
+    db.query(`
+      INSERT INTO alerts (alert_channel_id, event, status, message, created_at, updated_at)
+      VALUES (1, 'test', 'sent', 'Test alert', '2024-01-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z'),
+             (1, 'certificate_expiring', 'sent', 'Certificate expires soon', '2024-01-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z')
+    `).run();
+
+    await rollbackMigrations(db, { to: 5 });
+    expect(db.query('SELECT event FROM alerts').all()).toEqual([{ event: 'test' }]);
+  });
+
+  test('should be safe to run twice', async () => {
+    const db = new Database(':memory:');
+    await runMigrations(db);
+    await runMigrations(db);
+
+    expect(() => new DNSRecordModel(db).create({
+      domain_id: 1,
+      name: 'example.com.',
+      type: 'DS',
+      value: '12345 13 2 1F2E3D4C',
+      ttl: 3600,
+      source: 'provider',
+    })).not.toThrow();
+  });
+
+  test('should record the baseline in schema_migrations on a fresh database', async () => {
+    const db = new Database(':memory:');
+    const applied = await runMigrations(db);
+
+    expect(applied.map(migration => migration.version)).toEqual(migrations.map(migration => migration.version));
+    const row = db.query('SELECT * FROM schema_migrations').get() as { version: number; checksum: string };
+    expect(row.version).toBe(1);
+    expect(row.checksum).toBe(migrationChecksum(migrations[0]));
+    expect(await runMigrations(db)).toEqual([]);
+  });
+
+  test('should adopt a database created before versioned migrations', async () => {
+    const db = new Database(':memory:');
+    db.query(`
+      CREATE TABLE domains (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        hosted_zone_id TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `).run();
+    db.query(`INSERT INTO domains (name, created_at, updated_at) VALUES ('example.com', '2024-01-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z')`).run();
+
+    await runMigrations(db);
+
+    const columns = (db.query('PRAGMA table_info(domains)').all() as { name: string }[]).map(column => column.name);
+    expect(columns).toContain('hsts_enabled');
+    expect(columns).toContain('delegation_checked_at');
+    expect(db.query('SELECT name, hsts_max_age FROM domains').get()).toEqual({ name: 'example.com', hsts_max_age: 31536000 });
+    expect(migrationStatus(db)[0]).toMatchObject({ version: 1, applied: true, checksumMismatch: false });
+  });
+
+  test('should apply pending migrations in order and roll them back', async () => {
+    const db = new Database(':memory:');
+    const addNotes: Migration = {
+      version: migrations.length + 1,
+      name: 'domain_notes',
+      up: 'ALTER TABLE domains ADD COLUMN notes TEXT;',
+      down: 'ALTER TABLE domains DROP COLUMN notes;',
+    };
+    await runMigrations(db, [addNotes, ...migrations]);
+
+    expect(migrationStatus(db, [...migrations, addNotes]).every(migration => migration.applied)).toBe(true);
+    expect((db.query('PRAGMA table_info(domains)').all() as { name: string }[]).some(column => column.name === 'notes')).toBe(true);
+
+    const rolledBack = await rollbackMigrations(db, {}, [...migrations, addNotes]);
+    expect(rolledBack.map(migration => migration.version)).toEqual([addNotes.version]);
+    expect((db.query('PRAGMA table_info(domains)').all() as { name: string }[]).some(column => column.name === 'notes')).toBe(false);
+    expect(migrationStatus(db, [...migrations, addNotes]).at(-1)!.applied).toBe(false);
+
+    await rollbackMigrations(db, { to: 0 }, [...migrations, addNotes]);
+    expect(db.query(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'domains'`).get()).toBeNull();
+  });
+
+  test('should leave the schema untouched when a migration fails', async () => {
+    const db = new Database(':memory:');
+    await runMigrations(db);
+    const broken: Migration = {
+      version: migrations.length + 1,
+      name: 'broken',
+      up: 'ALTER TABLE domains ADD COLUMN notes TEXT; ALTER TABLE missing ADD COLUMN notes TEXT;',
+      down: 'ALTER TABLE domains DROP COLUMN notes;',
+    };
+
+    await expect(runMigrations(db, [...migrations, broken])).rejects.toThrow();
+    expect((db.query('PRAGMA table_info(domains)').all() as { name: string }[]).some(column => column.name === 'notes')).toBe(false);
+    expect(migrationStatus(db, [...migrations, broken]).at(-1)!.applied).toBe(false);
+  });
+
+  test('should refuse to run when an applied migration has changed or is unknown', async () => {
+    const db = new Database(':memory:');
+    await runMigrations(db);
+
+    const edited = { ...migrations[0], up: `${migrations[0].up}\nCREATE TABLE extra (id INTEGER);` };
+    await expect(runMigrations(db, [edited])).rejects.toThrow('has changed since it was applied');
+    await expect(runMigrations(db, [])).rejects.toThrow("doesn't know about");
+  });
+});
+
+describe('foreign keys', () => {
+  const timestamp = '2024-01-01T00:00:00.000Z';
+
+  const insert = (db: Database, table: string, row: Record<string, string | number | null>) => {
+    const columns = Object.keys(row);
+    const result = db.prepare(`INSERT INTO ${table} (${columns.join(', ')}, created_at, updated_at) VALUES (${columns.map(() => '?').join(', ')}, ?, ?)`)
+      .run(...Object.values(row), timestamp, timestamp);
+    return result.lastInsertRowid as number;
+  };
+
+  const seed = (db: Database) => {
+    const domainId = insert(db, 'domains', { name: 'example.com' });
+    const serviceId = insert(db, 'services', { domain_id: domainId, name: 'api', description: 'API', port: 8080, is_active: 1 });
+    const healthCheckId = insert(db, 'health_checks', {
+      service_id: serviceId, path: '/health', interval: 30, timeout: 5, threshold: 3, failure_threshold: 3, success_threshold: 1, status_code: 200,
+    });
+    insert(db, 'health_check_invocations', { health_check_id: healthCheckId, status: 'up', response_time: 12 });
+    const requestId = insert(db, 'requests', {
+      service_id: serviceId, url: '/', method: 'GET', status: '200', response_time: 5, user_agent: 'curl', ip_address: '127.0.0.1',
+    });
+    return { domainId, serviceId, healthCheckId, requestId };
+  };
+
+  const migrated = async () => {
+    const db = new Database(':memory:');
+    await runMigrations(db);
+    db.run('PRAGMA foreign_keys = ON');
+    return db;
+  };
+
+  test('should refuse to delete a service or domain that routes depend on', async () => {
+    const db = await migrated();
+    const { domainId, serviceId } = seed(db);
+    insert(db, 'routes', { domain_id: domainId, service_id: serviceId, path: '/', is_active: 1, is_dedicated_subdomain: 0, is_path: 1 });
+
+    expect(() => db.prepare('DELETE FROM services WHERE id = ?').run(serviceId)).toThrow('FOREIGN KEY constraint failed');
+    expect(() => db.prepare('DELETE FROM domains WHERE id = ?').run(domainId)).toThrow('FOREIGN KEY constraint failed');
+  });
+
+  test('should cascade health checks and unlink request logs when a service is deleted', async () => {
+    const db = await migrated();
+    const { serviceId, requestId } = seed(db);
+
+    db.prepare('DELETE FROM services WHERE id = ?').run(serviceId);
+
+    expect(db.query('SELECT COUNT(*) AS count FROM health_checks').get()).toEqual({ count: 0 });
+    expect(db.query('SELECT COUNT(*) AS count FROM health_check_invocations').get()).toEqual({ count: 0 });
+    expect(db.query('SELECT service_id FROM requests WHERE id = ?').get(requestId)).toEqual({ service_id: null });
+  });
+
+  test('should unlink history orphaned before foreign keys were enforced', async () => {
+    const db = new Database(':memory:');
+    await runMigrations(db, migrations.slice(0, 1));
+    const { requestId, healthCheckId } = seed(db);
+    db.prepare('UPDATE requests SET route_id = 999 WHERE id = ?').run(requestId);
+    insert(db, 'health_check_invocations', { health_check_id: 999, status: 'up', response_time: 12 });
+
+    await runMigrations(db);
+
+    expect(db.query('SELECT route_id FROM requests WHERE id = ?').get(requestId)).toEqual({ route_id: null });
+    expect(db.query('SELECT health_check_id FROM health_check_invocations').all()).toEqual([{ health_check_id: healthCheckId }]);
+    expect(db.query('PRAGMA foreign_key_check').all()).toEqual([]);
+  });
+
+  test('should fail listing orphaned configuration instead of deleting it', async () => {
+    const db = new Database(':memory:');
+    await runMigrations(db, migrations.slice(0, 1));
+    const { domainId } = seed(db);
+    insert(db, 'routes', { domain_id: domainId, service_id: 999, path: '/', is_active: 1, is_dedicated_subdomain: 0, is_path: 1 });
+    insert(db, 'health_checks', {
+      service_id: 999, path: '/health', interval: 30, timeout: 5, threshold: 3, failure_threshold: 3, success_threshold: 1, status_code: 200,
+    });
+
+    await expect(runMigrations(db)).rejects.toThrow(
+      'Migration 2 (foreign_keys) would leave rows referencing missing parents: health_checks row 2 -> missing services, routes row 1 -> missing services'
+    );
+    expect(db.query('SELECT COUNT(*) AS count FROM routes').get()).toEqual({ count: 1 });
+    expect(db.query('SELECT COUNT(*) AS count FROM health_checks').get()).toEqual({ count: 2 });
+    expect(migrationStatus(db)[1].applied).toBe(false);
+  });
+
+  test('should drop the foreign keys again on rollback', async () => {
+    const db = await migrated();
+    seed(db);
+
+    await rollbackMigrations(db, { to: 1 });
+
+    expect(db.query('PRAGMA foreign_keys').get()).toEqual({ foreign_keys: 1 });
+    expect(db.query('PRAGMA foreign_key_list(routes)').all()).toEqual([]);
+    expect(db.query('SELECT COUNT(*) AS count FROM health_check_invocations').get()).toEqual({ count: 1 });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import config from '../../src/lib/config';
+import { setDatabase } from '../../src/lib/database/connection';
+import { runMigrations } from '../../src/lib/database/migration';
+import { DomainModel } from '../../src/lib/models/domain';
+import { ServiceModel } from '../../src/lib/models/service';
+import { RouteModel } from '../../src/lib/models/route';
+import { databaseEvents } from '../../src/lib/models/repository';
+import { getRoutingSnapshot, watchRoutingChanges } from '../../src/server/proxy';
+
+describe('proxy routing hot reload', () => {
+  let stopWatching: () => void;
+
+  beforeEach(async () => {
+    await runMigrations(setDatabase(':memory:'));
+    // A reload also refreshes TLS, which binds the proxy listener; keep it off the real port
+    config.routerPort = 0;
+    stopWatching = watchRoutingChanges();
+  });
+
+  afterEach(() => stopWatching());
+
+  test('should rebuild the routing snapshot once for a burst of route, service and domain changes', async () => {
+    const before = getRoutingSnapshot();
+
+    const domainId = new DomainModel().create({ name: 'example.com', delegation_status: 'completed' });
+    const serviceId = new ServiceModel().create({ domain_id: domainId, name: 'api', description: '', port: 3000, is_active: true });
+    new RouteModel().create({ domain_id: domainId, service_id: serviceId, path: '/api', is_active: true, is_dedicated_subdomain: false, is_path: true });
+
+    // In-flight requests keep the old snapshot until the debounced rebuild swaps it
+    expect(getRoutingSnapshot()).toBe(before);
+
+    await Bun.sleep(1000);
+
+    const after = getRoutingSnapshot();
+    expect(after.version).toBe(before.version + 1);
+    expect(after.table.match('example.com', '/api/users')).toEqual(expect.objectContaining({ found: true }));
+    expect(before.table.hasHost('example.com')).toBe(false);
+  });
+
+  test('should ignore changes to tables the routing table does not read', async () => {
+    const before = getRoutingSnapshot();
+
+    databaseEvents.emit('change', { table: 'requests', action: 'create', id: 1 });
+    await Bun.sleep(300);
+
+    expect(getRoutingSnapshot()).toBe(before);
+  });
+});
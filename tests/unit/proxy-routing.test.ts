@@ -0,0 +1,72 @@
+import { describe, test, expect } from 'bun:test';
+import { ProxyRoutingService, ProxyRoutingTable, normalizeHostname } from '../../src/lib/services/proxy-routing';
+
+const now = new Date().toISOString();
+
+const domains = [
+  { id: 1, name: 'example.com', delegation_status: 'completed' as const, record_count: 0, created_at: now, updated_at: now },
+];
+
+const services = [
+  { id: 1, domain_id: 1, name: 'web', description: 'Web', port: 3000, is_active: true, created_at: now, updated_at: now },
+  { id: 2, domain_id: 1, name: 'api', description: 'API', port: 4000, is_active: true, created_at: now, updated_at: now },
+  { id: 3, domain_id: 1, name: 'legacy', description: 'Legacy', port: 5000, is_active: false, created_at: now, updated_at: now },
+];
+
+const routes = [
+  { id: 1, domain_id: 1, service_id: 1, path: '/', is_active: true, is_dedicated_subdomain: false, is_path: true, created_at: now, updated_at: now },
+  { id: 2, domain_id: 1, service_id: 2, path: '/api', is_active: true, is_dedicated_subdomain: false, is_path: true, created_at: now, updated_at: now },
+  { id: 3, domain_id: 1, service_id: 2, path: 'grafana', is_active: true, is_dedicated_subdomain: true, is_path: false, created_at: now, updated_at: now },
+  { id: 4, domain_id: 1, service_id: 1, path: 'disabled', is_active: false, is_dedicated_subdomain: true, is_path: false, created_at: now, updated_at: now },
+  { id: 5, domain_id: 1, service_id: 3, path: 'legacy', is_active: true, is_dedicated_subdomain: true, is_path: false, created_at: now, updated_at: now },
+];
+
+const buildService = () => new ProxyRoutingService({
+  getAllRoutes: () => routes,
+  getServiceById: (id: number) => services.find(service => service.id === id),
+  getDomainById: (id: number) => domains.find(domain => domain.id === id),
+});
+
+describe('ProxyRoutingService', () => {
+  test('should only include active routes with active services', () => {
+    const { table, skipped } = buildService().buildRoutingTable();
+
+    expect(table.size).toBe(3);
+    expect(skipped).toBe(2);
+    expect(table.hasHost('disabled.example.com')).toBe(false);
+    expect(table.hasHost('legacy.example.com')).toBe(false);
+  });
+
+  test('should route by longest matching path prefix', () => {
+    const { table } = buildService().buildRoutingTable();
+
+    expect(table.match('example.com', '/api/users').target?.port).toBe(4000);
+    expect(table.match('example.com', '/api').target?.port).toBe(4000);
+    expect(table.match('example.com', '/apix').target?.port).toBe(3000);
+    expect(table.match('example.com', '/').target?.port).toBe(3000);
+  });
+
+  test('should route dedicated subdomains by Host header', () => {
+    const { table } = buildService().buildRoutingTable();
+
+    const match = table.match('Grafana.Example.com:443', '/dashboards');
+    expect(match.found).toBe(true);
+    expect(match.target?.routeId).toBe(3);
+  });
+
+  test('should report unknown hosts and unmatched paths separately', () => {
+    const table = new ProxyRoutingTable([
+      { routeId: 1, serviceId: 1, serviceName: 'api', hostname: 'example.com', pathPrefix: '/api', port: 4000 },
+    ]);
+
+    expect(table.match('other.com', '/').reason).toBe('unknown_host');
+    expect(table.match('example.com', '/').reason).toBe('no_matching_path');
+  });
+});
+
+describe('normalizeHostname', () => {
+  test('should strip ports and trailing dots', () => {
+    expect(normalizeHostname('Example.com.:8443')).toBe('example.com');
+    expect(normalizeHostname('[::1]:3002')).toBe('[::1]');
+  });
+});
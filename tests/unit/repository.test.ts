@@ -0,0 +1,60 @@
+import { describe, test, expect } from 'bun:test';
+import { getDatabase, openDatabase, setDatabase } from '../../src/lib/database/connection';
+import { runMigrations } from '../../src/lib/database/migration';
+import { DomainModel } from '../../src/lib/models/domain';
+import { ServiceModel } from '../../src/lib/models/service';
+import { databaseEvents, DatabaseChangeEvent } from '../../src/lib/models/repository';
+
+describe('Repository', () => {
+  test('should follow the shared connection when it is swapped', async () => {
+    const domainModel = new DomainModel();
+
+    const first = setDatabase(':memory:');
+    await runMigrations(first);
+    domainModel.create({ name: 'first.example.com', delegation_status: 'pending' });
+
+    const second = setDatabase(':memory:');
+    await runMigrations(second);
+
+    expect(getDatabase()).toBe(second);
+    expect(domainModel.findAll()).toHaveLength(0);
+    expect(new DomainModel(first).findAll().map(domain => domain.name)).toEqual(['first.example.com']);
+  });
+
+  test('should use the connection it was given over the shared one', async () => {
+    const isolated = openDatabase(':memory:');
+    await runMigrations(isolated);
+    setDatabase(':memory:');
+
+    const serviceModel = new ServiceModel(isolated);
+    const domainId = new DomainModel(isolated).create({ name: 'example.com', delegation_status: 'pending' });
+    const id = serviceModel.create({ domain_id: domainId, name: 'api', description: '', port: 3000, is_active: true });
+
+    expect(serviceModel.findById(id)).toMatchObject({ name: 'api', port: 3000 });
+    expect(getDatabase().query(`SELECT name FROM sqlite_master WHERE name = 'services'`).get()).toBeNull();
+  });
+
+  test('should emit change events and only bump updated_at when something changed', async () => {
+    const db = openDatabase(':memory:');
+    await runMigrations(db);
+    const serviceModel = new ServiceModel(db);
+    const domainId = new DomainModel(db).create({ name: 'example.com', delegation_status: 'pending' });
+    const id = serviceModel.create({ domain_id: domainId, name: 'api', description: '', port: 3000, is_active: true });
+
+    const events: DatabaseChangeEvent[] = [];
+    const listener = (event: DatabaseChangeEvent) => events.push(event);
+    databaseEvents.on('change', listener);
+    try {
+      expect(serviceModel.update(id, {})).toBe(false);
+      expect(serviceModel.update(id, { port: 4000 })).toBe(true);
+      expect(serviceModel.delete(id)).toBe(true);
+    } finally {
+      databaseEvents.off('change', listener);
+    }
+
+    expect(events).toEqual([
+      { table: 'services', action: 'update', id },
+      { table: 'services', action: 'delete', id },
+    ]);
+  });
+});
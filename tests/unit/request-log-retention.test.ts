@@ -0,0 +1,105 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { runMigrations } from '../../src/lib/database/migration';
+import { DomainModel } from '../../src/lib/models/domain';
+import { ServiceModel } from '../../src/lib/models/service';
+import { RouteModel } from '../../src/lib/models/route';
+import { RequestLogModel } from '../../src/lib/models/request-log';
+import { RequestRollupModel } from '../../src/lib/models/request-rollup';
+import { RequestLogRetentionService } from '../../src/lib/services/request-log-retention';
+
+const now = new Date('2025-06-10T12:30:00.000Z');
+
+describe('RequestLogRetentionService', () => {
+  let db: Database;
+  let serviceModel: ServiceModel;
+  let requestLogModel: RequestLogModel;
+  let requestRollupModel: RequestRollupModel;
+  let retention: RequestLogRetentionService;
+  let serviceId: number;
+  let routeId: number;
+
+  const logRequests = (createdAt: string, responseTimes: number[], overrides: { status?: string; service_id?: number; route_id?: number } = {}) => {
+    requestLogModel.createMany(responseTimes.map(response_time => ({
+      service_id: serviceId,
+      route_id: routeId,
+      url: '/api',
+      method: 'GET',
+      status: '200',
+      response_time,
+      user_agent: 'test',
+      ip_address: '203.0.113.1',
+      created_at: createdAt,
+      ...overrides,
+    })));
+  };
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await runMigrations(db);
+    const domainId = new DomainModel(db).create({ name: 'example.com', delegation_status: 'completed' });
+    serviceModel = new ServiceModel(db);
+    serviceId = serviceModel.create({ domain_id: domainId, name: 'api', description: '', port: 3000, is_active: true });
+    routeId = new RouteModel(db).create({ domain_id: domainId, service_id: serviceId, path: 'api', is_active: true, is_dedicated_subdomain: false, is_path: true });
+    requestLogModel = new RequestLogModel(db);
+    requestRollupModel = new RequestRollupModel(db);
+    retention = new RequestLogRetentionService(requestLogModel, requestRollupModel, serviceModel, {
+      retentionDays: 7,
+      hourlyRollupRetentionDays: 30,
+      pruneBatchSize: 2,
+    });
+  });
+
+  test('should roll complete hours up per route with error rates and latency percentiles', () => {
+    logRequests('2025-06-10T10:05:00.000Z', Array.from({ length: 100 }, (_, i) => i + 1));
+    logRequests('2025-06-10T10:45:00.000Z', [500, 600], { status: '503' });
+    logRequests('2025-06-10T10:50:00.000Z', [5], { status: '404', service_id: undefined, route_id: undefined });
+    // The current hour isn't over yet
+    logRequests('2025-06-10T12:10:00.000Z', [10]);
+
+    expect(retention.rollup('hour', now)).toBe(2);
+
+    const [routed, unrouted] = requestRollupModel.findAll({ period: 'hour' })
+      .sort((a, b) => (a.service_id === null ? 1 : 0) - (b.service_id === null ? 1 : 0));
+    expect(routed).toMatchObject({
+      period_start: '2025-06-10T10:00:00.000Z',
+      service_id: serviceId,
+      route_id: routeId,
+      request_count: 102,
+      client_error_count: 0,
+      server_error_count: 2,
+      response_time_p50: 51,
+      response_time_p95: 97,
+      response_time_p99: 500,
+      response_time_max: 600,
+    });
+    expect(routed.error_rate).toBeCloseTo(2 / 102);
+    expect(unrouted).toMatchObject({ service_id: null, route_id: null, request_count: 1, client_error_count: 1 });
+
+    // Already rolled up hours are left alone on the next run
+    expect(retention.rollup('hour', now)).toBe(0);
+  });
+
+  test('should prune only rolled up logs past their service retention', () => {
+    const otherServiceId = serviceModel.create({ domain_id: 1, name: 'web', description: '', port: 3001, is_active: true, request_log_retention_days: 30 });
+    logRequests('2025-05-20T09:00:00.000Z', [10, 20, 30]);
+    logRequests('2025-05-20T09:00:00.000Z', [40], { service_id: otherServiceId, route_id: undefined });
+    logRequests('2025-06-09T09:00:00.000Z', [50]);
+
+    const result = retention.run(now);
+
+    expect(result).toMatchObject({ hourlyRollups: 3, dailyRollups: 3, prunedRequests: 3 });
+    expect(requestLogModel.findAll().map(log => log.response_time).sort((a, b) => a - b)).toEqual([40, 50]);
+    expect(requestRollupModel.findAll({ period: 'day', service_id: serviceId }).map(rollup => rollup.request_count)).toEqual([3, 1]);
+  });
+
+  test('should drop hourly rollups past their retention but keep daily ones', () => {
+    logRequests('2025-04-01T09:00:00.000Z', [10]);
+
+    const result = retention.run(now);
+
+    expect(result.prunedHourlyRollups).toBe(1);
+    expect(requestRollupModel.findAll({ period: 'hour' })).toHaveLength(0);
+    expect(requestRollupModel.findAll({ period: 'day' })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, test, expect, mock } from 'bun:test';
+import { RequestLoggerService, RequestLogEntry } from '../../src/lib/services/request-logger';
+
+const entry = (url: string): RequestLogEntry => ({
+  service_id: 1,
+  route_id: 1,
+  url,
+  method: 'GET',
+  status: '200',
+  response_time: 3,
+  user_agent: 'test',
+  ip_address: '127.0.0.1',
+  created_at: new Date().toISOString(),
+});
+
+describe('RequestLoggerService', () => {
+  test('should write buffered entries in batches', () => {
+    const createRequestLogs = mock((entries: RequestLogEntry[]) => entries.length);
+    const service = new RequestLoggerService({ createRequestLogs }, { batchSize: 2, flushIntervalMs: 1000, maxBufferSize: 10 });
+
+    ['/a', '/b', '/c'].forEach(url => service.log(entry(url)));
+    expect(service.flush()).toBe(3);
+
+    expect(createRequestLogs).toHaveBeenCalledTimes(2);
+    expect(createRequestLogs).toHaveBeenNthCalledWith(2, [expect.objectContaining({ url: '/c' })]);
+    expect(service.pending).toBe(0);
+  });
+
+  test('should flush a full batch on the next tick', async () => {
+    const createRequestLogs = mock((entries: RequestLogEntry[]) => entries.length);
+    const service = new RequestLoggerService({ createRequestLogs }, { batchSize: 2, flushIntervalMs: 1000, maxBufferSize: 10 });
+
+    service.log(entry('/a'));
+    service.log(entry('/b'));
+    expect(createRequestLogs).not.toHaveBeenCalled();
+
+    await Bun.sleep(5);
+    expect(createRequestLogs).toHaveBeenCalledTimes(1);
+  });
+
+  test('should keep entries after a failed write and drop the oldest when full', () => {
+    const createRequestLogs = mock((): number => { throw new Error('database is locked'); });
+    const service = new RequestLoggerService({ createRequestLogs }, { batchSize: 10, flushIntervalMs: 1000, maxBufferSize: 2 });
+
+    ['/a', '/b', '/c'].forEach(url => service.log(entry(url)));
+    expect(service.flush()).toBe(0);
+    expect(service.pending).toBe(2);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, test, expect, beforeAll, beforeEach, afterAll } from 'bun:test';
+import net from 'net';
+import {
+  CLASS_ANY,
+  CLASS_IN,
+  CLASS_NONE,
+  DNSMessage,
+  OPCODE_QUERY,
+  RR_TYPES,
+  WireRecord,
+  buildMessage,
+  encodeName,
+  encodeRdata,
+  parseMessage,
+} from '../../src/lib/services/dns-wire';
+import { RFC2136DNSProvider } from '../../src/lib/services/rfc2136-dns-provider';
+
+const soa: WireRecord = {
+  name: 'example.com.',
+  type: RR_TYPES.SOA,
+  class: CLASS_IN,
+  ttl: 3600,
+  rdata: Buffer.concat([encodeName('ns1.example.com'), encodeName('hostmaster.example.com'), Buffer.alloc(20)]),
+};
+
+const record = (name: string, type: string, value: string, ttl = 300): WireRecord =>
+  ({ name, type: RR_TYPES[type], class: CLASS_IN, ttl, rdata: encodeRdata(type, value) });
+
+const respond = (query: DNSMessage, answers: WireRecord[], rcode = 0) => {
+  const message = buildMessage({ id: query.id, opcode: query.opcode, questions: query.questions, answers });
+  message.writeUInt16BE(0x8000 | (query.opcode << 11) | rcode, 2);
+  return message;
+};
+
+/**
+ * Minimal authoritative stand-in over TCP: answers NS queries and AXFR, records UPDATE messages
+ */
+const startServer = async (state: { updates: DNSMessage[]; updateRcode: number; transfer: 'complete' | 'refused' | 'truncated' }) => {
+  const server = net.createServer(socket => {
+    socket.on('data', chunk => {
+      const query = parseMessage(chunk.subarray(2, 2 + chunk.readUInt16BE(0)));
+      const send = (message: Buffer) => {
+        const length = Buffer.alloc(2);
+        length.writeUInt16BE(message.length);
+        socket.write(Buffer.concat([length, message]));
+      };
+
+      if (query.opcode !== OPCODE_QUERY) {
+        state.updates.push(query);
+        send(respond(query, [], state.updateRcode));
+      } else if (query.questions[0].type === RR_TYPES.NS) {
+        send(respond(query, [record('example.com.', 'NS', 'ns1.example.com'), record('example.com.', 'NS', 'ns2.example.com')]));
+      } else if (state.transfer === 'refused') {
+        send(respond(query, [], 5));
+      } else if (state.transfer === 'truncated') {
+        send(respond(query, [soa, record('www.example.com.', 'A', '203.0.113.10')]));
+        socket.end();
+      } else {
+        // Spread the transfer over two messages, as real servers do for larger zones
+        send(respond(query, [soa, record('example.com.', 'NS', 'ns1.example.com'), record('www.example.com.', 'A', '203.0.113.10')]));
+        send(respond(query, [
+          record('www.example.com.', 'A', '203.0.113.11'),
+          record('dev.example.com.', 'NS', 'ns1.dev.example.net', 3600),
+          record('example.com.', 'MX', '10 mail.example.com', 3600),
+          soa,
+        ]));
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return server;
+};
+
+describe('RFC2136DNSProvider', () => {
+  const state = { updates: [] as DNSMessage[], updateRcode: 0, transfer: 'complete' as 'complete' | 'refused' | 'truncated' };
+  let server: net.Server;
+  let provider: RFC2136DNSProvider;
+
+  beforeAll(async () => {
+    server = await startServer(state);
+    provider = new RFC2136DNSProvider({
+      server: '127.0.0.1',
+      port: (server.address() as net.AddressInfo).port,
+      zones: ['example.com'],
+      tsig: { keyName: 'update-key', secret: Buffer.from('secret').toString('base64'), algorithm: 'hmac-sha256' },
+      timeoutMs: 2000,
+    });
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    state.updates = [];
+    state.updateRcode = 0;
+    state.transfer = 'complete';
+  });
+
+  test('should treat configured zones as hosted zones', async () => {
+    expect(await provider.findHostedZoneByName('app.example.com')).toMatchObject({ id: 'example.com.', name: 'example.com.' });
+    expect(await provider.findHostedZoneByName('example.org')).toBeNull();
+    expect(await provider.hostedZoneExists('example.com')).toBe(true);
+  });
+
+  test('should read nameservers from the zone apex', async () => {
+    expect(await provider.getHostedZoneNameServers('example.com.')).toEqual(['ns1.example.com', 'ns2.example.com']);
+  });
+
+  test('should list record sets with a zone transfer, leaving out the SOA and apex NS', async () => {
+    expect(await provider.listDNSRecords('example.com.')).toEqual([
+      { name: 'www.example.com.', type: 'A', value: '203.0.113.10\n203.0.113.11', ttl: 300 },
+      { name: 'dev.example.com.', type: 'NS', value: 'ns1.dev.example.net', ttl: 3600 },
+      { name: 'example.com.', type: 'MX', value: '10 mail.example.com', ttl: 3600 },
+    ]);
+  });
+
+  test('should fail rather than list an empty zone when the transfer is refused', async () => {
+    state.transfer = 'refused';
+
+    await expect(provider.listDNSRecords('example.com.')).rejects.toThrow('REFUSED');
+  });
+
+  test('should fail when the transfer ends before the closing SOA', async () => {
+    state.transfer = 'truncated';
+
+    await expect(provider.listDNSRecords('example.com.')).rejects.toThrow('closing SOA');
+  });
+
+  test('should send upserts and deletes as one signed update', async () => {
+    await provider.changeDNSRecords('example.com.', [
+      { action: 'UPSERT', record: { name: 'www.example.com.', type: 'A', value: '203.0.113.20\n203.0.113.21', ttl: 60 } },
+      { action: 'DELETE', record: { name: 'old.example.com.', type: 'TXT', value: '"stale"', ttl: 300 } },
+    ]);
+
+    expect(state.updates).toHaveLength(1);
+    const [update] = state.updates;
+    expect(update.questions).toEqual([{ name: 'example.com.', type: RR_TYPES.SOA, class: CLASS_IN }]);
+    expect(update.authorities.map(({ name, typeName, class: rrClass, value }) => ({ name, typeName, rrClass, value }))).toEqual([
+      { name: 'www.example.com.', typeName: 'A', rrClass: CLASS_ANY, value: undefined },
+      { name: 'www.example.com.', typeName: 'A', rrClass: CLASS_IN, value: '203.0.113.20' },
+      { name: 'www.example.com.', typeName: 'A', rrClass: CLASS_IN, value: '203.0.113.21' },
+      { name: 'old.example.com.', typeName: 'TXT', rrClass: CLASS_NONE, value: '"stale"' },
+    ]);
+    expect(update.additionals[0].typeName).toBe('TSIG');
+  });
+
+  test('should fail when the server refuses the update', async () => {
+    state.updateRcode = 5;
+
+    await expect(provider.upsertDNSRecords('example.com.', [
+      { name: 'www.example.com.', type: 'A', value: '203.0.113.20', ttl: 60 },
+    ])).rejects.toThrow('REFUSED');
+  });
+
+  test('should refuse to create zones the server is not configured for', async () => {
+    await expect(provider.createHostedZone('example.org')).rejects.toThrow('RFC 2136 cannot create zones');
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { DNSRecordModel } from '../../src/lib/models/dns-record';
+import { DNSRecordCreationService } from '../../src/lib/services/dns-record-creation';
+import { DNSConflictValidationService } from '../../src/lib/services/dns-conflict-validation';
+import { RouteDNSService } from '../../src/lib/services/route-dns';
+import type { Route } from '../../src/lib/database';
+import { createMockDNSProvider, MockDNSProvider, setupDNSTestDatabase } from '../fixtures/dns.fixtures';
+
+const now = new Date().toISOString();
+
+const route = (overrides: Partial<Route> = {}): Route => ({
+  id: 1,
+  domain_id: 1,
+  service_id: 1,
+  path: 'api',
+  is_active: true,
+  is_dedicated_subdomain: true,
+  is_path: false,
+  created_at: now,
+  updated_at: now,
+  ...overrides,
+});
+
+describe('RouteDNSService', () => {
+  let dnsRecordModel: DNSRecordModel;
+  let dnsProvider: MockDNSProvider;
+  let service: RouteDNSService;
+
+  beforeEach(async () => {
+    const { domainModel, ...database } = await setupDNSTestDatabase();
+    dnsRecordModel = database.dnsRecordModel;
+    dnsProvider = createMockDNSProvider();
+
+    service = new RouteDNSService(
+      dnsProvider,
+      new DNSRecordCreationService(dnsProvider, dnsRecordModel, domainModel),
+      new DNSConflictValidationService(dnsRecordModel, domainModel),
+      dnsRecordModel,
+      domainModel,
+      { publicAddress: 'router.example.net', ttl: 300 }
+    );
+  });
+
+  test('should create a CNAME owned by the route for dedicated subdomains', async () => {
+    const result = await service.syncRouteRecords(route());
+
+    expect(result.success).toBe(true);
+    expect(dnsRecordModel.findByRouteId(1)).toEqual([
+      expect.objectContaining({ name: 'api.example.com.', type: 'CNAME', value: 'router.example.net', source: 'cloud_router' }),
+    ]);
+    expect(dnsProvider.upsertDNSRecords).toHaveBeenCalledTimes(1);
+
+    // Syncing again is a no-op
+    await service.syncRouteRecords(route());
+    expect(dnsProvider.upsertDNSRecords).toHaveBeenCalledTimes(1);
+  });
+
+  test('should reject routes whose subdomain already has records', async () => {
+    dnsRecordModel.create({ domain_id: 1, name: 'api.example.com.', type: 'A', value: '203.0.113.10', ttl: 300, source: 'provider' });
+
+    const result = await service.validateRoute(route({ id: undefined }));
+
+    expect(result.success).toBe(false);
+    expect(result.conflicts.map(conflict => conflict.type)).toContain('duplicate_name');
+  });
+
+  test('should replace the record on rename and remove it on deactivation', async () => {
+    await service.syncRouteRecords(route());
+    await service.syncRouteRecords(route({ path: 'v2' }));
+
+    expect(dnsRecordModel.findByRouteId(1).map(record => record.name)).toEqual(['v2.example.com.']);
+    expect(dnsProvider.deleteDNSRecords).toHaveBeenCalledWith('Z123', [expect.objectContaining({ name: 'api.example.com.' })]);
+
+    await service.syncRouteRecords(route({ path: 'v2', is_active: false }));
+    expect(dnsRecordModel.findByRouteId(1)).toEqual([]);
+  });
+
+  test('should keep local records when Route53 deletion fails', async () => {
+    await service.syncRouteRecords(route());
+    dnsProvider.deleteDNSRecords.mockImplementationOnce(() => Promise.reject(new Error('Throttling')));
+
+    const result = await service.removeRouteRecords(1);
+
+    expect(result.success).toBe(false);
+    expect(dnsRecordModel.findByRouteId(1)).toHaveLength(1);
+  });
+
+  test('should restore the old record when a failed rename is synced back', async () => {
+    await service.syncRouteRecords(route());
+    dnsProvider.upsertDNSRecords.mockImplementationOnce(() => Promise.reject(new Error('Throttling')));
+
+    const failed = await service.syncRouteRecords(route({ path: 'v2' }));
+    expect(failed.success).toBe(false);
+    expect(dnsRecordModel.findByRouteId(1)).toEqual([]);
+
+    // What the routes router does after reverting the route row
+    const restored = await service.syncRouteRecords(route());
+    expect(restored.success).toBe(true);
+    expect(dnsRecordModel.findByRouteId(1).map(record => record.name)).toEqual(['api.example.com.']);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, test, expect, mock, beforeEach } from 'bun:test';
+import {
+  ChangeResourceRecordSetsCommand,
+  GetChangeCommand,
+  ListHostedZonesCommand,
+  ListResourceRecordSetsCommand,
+} from '@aws-sdk/client-route-53';
+import { Route53ClientService } from '../../src/lib/services/route53-client';
+
+type SentCommand = { input: Record<string, unknown> };
+
+describe('Route53ClientService', () => {
+  let service: Route53ClientService;
+  let send: ReturnType<typeof mock>;
+
+  // Two pages of record sets, as Route53 returns for zones over 300 sets
+  const recordSetPages = [
+    {
+      ResourceRecordSets: [
+        { Name: 'example.com.', Type: 'SOA', TTL: 900, ResourceRecords: [{ Value: 'ns-1.awsdns-01.org. awsdns-hostmaster.amazon.com. 1 7200 900 1209600 86400' }] },
+        { Name: 'example.com.', Type: 'NS', TTL: 172800, ResourceRecords: [{ Value: 'ns-1.awsdns-01.org.' }, { Value: 'ns-2.awsdns-02.co.uk.' }] },
+        { Name: 'example.com.', Type: 'CAA', TTL: 300, ResourceRecords: [{ Value: '0 issue "letsencrypt.org"' }] },
+        { Name: 'app.example.com.', Type: 'A', AliasTarget: { HostedZoneId: 'Z35SXDOTRQ7X7K', DNSName: 'my-lb-123.us-east-1.elb.amazonaws.com.', EvaluateTargetHealth: true } },
+      ],
+      IsTruncated: true,
+      NextRecordName: 'dev.example.com.',
+      NextRecordType: 'NS',
+    },
+    {
+      ResourceRecordSets: [
+        { Name: 'dev.example.com.', Type: 'NS', TTL: 3600, ResourceRecords: [{ Value: 'ns1.dev.example.net.' }] },
+        { Name: 'www.example.com.', Type: 'A', TTL: 300, ResourceRecords: [{ Value: '203.0.113.10' }, { Value: '203.0.113.11' }] },
+        { Name: 'weighted.example.com.', Type: 'A', TTL: 60, SetIdentifier: 'blue', Weight: 10, ResourceRecords: [{ Value: '203.0.113.20' }] },
+      ],
+      IsTruncated: false,
+    },
+  ];
+
+  beforeEach(() => {
+    service = new Route53ClientService({ region: 'us-east-1', accessKeyId: 'test', secretAccessKey: 'test' });
+    send = mock((command: SentCommand) => {
+      if (command instanceof ListResourceRecordSetsCommand) {
+        return Promise.resolve(command.input.StartRecordName ? recordSetPages[1] : recordSetPages[0]);
+      }
+      if (command instanceof ListHostedZonesCommand) {
+        return Promise.resolve(command.input.Marker
+          ? { HostedZones: [{ Id: '/hostedzone/Z2', Name: 'example.com.', ResourceRecordSetCount: 7 }], IsTruncated: false }
+          : { HostedZones: [{ Id: '/hostedzone/Z1', Name: 'example.org.', ResourceRecordSetCount: 2 }], IsTruncated: true, NextMarker: 'Z2' });
+      }
+      if (command instanceof ChangeResourceRecordSetsCommand) {
+        return Promise.resolve({ ChangeInfo: { Id: '/change/C2682N5HXP0BZ4', Status: 'PENDING', SubmittedAt: new Date('2024-01-01T00:00:00Z') } });
+      }
+      if (command instanceof GetChangeCommand) {
+        return Promise.resolve({ ChangeInfo: { Id: '/change/C2682N5HXP0BZ4', Status: 'INSYNC', SubmittedAt: new Date('2024-01-01T00:00:00Z') } });
+      }
+      return Promise.resolve({});
+    });
+    (service as unknown as { client: { send: typeof send } }).client = { send };
+  });
+
+  test('should follow pagination when listing hosted zones', async () => {
+    const zones = await service.listHostedZones();
+
+    expect(zones.map(zone => zone.id)).toEqual(['Z1', 'Z2']);
+    expect(send.mock.calls[1][0].input.Marker).toBe('Z2');
+  });
+
+  test('should list every record set across pages with all values and alias targets', async () => {
+    const records = await service.listDNSRecords('Z2');
+
+    expect(send.mock.calls[1][0].input).toMatchObject({ StartRecordName: 'dev.example.com.', StartRecordType: 'NS' });
+    expect(records).toEqual([
+      { name: 'example.com.', type: 'CAA', value: '0 issue "letsencrypt.org"', ttl: 300 },
+      {
+        name: 'app.example.com.',
+        type: 'A',
+        value: 'my-lb-123.us-east-1.elb.amazonaws.com.',
+        ttl: 60,
+        alias: { hostedZoneId: 'Z35SXDOTRQ7X7K', evaluateTargetHealth: true },
+      },
+      { name: 'dev.example.com.', type: 'NS', value: 'ns1.dev.example.net.', ttl: 3600 },
+      { name: 'www.example.com.', type: 'A', value: '203.0.113.10\n203.0.113.11', ttl: 300 },
+    ]);
+  });
+
+  test('should write multi-value sets and alias records', async () => {
+    await service.changeDNSRecords('Z2', [
+      { action: 'UPSERT', record: { name: 'www.example.com.', type: 'A', value: '203.0.113.10\n203.0.113.11', ttl: 300 } },
+      {
+        action: 'DELETE',
+        record: {
+          name: 'app.example.com.',
+          type: 'A',
+          value: 'my-lb-123.us-east-1.elb.amazonaws.com.',
+          ttl: 60,
+          alias: { hostedZoneId: 'Z35SXDOTRQ7X7K', evaluateTargetHealth: true },
+        },
+      },
+    ]);
+
+    const command = send.mock.calls[0][0] as ChangeResourceRecordSetsCommand;
+    expect(command.input.ChangeBatch!.Changes).toEqual([
+      {
+        Action: 'UPSERT',
+        ResourceRecordSet: {
+          Name: 'www.example.com.',
+          Type: 'A',
+          TTL: 300,
+          ResourceRecords: [{ Value: '203.0.113.10' }, { Value: '203.0.113.11' }],
+        },
+      },
+      {
+        Action: 'DELETE',
+        ResourceRecordSet: {
+          Name: 'app.example.com.',
+          Type: 'A',
+          AliasTarget: { HostedZoneId: 'Z35SXDOTRQ7X7K', DNSName: 'my-lb-123.us-east-1.elb.amazonaws.com.', EvaluateTargetHealth: true },
+        },
+      },
+    ]);
+  });
+
+  test('should return the change ID and follow it until INSYNC', async () => {
+    const change = await service.upsertDNSRecords('Z2', [{ name: 'www.example.com.', type: 'A', value: '203.0.113.10', ttl: 300 }]);
+
+    expect(change).toEqual({ id: 'C2682N5HXP0BZ4', status: 'PENDING', submittedAt: '2024-01-01T00:00:00.000Z' });
+    expect(await service.getChange(change.id!)).toMatchObject({ id: 'C2682N5HXP0BZ4', status: 'INSYNC' });
+    expect(send.mock.calls[1][0].input).toEqual({ Id: 'C2682N5HXP0BZ4' });
+  });
+});
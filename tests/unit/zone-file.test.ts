@@ -0,0 +1,149 @@
+import { describe, test, expect, mock, beforeEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { runMigrations } from '../../src/lib/database/migration';
+import { DomainModel } from '../../src/lib/models/domain';
+import { DNSRecordModel } from '../../src/lib/models/dns-record';
+import { DNSConflictValidationService } from '../../src/lib/services/dns-conflict-validation';
+import { ZoneFileService, formatZoneFile, parseZoneFile } from '../../src/lib/services/zone-file';
+import type { DNSProvider } from '../../src/lib/services/dns-provider';
+
+const ZONE = `
+$ORIGIN example.com.
+$TTL 1h
+@   IN  SOA ns1.example.com. hostmaster.example.com. (
+        2024010101 ; serial
+        7200 900 1209600 86400 )
+@       IN  NS    ns1.example.net.
+@       IN  MX    10 mail
+        IN  MX    20 mail.backup.net.
+@   300 IN  TXT   "v=spf1 include:_spf.example.net -all"
+www 300 IN  A     203.0.113.10
+www 300 IN  A     203.0.113.11 ; second address
+api     IN  CNAME www
+_sip._tcp 600 SRV 10 5 5060 sip
+@       CAA   0 issue "letsencrypt.org"
+`;
+
+describe('parseZoneFile', () => {
+  test('should group record sets and qualify relative names', () => {
+    const parsed = parseZoneFile(ZONE, 'example.com');
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.records).toEqual([
+      { name: 'example.com.', type: 'MX', value: '10 mail.example.com.\n20 mail.backup.net.', ttl: 3600 },
+      { name: 'example.com.', type: 'TXT', value: '"v=spf1 include:_spf.example.net -all"', ttl: 300 },
+      { name: 'www.example.com.', type: 'A', value: '203.0.113.10\n203.0.113.11', ttl: 300 },
+      { name: 'api.example.com.', type: 'CNAME', value: 'www.example.com.', ttl: 3600 },
+      { name: '_sip._tcp.example.com.', type: 'SRV', value: '10 5 5060 sip.example.com.', ttl: 600 },
+      { name: 'example.com.', type: 'CAA', value: '0 issue "letsencrypt.org"', ttl: 3600 },
+    ]);
+    expect(parsed.warnings).toContain('Skipped the SOA and apex NS records; the DNS provider manages them');
+  });
+
+  test('should report lines it cannot import', () => {
+    const parsed = parseZoneFile([
+      '$INCLUDE other.zone',
+      'www IN NAPTR 100 10 "U" "E2U+sip" "" .',
+      'other.org. IN A 203.0.113.1',
+      'api IN CNAME www',
+      'api IN TXT "hello"',
+    ].join('\n'), 'example.com');
+
+    expect(parsed.errors).toEqual([
+      'line 1: unsupported directive $INCLUDE other.zone',
+      'line 2: unsupported record type NAPTR',
+      'line 3: other.org. is outside the zone example.com.',
+      'CNAME api.example.com. cannot share its name with TXT records',
+    ]);
+  });
+
+  test('should read back what it exports', () => {
+    const records = parseZoneFile(ZONE, 'example.com').records;
+    const exported = formatZoneFile('example.com', records.map((record, i) => ({
+      ...record,
+      id: i + 1,
+      domain_id: 1,
+      source: 'cloud_router' as const,
+      created_at: '',
+      updated_at: '',
+    })));
+
+    expect(parseZoneFile(exported, 'example.com').records).toEqual(records);
+  });
+});
+
+describe('ZoneFileService', () => {
+  let dnsRecordModel: DNSRecordModel;
+  let service: ZoneFileService;
+
+  const mockDNSProvider = {
+    changeDNSRecords: mock(() => Promise.resolve({ id: 'C123', status: 'PENDING', submittedAt: new Date().toISOString() })),
+  };
+
+  beforeEach(async () => {
+    const db = new Database(':memory:');
+    await runMigrations(db);
+    const domainModel = new DomainModel(db);
+    dnsRecordModel = new DNSRecordModel(db);
+    domainModel.create({ name: 'example.com', hosted_zone_id: 'Z123', delegation_status: 'completed' });
+    dnsRecordModel.create({ domain_id: 1, name: 'www.example.com.', type: 'A', value: '203.0.113.10', ttl: 300, source: 'provider' });
+    dnsRecordModel.create({ domain_id: 1, name: 'mail.example.com.', type: 'A', value: '203.0.113.20', ttl: 300, source: 'cloud_router' });
+    mockDNSProvider.changeDNSRecords.mockClear();
+
+    service = new ZoneFileService(
+      mockDNSProvider as unknown as DNSProvider,
+      new DNSConflictValidationService(dnsRecordModel, domainModel),
+      dnsRecordModel,
+      domainModel
+    );
+  });
+
+  test('should preview creates, updates and unchanged records', async () => {
+    const preview = await service.previewImport(1, [
+      'www 300 IN A 203.0.113.10',
+      'www 300 IN A 203.0.113.11',
+      'mail 300 IN A 203.0.113.20',
+      'blog 300 IN CNAME www',
+    ].join('\n'));
+
+    expect(preview!.valid).toBe(true);
+    expect(preview!.entries.map(entry => [entry.record.name, entry.action])).toEqual([
+      ['www.example.com.', 'update'],
+      ['mail.example.com.', 'unchanged'],
+      ['blog.example.com.', 'create'],
+    ]);
+    expect(mockDNSProvider.changeDNSRecords).not.toHaveBeenCalled();
+  });
+
+  test('should apply the import in one change batch and write the records locally', async () => {
+    const result = await service.importZoneFile(1, 'www 300 IN A 203.0.113.10\nwww 300 IN A 203.0.113.11\nblog 300 IN CNAME www\n');
+
+    expect(result.success).toBe(true);
+    expect(mockDNSProvider.changeDNSRecords).toHaveBeenCalledTimes(1);
+    expect(mockDNSProvider.changeDNSRecords).toHaveBeenCalledWith('Z123', [
+      { action: 'UPSERT', record: { name: 'www.example.com.', type: 'A', value: '203.0.113.10\n203.0.113.11', ttl: 300 } },
+      { action: 'UPSERT', record: { name: 'blog.example.com.', type: 'CNAME', value: 'www.example.com.', ttl: 300 } },
+    ]);
+    expect(dnsRecordModel.findByDomainNameType(1, 'www.example.com.', 'A')!.value).toBe('203.0.113.10\n203.0.113.11');
+    expect(dnsRecordModel.findByDomainNameType(1, 'blog.example.com.', 'CNAME')).toMatchObject({ source: 'cloud_router' });
+  });
+
+  test('should import nothing when any record conflicts', async () => {
+    const result = await service.importZoneFile(1, 'blog 300 IN CNAME www\nmail 300 IN CNAME www\n');
+
+    expect(result).toMatchObject({ success: false, reason: 'invalid' });
+    expect(result.preview!.entries[0].errors).toEqual([]);
+    expect(result.preview!.entries[1].errors).toContain("DNS record name 'mail.example.com.' already exists with types: A");
+    expect(mockDNSProvider.changeDNSRecords).not.toHaveBeenCalled();
+    expect(dnsRecordModel.findByDomainNameType(1, 'blog.example.com.', 'CNAME')).toBeNull();
+  });
+
+  test('should leave the local records alone when the DNS provider rejects the batch', async () => {
+    mockDNSProvider.changeDNSRecords.mockImplementationOnce(() => Promise.reject(new Error('InvalidChangeBatch')));
+
+    const result = await service.importZoneFile(1, 'blog 300 IN CNAME www\n');
+
+    expect(result).toMatchObject({ success: false, reason: 'failed' });
+    expect(dnsRecordModel.countByDomainId(1)).toBe(2);
+  });
+});